@@ -3,3 +3,18 @@ export const CUSTOM_API_FIXED_PARAMS = {
     maxTokens: 1200,
     timeout: 10000,
 } as const
+
+/**
+ * Local Ollama models can take far longer than hosted APIs to produce the first token
+ * (the model is loaded into memory on first use), so they get their own, user-configurable timeout.
+ */
+export const OLLAMA_FIXED_PARAMS = {
+    temperature: 0.35,
+    maxTokens: 1200,
+} as const
+
+export const OLLAMA_TIMEOUT_SECONDS = {
+    default: 120,
+    min: 10,
+    max: 600,
+} as const
@@ -15,6 +15,11 @@ export {
 } from "./translationFontSize"
 
 export const CACHE_EXPIRY_MS = 7 * 24 * 60 * 60 * 1000 // 7 days
+
+/**
+ * chrome.runtime.Port name for streamed translations (see 2_background/messaging/TranslationStreamPort)
+ */
+export const TRANSLATION_STREAM_PORT_NAME = "translation-stream"
 export const UPDATE_CHECK_INTERVAL_MS = 24 * 60 * 60 * 1000 // 24 hours
 
 /**
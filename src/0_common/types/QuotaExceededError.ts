@@ -1,16 +1,19 @@
 /**
  * Quota Exceeded Error
  *
- * Custom error thrown when daily quota is exceeded
- * This is independent from APIError and is thrown by QuotaManager
+ * Custom error thrown when daily quota is exceeded, or when the custom API monthly budget is used up
+ * This is independent from APIError and is thrown by QuotaManager and TranslationService
  */
 
 export class QuotaExceededError extends Error {
-    public readonly quotaType: "translation" | "speech"
+    public readonly quotaType: "translation" | "speech" | "budget"
+    /** Short message for the tooltip (callers fall back to a generic text when absent) */
+    public readonly shortMessage?: string
 
-    constructor(quotaType: "translation" | "speech", message: string) {
+    constructor(quotaType: "translation" | "speech" | "budget", message: string, shortMessage?: string) {
         super(message)
         this.name = "QuotaExceededError"
         this.quotaType = quotaType
+        this.shortMessage = shortMessage
     }
 }
@@ -31,6 +31,10 @@ export interface TranslationContextData {
     targetLanguage?: string
     /** Use upgraded model when available (optional, used for refresh requests) */
     upgradeModel?: boolean
+    /** Translation style for the page (optional, defaults to the user setting) */
+    translationStyle?: TranslationStylePreference
+    /** Gloss added by immersive vocabulary rather than looked up by the user (not recorded in the vocabulary notebook) */
+    autoGloss?: boolean
 }
 
 /**
@@ -55,6 +59,138 @@ export interface FragmentTranslationContextData {
     targetLanguage?: string
     /** Use upgraded model when available (optional, used for refresh requests) */
     upgradeModel?: boolean
+    /** Translation style for the page (optional, defaults to the user setting) */
+    translationStyle?: TranslationStylePreference
+}
+
+/**
+ * Explanation request data (grammar and usage of a translated word or fragment)
+ */
+export interface ExplanationRequestData {
+    /** The word or fragment to explain */
+    text: string
+    /** Current translation shown in the modal */
+    translation: string
+    /** Whether the text is a single word or a fragment */
+    textType: "word" | "fragment"
+    /** Text before the target in the same sentence (optional) */
+    leadingText?: string
+    /** Text after the target in the same sentence (optional) */
+    trailingText?: string
+    /** Source language (optional, auto-detect if not provided) */
+    sourceLanguage?: string
+    /** Target language (default: 'zh') */
+    targetLanguage?: string
+}
+
+/**
+ * Reading request data (pronunciation of Chinese, Japanese or Korean text)
+ */
+export interface ReadingRequestData {
+    /** The translated text to annotate */
+    text: string
+    /** Text before the target in the same sentence (optional, disambiguates readings) */
+    leadingText?: string
+    /** Text after the target in the same sentence (optional) */
+    trailingText?: string
+    /** Source language ('zh', 'ja' or 'ko') */
+    sourceLanguage: string
+}
+
+/**
+ * Gloss request data (immersive vocabulary: several words of one paragraph in one request)
+ */
+export interface GlossRequestData {
+    /** Words to gloss, in paragraph order */
+    words: string[]
+    /** The paragraph the words appear in (gives each word its sense) */
+    paragraph: string
+    /** Language of the paragraph */
+    sourceLanguage: string
+    /** Target language (default: 'zh') */
+    targetLanguage?: string
+    /** Per-site translation style override (optional, default: user setting) */
+    translationStyle?: TranslationStylePreference
+}
+
+/**
+ * Reading of one piece of a text
+ */
+export interface ReadingSegment {
+    /** Piece of the original text */
+    text: string
+    /** Pinyin with tone marks (zh), hiragana (ja) or romaja (ko); empty when the piece needs no reading */
+    reading: string
+}
+
+/**
+ * Example sentence of an explanation
+ */
+export interface ExplanationExample {
+    sentence: string
+    translation: string
+}
+
+/**
+ * One sense of a looked-up word (alternative meanings list in the detail modal)
+ */
+export interface WordSense {
+    /** Translation of the word in this sense */
+    translation: string
+    /** Short gloss of the sense, in the target language */
+    gloss?: string
+    /** Short example sentence using the word in this sense, in the source language */
+    example?: string
+}
+
+/**
+ * Grammar and usage explanation shown in the detail modal
+ */
+export interface TranslationExplanation {
+    /** Part of speech (or phrase type for fragments) */
+    partOfSpeech?: string
+    /** Grammatical role in the sentence */
+    grammaticalRole: string
+    /** Idioms and collocations */
+    collocations: string[]
+    /** Register and usage notes */
+    register?: string
+    /** 2-3 example sentences */
+    examples: ExplanationExample[]
+}
+
+/**
+ * One turn of a follow-up conversation about a translation
+ */
+export interface FollowUpTurn {
+    role: "user" | "assistant"
+    content: string
+}
+
+/**
+ * Follow-up question request data (chat about a translation in the detail modal)
+ */
+export interface FollowUpRequestData {
+    /** The word or fragment that was translated */
+    text: string
+    /** Translation shown in the modal */
+    translation: string
+    /** Sentence translation shown in the modal (optional) */
+    sentenceTranslation?: string
+    /** Whether the text is a single word or a fragment */
+    textType: "word" | "fragment"
+    /** Text before the target in the same sentence (optional) */
+    leadingText?: string
+    /** Text after the target in the same sentence (optional) */
+    trailingText?: string
+    /** Source language (optional, auto-detect if not provided) */
+    sourceLanguage?: string
+    /** Target language (default: 'zh') */
+    targetLanguage?: string
+    /** Earlier questions and answers of this anchor, oldest first */
+    history: FollowUpTurn[]
+    /** The new question */
+    question: string
 }
 
 /**
@@ -70,7 +206,19 @@ export interface SpeechSynthesisRequestData {
 /**
  * Message types for content-background communication
  */
-export type MessageType = "TRANSLATE_REQUEST" | "FRAGMENT_TRANSLATE_REQUEST" | "SPEECH_SYNTHESIS_REQUEST" | "SPEECH_STOP_REQUEST" | "POPUP_BOOTSTRAP_REQUEST"
+export type MessageType =
+    | "TRANSLATE_REQUEST"
+    | "FRAGMENT_TRANSLATE_REQUEST"
+    | "EXPLAIN_REQUEST"
+    | "FOLLOW_UP_REQUEST"
+    | "READING_REQUEST"
+    | "GLOSS_REQUEST"
+    | "VOCABULARY_WRITE_REQUEST"
+    | "ANNOTATION_WRITE_REQUEST"
+    | "OPEN_OPTIONS_REQUEST"
+    | "SPEECH_SYNTHESIS_REQUEST"
+    | "SPEECH_STOP_REQUEST"
+    | "POPUP_BOOTSTRAP_REQUEST"
 
 /**
  * Popup bootstrap request/response
@@ -90,6 +238,43 @@ export interface PopupBootstrapResponseMessage {
     }
 }
 
+/**
+ * Open the options page (content scripts cannot open it themselves)
+ */
+export interface OpenOptionsRequestMessage {
+    type: "OPEN_OPTIONS_REQUEST"
+}
+
+/**
+ * Bilingual mode request/response (popup or background → content script of a tab)
+ * - toggle: Turn whole-page bilingual reading on or off
+ * - status: Report whether it is on
+ */
+export interface BilingualModeRequestMessage {
+    type: "BILINGUAL_MODE_REQUEST"
+    action: "toggle" | "status"
+}
+
+export interface BilingualModeResponseMessage {
+    type: "BILINGUAL_MODE_RESPONSE"
+    active: boolean
+}
+
+/**
+ * Immersive vocabulary request/response (popup → content script of a tab)
+ * - toggle: Turn glossing on or off for the tab's site (saved in immersiveVocabularySites)
+ * - status: Report whether it is on for the tab's site
+ */
+export interface ImmersiveVocabularyRequestMessage {
+    type: "IMMERSIVE_VOCABULARY_REQUEST"
+    action: "toggle" | "status"
+}
+
+export interface ImmersiveVocabularyResponseMessage {
+    type: "IMMERSIVE_VOCABULARY_RESPONSE"
+    active: boolean
+}
+
 /**
  * Translation request message
  */
@@ -113,6 +298,10 @@ export interface TranslateResponseSuccessMessage {
         lemma?: string | null
         phonetic?: string
         lemmaPhonetic?: string
+        /** Contextual sense first, then other common senses (only for ambiguous words) */
+        senses?: WordSense[]
+        /** Provider that produced the result (may be a fallback provider) */
+        provider?: TranslationProvider
     }
 }
 
@@ -151,6 +340,8 @@ export interface FragmentTranslateResponseSuccessMessage {
     data: {
         translation: string
         sentenceTranslation?: string
+        /** Provider that produced the result (may be a fallback provider) */
+        provider?: TranslationProvider
     }
 }
 
@@ -172,6 +363,248 @@ export interface FragmentTranslateResponseErrorMessage {
  */
 export type FragmentTranslateResponseMessage = FragmentTranslateResponseSuccessMessage | FragmentTranslateResponseErrorMessage
 
+/**
+ * Explanation request message
+ */
+export interface ExplainRequestMessage {
+    type: "EXPLAIN_REQUEST"
+    data: ExplanationRequestData
+}
+
+/**
+ * Explanation response message (success)
+ */
+export interface ExplainResponseSuccessMessage {
+    type: "EXPLAIN_RESPONSE"
+    success: true
+    data: TranslationExplanation
+}
+
+/**
+ * Explanation response message (error)
+ */
+export interface ExplainResponseErrorMessage {
+    type: "EXPLAIN_RESPONSE"
+    success: false
+    error: string
+    /** Error type to distinguish TranslationError from generic errors (ProviderUnavailable: no LLM provider is configured) */
+    errorType?: "TranslationError" | "QuotaExceeded" | "ProviderUnavailable" | "GenericError"
+    /** Optional short error text for tooltip display */
+    shortMessage?: string
+}
+
+/**
+ * Explanation response message (union type)
+ */
+export type ExplainResponseMessage = ExplainResponseSuccessMessage | ExplainResponseErrorMessage
+
+/**
+ * Follow-up question request message
+ */
+export interface FollowUpRequestMessage {
+    type: "FOLLOW_UP_REQUEST"
+    data: FollowUpRequestData
+}
+
+/**
+ * Follow-up question response message (success)
+ */
+export interface FollowUpResponseSuccessMessage {
+    type: "FOLLOW_UP_RESPONSE"
+    success: true
+    data: {
+        reply: string
+        /** Provider that produced the reply (may be a fallback provider) */
+        provider?: TranslationProvider
+    }
+}
+
+/**
+ * Follow-up question response message (error)
+ */
+export interface FollowUpResponseErrorMessage {
+    type: "FOLLOW_UP_RESPONSE"
+    success: false
+    error: string
+    /** Error type to distinguish TranslationError from generic errors and quota exceeded (ProviderUnavailable: no LLM provider is configured) */
+    errorType?: "TranslationError" | "QuotaExceeded" | "ProviderUnavailable" | "GenericError"
+    /** Optional short error text for tooltip display */
+    shortMessage?: string
+}
+
+/**
+ * Follow-up question response message (union type)
+ */
+export type FollowUpResponseMessage = FollowUpResponseSuccessMessage | FollowUpResponseErrorMessage
+
+/**
+ * Reading request message
+ */
+export interface ReadingRequestMessage {
+    type: "READING_REQUEST"
+    data: ReadingRequestData
+}
+
+/**
+ * Reading response message (success)
+ */
+export interface ReadingResponseSuccessMessage {
+    type: "READING_RESPONSE"
+    success: true
+    data: {
+        segments: ReadingSegment[]
+        /** Provider that produced the reading */
+        provider?: TranslationProvider
+    }
+}
+
+/**
+ * Reading response message (error)
+ */
+export interface ReadingResponseErrorMessage {
+    type: "READING_RESPONSE"
+    success: false
+    error: string
+    /** Error type to distinguish TranslationError from generic errors and quota exceeded */
+    errorType?: "TranslationError" | "QuotaExceeded" | "GenericError"
+    /** Optional short error text for tooltip display */
+    shortMessage?: string
+}
+
+/**
+ * Reading response message (union type)
+ */
+export type ReadingResponseMessage = ReadingResponseSuccessMessage | ReadingResponseErrorMessage
+
+/**
+ * Gloss request message
+ */
+export interface GlossRequestMessage {
+    type: "GLOSS_REQUEST"
+    data: GlossRequestData
+}
+
+/**
+ * Gloss response message (success)
+ */
+export interface GlossResponseSuccessMessage {
+    type: "GLOSS_RESPONSE"
+    success: true
+    data: {
+        /** One gloss per word the provider translated, in request order */
+        glosses: Array<{ word: string; translation: string }>
+        /** Provider that produced the glosses */
+        provider?: TranslationProvider
+    }
+}
+
+/**
+ * Gloss response message (error)
+ */
+export interface GlossResponseErrorMessage {
+    type: "GLOSS_RESPONSE"
+    success: false
+    error: string
+    /** Error type to distinguish TranslationError from generic errors and quota exceeded */
+    errorType?: "TranslationError" | "QuotaExceeded" | "GenericError"
+    /** Optional short error text for tooltip display */
+    shortMessage?: string
+}
+
+/**
+ * Gloss response message (union type)
+ */
+export type GlossResponseMessage = GlossResponseSuccessMessage | GlossResponseErrorMessage
+
+/**
+ * Vocabulary notebook write (any page → background, which runs every notebook write in one queue)
+ * - selectSense: Record the sense picked in the detail modal
+ * - update: Save fields edited on the vocabulary page
+ * - grade: Persist a review grade
+ * - delete: Remove an entry
+ */
+export type VocabularyWriteRequestData =
+    | {
+          operation: "selectSense"
+          word: string
+          lemma?: string | null
+          targetLanguage: string
+          sense: WordSense
+          contextualSense: WordSense
+      }
+    | { operation: "update"; id: string; patch: Partial<Pick<VocabularyEntry, VocabularyEditableField>> }
+    | { operation: "grade"; id: string; grade: ReviewGrade }
+    | { operation: "delete"; id: string }
+
+/**
+ * Vocabulary write request message
+ */
+export interface VocabularyWriteRequestMessage {
+    type: "VOCABULARY_WRITE_REQUEST"
+    data: VocabularyWriteRequestData
+}
+
+/**
+ * Vocabulary write response message
+ * entry is the written entry, or null if it does not exist (or was deleted)
+ */
+export type VocabularyWriteResponseMessage =
+    | { type: "VOCABULARY_WRITE_RESPONSE"; success: true; data: { entry: VocabularyEntry | null } }
+    | { type: "VOCABULARY_WRITE_RESPONSE"; success: false; error: string }
+
+/**
+ * Saved page annotation write (content script → background, which runs every annotation write in one queue)
+ * - save: Insert or overwrite an annotation of a page
+ * - remove: Delete an annotation of a page
+ */
+export type AnnotationWriteRequestData =
+    | { operation: "save"; pageUrl: string; annotation: PersistedAnnotation }
+    | { operation: "remove"; pageUrl: string; annotationId: string }
+
+/**
+ * Annotation write request message
+ */
+export interface AnnotationWriteRequestMessage {
+    type: "ANNOTATION_WRITE_REQUEST"
+    data: AnnotationWriteRequestData
+}
+
+/**
+ * Annotation write response message
+ */
+export type AnnotationWriteResponseMessage =
+    | { type: "ANNOTATION_WRITE_RESPONSE"; success: true }
+    | { type: "ANNOTATION_WRITE_RESPONSE"; success: false; error: string }
+
+/**
+ * Partial translation pushed over the translation stream port while the model is still generating
+ */
+export interface TranslationPartialMessage {
+    type: "TRANSLATION_PARTIAL"
+    data: {
+        translation: string
+        sentenceTranslation?: string
+    }
+}
+
+/**
+ * Posted by the background as soon as it accepts the request on a translation stream port
+ * After the ack the request is being translated, so the content script must not send it again.
+ */
+export interface TranslationAckMessage {
+    type: "TRANSLATION_ACK"
+}
+
+/**
+ * Request posted by the content script on a translation stream port (one request per port)
+ */
+export type TranslationStreamRequestMessage = TranslateRequestMessage | FragmentTranslateRequestMessage
+
+/**
+ * Messages posted by the background on a translation stream port: the ack, zero or more partials, then the final response
+ */
+export type TranslationStreamMessage = TranslationAckMessage | TranslationPartialMessage | TranslateResponseMessage | FragmentTranslateResponseMessage
+
 /**
  * Speech synthesis request message
  */
@@ -231,8 +664,26 @@ export type NetworkRegion = "auto" | "china" | "global"
  * - official: Official cloud API (default)
  * - customApi: User-provided LLM API
  * - mtranserver: Self-hosted MTranServer
+ * - anthropic: Anthropic Messages API (user-provided key)
+ * - ollama: Local models served by Ollama
+ */
+export type TranslationProvider = "official" | "customApi" | "mtranserver" | "anthropic" | "ollama"
+
+/**
+ * Translation register and tone
+ * - literal: Close to the source wording and structure
+ * - natural: Idiomatic, as a native speaker would say it
+ * - concise: As short as possible
+ * - formal: Formal register
+ * - casual: Casual, conversational register
+ * - learner: Simpler vocabulary and structure for language learners
  */
-export type TranslationProvider = "official" | "customApi" | "mtranserver"
+export type TranslationStyle = "literal" | "natural" | "concise" | "formal" | "casual" | "learner"
+
+/**
+ * Translation style setting; "standard" leaves the register to the provider
+ */
+export type TranslationStylePreference = "standard" | TranslationStyle
 
 export interface CustomApiSettings {
     /** Custom API base URL */
@@ -243,6 +694,24 @@ export interface CustomApiSettings {
     model: string
 }
 
+export interface AnthropicApiSettings {
+    /** Anthropic API base URL (without the /v1/messages path) */
+    baseUrl: string
+    /** Anthropic API key */
+    apiKey: string
+    /** Claude model name */
+    model: string
+}
+
+export interface OllamaSettings {
+    /** Ollama server URL (without the /api path) */
+    baseUrl: string
+    /** Installed model name (as listed by /api/tags) */
+    model: string
+    /** Request timeout in seconds (local models may load slowly on first use) */
+    timeoutSeconds: number
+}
+
 export interface MTranserverSettings {
     /** MTranserver URL */
     url: string
@@ -267,10 +736,21 @@ export interface UserSettings {
     doubleClickSentenceTranslate: boolean
     /** Modifier key for sentence translation (meta, option, alt, ctrl) */
     doubleClickSentenceTriggerKey: TriggerKey
+    /**
+     * Whether Chinese, Japanese, Korean and Thai text is segmented into dictionary words:
+     * single-click picks the word under the cursor and one-word selections use the word path.
+     * Off: single-click skips these scripts and selections are translated as fragments.
+     */
+    segmentedWordLookup: boolean
     /** Whether to automatically adjust original text line-height for better display */
     autoAdjustHeight: boolean
     /** Whether to restore original line-height when all translations in a block are removed */
     restoreLineHeightOnClear: boolean
+    /**
+     * Whether translated Chinese, Japanese and Korean text also shows its reading above the characters
+     * (pinyin, kana or romaja as ruby annotations). Readings need an LLM provider.
+     */
+    rubyReading: boolean
     /** Whether to automatically play audio pronunciation for translated words */
     autoPlayAudio: boolean
     /** Target language for translation (zh, en, ja, ko, fr, es, ru) */
@@ -304,10 +784,34 @@ export interface UserSettings {
     iconColor: IconColor
     /** Translation provider selection */
     translationProvider: TranslationProvider
+    /** Providers tried in order when the primary provider fails (rate limit, timeout, provider error) */
+    fallbackProviders: TranslationProvider[]
     /** Custom API settings */
     customApi: CustomApiSettings
     /** MTranserver settings */
     mtranserver: MTranserverSettings
+    /** Anthropic Messages API settings */
+    anthropic: AnthropicApiSettings
+    /** Ollama local model settings */
+    ollama: OllamaSettings
+    /** Custom API price per million prompt tokens, used to estimate cost (0 = not set) */
+    customApiInputPricePerMillion: number
+    /** Custom API price per million completion tokens, used to estimate cost (0 = not set) */
+    customApiOutputPricePerMillion: number
+    /** Custom API spending limit per calendar month; requests are blocked once it is reached (0 = no limit) */
+    customApiMonthlyBudget: number
+    /** Active glossary domain; glossary entries scoped to other domains are ignored (empty = unscoped entries only) */
+    glossaryDomain: string
+    /** Preferred translation register and tone */
+    translationStyle: TranslationStylePreference
+    /** Per-site translation style overrides (hostname → style; a hostname also covers its subdomains) */
+    siteTranslationStyles: Record<string, TranslationStylePreference>
+    /** Sites with immersive vocabulary on (normalized hostnames; a hostname also covers its subdomains) */
+    immersiveVocabularySites: string[]
+    /** Immersive vocabulary skips words within this many of the most frequent English words */
+    immersiveVocabularyKnownRank: number
+    /** Maximum number of immersive vocabulary glosses within the viewport */
+    immersiveVocabularyMaxPerViewport: number
     /** Whether to suppress translation when the detected source language matches the target language */
     suppressNativeLanguage: boolean
     /** Network region preference for API calls (auto, china, global) */
@@ -327,8 +831,10 @@ export const DEFAULT_USER_SETTINGS: UserSettings = {
     doubleClickTranslateV2: false,
     doubleClickSentenceTranslate: true,
     doubleClickSentenceTriggerKey: "alt",
+    segmentedWordLookup: true,
     autoAdjustHeight: true,
     restoreLineHeightOnClear: false,
+    rubyReading: false,
     autoPlayAudio: true,
     targetLanguage: "en",
     translationFontSizePreset: "medium",
@@ -344,6 +850,7 @@ export const DEFAULT_USER_SETTINGS: UserSettings = {
     sentenceUnderlineColor: "#E9C46A",
     iconColor: "pink",
     translationProvider: "official",
+    fallbackProviders: [],
     customApi: {
         baseUrl: "",
         apiKey: "",
@@ -354,8 +861,201 @@ export const DEFAULT_USER_SETTINGS: UserSettings = {
         key: "",
         enabled: false,
     },
+    anthropic: {
+        baseUrl: "https://api.anthropic.com",
+        apiKey: "",
+        model: "",
+    },
+    ollama: {
+        baseUrl: "http://127.0.0.1:11434",
+        model: "",
+        timeoutSeconds: 120,
+    },
+    customApiInputPricePerMillion: 0,
+    customApiOutputPricePerMillion: 0,
+    customApiMonthlyBudget: 0,
+    glossaryDomain: "",
+    translationStyle: "standard",
+    siteTranslationStyles: {},
+    immersiveVocabularySites: [],
+    immersiveVocabularyKnownRank: 2000,
+    immersiveVocabularyMaxPerViewport: 8,
     suppressNativeLanguage: false,
     networkRegion: "auto",
 }
 
 export const DEFAULT_SUPPRESS_NATIVE_LANGUAGE = DEFAULT_USER_SETTINGS.suppressNativeLanguage
+
+/**
+ * Text-quote selector (W3C Web Annotation style)
+ */
+export interface TextQuoteSelector {
+    /** The annotated text itself */
+    exact: string
+    /** Text immediately before it (may be empty) */
+    prefix: string
+    /** Text immediately after it (may be empty) */
+    suffix: string
+}
+
+/**
+ * Successful translation result kept with a saved page annotation
+ */
+export interface PersistedAnnotationResult {
+    translation: string
+    sentenceTranslation?: string
+    chineseDefinition?: string
+    englishDefinition?: string
+    targetDefinition?: string
+    targetLanguage?: string
+    lemma?: string | null
+    phonetic?: string
+    lemmaPhonetic?: string
+    senses?: WordSense[]
+    /** Index of the sense picked in the modal (absent = contextual sense) */
+    selectedSenseIndex?: number
+    provider?: TranslationProvider
+    explanation?: TranslationExplanation
+}
+
+/**
+ * One saved translation anchor of a page
+ */
+export interface PersistedAnnotation {
+    /** Stable ID derived from type + selector */
+    id: string
+    translationType: "word" | "fragment"
+    selector: TextQuoteSelector
+    result: PersistedAnnotationResult
+    sourceLanguage?: string
+    updatedAt: number
+}
+
+/**
+ * Vocabulary notebook entry
+ * One entry per (target language, lemma) pair, refreshed on every successful word lookup
+ */
+export interface VocabularyEntry {
+    /** Stable entry ID derived from target language and lemma */
+    id: string
+    /** The word as it appeared on the page (latest lookup) */
+    word: string
+    /** Dictionary form of the word (null when the provider did not return one) */
+    lemma: string | null
+    /** IPA of the word as it appeared on the page */
+    phonetic?: string
+    /** IPA of the lemma */
+    lemmaPhonetic?: string
+    /** Word translation */
+    translation: string
+    /** Translation of the original sentence (optional) */
+    sentenceTranslation?: string
+    /** Sentence in which the word was looked up */
+    originalSentence?: string
+    /** URL of the page where the word was looked up */
+    pageUrl?: string
+    /** Title of the page where the word was looked up */
+    pageTitle?: string
+    /** Source language of the word (optional) */
+    sourceLanguage?: string
+    /** Target language of the translation */
+    targetLanguage: string
+    /** Sense picked in the detail modal instead of the contextual translation (latest lookup only) */
+    selectedSense?: VocabularySenseChoice
+    /** How many times the word has been looked up */
+    lookupCount: number
+    /** First lookup timestamp (ms) */
+    createdAt: number
+    /** Latest lookup timestamp (ms) */
+    lastLookedUpAt: number
+    /** Spaced-repetition scheduling state (absent until the first review) */
+    review?: VocabularyReviewState
+    /** Fields the user edited on the vocabulary page (later lookups keep them) */
+    editedFields?: VocabularyEditableField[]
+}
+
+/**
+ * Fields of a vocabulary entry the user can edit on the vocabulary page
+ */
+export type VocabularyEditableField = "word" | "lemma" | "phonetic" | "translation" | "originalSentence"
+
+/**
+ * Sense the user picked from the alternative meanings of a looked-up word
+ */
+export interface VocabularySenseChoice {
+    /** Translation of the picked sense */
+    translation: string
+    /** Gloss of the picked sense */
+    gloss?: string
+    /** Translation returned for the context, before the user's choice */
+    contextualTranslation: string
+    /** When the sense was picked (ms) */
+    selectedAt: number
+}
+
+/**
+ * SM-2 review grade (0 = complete blackout, 5 = perfect recall)
+ */
+export type ReviewGrade = 0 | 1 | 2 | 3 | 4 | 5
+
+/**
+ * SM-2 scheduling state of a vocabulary entry
+ */
+export interface VocabularyReviewState {
+    /** Ease factor (>= 1.3) */
+    easeFactor: number
+    /** Current interval in days */
+    intervalDays: number
+    /** Number of consecutive successful reviews */
+    repetitions: number
+    /** Next due timestamp (ms) */
+    dueAt: number
+    /** Last review timestamp (ms) */
+    lastReviewedAt: number
+    /** Grade given at the last review */
+    lastGrade: ReviewGrade
+}
+
+/**
+ * Glossary entry: preferred translation of a source term for one target language
+ */
+export interface GlossaryEntry {
+    /** Stable entry ID derived from target language, domain and source term */
+    id: string
+    /** Term as it appears in source text (matched case-insensitively) */
+    sourceTerm: string
+    /** Preferred translation of the term */
+    translation: string
+    /** Target language of the translation */
+    targetLanguage: string
+    /** Domain the entry is scoped to (e.g. "legal"); absent = applies in every domain */
+    domain?: string
+    /** Creation timestamp (ms) */
+    createdAt: number
+    /** Last edit timestamp (ms) */
+    updatedAt: number
+}
+
+/**
+ * Kind of request a custom API completion was made for
+ */
+export type UsageRequestType = "word" | "fragment" | "explanation" | "followUp" | "reading" | "gloss"
+
+/**
+ * Aggregated custom API token usage
+ */
+export interface TokenUsageTotals {
+    /** Number of completions */
+    requests: number
+    /** Tokens in the request messages */
+    promptTokens: number
+    /** Tokens in the generated responses */
+    completionTokens: number
+    /** Estimated cost, from the prices set when each completion was recorded */
+    cost: number
+}
+
+/**
+ * Custom API token usage: local day ("YYYY-MM-DD") → model → request type → totals
+ */
+export type TokenUsageStore = Record<string, Record<string, Partial<Record<UsageRequestType, TokenUsageTotals>>>>
@@ -0,0 +1,136 @@
+/**
+ * Annotation Storage Utility
+ *
+ * Stores the translations shown on a page (per URL, in chrome.storage.local) so they can be
+ * re-anchored and re-rendered when the page is visited again, without calling the provider.
+ *
+ * Each record holds a text-quote selector (see 1_content/utils/textQuoteAnchor) and the successful result.
+ * Pages are evicted least-recently-updated first once MAX_ANNOTATED_PAGES is reached.
+ *
+ * The write queue only covers one JS context, so every write runs in the background service worker;
+ * content scripts write through 1_content/services/annotationPersistence.
+ */
+
+import type * as types from "@/0_common/types"
+import * as loggerModule from "@/0_common/utils/logger"
+
+const logger = loggerModule.createLogger("0_common/utils/annotationStorage")
+
+export const ANNOTATIONS_STORAGE_KEY = "pageAnnotations"
+export const MAX_ANNOTATED_PAGES = 200
+
+interface PageAnnotations {
+    updatedAt: number
+    annotations: Record<string, types.PersistedAnnotation>
+}
+
+type AnnotationStore = Record<string, PageAnnotations>
+
+// Serialize read-modify-write cycles so concurrent saves don't drop each other
+let writeQueue: Promise<unknown> = Promise.resolve()
+
+function enqueueWrite<T>(task: () => Promise<T>): Promise<T> {
+    const next = writeQueue.then(task, task)
+    writeQueue = next.catch(() => undefined)
+    return next
+}
+
+async function readStore(): Promise<AnnotationStore> {
+    const result = await chrome.storage.local.get(ANNOTATIONS_STORAGE_KEY)
+    return (result[ANNOTATIONS_STORAGE_KEY] as AnnotationStore | undefined) ?? {}
+}
+
+async function writeStore(store: AnnotationStore): Promise<void> {
+    await chrome.storage.local.set({ [ANNOTATIONS_STORAGE_KEY]: store })
+}
+
+function evictOldPages(store: AnnotationStore): void {
+    const pages = Object.entries(store)
+    if (pages.length <= MAX_ANNOTATED_PAGES) return
+
+    pages
+        .sort(([, a], [, b]) => a.updatedAt - b.updatedAt)
+        .slice(0, pages.length - MAX_ANNOTATED_PAGES)
+        .forEach(([url]) => delete store[url])
+}
+
+/**
+ * Normalize a page URL for use as a storage key (the fragment is ignored)
+ *
+ * @param url - Page URL
+ * @returns URL without its #hash
+ */
+export function normalizePageUrl(url: string): string {
+    const hashIndex = url.indexOf("#")
+    return hashIndex === -1 ? url : url.slice(0, hashIndex)
+}
+
+/**
+ * Build the stable annotation ID for a selector
+ * Re-translating the same text in the same place overwrites the existing record.
+ *
+ * @param translationType - Word or fragment
+ * @param selector - Text-quote selector
+ * @returns Annotation ID
+ */
+export function buildAnnotationId(translationType: "word" | "fragment", selector: types.TextQuoteSelector): string {
+    return JSON.stringify([translationType, selector.exact, selector.prefix, selector.suffix])
+}
+
+/**
+ * Get the annotations saved for a page
+ *
+ * @param pageUrl - Page URL
+ * @returns Saved annotations, oldest first
+ */
+export async function getPageAnnotations(pageUrl: string): Promise<types.PersistedAnnotation[]> {
+    const store = await readStore()
+    const page = store[normalizePageUrl(pageUrl)]
+    if (!page) return []
+    return Object.values(page.annotations).sort((a, b) => a.updatedAt - b.updatedAt)
+}
+
+/**
+ * Save (insert or overwrite) an annotation for a page
+ *
+ * @param annotation - Annotation to save
+ * @param pageUrl - Page URL
+ */
+export function saveAnnotation(annotation: types.PersistedAnnotation, pageUrl: string): Promise<void> {
+    return enqueueWrite(async () => {
+        const store = await readStore()
+        const url = normalizePageUrl(pageUrl)
+        const page = store[url] ?? { updatedAt: annotation.updatedAt, annotations: {} }
+
+        page.annotations[annotation.id] = annotation
+        page.updatedAt = annotation.updatedAt
+        store[url] = page
+        evictOldPages(store)
+
+        await writeStore(store)
+        logger.debug("Annotation saved:", annotation.id)
+    })
+}
+
+/**
+ * Remove an annotation from a page
+ *
+ * @param annotationId - Annotation ID
+ * @param pageUrl - Page URL
+ */
+export function removeAnnotation(annotationId: string, pageUrl: string): Promise<void> {
+    return enqueueWrite(async () => {
+        const store = await readStore()
+        const url = normalizePageUrl(pageUrl)
+        const page = store[url]
+        if (!page || !page.annotations[annotationId]) return
+
+        delete page.annotations[annotationId]
+        if (Object.keys(page.annotations).length === 0) {
+            delete store[url]
+        }
+
+        await writeStore(store)
+        logger.debug("Annotation removed:", annotationId)
+    })
+}
@@ -0,0 +1,292 @@
+/**
+ * Glossary Export Utility
+ *
+ * Converts the glossary to and from files for sharing within a team:
+ * 1. CSV (RFC 4180 quoting, UTF-8 BOM) with the columns Source Term, Translation, Target Language, Domain
+ * 2. TBX (TermBase eXchange, TBX-Basic): one concept entry per source term and domain,
+ *    with the source term and one language section per target language
+ *
+ * Parsing is tolerant: CSV columns are located by header name when a header row is present,
+ * and TBX files from other tools (TBX v2 `termEntry`/`langSet` or v3 `conceptEntry`/`langSec`) are accepted.
+ */
+
+import type * as types from "@/0_common/types"
+import type { GlossaryEntryInput } from "@/0_common/utils/glossaryStorage"
+
+export type GlossaryExportFormat = "csv" | "tbx"
+
+/**
+ * Serialized export file
+ */
+export interface GlossaryExportFile {
+    content: string
+    mimeType: string
+    fileName: string
+}
+
+/**
+ * Language tag for source terms; the glossary does not record the source language
+ */
+export const GLOSSARY_UNDETERMINED_LANGUAGE = "und"
+
+const CSV_COLUMNS = ["Source Term", "Translation", "Target Language", "Domain"] as const
+
+const CSV_HEADER_ALIASES: Record<keyof GlossaryEntryInput, string[]> = {
+    sourceTerm: ["source term", "source", "term", "source_term"],
+    translation: ["translation", "target term", "target", "target_term"],
+    targetLanguage: ["target language", "language", "target_language", "lang"],
+    domain: ["domain", "subject", "subject field"],
+}
+
+const MIME_TYPES: Record<GlossaryExportFormat, string> = {
+    csv: "text/csv;charset=utf-8",
+    tbx: "application/x-tbx+xml;charset=utf-8",
+}
+
+const UTF8_BOM = "\uFEFF"
+
+function escapeCsvField(value: string): string {
+    if (/[",\r\n]/.test(value)) {
+        return `"${value.replace(/"/g, '""')}"`
+    }
+    return value
+}
+
+function escapeXml(value: string): string {
+    return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;")
+}
+
+function unescapeXml(value: string): string {
+    return value
+        .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1")
+        .replace(/<[^>]+>/g, "")
+        .replace(/&#x([0-9a-fA-F]+);/g, (_, hex: string) => String.fromCodePoint(parseInt(hex, 16)))
+        .replace(/&#(\d+);/g, (_, code: string) => String.fromCodePoint(Number(code)))
+        .replace(/&lt;/g, "<")
+        .replace(/&gt;/g, ">")
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'")
+        .replace(/&amp;/g, "&")
+        .trim()
+}
+
+function formatDateStamp(timestamp: number): string {
+    const date = new Date(timestamp)
+    const year = date.getFullYear()
+    const month = String(date.getMonth() + 1).padStart(2, "0")
+    const day = String(date.getDate()).padStart(2, "0")
+    return `${year}-${month}-${day}`
+}
+
+function toCsv(entries: types.GlossaryEntry[]): string {
+    const lines = [CSV_COLUMNS.join(",")]
+    for (const entry of entries) {
+        lines.push([entry.sourceTerm, entry.translation, entry.targetLanguage, entry.domain ?? ""].map(escapeCsvField).join(","))
+    }
+    return UTF8_BOM + lines.join("\r\n") + "\r\n"
+}
+
+function toTbx(entries: types.GlossaryEntry[], sourceLanguage: string): string {
+    // One concept per source term and domain, holding every target language
+    const concepts = new Map<string, types.GlossaryEntry[]>()
+    for (const entry of entries) {
+        const key = `${(entry.domain ?? "").toLowerCase()}\u0000${entry.sourceTerm.toLowerCase()}`
+        concepts.set(key, [...(concepts.get(key) ?? []), entry])
+    }
+
+    const lines = [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        `<tbx type="TBX-Basic" style="dca" xml:lang="${escapeXml(sourceLanguage)}" xmlns="urn:iso:std:iso:30042:ed-2">`,
+        "  <tbxHeader>",
+        "    <fileDesc>",
+        "      <sourceDesc>",
+        "        <p>TapWord glossary</p>",
+        "      </sourceDesc>",
+        "    </fileDesc>",
+        "  </tbxHeader>",
+        "  <text>",
+        "    <body>",
+    ]
+
+    let index = 0
+    for (const group of concepts.values()) {
+        const first = group[0] as types.GlossaryEntry
+        index++
+        lines.push(`      <conceptEntry id="c${index}">`)
+        if (first.domain) {
+            lines.push(`        <descrip type="subjectField">${escapeXml(first.domain)}</descrip>`)
+        }
+        lines.push(`        <langSec xml:lang="${escapeXml(sourceLanguage)}">`)
+        lines.push(`          <termSec><term>${escapeXml(first.sourceTerm)}</term></termSec>`)
+        lines.push("        </langSec>")
+        for (const entry of group) {
+            lines.push(`        <langSec xml:lang="${escapeXml(entry.targetLanguage)}">`)
+            lines.push(`          <termSec><term>${escapeXml(entry.translation)}</term></termSec>`)
+            lines.push("        </langSec>")
+        }
+        lines.push("      </conceptEntry>")
+    }
+
+    lines.push("    </body>", "  </text>", "</tbx>")
+    return lines.join("\n") + "\n"
+}
+
+/**
+ * Serialize glossary entries to an export file
+ *
+ * @param entries - Glossary entries
+ * @param format - Export format (csv, tbx)
+ * @param sourceLanguage - Language tag written for source terms in TBX (default: "und")
+ * @param now - Timestamp used in the file name (defaults to Date.now())
+ * @returns File content, MIME type and suggested file name
+ *
+ * @example
+ * ```typescript
+ * const file = exportGlossary(entries, 'tbx')
+ * // file.fileName === 'tapword-glossary-2026-01-15.tbx'
+ * ```
+ */
+export function exportGlossary(
+    entries: types.GlossaryEntry[],
+    format: GlossaryExportFormat,
+    sourceLanguage: string = GLOSSARY_UNDETERMINED_LANGUAGE,
+    now: number = Date.now()
+): GlossaryExportFile {
+    return {
+        content: format === "csv" ? toCsv(entries) : toTbx(entries, sourceLanguage),
+        mimeType: MIME_TYPES[format],
+        fileName: `tapword-glossary-${formatDateStamp(now)}.${format}`,
+    }
+}
+
+/**
+ * Split CSV text into rows of fields (RFC 4180: quoted fields may contain commas, quotes and newlines)
+ */
+function parseCsvRows(text: string): string[][] {
+    const rows: string[][] = []
+    let row: string[] = []
+    let field = ""
+    let inQuotes = false
+
+    for (let index = 0; index < text.length; index++) {
+        const char = text[index] as string
+        if (inQuotes) {
+            if (char === '"' && text[index + 1] === '"') {
+                field += '"'
+                index++
+            } else if (char === '"') {
+                inQuotes = false
+            } else {
+                field += char
+            }
+            continue
+        }
+
+        if (char === '"') {
+            inQuotes = true
+        } else if (char === ",") {
+            row.push(field)
+            field = ""
+        } else if (char === "\n" || char === "\r") {
+            if (char === "\r" && text[index + 1] === "\n") {
+                index++
+            }
+            row.push(field)
+            rows.push(row)
+            row = []
+            field = ""
+        } else {
+            field += char
+        }
+    }
+
+    if (field || row.length > 0) {
+        row.push(field)
+        rows.push(row)
+    }
+    return rows.filter((fields) => fields.some((value) => value.trim().length > 0))
+}
+
+/**
+ * Parse glossary entries from CSV
+ * A header row is detected by its column names; otherwise columns are read in export order.
+ *
+ * @param text - CSV file content
+ * @returns Entry fields (incomplete rows are kept; the importer skips them)
+ */
+export function parseGlossaryCsv(text: string): GlossaryEntryInput[] {
+    const rows = parseCsvRows(text.replace(/^\uFEFF/, ""))
+    if (rows.length === 0) {
+        return []
+    }
+
+    const header = (rows[0] as string[]).map((value) => value.trim().toLowerCase())
+    const columnIndex = (field: keyof GlossaryEntryInput): number => header.findIndex((name) => CSV_HEADER_ALIASES[field].includes(name))
+    const hasHeader = columnIndex("sourceTerm") !== -1 && columnIndex("translation") !== -1
+
+    const columns = hasHeader
+        ? {
+              sourceTerm: columnIndex("sourceTerm"),
+              translation: columnIndex("translation"),
+              targetLanguage: columnIndex("targetLanguage"),
+              domain: columnIndex("domain"),
+          }
+        : { sourceTerm: 0, translation: 1, targetLanguage: 2, domain: 3 }
+    const read = (fields: string[], index: number): string => (index >= 0 ? (fields[index] ?? "").trim() : "")
+
+    return rows.slice(hasHeader ? 1 : 0).map((fields) => ({
+        sourceTerm: read(fields, columns.sourceTerm),
+        translation: read(fields, columns.translation),
+        targetLanguage: read(fields, columns.targetLanguage),
+        domain: read(fields, columns.domain) || undefined,
+    }))
+}
+
+/**
+ * Parse glossary entries from TBX
+ * The source language is the root `xml:lang`; when it is missing or undetermined, the first
+ * language section of each concept holds the source term. Every other language section becomes an entry.
+ *
+ * @param text - TBX file content
+ * @returns Entry fields
+ */
+export function parseGlossaryTbx(text: string): GlossaryEntryInput[] {
+    const rootLanguage = /<(?:tbx|martif)\b[^>]*\bxml:lang="([^"]+)"/.exec(text)?.[1]?.toLowerCase()
+    const sourceLanguage = rootLanguage && rootLanguage !== GLOSSARY_UNDETERMINED_LANGUAGE ? rootLanguage : undefined
+    const inputs: GlossaryEntryInput[] = []
+
+    for (const concept of text.matchAll(/<(conceptEntry|termEntry)\b[^>]*>([\s\S]*?)<\/\1>/g)) {
+        const body = concept[2] as string
+        const domainMatch = /<descrip\b[^>]*type="subjectField"[^>]*>([\s\S]*?)<\/descrip>/.exec(body)
+        const domain = domainMatch ? unescapeXml(domainMatch[1] as string) || undefined : undefined
+
+        const languages = Array.from(body.matchAll(/<(langSec|langSet)\b[^>]*\bxml:lang="([^"]+)"[^>]*>([\s\S]*?)<\/\1>/g), (match) => {
+            const termMatch = /<term\b[^>]*>([\s\S]*?)<\/term>/.exec(match[3] as string)
+            return { language: (match[2] as string).toLowerCase(), term: termMatch ? unescapeXml(termMatch[1] as string) : "" }
+        }).filter((section) => section.term.length > 0)
+
+        const sourceIndex = sourceLanguage ? languages.findIndex((section) => section.language.split("-")[0] === sourceLanguage.split("-")[0]) : 0
+        const source = languages[sourceIndex]
+        if (!source) {
+            continue
+        }
+
+        languages.forEach((section, index) => {
+            if (index === sourceIndex) return
+            inputs.push({ sourceTerm: source.term, translation: section.term, targetLanguage: section.language.split("-")[0] as string, domain })
+        })
+    }
+
+    return inputs
+}
+
+/**
+ * Parse a glossary file by its extension (.tbx, otherwise CSV)
+ *
+ * @param fileName - Name of the imported file
+ * @param text - File content
+ * @returns Entry fields
+ */
+export function parseGlossaryFile(fileName: string, text: string): GlossaryEntryInput[] {
+    return /\.(tbx|xml)$/i.test(fileName) ? parseGlossaryTbx(text) : parseGlossaryCsv(text)
+}
@@ -0,0 +1,113 @@
+/**
+ * Glossary Matcher Utility
+ *
+ * Finds glossary entries that occur in a selection and its context, and applies
+ * preferred translations to machine-translated text.
+ *
+ * Terms are matched case-insensitively. For scripts that separate words with spaces
+ * (Latin, Cyrillic, Greek) a term must match whole words, so "art" does not match "party";
+ * terms in scripts without spaces (e.g. Chinese, Japanese) match anywhere.
+ */
+
+import type * as types from "@/0_common/types"
+
+/**
+ * Replacement applied to translated text
+ */
+export interface GlossarySubstitution {
+    /** Text to look for (case-insensitive) */
+    from: string
+    /** Preferred translation */
+    to: string
+}
+
+const WORD_EDGE_PATTERN = /[\p{Script=Latin}\p{Script=Cyrillic}\p{Script=Greek}\p{N}_]/u
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+}
+
+/**
+ * Build a case-insensitive pattern for a term, with word boundaries on edges in spaced scripts
+ */
+function buildTermPattern(term: string, flags: string): RegExp {
+    const first = term.charAt(0)
+    const last = term.charAt(term.length - 1)
+    const prefix = WORD_EDGE_PATTERN.test(first) ? "(?<![\\p{L}\\p{N}_])" : ""
+    const suffix = WORD_EDGE_PATTERN.test(last) ? "(?![\\p{L}\\p{N}_])" : ""
+    return new RegExp(`${prefix}${escapeRegExp(term)}${suffix}`, `${flags}iu`)
+}
+
+/**
+ * Check whether an entry applies to a target language and active domain
+ * Unscoped entries apply in every domain; scoped entries only in their own domain.
+ */
+function isEntryActive(entry: types.GlossaryEntry, targetLanguage: string, domain: string): boolean {
+    const language = (targetLanguage.split("-")[0] ?? targetLanguage).toLowerCase()
+    if (entry.targetLanguage.toLowerCase() !== language) {
+        return false
+    }
+    return !entry.domain || entry.domain.toLowerCase() === domain.trim().toLowerCase()
+}
+
+/**
+ * Find glossary entries whose source term occurs in the given text
+ *
+ * @param entries - All glossary entries
+ * @param text - Selection and surrounding context
+ * @param targetLanguage - Target language of the translation
+ * @param domain - Active glossary domain (empty = unscoped entries only)
+ * @returns One entry per matched term (domain-scoped entries win over unscoped ones), longest terms first
+ *
+ * @example
+ * ```typescript
+ * findGlossaryMatches(entries, 'Install TapWord on Chrome.', 'zh', '') // [{ sourceTerm: 'TapWord', translation: 'TapWord', ... }]
+ * ```
+ */
+export function findGlossaryMatches(entries: types.GlossaryEntry[], text: string, targetLanguage: string, domain: string): types.GlossaryEntry[] {
+    if (!text.trim()) {
+        return []
+    }
+
+    const byTerm = new Map<string, types.GlossaryEntry>()
+    for (const entry of entries) {
+        if (!isEntryActive(entry, targetLanguage, domain) || !buildTermPattern(entry.sourceTerm, "").test(text)) {
+            continue
+        }
+        const key = entry.sourceTerm.toLowerCase()
+        const existing = byTerm.get(key)
+        if (!existing || (!existing.domain && entry.domain)) {
+            byTerm.set(key, entry)
+        }
+    }
+
+    return [...byTerm.values()].sort((a, b) => b.sourceTerm.length - a.sourceTerm.length)
+}
+
+/**
+ * Find the entry whose source term is exactly the given text (ignoring case and surrounding whitespace)
+ *
+ * @param matches - Entries from findGlossaryMatches()
+ * @param text - Selected word or fragment
+ * @returns Matching entry, or undefined
+ */
+export function findExactGlossaryEntry(matches: types.GlossaryEntry[], text: string): types.GlossaryEntry | undefined {
+    const needle = text.trim().toLowerCase()
+    return matches.find((entry) => entry.sourceTerm.toLowerCase() === needle)
+}
+
+/**
+ * Replace text in a translation with preferred glossary translations
+ * Longer replacements are applied first so they are not broken up by shorter ones.
+ *
+ * @param text - Translated text
+ * @param substitutions - Replacements to apply
+ * @returns Text with every occurrence replaced
+ */
+export function applyGlossarySubstitutions(text: string, substitutions: GlossarySubstitution[]): string {
+    const ordered = substitutions
+        .filter((substitution) => substitution.from.trim() && substitution.from.trim().toLowerCase() !== substitution.to.trim().toLowerCase())
+        .sort((a, b) => b.from.length - a.from.length)
+
+    return ordered.reduce((output, substitution) => output.replace(buildTermPattern(substitution.from.trim(), "g"), () => substitution.to), text)
+}
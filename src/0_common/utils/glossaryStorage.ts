@@ -0,0 +1,209 @@
+/**
+ * Glossary Storage Utility
+ *
+ * Persists the terminology glossary in chrome.storage.local.
+ *
+ * Responsibilities:
+ * 1. Store preferred translations of source terms per target language, optionally scoped to a domain
+ * 2. Provide add/update, bulk import and delete operations for the options page
+ * 3. Serialize writes so concurrent edits don't overwrite each other
+ *
+ * Matching entries against text lives in glossaryMatcher; CSV/TBX files in glossaryExport.
+ */
+
+import type * as types from "@/0_common/types"
+import * as loggerModule from "@/0_common/utils/logger"
+
+const logger = loggerModule.createLogger("0_common/utils/glossaryStorage")
+
+/**
+ * Storage key for glossary data
+ */
+export const GLOSSARY_STORAGE_KEY = "glossary"
+
+/**
+ * User-provided fields of a glossary entry
+ */
+export interface GlossaryEntryInput {
+    sourceTerm: string
+    translation: string
+    targetLanguage: string
+    domain?: string
+}
+
+/**
+ * Result of a bulk import
+ */
+export interface GlossaryImportResult {
+    added: number
+    updated: number
+    skipped: number
+}
+
+type GlossaryStore = Record<string, types.GlossaryEntry>
+
+/**
+ * Pending write chain; every mutation is appended so read-modify-write cycles never interleave
+ */
+let writeQueue: Promise<unknown> = Promise.resolve()
+
+function enqueueWrite<T>(task: () => Promise<T>): Promise<T> {
+    const run = writeQueue.then(task, task)
+    writeQueue = run.catch(() => undefined)
+    return run
+}
+
+async function readStore(): Promise<GlossaryStore> {
+    const result = await chrome.storage.local.get(GLOSSARY_STORAGE_KEY)
+    const stored = result[GLOSSARY_STORAGE_KEY] as GlossaryStore | undefined
+    return stored && typeof stored === "object" ? stored : {}
+}
+
+async function writeStore(store: GlossaryStore): Promise<void> {
+    await chrome.storage.local.set({
+        [GLOSSARY_STORAGE_KEY]: store,
+    })
+}
+
+/**
+ * Build the stable entry ID for a term
+ *
+ * @param targetLanguage - Target language of the translation
+ * @param sourceTerm - Source term
+ * @param domain - Optional domain scope
+ * @returns Entry ID in the form `<targetLanguage>:<domain>:<normalized term>`
+ *
+ * @example
+ * ```typescript
+ * buildGlossaryEntryId('zh', ' TapWord ', 'product') // 'zh:product:tapword'
+ * ```
+ */
+export function buildGlossaryEntryId(targetLanguage: string, sourceTerm: string, domain?: string): string {
+    return `${targetLanguage}:${(domain ?? "").trim().toLowerCase()}:${sourceTerm.trim().toLowerCase()}`
+}
+
+/**
+ * Normalize user input; returns null when a required field is empty
+ */
+function normalizeInput(input: GlossaryEntryInput): GlossaryEntryInput | null {
+    const sourceTerm = input.sourceTerm.trim()
+    const translation = input.translation.trim()
+    const targetLanguage = input.targetLanguage.trim().toLowerCase()
+    const domain = input.domain?.trim() || undefined
+
+    if (!sourceTerm || !translation || !targetLanguage) {
+        return null
+    }
+    return { sourceTerm, translation, targetLanguage, domain }
+}
+
+function upsertEntry(store: GlossaryStore, input: GlossaryEntryInput, now: number): types.GlossaryEntry {
+    const id = buildGlossaryEntryId(input.targetLanguage, input.sourceTerm, input.domain)
+    const existing = store[id]
+
+    const entry: types.GlossaryEntry = {
+        id,
+        sourceTerm: input.sourceTerm,
+        translation: input.translation,
+        targetLanguage: input.targetLanguage,
+        domain: input.domain,
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now,
+    }
+    store[id] = entry
+    return entry
+}
+
+/**
+ * Get all glossary entries, sorted by source term
+ */
+export async function getGlossaryEntries(): Promise<types.GlossaryEntry[]> {
+    try {
+        const store = await readStore()
+        return Object.values(store).sort((a, b) => a.sourceTerm.localeCompare(b.sourceTerm) || a.targetLanguage.localeCompare(b.targetLanguage))
+    } catch (error) {
+        logger.error("Failed to load glossary entries:", error)
+        return []
+    }
+}
+
+/**
+ * Add an entry, or update the entry with the same term, target language and domain
+ *
+ * @param input - Entry fields
+ * @returns The saved entry, or null if a required field is empty
+ */
+export async function saveGlossaryEntry(input: GlossaryEntryInput): Promise<types.GlossaryEntry | null> {
+    const normalized = normalizeInput(input)
+    if (!normalized) {
+        return null
+    }
+
+    return enqueueWrite(async () => {
+        const store = await readStore()
+        const entry = upsertEntry(store, normalized, Date.now())
+        await writeStore(store)
+        logger.debug("Glossary entry saved:", entry.id)
+        return entry
+    })
+}
+
+/**
+ * Add or update many entries at once (e.g. from an imported file)
+ *
+ * @param inputs - Entry fields
+ * @returns Counts of added, updated and skipped (incomplete) entries
+ */
+export async function importGlossaryEntries(inputs: GlossaryEntryInput[]): Promise<GlossaryImportResult> {
+    return enqueueWrite(async () => {
+        const store = await readStore()
+        const now = Date.now()
+        const result: GlossaryImportResult = { added: 0, updated: 0, skipped: 0 }
+
+        for (const input of inputs) {
+            const normalized = normalizeInput(input)
+            if (!normalized) {
+                result.skipped++
+                continue
+            }
+            const id = buildGlossaryEntryId(normalized.targetLanguage, normalized.sourceTerm, normalized.domain)
+            if (store[id]) {
+                result.updated++
+            } else {
+                result.added++
+            }
+            upsertEntry(store, normalized, now)
+        }
+
+        await writeStore(store)
+        logger.info("Glossary imported:", result)
+        return result
+    })
+}
+
+/**
+ * Delete an entry from the glossary
+ *
+ * @param id - Entry ID
+ */
+export async function deleteGlossaryEntry(id: string): Promise<void> {
+    await enqueueWrite(async () => {
+        const store = await readStore()
+        if (!(id in store)) {
+            return
+        }
+        delete store[id]
+        await writeStore(store)
+    })
+}
+
+/**
+ * List the domains used by glossary entries
+ *
+ * @param entries - Glossary entries
+ * @returns Unique domain names, sorted
+ */
+export function getGlossaryDomains(entries: types.GlossaryEntry[]): string[] {
+    const domains = entries.map((entry) => entry.domain).filter((domain): domain is string => Boolean(domain))
+    return [...new Set(domains)].sort((a, b) => a.localeCompare(b))
+}
@@ -0,0 +1,191 @@
+/**
+ * Immersive Vocabulary Utility
+ *
+ * Shared state of the immersive vocabulary mode, which glosses unknown words on a page.
+ *
+ * Responsibilities:
+ * 1. Normalize the per-site toggle list and resolve whether a page has the mode on
+ * 2. Clamp the frequency rank and per-viewport cap settings
+ * 3. Persist the words the user marked as known in chrome.storage.local, serializing writes
+ *
+ * Used by the content script (glossing, known words) and storageManager (settings normalization).
+ */
+
+import * as loggerModule from "@/0_common/utils/logger"
+import * as translationStyleModule from "@/0_common/utils/translationStyle"
+
+const logger = loggerModule.createLogger("0_common/utils/immersiveVocabulary")
+
+/**
+ * Storage key for known words (word → time it was marked as known)
+ */
+export const KNOWN_WORDS_STORAGE_KEY = "knownWords"
+
+/**
+ * Upper bound of the frequency rank setting; words beyond the bundled list always count as unknown
+ */
+export const MAX_KNOWN_RANK = 10000
+
+/**
+ * Upper bound of the glosses-per-viewport setting
+ */
+export const MAX_GLOSSES_PER_VIEWPORT = 50
+
+/**
+ * Pending write chain; every mutation is appended so read-modify-write cycles never interleave
+ */
+let writeQueue: Promise<unknown> = Promise.resolve()
+
+function enqueueWrite<T>(task: () => Promise<T>): Promise<T> {
+    const run = writeQueue.then(task, task)
+    writeQueue = run.catch(() => undefined)
+    return run
+}
+
+async function readStore(): Promise<Record<string, number>> {
+    const result = await chrome.storage.local.get(KNOWN_WORDS_STORAGE_KEY)
+    const stored = result[KNOWN_WORDS_STORAGE_KEY] as Record<string, number> | undefined
+    return stored && typeof stored === "object" && !Array.isArray(stored) ? stored : {}
+}
+
+function clampInteger(value: unknown, min: number, max: number, fallback: number): number {
+    const number = Number(value)
+    if (!Number.isFinite(number)) {
+        return fallback
+    }
+    return Math.min(max, Math.max(min, Math.round(number)))
+}
+
+/**
+ * Normalize the stored site list: invalid hostnames and duplicates are dropped
+ *
+ * @param value - Stored site list
+ * @returns Normalized hostnames in their original order
+ */
+export function normalizeImmersiveVocabularySites(value: unknown): string[] {
+    if (!Array.isArray(value)) {
+        return []
+    }
+    const hostnames = value
+        .filter((site): site is string => typeof site === "string")
+        .map((site) => translationStyleModule.normalizeSiteHostname(site))
+        .filter((hostname): hostname is string => hostname !== null)
+    return [...new Set(hostnames)]
+}
+
+/**
+ * Clamp the frequency rank below which words count as known
+ *
+ * @param value - Stored rank
+ * @param fallback - Rank used when the stored value is not a number
+ * @returns Rank between 0 (gloss every word) and MAX_KNOWN_RANK
+ */
+export function normalizeKnownRank(value: unknown, fallback: number): number {
+    return clampInteger(value, 0, MAX_KNOWN_RANK, fallback)
+}
+
+/**
+ * Clamp the number of glosses allowed within the viewport
+ *
+ * @param value - Stored cap
+ * @param fallback - Cap used when the stored value is not a number
+ * @returns Cap between 1 and MAX_GLOSSES_PER_VIEWPORT
+ */
+export function normalizeMaxGlossesPerViewport(value: unknown, fallback: number): number {
+    return clampInteger(value, 1, MAX_GLOSSES_PER_VIEWPORT, fallback)
+}
+
+/**
+ * Find the listed site covering a page
+ * The most specific entry wins: "news.example.com" before "example.com".
+ *
+ * @param sites - Sites with immersive vocabulary on
+ * @param hostname - Hostname of the page (e.g. location.hostname)
+ * @returns Listed site covering the page, or null when the mode is off there
+ */
+export function findImmersiveVocabularySite(sites: readonly string[], hostname: string): string | null {
+    const labels = (translationStyleModule.normalizeSiteHostname(hostname) ?? "").split(".")
+    for (let index = 0; index < labels.length; index++) {
+        const candidate = labels.slice(index).join(".")
+        if (candidate && sites.includes(candidate)) {
+            return candidate
+        }
+    }
+    return null
+}
+
+/**
+ * Turn immersive vocabulary on or off for a page's site
+ * Turning it off removes the entry covering the page (which may be a parent domain).
+ *
+ * @param sites - Current site list
+ * @param hostname - Hostname of the page
+ * @returns New site list
+ *
+ * @example
+ * ```typescript
+ * toggleImmersiveVocabularySite([], 'www.example.com') // ['example.com']
+ * toggleImmersiveVocabularySite(['example.com'], 'news.example.com') // []
+ * ```
+ */
+export function toggleImmersiveVocabularySite(sites: readonly string[], hostname: string): string[] {
+    const covering = findImmersiveVocabularySite(sites, hostname)
+    if (covering) {
+        return sites.filter((site) => site !== covering)
+    }
+    const normalized = translationStyleModule.normalizeSiteHostname(hostname)
+    return normalized ? [...sites, normalized] : [...sites]
+}
+
+/**
+ * Lowercase a word for known-word lookups
+ */
+export function normalizeKnownWord(word: string): string {
+    return word.trim().toLowerCase()
+}
+
+/**
+ * Get the words the user marked as known
+ *
+ * @returns Normalized words (empty when they cannot be read)
+ */
+export async function getKnownWords(): Promise<Set<string>> {
+    try {
+        return new Set(Object.keys(await readStore()))
+    } catch (error) {
+        logger.error("Failed to load known words:", error)
+        return new Set()
+    }
+}
+
+/**
+ * Mark words as known so immersive vocabulary no longer glosses them
+ *
+ * @param words - Words to mark (e.g. the word as it appeared and its dictionary form)
+ * @param now - Time they were marked (default: now)
+ */
+export async function markWordsAsKnown(words: readonly string[], now: number = Date.now()): Promise<void> {
+    const normalized = words.map(normalizeKnownWord).filter((word) => word.length > 0)
+    if (normalized.length === 0) {
+        return
+    }
+
+    await enqueueWrite(async () => {
+        const store = await readStore()
+        normalized.forEach((word) => {
+            store[word] = now
+        })
+        await chrome.storage.local.set({ [KNOWN_WORDS_STORAGE_KEY]: store })
+    })
+}
+
+/**
+ * Read the known words out of a chrome.storage change
+ *
+ * @param change - Change of KNOWN_WORDS_STORAGE_KEY
+ * @returns Words known after the change
+ */
+export function readKnownWordsChange(change: chrome.storage.StorageChange): Set<string> {
+    const value = change.newValue as Record<string, number> | undefined
+    return new Set(value && typeof value === "object" && !Array.isArray(value) ? Object.keys(value) : [])
+}
@@ -0,0 +1,113 @@
+/**
+ * Spaced Repetition Utility
+ *
+ * SM-2 scheduling for vocabulary notebook entries.
+ *
+ * Rules (SuperMemo 2):
+ * 1. Grade < 3 resets repetitions and schedules the card for the next day
+ * 2. Successful reviews use intervals 1 day, 6 days, then previous interval × ease factor
+ * 3. Ease factor is adjusted by the grade and never drops below 1.3
+ *
+ * Entries without review state are new cards and are due immediately.
+ */
+
+import type * as types from "@/0_common/types"
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export const DEFAULT_EASE_FACTOR = 2.5
+export const MIN_EASE_FACTOR = 1.3
+
+/**
+ * Lowest grade that counts as a successful recall
+ */
+export const PASSING_GRADE: types.ReviewGrade = 3
+
+/**
+ * Compute the next review state after grading a card
+ *
+ * @param previous - Current review state (undefined for new cards)
+ * @param grade - Grade given by the user (0-5)
+ * @param now - Review timestamp in ms (defaults to Date.now())
+ * @returns The next review state
+ *
+ * @example
+ * ```typescript
+ * const first = applyReviewGrade(undefined, 4) // intervalDays: 1
+ * const second = applyReviewGrade(first, 4)    // intervalDays: 6
+ * ```
+ */
+export function applyReviewGrade(
+    previous: types.VocabularyReviewState | undefined,
+    grade: types.ReviewGrade,
+    now: number = Date.now()
+): types.VocabularyReviewState {
+    const easeFactor = previous?.easeFactor ?? DEFAULT_EASE_FACTOR
+    const repetitions = previous?.repetitions ?? 0
+    const intervalDays = previous?.intervalDays ?? 0
+
+    let nextRepetitions: number
+    let nextInterval: number
+
+    if (grade < PASSING_GRADE) {
+        nextRepetitions = 0
+        nextInterval = 1
+    } else {
+        nextRepetitions = repetitions + 1
+        if (repetitions === 0) {
+            nextInterval = 1
+        } else if (repetitions === 1) {
+            nextInterval = 6
+        } else {
+            nextInterval = Math.round(intervalDays * easeFactor)
+        }
+    }
+
+    const delta = 5 - grade
+    const nextEaseFactor = Math.max(MIN_EASE_FACTOR, easeFactor + (0.1 - delta * (0.08 + delta * 0.02)))
+
+    return {
+        easeFactor: Number(nextEaseFactor.toFixed(4)),
+        intervalDays: nextInterval,
+        repetitions: nextRepetitions,
+        dueAt: now + nextInterval * DAY_MS,
+        lastReviewedAt: now,
+        lastGrade: grade,
+    }
+}
+
+/**
+ * Get the timestamp of the last millisecond of the local day containing `now`
+ */
+export function getEndOfDay(now: number = Date.now()): number {
+    const date = new Date(now)
+    date.setHours(23, 59, 59, 999)
+    return date.getTime()
+}
+
+/**
+ * Check whether an entry is due for review today
+ *
+ * @param entry - Vocabulary entry
+ * @param now - Current timestamp in ms (defaults to Date.now())
+ * @returns True for new cards and for cards due before the end of today
+ */
+export function isDueToday(entry: types.VocabularyEntry, now: number = Date.now()): boolean {
+    if (!entry.review) {
+        return true
+    }
+    return entry.review.dueAt <= getEndOfDay(now)
+}
+
+/**
+ * Get the entries due today, oldest due date first (new cards last)
+ *
+ * @param entries - All vocabulary entries
+ * @param now - Current timestamp in ms (defaults to Date.now())
+ * @returns Due entries in review order
+ */
+export function getDueEntries(entries: types.VocabularyEntry[], now: number = Date.now()): types.VocabularyEntry[] {
+    return entries
+        .filter((entry) => isDueToday(entry, now))
+        .sort((a, b) => (a.review?.dueAt ?? Number.MAX_SAFE_INTEGER) - (b.review?.dueAt ?? Number.MAX_SAFE_INTEGER) || a.createdAt - b.createdAt)
+}
@@ -16,8 +16,11 @@ import { APP_EDITION } from "@/0_common/constants"
 import type * as types from "@/0_common/types"
 import { DEFAULT_USER_SETTINGS } from "@/0_common/types"
 import * as translationFontSizeModule from "@/0_common/constants/translationFontSize"
+import { OLLAMA_TIMEOUT_SECONDS } from "@/0_common/constants/customApi"
 import type { CachedConfig, CloudConfig } from "@/5_backend/types/ConfigTypes"
 import * as loggerModule from "@/0_common/utils/logger"
+import * as translationStyleModule from "@/0_common/utils/translationStyle"
+import * as immersiveVocabularyModule from "@/0_common/utils/immersiveVocabulary"
 import { getPlatformOS, PLATFORMS } from "@/0_common/utils/platformDetector"
 import type { PlatformOS } from "@/0_common/utils/platformDetector"
 
@@ -92,6 +95,16 @@ function normalizeUserSettings(
         ...(settings.mtranserver ?? {}),
     }
 
+    const mergedAnthropic = {
+        ...DEFAULT_USER_SETTINGS.anthropic,
+        ...(settings.anthropic ?? {}),
+    }
+
+    const mergedOllama = {
+        ...DEFAULT_USER_SETTINGS.ollama,
+        ...(settings.ollama ?? {}),
+    }
+
     const normalizedCustomApi: types.CustomApiSettings = {
         baseUrl: normalizeString(mergedCustomApi.baseUrl),
         apiKey: normalizeString(mergedCustomApi.apiKey),
@@ -104,6 +117,32 @@ function normalizeUserSettings(
         enabled: mergedMTranserver.enabled ?? DEFAULT_USER_SETTINGS.mtranserver.enabled,
     }
 
+    const normalizedAnthropic: types.AnthropicApiSettings = {
+        baseUrl: normalizeString(mergedAnthropic.baseUrl) || DEFAULT_USER_SETTINGS.anthropic.baseUrl,
+        apiKey: normalizeString(mergedAnthropic.apiKey),
+        model: normalizeString(mergedAnthropic.model),
+    }
+
+    const ollamaTimeoutSeconds = Number(mergedOllama.timeoutSeconds)
+    const normalizedOllama: types.OllamaSettings = {
+        baseUrl: normalizeString(mergedOllama.baseUrl) || DEFAULT_USER_SETTINGS.ollama.baseUrl,
+        model: normalizeString(mergedOllama.model),
+        timeoutSeconds: Number.isFinite(ollamaTimeoutSeconds)
+            ? Math.max(OLLAMA_TIMEOUT_SECONDS.min, Math.min(OLLAMA_TIMEOUT_SECONDS.max, Math.round(ollamaTimeoutSeconds)))
+            : OLLAMA_TIMEOUT_SECONDS.default,
+    }
+
+    // Prices and budget: anything that is not a positive number means "not set" (0)
+    const normalizeAmount = (value: unknown): number => {
+        const amount = Number(value)
+        return Number.isFinite(amount) && amount > 0 ? amount : 0
+    }
+
+    const knownProviders: types.TranslationProvider[] = ["official", "customApi", "mtranserver", "anthropic", "ollama"]
+    const normalizedFallbackProviders = Array.isArray(settings.fallbackProviders)
+        ? [...new Set(settings.fallbackProviders.filter((provider) => knownProviders.includes(provider)))]
+        : DEFAULT_USER_SETTINGS.fallbackProviders
+
     // Migration: Convert legacy useCustomApi to translationProvider
     let normalizedTranslationProvider: types.TranslationProvider = "official"
     const legacyUseCustomApi = (settings.customApi as any)?.useCustomApi
@@ -157,6 +196,26 @@ function normalizeUserSettings(
         textUnderlineOffsetPxV2: mergedSettings.textUnderlineOffsetPxV2 ?? DEFAULT_USER_SETTINGS.textUnderlineOffsetPxV2,
         customApi: normalizedCustomApi,
         mtranserver: normalizedMTranserver,
+        anthropic: normalizedAnthropic,
+        ollama: normalizedOllama,
+        customApiInputPricePerMillion: normalizeAmount(mergedSettings.customApiInputPricePerMillion),
+        customApiOutputPricePerMillion: normalizeAmount(mergedSettings.customApiOutputPricePerMillion),
+        customApiMonthlyBudget: normalizeAmount(mergedSettings.customApiMonthlyBudget),
+        fallbackProviders: normalizedFallbackProviders,
+        glossaryDomain: normalizeString(mergedSettings.glossaryDomain),
+        translationStyle: translationStyleModule.isTranslationStylePreference(mergedSettings.translationStyle)
+            ? mergedSettings.translationStyle
+            : DEFAULT_USER_SETTINGS.translationStyle,
+        siteTranslationStyles: translationStyleModule.normalizeSiteTranslationStyles(mergedSettings.siteTranslationStyles),
+        immersiveVocabularySites: immersiveVocabularyModule.normalizeImmersiveVocabularySites(mergedSettings.immersiveVocabularySites),
+        immersiveVocabularyKnownRank: immersiveVocabularyModule.normalizeKnownRank(
+            mergedSettings.immersiveVocabularyKnownRank,
+            DEFAULT_USER_SETTINGS.immersiveVocabularyKnownRank
+        ),
+        immersiveVocabularyMaxPerViewport: immersiveVocabularyModule.normalizeMaxGlossesPerViewport(
+            mergedSettings.immersiveVocabularyMaxPerViewport,
+            DEFAULT_USER_SETTINGS.immersiveVocabularyMaxPerViewport
+        ),
         doubleClickSentenceTriggerKey: validatedTriggerKey,
         // Ensure V2 key is always populated for internal usage
         doubleClickTranslateV2: mergedSettings.doubleClickTranslateV2 ?? DEFAULT_USER_SETTINGS.doubleClickTranslateV2,
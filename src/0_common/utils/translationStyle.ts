@@ -0,0 +1,99 @@
+/**
+ * Translation Style Utility
+ *
+ * Normalizes the translation style settings and resolves the style for a page:
+ * a per-site override for the page's hostname (or a parent domain) wins over the global style.
+ */
+
+import type * as types from "@/0_common/types"
+
+/**
+ * All translation style settings, in the order they are offered to the user
+ */
+export const TRANSLATION_STYLE_PREFERENCES: readonly types.TranslationStylePreference[] = [
+    "standard",
+    "natural",
+    "literal",
+    "concise",
+    "formal",
+    "casual",
+    "learner",
+]
+
+export function isTranslationStylePreference(value: unknown): value is types.TranslationStylePreference {
+    return typeof value === "string" && TRANSLATION_STYLE_PREFERENCES.includes(value as types.TranslationStylePreference)
+}
+
+/**
+ * Reduce user input (hostname or URL) to a lowercase hostname without a leading "www."
+ *
+ * @param value - Hostname or URL, e.g. "https://www.Example.com/news"
+ * @returns Hostname (e.g. "example.com"), or null when the input is not a hostname
+ */
+export function normalizeSiteHostname(value: string): string | null {
+    const trimmed = value.trim().toLowerCase()
+    if (!trimmed) {
+        return null
+    }
+
+    let hostname: string
+    try {
+        hostname = new URL(/^[a-z][a-z\d+.-]*:\/\//.test(trimmed) ? trimmed : `https://${trimmed}`).hostname
+    } catch {
+        return null
+    }
+
+    hostname = hostname.replace(/^www\./, "").replace(/\.$/, "")
+    return hostname.length > 0 && !hostname.includes("..") ? hostname : null
+}
+
+/**
+ * Normalize stored per-site overrides: invalid hostnames and styles are dropped
+ *
+ * @param value - Stored overrides (hostname → style)
+ * @returns Overrides keyed by normalized hostname
+ */
+export function normalizeSiteTranslationStyles(value: unknown): Record<string, types.TranslationStylePreference> {
+    if (!value || typeof value !== "object" || Array.isArray(value)) {
+        return {}
+    }
+
+    const normalized: Record<string, types.TranslationStylePreference> = {}
+    for (const [site, style] of Object.entries(value as Record<string, unknown>)) {
+        const hostname = normalizeSiteHostname(site)
+        if (hostname && isTranslationStylePreference(style)) {
+            normalized[hostname] = style
+        }
+    }
+    return normalized
+}
+
+/**
+ * Resolve the translation style for a page
+ * The most specific override wins: "news.example.com" before "example.com".
+ *
+ * @param settings - Global style and per-site overrides
+ * @param hostname - Hostname of the page (e.g. location.hostname)
+ * @returns Style for the page
+ *
+ * @example
+ * ```typescript
+ * resolveSiteTranslationStyle({ translationStyle: 'natural', siteTranslationStyles: { 'example.com': 'formal' } }, 'docs.example.com')
+ * // 'formal'
+ * ```
+ */
+export function resolveSiteTranslationStyle(
+    settings: Pick<types.UserSettings, "translationStyle" | "siteTranslationStyles">,
+    hostname: string
+): types.TranslationStylePreference {
+    const overrides = settings.siteTranslationStyles ?? {}
+    const labels = (normalizeSiteHostname(hostname) ?? "").split(".")
+
+    for (let index = 0; index < labels.length; index++) {
+        const style = overrides[labels.slice(index).join(".")]
+        if (style) {
+            return style
+        }
+    }
+    return settings.translationStyle ?? "standard"
+}
@@ -0,0 +1,216 @@
+/**
+ * Token Usage Storage Utility
+ *
+ * Persists custom API token usage in chrome.storage.local.
+ *
+ * Responsibilities:
+ * 1. Aggregate the usage of each completion per local day, model and request type
+ * 2. Estimate cost from the user's per-million-token prices
+ * 3. Summarize usage for the options dashboard and the monthly budget check
+ * 4. Serialize writes so concurrent completions don't overwrite each other
+ *
+ * Written by the background script, read by the options page.
+ */
+
+import type * as types from "@/0_common/types"
+import * as loggerModule from "@/0_common/utils/logger"
+
+const logger = loggerModule.createLogger("0_common/utils/usageStorage")
+
+/**
+ * Storage key for token usage data
+ */
+export const USAGE_STORAGE_KEY = "customApiUsage"
+
+/**
+ * Days of usage kept; older days are dropped on the next write
+ */
+export const USAGE_RETENTION_DAYS = 400
+
+/**
+ * Usage of one completion
+ */
+export interface TokenUsageRecord {
+    model: string
+    requestType: types.UsageRequestType
+    promptTokens: number
+    completionTokens: number
+    /** Estimated cost (see estimateTokenCost) */
+    cost: number
+}
+
+/**
+ * Prices per million tokens
+ */
+export interface TokenPrices {
+    inputPricePerMillion: number
+    outputPricePerMillion: number
+}
+
+/**
+ * Usage totals overall and grouped for the dashboard
+ */
+export interface TokenUsageSummary {
+    total: types.TokenUsageTotals
+    byDay: Record<string, types.TokenUsageTotals>
+    byModel: Record<string, types.TokenUsageTotals>
+    byRequestType: Partial<Record<types.UsageRequestType, types.TokenUsageTotals>>
+}
+
+/**
+ * Pending write chain; every mutation is appended so read-modify-write cycles never interleave
+ */
+let writeQueue: Promise<unknown> = Promise.resolve()
+
+function enqueueWrite<T>(task: () => Promise<T>): Promise<T> {
+    const run = writeQueue.then(task, task)
+    writeQueue = run.catch(() => undefined)
+    return run
+}
+
+async function readStore(): Promise<types.TokenUsageStore> {
+    const result = await chrome.storage.local.get(USAGE_STORAGE_KEY)
+    const stored = result[USAGE_STORAGE_KEY] as types.TokenUsageStore | undefined
+    return stored && typeof stored === "object" ? stored : {}
+}
+
+function createTotals(): types.TokenUsageTotals {
+    return { requests: 0, promptTokens: 0, completionTokens: 0, cost: 0 }
+}
+
+function addTotals(target: types.TokenUsageTotals, source: types.TokenUsageTotals): void {
+    target.requests += source.requests
+    target.promptTokens += source.promptTokens
+    target.completionTokens += source.completionTokens
+    target.cost += source.cost
+}
+
+function addToGroup<K extends string>(group: Partial<Record<K, types.TokenUsageTotals>>, key: K, totals: types.TokenUsageTotals): void {
+    const target = group[key] ?? createTotals()
+    addTotals(target, totals)
+    group[key] = target
+}
+
+/**
+ * Format a date as a local calendar day
+ *
+ * @param date - Date to format
+ * @returns Day in the form "YYYY-MM-DD"
+ */
+export function formatUsageDay(date: Date): string {
+    const month = String(date.getMonth() + 1).padStart(2, "0")
+    const day = String(date.getDate()).padStart(2, "0")
+    return `${date.getFullYear()}-${month}-${day}`
+}
+
+/**
+ * First day of the calendar month of a date
+ *
+ * @param date - Any day of the month
+ * @returns Day in the form "YYYY-MM-01"
+ */
+export function getMonthStartDay(date: Date): string {
+    return `${formatUsageDay(date).slice(0, 7)}-01`
+}
+
+/**
+ * Estimate the cost of a completion
+ *
+ * @param promptTokens - Tokens in the request messages
+ * @param completionTokens - Tokens in the generated response
+ * @param prices - Prices per million tokens
+ * @returns Estimated cost in the currency of the prices
+ *
+ * @example
+ * ```typescript
+ * estimateTokenCost(1000, 500, { inputPricePerMillion: 0.15, outputPricePerMillion: 0.6 }) // 0.00045
+ * ```
+ */
+export function estimateTokenCost(promptTokens: number, completionTokens: number, prices: TokenPrices): number {
+    return (promptTokens * prices.inputPricePerMillion + completionTokens * prices.outputPricePerMillion) / 1000000
+}
+
+/**
+ * Add the usage of a completion to today's totals
+ *
+ * @param record - Usage of the completion
+ * @param now - Time of the completion (default: now)
+ */
+export async function recordTokenUsage(record: TokenUsageRecord, now: Date = new Date()): Promise<void> {
+    await enqueueWrite(async () => {
+        const store = await readStore()
+        const day = formatUsageDay(now)
+        const models = store[day] ?? {}
+        const requestTypes = models[record.model] ?? {}
+        addToGroup(requestTypes, record.requestType, {
+            requests: 1,
+            promptTokens: record.promptTokens,
+            completionTokens: record.completionTokens,
+            cost: record.cost,
+        })
+        models[record.model] = requestTypes
+        store[day] = models
+
+        const cutoff = formatUsageDay(new Date(now.getFullYear(), now.getMonth(), now.getDate() - USAGE_RETENTION_DAYS))
+        for (const storedDay of Object.keys(store)) {
+            if (storedDay < cutoff) {
+                delete store[storedDay]
+            }
+        }
+
+        await chrome.storage.local.set({ [USAGE_STORAGE_KEY]: store })
+    })
+}
+
+/**
+ * Get the stored token usage
+ *
+ * @returns Usage by day, model and request type (empty when it cannot be read)
+ */
+export async function getTokenUsage(): Promise<types.TokenUsageStore> {
+    try {
+        return await readStore()
+    } catch (error) {
+        logger.error("Failed to load token usage:", error)
+        return {}
+    }
+}
+
+/**
+ * Delete all recorded token usage
+ */
+export async function clearTokenUsage(): Promise<void> {
+    await enqueueWrite(() => chrome.storage.local.remove(USAGE_STORAGE_KEY))
+}
+
+/**
+ * Aggregate stored usage
+ *
+ * @param store - Stored usage
+ * @param sinceDay - Only include days on or after this day ("YYYY-MM-DD")
+ * @returns Overall totals and totals per day, model and request type
+ *
+ * @example
+ * ```typescript
+ * const { total } = summarizeTokenUsage(await getTokenUsage(), getMonthStartDay(new Date()))
+ * // total.cost is this month's estimated spend
+ * ```
+ */
+export function summarizeTokenUsage(store: types.TokenUsageStore, sinceDay?: string): TokenUsageSummary {
+    const summary: TokenUsageSummary = { total: createTotals(), byDay: {}, byModel: {}, byRequestType: {} }
+
+    for (const [day, models] of Object.entries(store)) {
+        if (sinceDay && day < sinceDay) {
+            continue
+        }
+        for (const [model, requestTypes] of Object.entries(models)) {
+            for (const [requestType, totals] of Object.entries(requestTypes) as [types.UsageRequestType, types.TokenUsageTotals][]) {
+                addTotals(summary.total, totals)
+                addToGroup(summary.byDay, day, totals)
+                addToGroup(summary.byModel, model, totals)
+                addToGroup(summary.byRequestType, requestType, totals)
+            }
+        }
+    }
+    return summary
+}
@@ -0,0 +1,199 @@
+/**
+ * Vocabulary Export Utility
+ *
+ * Serializes vocabulary notebook entries for use outside the extension:
+ * 1. Anki-importable TSV (with Anki file headers, HTML fields)
+ * 2. CSV (RFC 4180 quoting, UTF-8 BOM for spreadsheet apps)
+ * 3. Markdown table
+ *
+ * Every format exports the same columns: word, lemma, IPA, lemma IPA, word translation,
+ * sentence translation, source sentence (word marked) and source URL.
+ */
+
+import type * as types from "@/0_common/types"
+import * as vocabularyStorage from "@/0_common/utils/vocabularyStorage"
+
+export type VocabularyExportFormat = "anki" | "csv" | "markdown"
+
+/**
+ * Export filter options
+ */
+export interface VocabularyExportOptions {
+    /** Only include entries looked up at or after this timestamp (ms) */
+    from?: number
+    /** Only include entries looked up at or before this timestamp (ms) */
+    to?: number
+    /** Only include entries for this target language (empty = all) */
+    targetLanguage?: string
+}
+
+/**
+ * Serialized export file
+ */
+export interface VocabularyExportFile {
+    content: string
+    mimeType: string
+    fileName: string
+}
+
+const EXPORT_COLUMNS = ["Word", "Lemma", "IPA", "Lemma IPA", "Translation", "Sentence Translation", "Sentence", "URL"] as const
+
+const FILE_EXTENSIONS: Record<VocabularyExportFormat, string> = {
+    anki: "tsv",
+    csv: "csv",
+    markdown: "md",
+}
+
+const MIME_TYPES: Record<VocabularyExportFormat, string> = {
+    anki: "text/tab-separated-values;charset=utf-8",
+    csv: "text/csv;charset=utf-8",
+    markdown: "text/markdown;charset=utf-8",
+}
+
+const UTF8_BOM = "\uFEFF"
+
+function escapeHtml(value: string): string {
+    return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;")
+}
+
+function collapseWhitespace(value: string): string {
+    return value.replace(/[\t\r\n]+/g, " ")
+}
+
+/**
+ * Mark the word inside its sentence with format-specific markers
+ * Falls back to the plain sentence when the word cannot be located
+ */
+function markSentence(entry: types.VocabularyEntry, format: VocabularyExportFormat): string {
+    const sentence = entry.originalSentence ?? ""
+    const located = vocabularyStorage.locateWordInSentence(sentence, entry.word)
+
+    if (format === "anki") {
+        if (!located) return escapeHtml(sentence)
+        return `${escapeHtml(located.before)}<b>${escapeHtml(located.match)}</b>${escapeHtml(located.after)}`
+    }
+
+    if (!located) return sentence
+    const [open, close] = format === "markdown" ? ["**", "**"] : ["[", "]"]
+    return `${located.before}${open}${located.match}${close}${located.after}`
+}
+
+function buildRow(entry: types.VocabularyEntry, format: VocabularyExportFormat): string[] {
+    const plain = (value: string | null | undefined): string => {
+        const text = value ?? ""
+        return format === "anki" ? escapeHtml(text) : text
+    }
+
+    return [
+        plain(entry.word),
+        plain(entry.lemma),
+        plain(entry.phonetic),
+        plain(entry.lemmaPhonetic),
+        plain(entry.translation),
+        plain(entry.sentenceTranslation),
+        markSentence(entry, format),
+        plain(entry.pageUrl),
+    ]
+}
+
+function toAnkiTsv(entries: types.VocabularyEntry[]): string {
+    const headers = ["#separator:tab", "#html:true", `#columns:${EXPORT_COLUMNS.join("\t")}`]
+    const rows = entries.map((entry) => buildRow(entry, "anki").map(collapseWhitespace).join("\t"))
+    return [...headers, ...rows].join("\n") + "\n"
+}
+
+function escapeCsvField(value: string): string {
+    if (/[",\r\n]/.test(value)) {
+        return `"${value.replace(/"/g, '""')}"`
+    }
+    return value
+}
+
+function toCsv(entries: types.VocabularyEntry[]): string {
+    const lines = [EXPORT_COLUMNS.join(",")]
+    for (const entry of entries) {
+        lines.push(buildRow(entry, "csv").map(escapeCsvField).join(","))
+    }
+    return UTF8_BOM + lines.join("\r\n") + "\r\n"
+}
+
+function escapeMarkdownCell(value: string): string {
+    return collapseWhitespace(value).replace(/\|/g, "\\|")
+}
+
+function toMarkdown(entries: types.VocabularyEntry[]): string {
+    const lines = [`| ${EXPORT_COLUMNS.join(" | ")} |`, `| ${EXPORT_COLUMNS.map(() => "---").join(" | ")} |`]
+    for (const entry of entries) {
+        lines.push(`| ${buildRow(entry, "markdown").map(escapeMarkdownCell).join(" | ")} |`)
+    }
+    return lines.join("\n") + "\n"
+}
+
+function formatDateStamp(timestamp: number): string {
+    const date = new Date(timestamp)
+    const year = date.getFullYear()
+    const month = String(date.getMonth() + 1).padStart(2, "0")
+    const day = String(date.getDate()).padStart(2, "0")
+    return `${year}-${month}-${day}`
+}
+
+/**
+ * Filter entries by lookup date range and target language
+ *
+ * @param entries - Entries to filter
+ * @param options - Date range (by latest lookup time) and language filter
+ * @returns Matching entries, oldest lookup first
+ */
+export function filterEntriesForExport(entries: types.VocabularyEntry[], options: VocabularyExportOptions): types.VocabularyEntry[] {
+    return entries
+        .filter((entry) => {
+            if (options.targetLanguage && entry.targetLanguage !== options.targetLanguage) return false
+            if (options.from !== undefined && entry.lastLookedUpAt < options.from) return false
+            if (options.to !== undefined && entry.lastLookedUpAt > options.to) return false
+            return true
+        })
+        .sort((a, b) => a.lastLookedUpAt - b.lastLookedUpAt)
+}
+
+/**
+ * Serialize vocabulary entries to an export file
+ *
+ * @param entries - All vocabulary entries
+ * @param format - Export format (anki, csv, markdown)
+ * @param options - Date range and language filter
+ * @param now - Timestamp used in the file name (defaults to Date.now())
+ * @returns File content, MIME type and suggested file name
+ *
+ * @example
+ * ```typescript
+ * const file = exportVocabulary(entries, 'anki', { targetLanguage: 'zh' })
+ * // file.fileName === 'tapword-vocabulary-2026-01-15.tsv'
+ * ```
+ */
+export function exportVocabulary(
+    entries: types.VocabularyEntry[],
+    format: VocabularyExportFormat,
+    options: VocabularyExportOptions = {},
+    now: number = Date.now()
+): VocabularyExportFile {
+    const selected = filterEntriesForExport(entries, options)
+
+    let content: string
+    switch (format) {
+        case "anki":
+            content = toAnkiTsv(selected)
+            break
+        case "csv":
+            content = toCsv(selected)
+            break
+        case "markdown":
+            content = toMarkdown(selected)
+            break
+    }
+
+    return {
+        content,
+        mimeType: MIME_TYPES[format],
+        fileName: `tapword-vocabulary-${formatDateStamp(now)}.${FILE_EXTENSIONS[format]}`,
+    }
+}
@@ -0,0 +1,78 @@
+/**
+ * Vocabulary Requests Utility
+ *
+ * Vocabulary notebook writes from content scripts and extension pages.
+ * Each write is sent to the background service worker, whose vocabularyStorage queue serializes it
+ * with lookups recorded there, so no read-modify-write cycle of another context can overwrite it.
+ */
+
+import type * as types from "@/0_common/types"
+import * as loggerModule from "@/0_common/utils/logger"
+import type { VocabularyEntryPatch, VocabularySenseSelection } from "@/0_common/utils/vocabularyStorage"
+
+const logger = loggerModule.createLogger("0_common/utils/vocabularyRequests")
+
+function sendVocabularyWrite(data: types.VocabularyWriteRequestData): Promise<types.VocabularyEntry | null> {
+    const message: types.VocabularyWriteRequestMessage = {
+        type: "VOCABULARY_WRITE_REQUEST",
+        data,
+    }
+
+    return new Promise((resolve, reject) => {
+        chrome.runtime.sendMessage(message, (response: types.VocabularyWriteResponseMessage | undefined) => {
+            if (chrome.runtime.lastError || !response) {
+                logger.error("Error sending vocabulary write:", chrome.runtime.lastError)
+                reject(new Error(chrome.runtime.lastError?.message ?? "No response to vocabulary write"))
+                return
+            }
+
+            if (!response.success) {
+                reject(new Error(response.error))
+                return
+            }
+
+            resolve(response.data.entry)
+        })
+    })
+}
+
+/**
+ * Record the sense the user picked for the latest lookup of a word
+ *
+ * @param selection - Looked-up word and the picked sense
+ * @returns The updated entry, or null if the lookup was not recorded
+ */
+export function recordSenseSelection(selection: VocabularySenseSelection): Promise<types.VocabularyEntry | null> {
+    return sendVocabularyWrite({ operation: "selectSense", ...selection })
+}
+
+/**
+ * Update user-editable fields of an entry
+ *
+ * @param id - Entry ID
+ * @param patch - Fields to update
+ * @returns The updated entry, or null if the entry does not exist
+ */
+export function updateVocabularyEntry(id: string, patch: VocabularyEntryPatch): Promise<types.VocabularyEntry | null> {
+    return sendVocabularyWrite({ operation: "update", id, patch })
+}
+
+/**
+ * Grade an entry during review
+ *
+ * @param id - Entry ID
+ * @param grade - Grade given by the user (0-5)
+ * @returns The updated entry, or null if the entry does not exist
+ */
+export function gradeVocabularyEntry(id: string, grade: types.ReviewGrade): Promise<types.VocabularyEntry | null> {
+    return sendVocabularyWrite({ operation: "grade", id, grade })
+}
+
+/**
+ * Delete an entry from the vocabulary notebook
+ *
+ * @param id - Entry ID
+ */
+export async function deleteVocabularyEntry(id: string): Promise<void> {
+    await sendVocabularyWrite({ operation: "delete", id })
+}
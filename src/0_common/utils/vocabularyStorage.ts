@@ -0,0 +1,332 @@
+/**
+ * Vocabulary Storage Utility
+ *
+ * Persists the vocabulary notebook in chrome.storage.local.
+ *
+ * Responsibilities:
+ * 1. Record every successful word lookup (dedup by target language + lemma)
+ * 2. Track lookup counts and the latest context (sentence, page URL/title)
+ * 3. Provide read, edit and delete operations for the options page
+ * 4. Persist spaced-repetition grades and due dates for the review page
+ * 5. Record the sense the user picks for an ambiguous word
+ * 6. Serialize writes so concurrent lookups don't overwrite each other
+ *
+ * The write queue only covers one JS context, so every write runs in the background service worker;
+ * other pages write through vocabularyRequests.
+ */
+
+import type * as types from "@/0_common/types"
+import * as loggerModule from "@/0_common/utils/logger"
+import * as spacedRepetition from "@/0_common/utils/spacedRepetition"
+
+const logger = loggerModule.createLogger("0_common/utils/vocabularyStorage")
+
+/**
+ * Storage key for vocabulary notebook data
+ */
+export const VOCABULARY_STORAGE_KEY = "vocabularyNotebook"
+
+/**
+ * Data recorded for a single successful word lookup
+ */
+export interface VocabularyLookup {
+    word: string
+    lemma?: string | null
+    phonetic?: string
+    lemmaPhonetic?: string
+    translation: string
+    sentenceTranslation?: string
+    originalSentence?: string
+    pageUrl?: string
+    pageTitle?: string
+    sourceLanguage?: string
+    targetLanguage: string
+}
+
+/**
+ * Sense picked in the detail modal for a looked-up word
+ */
+export interface VocabularySenseSelection {
+    word: string
+    lemma?: string | null
+    targetLanguage: string
+    /** Sense the user picked */
+    sense: types.WordSense
+    /** Contextual sense returned with the lookup (picking it again clears the choice) */
+    contextualSense: types.WordSense
+}
+
+/**
+ * Fields the user can edit from the vocabulary page
+ */
+export type VocabularyEntryPatch = Partial<Pick<types.VocabularyEntry, types.VocabularyEditableField>>
+
+/**
+ * Filter options for browsing the vocabulary notebook
+ */
+export interface VocabularyFilter {
+    /** Case-insensitive search over word, lemma, translation and sentence */
+    query?: string
+    /** Only keep entries for this target language (empty = all) */
+    targetLanguage?: string
+}
+
+type VocabularyStore = Record<string, types.VocabularyEntry>
+
+/**
+ * Pending write chain; every mutation is appended so read-modify-write cycles never interleave
+ */
+let writeQueue: Promise<unknown> = Promise.resolve()
+
+function enqueueWrite<T>(task: () => Promise<T>): Promise<T> {
+    const run = writeQueue.then(task, task)
+    writeQueue = run.catch(() => undefined)
+    return run
+}
+
+async function readStore(): Promise<VocabularyStore> {
+    const result = await chrome.storage.local.get(VOCABULARY_STORAGE_KEY)
+    const stored = result[VOCABULARY_STORAGE_KEY] as VocabularyStore | undefined
+    return stored && typeof stored === "object" ? stored : {}
+}
+
+async function writeStore(store: VocabularyStore): Promise<void> {
+    await chrome.storage.local.set({
+        [VOCABULARY_STORAGE_KEY]: store,
+    })
+}
+
+/**
+ * Build the stable entry ID for a word
+ *
+ * @param targetLanguage - Target language of the translation
+ * @param word - Lemma (preferred) or surface form of the word
+ * @returns Entry ID in the form `<targetLanguage>:<normalized word>`
+ *
+ * @example
+ * ```typescript
+ * buildVocabularyEntryId('zh', 'Running') // 'zh:running'
+ * ```
+ */
+export function buildVocabularyEntryId(targetLanguage: string, word: string): string {
+    return `${targetLanguage}:${word.trim().toLowerCase()}`
+}
+
+/**
+ * Get all vocabulary entries, most recently looked up first
+ */
+export async function getVocabularyEntries(): Promise<types.VocabularyEntry[]> {
+    try {
+        const store = await readStore()
+        return Object.values(store).sort((a, b) => b.lastLookedUpAt - a.lastLookedUpAt)
+    } catch (error) {
+        logger.error("Failed to load vocabulary entries:", error)
+        return []
+    }
+}
+
+/**
+ * Record a successful word lookup
+ * Creates a new entry or refreshes the existing one and increments its lookup count.
+ * Fields the user edited on the vocabulary page keep their edited value.
+ *
+ * @param lookup - Lookup data from the translation result
+ * @returns The created or updated entry
+ */
+export async function recordVocabularyLookup(lookup: VocabularyLookup): Promise<types.VocabularyEntry> {
+    return enqueueWrite(async () => {
+        const store = await readStore()
+        const lemma = lookup.lemma?.trim() || null
+        const id = buildVocabularyEntryId(lookup.targetLanguage, lemma ?? lookup.word)
+        const existing = store[id]
+        const now = Date.now()
+        const keepEdited = <K extends types.VocabularyEditableField>(field: K, value: types.VocabularyEntry[K]): types.VocabularyEntry[K] =>
+            existing?.editedFields?.includes(field) ? existing[field] : value
+        const sentenceEdited = existing?.editedFields?.includes("originalSentence") ?? false
+
+        const entry: types.VocabularyEntry = {
+            id,
+            word: keepEdited("word", lookup.word),
+            lemma: keepEdited("lemma", lemma),
+            phonetic: keepEdited("phonetic", lookup.phonetic),
+            lemmaPhonetic: lookup.lemmaPhonetic,
+            translation: keepEdited("translation", lookup.translation),
+            // The sentence translation belongs to the sentence the user kept
+            sentenceTranslation: sentenceEdited ? existing?.sentenceTranslation : lookup.sentenceTranslation,
+            originalSentence: keepEdited("originalSentence", lookup.originalSentence),
+            pageUrl: lookup.pageUrl,
+            pageTitle: lookup.pageTitle,
+            sourceLanguage: lookup.sourceLanguage,
+            targetLanguage: lookup.targetLanguage,
+            lookupCount: (existing?.lookupCount ?? 0) + 1,
+            createdAt: existing?.createdAt ?? now,
+            lastLookedUpAt: now,
+            review: existing?.review,
+            editedFields: existing?.editedFields,
+        }
+
+        store[id] = entry
+        await writeStore(store)
+        logger.debug("Vocabulary lookup recorded:", id, entry.lookupCount)
+        return entry
+    })
+}
+
+/**
+ * Record the sense the user picked for the latest lookup of a word
+ * The entry's translation follows the picked sense; picking the contextual sense again clears the choice.
+ *
+ * @param selection - Looked-up word and the picked sense
+ * @returns The updated entry, or null if the lookup was not recorded
+ */
+export async function recordSenseSelection(selection: VocabularySenseSelection): Promise<types.VocabularyEntry | null> {
+    return enqueueWrite(async () => {
+        const store = await readStore()
+        const id = buildVocabularyEntryId(selection.targetLanguage, selection.lemma?.trim() || selection.word)
+        const existing = store[id]
+        if (!existing) {
+            logger.warn("Vocabulary entry not found for sense selection:", id)
+            return null
+        }
+
+        const isContextual = selection.sense.translation === selection.contextualSense.translation
+        const updated: types.VocabularyEntry = {
+            ...existing,
+            translation: selection.sense.translation,
+            selectedSense: isContextual
+                ? undefined
+                : {
+                      translation: selection.sense.translation,
+                      gloss: selection.sense.gloss,
+                      contextualTranslation: selection.contextualSense.translation,
+                      selectedAt: Date.now(),
+                  },
+        }
+        store[id] = updated
+        await writeStore(store)
+        logger.debug("Vocabulary sense selection recorded:", id, selection.sense.translation)
+        return updated
+    })
+}
+
+/**
+ * Update user-editable fields of an entry
+ * Changed fields are remembered as edited so later lookups don't overwrite them.
+ *
+ * @param id - Entry ID
+ * @param patch - Fields to update
+ * @returns The updated entry, or null if the entry does not exist
+ */
+export async function updateVocabularyEntry(id: string, patch: VocabularyEntryPatch): Promise<types.VocabularyEntry | null> {
+    return enqueueWrite(async () => {
+        const store = await readStore()
+        const existing = store[id]
+        if (!existing) {
+            logger.warn("Vocabulary entry not found for update:", id)
+            return null
+        }
+
+        const changed = (Object.keys(patch) as types.VocabularyEditableField[]).filter((field) => patch[field] !== existing[field])
+        const editedFields = changed.length > 0 ? [...new Set([...(existing.editedFields ?? []), ...changed])] : existing.editedFields
+        const updated: types.VocabularyEntry = { ...existing, ...patch, editedFields }
+        store[id] = updated
+        await writeStore(store)
+        return updated
+    })
+}
+
+/**
+ * Grade an entry during review and persist its next due date (SM-2)
+ *
+ * @param id - Entry ID
+ * @param grade - Grade given by the user (0-5)
+ * @returns The updated entry, or null if the entry does not exist
+ */
+export async function gradeVocabularyEntry(id: string, grade: types.ReviewGrade): Promise<types.VocabularyEntry | null> {
+    return enqueueWrite(async () => {
+        const store = await readStore()
+        const existing = store[id]
+        if (!existing) {
+            logger.warn("Vocabulary entry not found for grading:", id)
+            return null
+        }
+
+        const updated: types.VocabularyEntry = {
+            ...existing,
+            review: spacedRepetition.applyReviewGrade(existing.review, grade),
+        }
+        store[id] = updated
+        await writeStore(store)
+        logger.debug("Vocabulary entry graded:", id, grade, updated.review?.dueAt)
+        return updated
+    })
+}
+
+/**
+ * Delete an entry from the vocabulary notebook
+ *
+ * @param id - Entry ID
+ */
+export async function deleteVocabularyEntry(id: string): Promise<void> {
+    await enqueueWrite(async () => {
+        const store = await readStore()
+        if (!(id in store)) {
+            return
+        }
+        delete store[id]
+        await writeStore(store)
+    })
+}
+
+/**
+ * Filter entries by search query and target language
+ *
+ * @param entries - Entries to filter
+ * @param filter - Query and language filter
+ * @returns Matching entries, in their original order
+ */
+export function filterVocabularyEntries(entries: types.VocabularyEntry[], filter: VocabularyFilter): types.VocabularyEntry[] {
+    const query = (filter.query ?? "").trim().toLowerCase()
+    const language = filter.targetLanguage ?? ""
+
+    return entries.filter((entry) => {
+        if (language && entry.targetLanguage !== language) {
+            return false
+        }
+        if (!query) {
+            return true
+        }
+        const haystack = [entry.word, entry.lemma ?? "", entry.translation, entry.originalSentence ?? ""].join("\n").toLowerCase()
+        return haystack.includes(query)
+    })
+}
+
+/**
+ * Locate the looked-up word inside its original sentence
+ *
+ * @param sentence - Original sentence
+ * @param word - Word to locate (case-insensitive)
+ * @returns The sentence split around the first match, or null if the word is not found
+ *
+ * @example
+ * ```typescript
+ * locateWordInSentence('She ran home.', 'ran') // { before: 'She ', match: 'ran', after: ' home.' }
+ * ```
+ */
+export function locateWordInSentence(sentence: string, word: string): { before: string; match: string; after: string } | null {
+    const needle = word.trim()
+    if (!sentence || !needle) {
+        return null
+    }
+
+    const index = sentence.toLowerCase().indexOf(needle.toLowerCase())
+    if (index < 0) {
+        return null
+    }
+
+    return {
+        before: sentence.slice(0, index),
+        match: sentence.slice(index, index + needle.length),
+        after: sentence.slice(index + needle.length),
+    }
+}
@@ -0,0 +1,158 @@
+/**
+ * Review Page Script - Spaced-Repetition Vocabulary Review
+ *
+ * This is the main entry point for the review page. It orchestrates:
+ * 1. i18n initialization and translation
+ * 2. Loading entries due today from the vocabulary notebook
+ * 3. Card flow (question → answer → grade) and SM-2 grade persistence
+ * 4. Pronunciation playback via the background speech path
+ */
+
+import type * as types from "@/0_common/types"
+import * as i18nModule from "@/0_common/utils/i18n"
+import * as loggerModule from "@/0_common/utils/logger"
+import * as spacedRepetition from "@/0_common/utils/spacedRepetition"
+import * as vocabularyRequests from "@/0_common/utils/vocabularyRequests"
+import * as vocabularyStorage from "@/0_common/utils/vocabularyStorage"
+import * as pronunciationPlayer from "./modules/pronunciationPlayer"
+import * as reviewCardRenderer from "./modules/reviewCardRenderer"
+
+const logger = loggerModule.createLogger("Review")
+
+/**
+ * Keyboard shortcuts for grade buttons (1-4 → Again/Hard/Good/Easy)
+ */
+const GRADE_SHORTCUTS: Record<string, types.ReviewGrade> = {
+    "1": 1,
+    "2": 3,
+    "3": 4,
+    "4": 5,
+}
+
+let queue: types.VocabularyEntry[] = []
+let revealed = false
+let isGrading = false
+
+function getCurrentEntry(): types.VocabularyEntry | undefined {
+    return queue[0]
+}
+
+function renderCurrent(): void {
+    const card = document.getElementById("reviewCard")
+    const empty = document.getElementById("reviewEmpty")
+    const entry = getCurrentEntry()
+
+    reviewCardRenderer.renderProgress(queue.length)
+
+    if (!entry) {
+        if (card) card.style.display = "none"
+        if (empty) empty.style.display = "block"
+        return
+    }
+
+    if (card) card.style.display = "block"
+    if (empty) empty.style.display = "none"
+    reviewCardRenderer.renderReviewCard(entry, revealed)
+}
+
+function revealAnswer(): void {
+    if (revealed || !getCurrentEntry()) {
+        return
+    }
+    revealed = true
+    renderCurrent()
+}
+
+async function gradeCurrent(grade: types.ReviewGrade): Promise<void> {
+    const entry = getCurrentEntry()
+    if (!entry || !revealed || isGrading) {
+        return
+    }
+
+    isGrading = true
+    try {
+        const updated = await vocabularyRequests.gradeVocabularyEntry(entry.id, grade)
+        queue.shift()
+
+        // Failed cards come back at the end of today's session (SM-2 repeats them until recalled)
+        if (updated && grade < spacedRepetition.PASSING_GRADE) {
+            queue.push(updated)
+        }
+
+        revealed = false
+        renderCurrent()
+    } catch (error) {
+        logger.error("Failed to save review grade:", error)
+    } finally {
+        isGrading = false
+    }
+}
+
+async function speakCurrent(): Promise<void> {
+    const entry = getCurrentEntry()
+    if (!entry) {
+        return
+    }
+
+    const errorMessage = await pronunciationPlayer.playPronunciation(entry.word, entry.sourceLanguage)
+    if (errorMessage) {
+        reviewCardRenderer.renderStatus(errorMessage)
+    }
+}
+
+function setupEventListeners(): void {
+    document.getElementById("reviewShowAnswerButton")?.addEventListener("click", () => revealAnswer())
+
+    document.getElementById("reviewSpeakButton")?.addEventListener("click", () => {
+        speakCurrent().catch((error) => logger.error("Failed to play pronunciation:", error))
+    })
+
+    document.getElementById("reviewGradeButtons")?.addEventListener("click", (event) => {
+        const button = (event.target as HTMLElement | null)?.closest<HTMLElement>("[data-grade]")
+        const grade = Number(button?.dataset.grade) as types.ReviewGrade
+        if (!button || Number.isNaN(grade)) {
+            return
+        }
+        gradeCurrent(grade).catch((error) => logger.error("Failed to grade card:", error))
+    })
+
+    document.addEventListener("keydown", (event) => {
+        if (event.key === " " || event.key === "Enter") {
+            event.preventDefault()
+            revealAnswer()
+            return
+        }
+
+        const grade = GRADE_SHORTCUTS[event.key]
+        if (grade !== undefined) {
+            gradeCurrent(grade).catch((error) => logger.error("Failed to grade card:", error))
+        }
+    })
+}
+
+/**
+ * Initialize review page
+ */
+async function initialize(): Promise<void> {
+    logger.info("Review page initializing")
+
+    try {
+        i18nModule.initI18n()
+        i18nModule.applyTranslations()
+
+        const entries = await vocabularyStorage.getVocabularyEntries()
+        queue = spacedRepetition.getDueEntries(entries)
+        logger.info(`Loaded ${queue.length} due cards out of ${entries.length} entries`)
+
+        setupEventListeners()
+        renderCurrent()
+    } finally {
+        document.documentElement.classList.remove("loading")
+    }
+}
+
+document.addEventListener("DOMContentLoaded", () => {
+    initialize().catch((error) => {
+        logger.error("Failed to initialize review page:", error)
+    })
+})
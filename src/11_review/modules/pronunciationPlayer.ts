@@ -0,0 +1,51 @@
+/**
+ * Pronunciation Player for Review Page
+ *
+ * Plays word pronunciation through the background SPEECH_SYNTHESIS_REQUEST path
+ * (synthesis + offscreen playback), same as the translation modal
+ */
+
+import type { SpeechSynthesisRequestMessage, SpeechSynthesisResponseMessage } from "@/0_common/types"
+import * as i18nModule from "@/0_common/utils/i18n"
+import * as loggerModule from "@/0_common/utils/logger"
+
+const logger = loggerModule.createLogger("Review/Pronunciation")
+
+/**
+ * Request pronunciation playback for a word
+ *
+ * @param text - Text to speak
+ * @param language - Language of the text (optional, auto-detected by the speech service)
+ * @returns Promise resolving to null on success, or an error message to display
+ */
+export async function playPronunciation(text: string, language?: string): Promise<string | null> {
+    if (!text) {
+        return null
+    }
+
+    const message: SpeechSynthesisRequestMessage = {
+        type: "SPEECH_SYNTHESIS_REQUEST",
+        data: {
+            text,
+            language,
+        },
+    }
+
+    return await new Promise<string | null>((resolve) => {
+        chrome.runtime.sendMessage(message, (response: SpeechSynthesisResponseMessage | undefined) => {
+            if (chrome.runtime.lastError || !response) {
+                logger.error("Error sending speech synthesis message:", chrome.runtime.lastError)
+                resolve(i18nModule.translate("error.speech.unexpected"))
+                return
+            }
+
+            if (response.success) {
+                resolve(null)
+                return
+            }
+
+            logger.error("Speech synthesis failed:", response.error)
+            resolve(response.errorType === "QuotaExceeded" ? response.error : i18nModule.translate("error.speech.unexpected"))
+        })
+    })
+}
@@ -0,0 +1,103 @@
+/**
+ * Review Card Renderer
+ *
+ * Renders a vocabulary entry as a review card: the original sentence with the
+ * word blanked (front) or highlighted (back), plus translation details
+ */
+
+import type * as types from "@/0_common/types"
+import * as i18nModule from "@/0_common/utils/i18n"
+import * as vocabularyStorage from "@/0_common/utils/vocabularyStorage"
+
+const BLANK_PLACEHOLDER = "_____"
+
+/**
+ * Render the sentence with the word either blanked or highlighted
+ *
+ * @param container - Element to render into (its content is replaced)
+ * @param entry - Vocabulary entry
+ * @param revealed - Whether the answer is revealed (highlight instead of blank)
+ */
+function renderSentence(container: HTMLElement, entry: types.VocabularyEntry, revealed: boolean): void {
+    container.innerHTML = ""
+
+    const sentence = entry.originalSentence ?? ""
+    const located = vocabularyStorage.locateWordInSentence(sentence, entry.word)
+
+    if (!located) {
+        // No sentence (or word not found in it): fall back to a word-only card
+        container.classList.add("is-word-only")
+        container.textContent = revealed ? entry.word : entry.translation
+        return
+    }
+
+    container.classList.remove("is-word-only")
+    container.appendChild(document.createTextNode(located.before))
+
+    const mark = document.createElement("span")
+    mark.className = revealed ? "review-highlight" : "review-blank"
+    mark.textContent = revealed ? located.match : BLANK_PLACEHOLDER
+    container.appendChild(mark)
+
+    container.appendChild(document.createTextNode(located.after))
+}
+
+function setText(id: string, text: string): void {
+    const element = document.getElementById(id)
+    if (element) {
+        element.textContent = text
+    }
+}
+
+/**
+ * Render a card in its front (question) or back (answer) state
+ *
+ * @param entry - Vocabulary entry to review
+ * @param revealed - Whether the answer side is visible
+ */
+export function renderReviewCard(entry: types.VocabularyEntry, revealed: boolean): void {
+    const sentenceElement = document.getElementById("reviewSentence")
+    const answerElement = document.getElementById("reviewAnswer")
+    const showAnswerButton = document.getElementById("reviewShowAnswerButton")
+    const gradeButtons = document.getElementById("reviewGradeButtons")
+
+    if (sentenceElement) {
+        renderSentence(sentenceElement, entry, revealed)
+    }
+
+    // The hint (translation) is only needed on the front of sentence cards
+    const hasSentence = vocabularyStorage.locateWordInSentence(entry.originalSentence ?? "", entry.word) !== null
+    setText("reviewHint", !revealed && hasSentence ? entry.translation : "")
+
+    setText("reviewWord", entry.lemma && entry.lemma !== entry.word ? `${entry.word} · ${entry.lemma}` : entry.word)
+    setText("reviewPhonetic", entry.phonetic || entry.lemmaPhonetic || "")
+    setText("reviewTranslation", entry.translation)
+    setText("reviewSentenceTranslation", entry.sentenceTranslation ?? "")
+    setText("reviewStatus", "")
+
+    if (answerElement) {
+        answerElement.style.display = revealed ? "block" : "none"
+    }
+    if (showAnswerButton) {
+        showAnswerButton.style.display = revealed ? "none" : "inline-flex"
+    }
+    if (gradeButtons) {
+        gradeButtons.style.display = revealed ? "flex" : "none"
+    }
+}
+
+/**
+ * Update the progress label ("N left")
+ *
+ * @param remaining - Number of cards left in the session
+ */
+export function renderProgress(remaining: number): void {
+    setText("reviewProgress", i18nModule.translate("review.progress").replace("{count}", String(remaining)))
+}
+
+/**
+ * Show a short status message under the answer (e.g., speech errors)
+ */
+export function renderStatus(message: string): void {
+    setText("reviewStatus", message)
+}
@@ -6,6 +6,9 @@
  * - Translation anchor (highlighted text)
  * - Translation tooltip
  * - Translation detail modal
+ * - Bilingual mode paragraph translation
+ * - Immersive vocabulary gloss (word anchor added automatically)
+ * - Ruby reading (pronunciation shown above translated Chinese, Japanese or Korean text)
  */
 
 export const CSS_CLASSES = {
@@ -21,4 +24,8 @@ export const CSS_CLASSES = {
     MODAL_SECTION_TITLE: "ai-translator-modal-section-title",
     MODAL_SECTION_CONTENT: "ai-translator-modal-section-content",
     MODAL_PLACEHOLDER: "ai-translator-modal-placeholder",
+    BILINGUAL_TRANSLATION: "ai-translator-bilingual",
+    GLOSS_ANCHOR: "ai-translator-anchor--gloss",
+    RUBY: "ai-translator-ruby",
+    RUBY_TEXT: "ai-translator-ruby-text",
 } as const
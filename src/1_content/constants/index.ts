@@ -15,3 +15,15 @@ export const MIN_TOOLTIP_FONT_PX = 10
 
 /** Safety delta added to min font when adjusting line-height (px) */
 export const MIN_TOOLTIP_SAFETY_DELTA_PX = 1
+
+/** Maximum number of translation requests in flight at once */
+export const MAX_PARALLEL_TRANSLATIONS = 3
+
+/** Distance outside the viewport within which bilingual mode already translates paragraphs (px) */
+export const BILINGUAL_PRELOAD_MARGIN_PX = 200
+
+/** Pause after scrolling before immersive vocabulary looks for words to gloss (ms) */
+export const GLOSS_SCAN_DELAY_MS = 300
+
+/** Shortest word immersive vocabulary glosses */
+export const MIN_GLOSS_WORD_LENGTH = 3
@@ -0,0 +1,86 @@
+/**
+ * Annotation Restorer
+ *
+ * Re-anchors and re-renders translations saved on a previous visit to this page
+ * (see annotationPersistence). Saved annotations whose text can no longer be found
+ * are reported as orphans and kept in storage, in case the content comes back.
+ */
+
+import type { PersistedAnnotation } from "@/0_common/types"
+import * as i18nModule from "@/0_common/utils/i18n"
+import * as loggerModule from "@/0_common/utils/logger"
+import * as contentIndex from "@/1_content/index"
+import * as translationPipeline from "@/1_content/handlers/TranslationPipeline"
+import * as translationOverlapDetector from "@/1_content/handlers/utils/translationOverlapDetector"
+import * as annotationPersistence from "@/1_content/services/annotationPersistence"
+import * as toastNotification from "@/1_content/ui/toastNotification"
+import * as textQuoteAnchor from "@/1_content/utils/textQuoteAnchor"
+
+const logger = loggerModule.createLogger("annotationRestorer")
+
+/**
+ * Outcome of a restore pass
+ */
+export interface AnnotationRestoreReport {
+    restored: number
+    orphans: PersistedAnnotation[]
+}
+
+/**
+ * Restore the annotations saved for the current page
+ *
+ * @returns How many annotations were restored and which ones could not be re-anchored
+ */
+export async function restorePageAnnotations(): Promise<AnnotationRestoreReport> {
+    const report: AnnotationRestoreReport = { restored: 0, orphans: [] }
+
+    if (contentIndex.getCachedUserSettings()?.enableTapWord === false) {
+        return report
+    }
+
+    const annotations = await annotationPersistence.getPageAnnotations()
+    if (annotations.length === 0) {
+        return report
+    }
+
+    // The page text is indexed once; the ranges are live, so they stay in place while earlier restores wrap text.
+    // Restores run sequentially so each overlap check sees the anchors added before it.
+    const ranges = textQuoteAnchor.findTextQuoteRanges(annotations.map((annotation) => annotation.selector))
+    for (const [index, annotation] of annotations.entries()) {
+        const range = ranges[index]
+        if (!range) {
+            report.orphans.push(annotation)
+            continue
+        }
+
+        if (translationOverlapDetector.detectOverlappingTranslations(range).length > 0) {
+            logger.debug("Skipping annotation that overlaps an existing translation:", annotation.id)
+            continue
+        }
+
+        try {
+            await translationPipeline.restoreAnnotation(range, annotation)
+            report.restored++
+        } catch (error) {
+            logger.warn("Failed to restore annotation:", annotation.id, error)
+            report.orphans.push(annotation)
+        }
+    }
+
+    logger.info(`Restored ${report.restored} of ${annotations.length} saved annotations`)
+    reportOrphans(report.orphans)
+
+    return report
+}
+
+function reportOrphans(orphans: PersistedAnnotation[]): void {
+    if (orphans.length === 0) {
+        return
+    }
+
+    logger.warn(
+        "Orphaned annotations (text no longer found on page):",
+        orphans.map((annotation) => annotation.selector.exact)
+    )
+    toastNotification.showToast(i18nModule.translate("content.annotations.orphaned").replace("{count}", String(orphans.length)), "info")
+}
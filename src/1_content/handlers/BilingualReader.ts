@@ -0,0 +1,318 @@
+/**
+ * Bilingual Reader
+ *
+ * Whole-page bilingual reading mode: every paragraph gets its translation inserted right below it.
+ *
+ * Responsibilities:
+ * 1. Collect paragraphs: block elements (see domSanitizer.BLOCK_ELEMENTS) without nested blocks
+ * 2. Translate them through the fragment pipeline in viewport order, with the shared concurrency limit
+ * 3. Pause for off-screen content: paragraphs are only requested while they are (nearly) visible
+ * 4. Undo everything when turned off: inserted translations, expanded heights and observers
+ */
+
+import { DEFAULT_USER_SETTINGS } from "@/0_common/types"
+import * as i18nModule from "@/0_common/utils/i18n"
+import * as loggerModule from "@/0_common/utils/logger"
+import * as translationStyleModule from "@/0_common/utils/translationStyle"
+import * as contentConstants from "@/1_content/constants"
+import * as contentIndex from "@/1_content/index"
+import * as editableElementDetector from "@/1_content/handlers/utils/editableElementDetector"
+import * as translationRequest from "@/1_content/services/translationRequest"
+import * as toastNotification from "@/1_content/ui/toastNotification"
+import { createConcurrencyLimiter, type RequestLimiter } from "@/1_content/utils/concurrencyLimiter"
+import * as domSanitizer from "@/1_content/utils/domSanitizer"
+import * as languageDetector from "@/1_content/utils/languageDetector"
+
+const logger = loggerModule.createLogger("bilingualReader")
+
+/** Block elements that hold other blocks or code rather than readable paragraphs */
+const CONTAINER_TAGS = new Set(["DL", "FIELDSET", "FORM", "HR", "OL", "PRE", "TABLE", "TBODY", "TFOOT", "THEAD", "TR", "UL"])
+
+/** Content never translated, even when a paragraph sits inside it */
+const SKIPPED_ANCESTOR_SELECTOR = "pre, code, script, style, noscript, textarea, [aria-hidden='true']"
+
+// Marker attribute to track paragraphs whose clipped height was expanded
+const EXPANDED_MARKER = "data-ai-translator-bilingual-expanded"
+
+// Store original inline height styles (and the style attribute as written) to allow restoration
+const originalHeights = new WeakMap<HTMLElement, { height: string; maxHeight: string; cssText: string; attribute: string | null }>()
+
+type ParagraphState = "queued" | "translating" | "done"
+
+interface BilingualSession {
+    limiter: RequestLimiter
+    intersectionObserver: IntersectionObserver
+    mutationObserver: MutationObserver
+    /** Paragraphs currently within the viewport (plus preload margin) */
+    visible: Set<Element>
+    states: WeakMap<Element, ParagraphState>
+}
+
+let session: BilingualSession | null = null
+
+/**
+ * Whether bilingual mode is on for this page
+ */
+export function isBilingualModeActive(): boolean {
+    return session !== null
+}
+
+/**
+ * Turn bilingual mode on or off
+ *
+ * @returns Whether bilingual mode is on afterwards
+ */
+export function toggleBilingualMode(): boolean {
+    if (session) {
+        disableBilingualMode()
+        toastNotification.showToast(i18nModule.translate("content.bilingual.disabled"), "info")
+    } else {
+        enableBilingualMode()
+        toastNotification.showToast(i18nModule.translate("content.bilingual.enabled"), "info")
+    }
+    return isBilingualModeActive()
+}
+
+/**
+ * Turn bilingual mode on: observe all paragraphs and translate the visible ones
+ */
+export function enableBilingualMode(): void {
+    if (session) {
+        return
+    }
+
+    const current: BilingualSession = {
+        limiter: createConcurrencyLimiter(contentConstants.MAX_PARALLEL_TRANSLATIONS),
+        intersectionObserver: new IntersectionObserver((entries) => handleIntersections(current, entries), {
+            rootMargin: `${contentConstants.BILINGUAL_PRELOAD_MARGIN_PX}px 0px`,
+        }),
+        mutationObserver: new MutationObserver((mutations) => handleMutations(current, mutations)),
+        visible: new Set(),
+        states: new WeakMap(),
+    }
+    session = current
+
+    const paragraphs = collectParagraphs(document.body)
+    paragraphs.forEach((paragraph) => current.intersectionObserver.observe(paragraph))
+    current.mutationObserver.observe(document.body, { childList: true, subtree: true })
+
+    logger.info(`Bilingual mode enabled, observing ${paragraphs.length} paragraphs`)
+}
+
+/**
+ * Turn bilingual mode off and restore the page as it was
+ * Requests still in flight are discarded when they return.
+ */
+export function disableBilingualMode(): void {
+    if (session) {
+        stopObserving(session)
+        session = null
+    }
+
+    document.querySelectorAll(`.${contentConstants.CSS_CLASSES.BILINGUAL_TRANSLATION}`).forEach((element) => element.remove())
+    document.querySelectorAll<HTMLElement>(`[${EXPANDED_MARKER}]`).forEach(restoreHeight)
+
+    logger.info("Bilingual mode disabled")
+}
+
+/**
+ * Find the paragraphs to translate within a subtree
+ * A paragraph is a block element without nested blocks, outside editable content,
+ * code and the extension's UI, whose text contains at least one letter.
+ *
+ * @param root - Subtree to search (the root itself is included)
+ * @returns Paragraphs in document order
+ */
+export function collectParagraphs(root: Element): Element[] {
+    const candidates = [root, ...Array.from(root.querySelectorAll("*"))]
+
+    // Reverse document order visits descendants before their ancestors, so one pass finds every element with a nested block
+    const hasNestedBlock = new Set<Element>()
+    for (const element of candidates.slice().reverse()) {
+        if (element.parentElement && (domSanitizer.BLOCK_ELEMENTS.has(element.tagName) || hasNestedBlock.has(element))) {
+            hasNestedBlock.add(element.parentElement)
+        }
+    }
+
+    return candidates.filter((element) => !hasNestedBlock.has(element) && isParagraph(element))
+}
+
+function isParagraph(element: Element): boolean {
+    if (!domSanitizer.BLOCK_ELEMENTS.has(element.tagName) || CONTAINER_TAGS.has(element.tagName)) {
+        return false
+    }
+    if (element.closest(SKIPPED_ANCESTOR_SELECTOR) || editableElementDetector.isEditableElement(element)) {
+        return false
+    }
+    if (element.closest(`.${contentConstants.CSS_CLASSES.TOOLTIP}, .${contentConstants.CSS_CLASSES.MODAL}`)) {
+        return false
+    }
+    return /\p{L}/u.test(getParagraphText(element))
+}
+
+function getParagraphText(element: Element): string {
+    const range = document.createRange()
+    range.selectNodeContents(element)
+    return domSanitizer.getCleanTextFromRange(range).replace(/\s+/g, " ").trim()
+}
+
+function stopObserving(current: BilingualSession): void {
+    current.intersectionObserver.disconnect()
+    current.mutationObserver.disconnect()
+    current.visible.clear()
+}
+
+function handleIntersections(current: BilingualSession, entries: IntersectionObserverEntry[]): void {
+    const entered: IntersectionObserverEntry[] = []
+    for (const entry of entries) {
+        if (entry.isIntersecting) {
+            current.visible.add(entry.target)
+            entered.push(entry)
+        } else {
+            current.visible.delete(entry.target)
+        }
+    }
+
+    // Viewport order: top to bottom, so the limiter's FIFO queue requests what the reader sees first
+    entered
+        .sort((a, b) => a.boundingClientRect.top - b.boundingClientRect.top)
+        .forEach((entry) => {
+            if (!current.states.has(entry.target)) {
+                current.states.set(entry.target, "queued")
+                void current.limiter(() => translateParagraph(current, entry.target))
+            }
+        })
+}
+
+function handleMutations(current: BilingualSession, mutations: MutationRecord[]): void {
+    for (const mutation of mutations) {
+        mutation.addedNodes.forEach((node) => {
+            if (node.nodeType !== Node.ELEMENT_NODE) {
+                return
+            }
+            const element = node as Element
+            if (element.classList.contains(contentConstants.CSS_CLASSES.BILINGUAL_TRANSLATION)) {
+                return
+            }
+            collectParagraphs(element).forEach((paragraph) => current.intersectionObserver.observe(paragraph))
+        })
+    }
+}
+
+async function translateParagraph(current: BilingualSession, paragraph: Element): Promise<void> {
+    if (session !== current) {
+        return
+    }
+    // Scrolled away while queued: forget it, it is queued again when it comes back into view
+    if (!current.visible.has(paragraph) || !paragraph.isConnected) {
+        current.states.delete(paragraph)
+        return
+    }
+    current.states.set(paragraph, "translating")
+
+    const text = getParagraphText(paragraph)
+    const userSettings = contentIndex.getCachedUserSettings() ?? DEFAULT_USER_SETTINGS
+    const userTargetLang = userSettings.targetLanguage || "zh"
+    const detectedLang = await languageDetector.detectSourceLanguageAsync(text)
+
+    // Already in the reader's language: nothing to add
+    if (detectedLang.toLowerCase() === userTargetLang.toLowerCase()) {
+        current.states.set(paragraph, "done")
+        return
+    }
+
+    const targetLang = languageDetector.resolveTargetLanguage(detectedLang, userTargetLang)
+    try {
+        const response = await translationRequest.requestFragmentTranslation({
+            fragment: text,
+            leadingText: "",
+            trailingText: "",
+            bookName: `网页<<${document.title}>>`,
+            sourceLanguage: detectedLang,
+            targetLanguage: targetLang,
+            translationStyle: translationStyleModule.resolveSiteTranslationStyle(userSettings, location.hostname),
+        })
+
+        // Turned off (or toggled again) while the request was in flight
+        if (session !== current) {
+            return
+        }
+        current.states.set(paragraph, "done")
+
+        if (!response.success) {
+            logger.warn("Paragraph translation failed:", response.error)
+            if (response.errorType === "QuotaExceeded") {
+                // Keep what is already translated (mode stays on so it can be turned off), but stop requesting more
+                toastNotification.showToast(response.shortMessage || response.error, "error")
+                stopObserving(current)
+            }
+            return
+        }
+
+        insertTranslation(paragraph, response.data.translation, targetLang, userSettings.autoAdjustHeight)
+    } catch (error) {
+        logger.error("Paragraph translation error:", error)
+        if (session === current) {
+            current.states.set(paragraph, "done")
+        }
+    }
+}
+
+function insertTranslation(paragraph: Element, translation: string, targetLang: string, autoAdjustHeight: boolean): void {
+    const text = translation.trim()
+    if (!text || !paragraph.isConnected) {
+        return
+    }
+
+    const block = document.createElement("span")
+    block.className = contentConstants.CSS_CLASSES.BILINGUAL_TRANSLATION
+    block.lang = targetLang
+    block.textContent = text
+    paragraph.appendChild(block)
+
+    if (autoAdjustHeight && paragraph instanceof HTMLElement) {
+        expandClippedHeight(paragraph)
+    }
+}
+
+/**
+ * Let a paragraph with a fixed, clipping height grow to show its translation
+ */
+function expandClippedHeight(paragraph: HTMLElement): void {
+    if (paragraph.hasAttribute(EXPANDED_MARKER) || paragraph.scrollHeight <= paragraph.clientHeight) {
+        return
+    }
+    const overflowY = window.getComputedStyle(paragraph).overflowY
+    if (overflowY !== "hidden" && overflowY !== "clip") {
+        return
+    }
+
+    originalHeights.set(paragraph, {
+        height: paragraph.style.height,
+        maxHeight: paragraph.style.maxHeight,
+        cssText: paragraph.style.cssText,
+        attribute: paragraph.getAttribute("style"),
+    })
+    paragraph.style.height = "auto"
+    paragraph.style.maxHeight = "none"
+    paragraph.setAttribute(EXPANDED_MARKER, "true")
+    logger.info(`Expanded clipped height on <${paragraph.tagName.toLowerCase()}>`)
+}
+
+function restoreHeight(paragraph: HTMLElement): void {
+    const original = originalHeights.get(paragraph)
+    paragraph.style.height = original?.height ?? ""
+    paragraph.style.maxHeight = original?.maxHeight ?? ""
+    // Put the attribute back as written (or absent) unless the page changed other styles in the meantime
+    if (original && paragraph.style.cssText === original.cssText) {
+        if (original.attribute === null) {
+            paragraph.removeAttribute("style")
+        } else {
+            paragraph.setAttribute("style", original.attribute)
+        }
+    } else if (!paragraph.getAttribute("style")) {
+        paragraph.removeAttribute("style")
+    }
+    paragraph.removeAttribute(EXPANDED_MARKER)
+    originalHeights.delete(paragraph)
+}
@@ -0,0 +1,396 @@
+/**
+ * Immersive Vocabulary
+ *
+ * Glosses unknown English words on the sites where the user turned the mode on.
+ *
+ * Responsibilities:
+ * 1. Follow the settings: on for listed sites (immersiveVocabularySites) while TapWord is enabled
+ * 2. Pick unknown words in visible paragraphs: not marked as known and rarer than the configured frequency rank
+ * 3. Gloss the rarest ones first, up to the per-viewport cap, with one request per paragraph
+ * 4. Remove glosses when their word is marked as known (in any tab) or the mode is turned off
+ */
+
+import type { UserSettings } from "@/0_common/types"
+import { DEFAULT_USER_SETTINGS } from "@/0_common/types"
+import * as immersiveVocabularyModule from "@/0_common/utils/immersiveVocabulary"
+import * as loggerModule from "@/0_common/utils/logger"
+import * as storageManager from "@/0_common/utils/storageManager"
+import * as contentConstants from "@/1_content/constants"
+import * as contentIndex from "@/1_content/index"
+import * as bilingualReader from "@/1_content/handlers/BilingualReader"
+import * as translationPipeline from "@/1_content/handlers/TranslationPipeline"
+import * as toastNotification from "@/1_content/ui/toastNotification"
+import * as translationDisplay from "@/1_content/ui/translationDisplay"
+import { createConcurrencyLimiter, type RequestLimiter } from "@/1_content/utils/concurrencyLimiter"
+import * as domSanitizer from "@/1_content/utils/domSanitizer"
+import * as languageDetector from "@/1_content/utils/languageDetector"
+import * as wordFrequency from "@/1_content/utils/wordFrequency"
+
+const logger = loggerModule.createLogger("immersiveVocabulary")
+
+/** Matches words of Latin letters; inner apostrophes keep contractions ("don't") in one token */
+const WORD_PATTERN = /[A-Za-z]+(?:['’][A-Za-z]+)*/g
+
+/** Text never glossed: existing translations and the extension's UI */
+const SKIPPED_TEXT_SELECTOR = [
+    contentConstants.CSS_CLASSES.ANCHOR,
+    contentConstants.CSS_CLASSES.TOOLTIP,
+    contentConstants.CSS_CLASSES.MODAL,
+    contentConstants.CSS_CLASSES.BILINGUAL_TRANSLATION,
+]
+    .map((className) => `.${className}`)
+    .join(", ")
+
+interface GlossCandidate {
+    paragraph: Element
+    word: string
+    /** Frequency rank (null = not in the list, rarest) */
+    rank: number | null
+}
+
+interface GlossSession {
+    limiter: RequestLimiter
+    intersectionObserver: IntersectionObserver
+    mutationObserver: MutationObserver
+    onScroll: () => void
+    onStorageChanged: (changes: Record<string, chrome.storage.StorageChange>, areaName: string) => void
+    /** Paragraphs currently within the viewport */
+    visible: Set<Element>
+    languages: WeakMap<Element, string>
+    knownWords: Set<string>
+    /** Words glossed on this page (lowercase); each word is glossed once */
+    glossedWords: Set<string>
+    scanTimer: ReturnType<typeof setTimeout> | null
+    quotaExceeded: boolean
+}
+
+let session: GlossSession | null = null
+
+/**
+ * Whether immersive vocabulary is glossing this page
+ */
+export function isImmersiveVocabularyActive(): boolean {
+    return session !== null
+}
+
+/**
+ * Whether the user turned immersive vocabulary on for this page's site
+ */
+export function isEnabledForPage(settings: UserSettings): boolean {
+    return immersiveVocabularyModule.findImmersiveVocabularySite(settings.immersiveVocabularySites ?? [], location.hostname) !== null
+}
+
+/**
+ * Start or stop glossing to match the settings
+ *
+ * @param settings - Current user settings
+ */
+export function syncImmersiveVocabulary(settings: UserSettings): void {
+    const shouldBeActive = settings.enableTapWord !== false && isEnabledForPage(settings)
+    if (shouldBeActive && !session) {
+        enableImmersiveVocabulary()
+    } else if (!shouldBeActive && session) {
+        disableImmersiveVocabulary()
+    }
+}
+
+/**
+ * Turn immersive vocabulary on or off for this page's site
+ * The choice is saved in the settings, so other tabs of the site follow.
+ *
+ * @returns Whether it is on for the site afterwards
+ */
+export async function toggleImmersiveVocabularyForSite(): Promise<boolean> {
+    const settings = await storageManager.getUserSettings()
+    const sites = immersiveVocabularyModule.toggleImmersiveVocabularySite(settings.immersiveVocabularySites, location.hostname)
+    const updated = await storageManager.updateUserSettings({ immersiveVocabularySites: sites })
+    syncImmersiveVocabulary(updated)
+    return isEnabledForPage(updated)
+}
+
+/**
+ * Start glossing: load the known words, then observe all paragraphs
+ */
+export function enableImmersiveVocabulary(): void {
+    if (session) {
+        return
+    }
+
+    const current: GlossSession = {
+        limiter: createConcurrencyLimiter(contentConstants.MAX_PARALLEL_TRANSLATIONS),
+        intersectionObserver: new IntersectionObserver((entries) => handleIntersections(current, entries)),
+        mutationObserver: new MutationObserver((mutations) => handleMutations(current, mutations)),
+        onScroll: () => scheduleScan(current),
+        onStorageChanged: (changes, areaName) => handleStorageChanged(current, changes, areaName),
+        visible: new Set(),
+        languages: new WeakMap(),
+        knownWords: new Set(),
+        glossedWords: new Set(),
+        scanTimer: null,
+        quotaExceeded: false,
+    }
+    session = current
+    chrome.storage.onChanged.addListener(current.onStorageChanged)
+
+    immersiveVocabularyModule
+        .getKnownWords()
+        .then((knownWords) => {
+            if (session !== current) {
+                return
+            }
+            knownWords.forEach((word) => current.knownWords.add(word))
+
+            const paragraphs = bilingualReader.collectParagraphs(document.body)
+            paragraphs.forEach((paragraph) => current.intersectionObserver.observe(paragraph))
+            current.mutationObserver.observe(document.body, { childList: true, subtree: true })
+            window.addEventListener("scroll", current.onScroll, { passive: true })
+            logger.info(`Immersive vocabulary enabled, observing ${paragraphs.length} paragraphs`)
+        })
+        .catch((error) => {
+            logger.error("Failed to start immersive vocabulary:", error)
+        })
+}
+
+/**
+ * Stop glossing and remove every gloss
+ * Requests still queued are dropped; the ones in flight are discarded when they return.
+ */
+export function disableImmersiveVocabulary(): void {
+    if (session) {
+        stopObserving(session)
+        chrome.storage.onChanged.removeListener(session.onStorageChanged)
+        session = null
+    }
+
+    const removed = translationDisplay.removeGlossTranslations()
+    logger.info(`Immersive vocabulary disabled, removed ${removed} glosses`)
+}
+
+function stopObserving(current: GlossSession): void {
+    current.intersectionObserver.disconnect()
+    current.mutationObserver.disconnect()
+    window.removeEventListener("scroll", current.onScroll)
+    if (current.scanTimer !== null) {
+        clearTimeout(current.scanTimer)
+        current.scanTimer = null
+    }
+    current.visible.clear()
+}
+
+function handleIntersections(current: GlossSession, entries: IntersectionObserverEntry[]): void {
+    for (const entry of entries) {
+        if (entry.isIntersecting) {
+            current.visible.add(entry.target)
+        } else {
+            current.visible.delete(entry.target)
+        }
+    }
+    scheduleScan(current)
+}
+
+function handleMutations(current: GlossSession, mutations: MutationRecord[]): void {
+    for (const mutation of mutations) {
+        mutation.addedNodes.forEach((node) => {
+            if (node.nodeType === Node.ELEMENT_NODE) {
+                bilingualReader.collectParagraphs(node as Element).forEach((paragraph) => current.intersectionObserver.observe(paragraph))
+            }
+        })
+    }
+}
+
+/**
+ * Words marked as known in another tab (or the modal): forget their glosses here too
+ */
+function handleStorageChanged(current: GlossSession, changes: Record<string, chrome.storage.StorageChange>, areaName: string): void {
+    const change = changes[immersiveVocabularyModule.KNOWN_WORDS_STORAGE_KEY]
+    if (areaName !== "local" || !change || session !== current) {
+        return
+    }
+
+    const knownWords = immersiveVocabularyModule.readKnownWordsChange(change)
+    const added = new Set(Array.from(knownWords).filter((word) => !current.knownWords.has(word)))
+    current.knownWords = knownWords
+    if (added.size > 0) {
+        translationDisplay.removeGlossTranslations(added)
+    }
+}
+
+/**
+ * Look for words to gloss once scrolling settles
+ */
+function scheduleScan(current: GlossSession): void {
+    if (current.scanTimer !== null) {
+        clearTimeout(current.scanTimer)
+    }
+    current.scanTimer = setTimeout(() => {
+        current.scanTimer = null
+        scanVisibleParagraphs(current).catch((error) => {
+            logger.error("Immersive vocabulary scan failed:", error)
+        })
+    }, contentConstants.GLOSS_SCAN_DELAY_MS)
+}
+
+/**
+ * Gloss the rarest unknown words of the visible paragraphs, as many as the viewport cap allows
+ */
+async function scanVisibleParagraphs(current: GlossSession): Promise<void> {
+    if (session !== current || current.quotaExceeded) {
+        return
+    }
+
+    const settings = contentIndex.getCachedUserSettings() ?? DEFAULT_USER_SETTINGS
+    const maxPerViewport = settings.immersiveVocabularyMaxPerViewport ?? DEFAULT_USER_SETTINGS.immersiveVocabularyMaxPerViewport
+    const knownRank = settings.immersiveVocabularyKnownRank ?? DEFAULT_USER_SETTINGS.immersiveVocabularyKnownRank
+    const budget = maxPerViewport - countGlossesInViewport()
+    if (budget <= 0) {
+        return
+    }
+
+    const paragraphs = Array.from(current.visible)
+        .filter((paragraph) => paragraph.isConnected)
+        .sort((a, b) => a.getBoundingClientRect().top - b.getBoundingClientRect().top)
+
+    const candidates = new Map<string, GlossCandidate>()
+    for (const paragraph of paragraphs) {
+        const text = getParagraphText(paragraph)
+        const language = await detectParagraphLanguage(current, paragraph, text)
+        if (session !== current) {
+            return
+        }
+        // The frequency list is English; other languages are left alone
+        if (language !== "en") {
+            continue
+        }
+        for (const candidate of collectUnknownWords(current, paragraph, text, knownRank)) {
+            const key = immersiveVocabularyModule.normalizeKnownWord(candidate.word)
+            if (!candidates.has(key)) {
+                candidates.set(key, candidate)
+            }
+        }
+    }
+
+    // Rarest first: unlisted words, then the least frequent listed ones (stable, so reading order breaks ties)
+    const chosen = Array.from(candidates.values())
+        .sort((a, b) => (b.rank ?? Infinity) - (a.rank ?? Infinity))
+        .slice(0, budget)
+
+    // One request per paragraph: its chosen words are glossed together, in reading order
+    const byParagraph = new Map<Element, translationPipeline.GlossTarget[]>()
+    for (const candidate of chosen) {
+        const range = findWordRange(candidate.paragraph, candidate.word)
+        if (!range) {
+            continue
+        }
+        current.glossedWords.add(immersiveVocabularyModule.normalizeKnownWord(candidate.word))
+        const targets = byParagraph.get(candidate.paragraph) ?? []
+        targets.push({ range, word: candidate.word })
+        byParagraph.set(candidate.paragraph, targets)
+    }
+
+    const limiter = createSessionLimiter(current)
+    for (const [paragraph, targets] of byParagraph) {
+        targets.sort((a, b) => a.range.compareBoundaryPoints(Range.START_TO_START, b.range))
+        const language = current.languages.get(paragraph) ?? "en"
+        translationPipeline
+            .translateGlosses(targets, getParagraphText(paragraph), language, {
+                limiter,
+                onQuotaExceeded: (message) => handleQuotaExceeded(current, message),
+            })
+            .catch((error) => {
+                logger.warn("Glosses failed:", targets.map((target) => target.word).join(", "), error)
+            })
+    }
+
+    if (chosen.length > 0) {
+        logger.info(`Glossing ${chosen.length} words:`, chosen.map((candidate) => candidate.word).join(", "))
+    }
+}
+
+/**
+ * Unknown words of a paragraph in reading order
+ * Skipped: short words, capitalized words (names, acronyms), contractions, known words,
+ * words within the known frequency rank and words already glossed on this page.
+ */
+function collectUnknownWords(current: GlossSession, paragraph: Element, text: string, knownRank: number): GlossCandidate[] {
+    const candidates: GlossCandidate[] = []
+    for (const [token] of text.matchAll(WORD_PATTERN)) {
+        if (token.length < contentConstants.MIN_GLOSS_WORD_LENGTH || /^[A-Z]/.test(token) || /['’]/.test(token)) {
+            continue
+        }
+        const word = immersiveVocabularyModule.normalizeKnownWord(token)
+        if (current.knownWords.has(word) || current.glossedWords.has(word)) {
+            continue
+        }
+        const rank = wordFrequency.getWordFrequencyRank(word)
+        if (rank !== null && rank <= knownRank) {
+            continue
+        }
+        candidates.push({ paragraph, word: token, rank })
+    }
+    return candidates
+}
+
+async function detectParagraphLanguage(current: GlossSession, paragraph: Element, text: string): Promise<string> {
+    const cached = current.languages.get(paragraph)
+    if (cached) {
+        return cached
+    }
+    const language = await languageDetector.detectSourceLanguageAsync(text)
+    current.languages.set(paragraph, language)
+    return language
+}
+
+function getParagraphText(paragraph: Element): string {
+    const range = document.createRange()
+    range.selectNodeContents(paragraph)
+    return domSanitizer.getCleanTextFromRange(range)
+}
+
+/**
+ * Find the first occurrence of a word as a whole word within one text node of a paragraph
+ *
+ * @returns Range of the word, or null when it only occurs inside existing translations (or across elements)
+ */
+function findWordRange(paragraph: Element, word: string): Range | null {
+    const pattern = new RegExp(`(?<![A-Za-z'’])${word}(?![A-Za-z'’])`)
+    const walker = document.createTreeWalker(paragraph, NodeFilter.SHOW_TEXT)
+    for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+        if (node.parentElement?.closest(SKIPPED_TEXT_SELECTOR)) {
+            continue
+        }
+        const match = pattern.exec(node.textContent ?? "")
+        if (match) {
+            const range = document.createRange()
+            range.setStart(node, match.index)
+            range.setEnd(node, match.index + word.length)
+            return range
+        }
+    }
+    return null
+}
+
+function countGlossesInViewport(): number {
+    const glosses = document.querySelectorAll(`.${contentConstants.CSS_CLASSES.GLOSS_ANCHOR}`)
+    return Array.from(glosses).filter((gloss) => {
+        const rect = gloss.getBoundingClientRect()
+        return rect.bottom > 0 && rect.top < window.innerHeight
+    }).length
+}
+
+/**
+ * Share the session limiter, but drop requests still queued when the mode is turned off
+ */
+function createSessionLimiter(current: GlossSession): RequestLimiter {
+    return <T>(task: () => Promise<T>): Promise<T> =>
+        current.limiter(() => (session === current ? task() : Promise.reject(new Error("Immersive vocabulary turned off"))))
+}
+
+function handleQuotaExceeded(current: GlossSession, message: string): void {
+    if (session !== current || current.quotaExceeded) {
+        return
+    }
+    // Keep the glosses already shown, but stop requesting more on this page
+    current.quotaExceeded = true
+    stopObserving(current)
+    toastNotification.showToast(message, "error")
+}
@@ -6,9 +6,11 @@
 
 import { ERROR_MESSAGES, UPGRADE_MODEL_ENABLED } from "@/0_common/constants"
 import * as translationFontSizeModule from "@/0_common/constants/translationFontSize"
-import { type TranslationFontSizePreset, DEFAULT_USER_SETTINGS } from "@/0_common/types"
+import { type PersistedAnnotation, type TranslationFontSizePreset, type TranslationProvider, DEFAULT_USER_SETTINGS } from "@/0_common/types"
 import * as i18nModule from "@/0_common/utils/i18n"
 import * as loggerModule from "@/0_common/utils/logger"
+import * as translationStyleModule from "@/0_common/utils/translationStyle"
+import * as contentConstants from "@/1_content/constants"
 import * as contentIndex from "@/1_content/index"
 import * as translationRequest from "@/1_content/services/translationRequest"
 import * as iconManager from "@/1_content/ui/iconManager"
@@ -16,6 +18,7 @@ import * as translationDisplay from "@/1_content/ui/translationDisplay"
 import { extractContextV2 } from "@/1_content/utils/contextExtractorV2"
 import * as domSanitizer from "@/1_content/utils/domSanitizer"
 import * as languageDetector from "@/1_content/utils/languageDetector"
+import * as wordSegmenter from "@/1_content/utils/wordSegmenter"
 import * as rangeSplitter from "@/1_content/handlers/utils/rangeSplitter"
 import * as rangeAdjuster from "@/1_content/handlers/utils/rangeAdjuster"
 import * as selectionClassifier from "@/1_content/handlers/utils/selectionClassifier"
@@ -24,7 +27,6 @@ import * as editableElementDetector from "@/1_content/handlers/utils/editableEle
 import { createConcurrencyLimiter, type RequestLimiter } from "@/1_content/utils/concurrencyLimiter"
 
 const logger = loggerModule.createLogger("selectionHandler")
-const MAX_PARALLEL_TRANSLATIONS = 3
 
 function buildDisplaySettings(settings: Partial<{ translationFontSizePreset?: TranslationFontSizePreset; autoAdjustHeight?: boolean }> | null) {
     const resolvedFont = translationFontSizeModule.resolveTranslationFontSize(settings?.translationFontSizePreset)
@@ -36,6 +38,46 @@ function buildDisplaySettings(settings: Partial<{ translationFontSizePreset?: Tr
     }
 }
 
+/**
+ * Request the reading (pinyin, kana, romaja) of a translated range and show it above the text
+ * Only for Chinese, Japanese and Korean text with the ruby reading setting on. Runs beside the
+ * translation request; when it fails (e.g. no LLM provider is configured) the readings are left out.
+ *
+ * @param anchorId - Anchor of the translated range
+ * @param text - Text of the range
+ * @param detectedLang - Source language of the text
+ * @param context - Text around the range in its sentence
+ * @param displaySettings - Display settings of the anchor (auto-adjust height)
+ */
+async function showRubyReadingIfEnabled(
+    anchorId: string,
+    text: string,
+    detectedLang: string,
+    context: { leadingText?: string; trailingText?: string },
+    displaySettings: ReturnType<typeof buildDisplaySettings>
+): Promise<void> {
+    const userSettings = contentIndex.getCachedUserSettings() ?? DEFAULT_USER_SETTINGS
+    if (!userSettings.rubyReading || !["zh", "ja", "ko"].includes(detectedLang) || !wordSegmenter.containsSegmentedScript(text)) {
+        return
+    }
+
+    try {
+        const response = await translationRequest.requestReading({
+            text,
+            leadingText: context.leadingText,
+            trailingText: context.trailingText,
+            sourceLanguage: detectedLang,
+        })
+        if (response.success) {
+            translationDisplay.showRubyReading(anchorId, response.data.segments, displaySettings)
+        } else {
+            logger.warn("Reading error:", response.error)
+        }
+    } catch (error) {
+        logger.warn("Reading request failed:", error)
+    }
+}
+
 /**
  * Triggers the translation process for a given selection and range.
  * This function is called when the translation icon is clicked.
@@ -73,7 +115,7 @@ export async function triggerTranslationForRange(
     triggerSource: string,
     loadingVariant: "text" | "spinner" = "text"
 ): Promise<void> {
-    const limiter = createConcurrencyLimiter(MAX_PARALLEL_TRANSLATIONS)
+    const limiter = createConcurrencyLimiter(contentConstants.MAX_PARALLEL_TRANSLATIONS)
     await processTranslation(range, triggerSource, limiter, loadingVariant)
 }
 
@@ -82,7 +124,7 @@ export async function triggerTranslationWithSplit(range: Range, baseLabel: strin
     const targets = splitRanges.length > 0 ? splitRanges : [range]
 
     const triggerLabel = targets.length > 1 ? `${baseLabel} (Split)` : baseLabel
-    const limiter = createConcurrencyLimiter(MAX_PARALLEL_TRANSLATIONS)
+    const limiter = createConcurrencyLimiter(contentConstants.MAX_PARALLEL_TRANSLATIONS)
     const loadingVariant: "text" | "spinner" = targets.length > 1 ? "spinner" : "text"
     await runBatchedTranslations(triggerLabel, targets, limiter, loadingVariant)
 }
@@ -96,6 +138,119 @@ async function runBatchedTranslations(
     await Promise.all(ranges.map((targetRange) => processTranslation(targetRange, triggerLabel, limiter, loadingVariant)))
 }
 
+/**
+ * Re-render a translation saved on a previous visit, without calling the provider.
+ * The anchor keeps a working refresh callback, which does request a new translation.
+ *
+ * @param range - Range found for the saved text-quote selector
+ * @param annotation - The saved annotation
+ */
+export async function restoreAnnotation(range: Range, annotation: PersistedAnnotation): Promise<void> {
+    const detectedLang =
+        annotation.sourceLanguage || (await languageDetector.detectSourceLanguageAsync(domSanitizer.getSurroundingTextForDetection(range, 30)))
+    const text = domSanitizer.getCleanTextFromRange(range).trim()
+
+    if (annotation.translationType === "word") {
+        await translateWordPath(range, text, detectedLang, undefined, "text", annotation)
+    } else {
+        await translateFragmentPath(range, text, detectedLang, undefined, "text", annotation)
+    }
+}
+
+/**
+ * Options of an immersive vocabulary gloss
+ */
+export interface GlossOptions {
+    /** Limiter of the immersive vocabulary session (may reject queued requests once the mode is off) */
+    limiter: RequestLimiter
+    /** Called when the translation quota is exhausted; the glosses are removed like any failed ones */
+    onQuotaExceeded: (message: string) => void
+}
+
+/**
+ * A word to gloss and its range in the paragraph
+ */
+export interface GlossTarget {
+    range: Range
+    word: string
+}
+
+/**
+ * Glosses of one paragraph, shared by the anchors of its words
+ */
+interface ParagraphGlosses {
+    /** Translation by lowercase word */
+    translations: Map<string, string>
+    targetLanguage: string
+    provider?: TranslationProvider
+}
+
+/**
+ * Request the glosses of a paragraph's words in one request
+ *
+ * @returns The glosses, or null when the request failed (the anchors are then removed)
+ */
+async function requestParagraphGlosses(
+    words: string[],
+    paragraph: string,
+    detectedLang: string,
+    options: GlossOptions
+): Promise<ParagraphGlosses | null> {
+    const userSettings = contentIndex.getCachedUserSettings() ?? DEFAULT_USER_SETTINGS
+    const targetLanguage = languageDetector.resolveTargetLanguage(detectedLang, userSettings.targetLanguage || "zh")
+
+    try {
+        const response = await options.limiter(() =>
+            translationRequest.requestGlosses({
+                words,
+                paragraph,
+                sourceLanguage: detectedLang,
+                targetLanguage,
+                translationStyle: translationStyleModule.resolveSiteTranslationStyle(userSettings, location.hostname),
+            })
+        )
+        if (response.success) {
+            return {
+                translations: new Map(response.data.glosses.map((gloss) => [gloss.word.toLowerCase(), gloss.translation])),
+                targetLanguage,
+                provider: response.data.provider,
+            }
+        }
+        if (response.errorType === "QuotaExceeded") {
+            options.onQuotaExceeded(response.shortMessage || ERROR_MESSAGES.QUOTA_EXCEEDED_SHORT)
+        }
+        logger.warn("Gloss error:", response.error)
+    } catch (error) {
+        logger.warn("Gloss request failed:", error)
+    }
+    return null
+}
+
+/**
+ * Gloss words of one paragraph the user has not looked up (immersive vocabulary).
+ * All words are translated in one request; each renders a regular word anchor with a spinner
+ * until the request returns. The anchors are marked as glosses, so they are not saved for future
+ * visits, and an anchor whose word is missing from the response (or whose request failed) is removed silently.
+ *
+ * @param targets - Words to gloss with their ranges, in paragraph order
+ * @param paragraph - Text of the paragraph (gives each word its sense)
+ * @param detectedLang - Source language of the paragraph
+ * @param options - Limiter and quota handling
+ */
+export async function translateGlosses(targets: GlossTarget[], paragraph: string, detectedLang: string, options: GlossOptions): Promise<void> {
+    if (targets.length === 0) {
+        return
+    }
+
+    const glosses = requestParagraphGlosses(
+        targets.map((target) => target.word),
+        paragraph,
+        detectedLang,
+        options
+    )
+    await Promise.all(targets.map((target) => translateWordPath(target.range, target.word, detectedLang, undefined, "spinner", undefined, glosses)))
+}
+
 /**
  * Core translation logic that handles language detection and routing.
  * Shared by both icon click and double-click handlers.
@@ -123,8 +278,23 @@ async function processTranslation(
 
     // Check if the language is CJK (Chinese, Japanese, Korean) or similar non-space-delimited languages
     const isCJKLanguage = ["zh", "ja", "ko"].includes(detectedLang)
+    const userSettings = contentIndex.getCachedUserSettings() ?? DEFAULT_USER_SETTINGS
+    const useSegmentedLookup = userSettings.segmentedWordLookup && wordSegmenter.isSegmentedWordLanguage(detectedLang)
 
-    if (isCJKLanguage) {
+    if (useSegmentedLookup) {
+        // For Chinese, Japanese, Korean and Thai: a selection that is exactly one dictionary word (always the case
+        // for single-click, which picks a segmented word) takes the word path; longer selections are trusted as fragments
+        const trimRes = rangeAdjuster.trimBoundaryWhitespace(range)
+        const workingRange = trimRes.range
+        const text = domSanitizer.getCleanTextFromRange(workingRange).trim()
+        if (wordSegmenter.isSingleWord(text, detectedLang)) {
+            logger.info(`[${triggerSource}] [Segmented Language] Selection is one dictionary word, using word path`)
+            await translateWordPath(workingRange, text, detectedLang, limiter, loadingVariant)
+        } else {
+            logger.info(`[${triggerSource}] [Segmented Language] Selection spans several words, using fragment path`)
+            await translateFragmentPath(workingRange, text, detectedLang, limiter, loadingVariant)
+        }
+    } else if (isCJKLanguage) {
         // For CJK languages: Trust user's selection, skip classification and expansion
         // These languages don't use spaces to separate words, so user selection is the most reliable unit
         logger.info(`[${triggerSource}] [CJK Language] Treating selection as fragment, skipping classification and expansion`)
@@ -146,7 +316,7 @@ async function processTranslation(
         // Step 3: Adjust range based on classification rules
         if (cls.type === "word") {
             if (!cls.isComplete) {
-                const exp = rangeAdjuster.expandToWordBoundaries(workingRange)
+                const exp = rangeAdjuster.expandToWordBoundaries(workingRange, detectedLang)
                 workingRange = exp.range
             }
             const word = domSanitizer.getCleanTextFromRange(workingRange).trim()
@@ -154,7 +324,7 @@ async function processTranslation(
         } else {
             // Fragment: if boundary whitespace was trimmed, skip expansion; else expand to word boundaries
             if (!cls.isComplete) {
-                const exp = rangeAdjuster.expandToWordBoundaries(workingRange)
+                const exp = rangeAdjuster.expandToWordBoundaries(workingRange, detectedLang)
                 workingRange = exp.range
             }
             const fragment = domSanitizer.getCleanTextFromRange(workingRange).trim()
@@ -173,13 +343,17 @@ async function processTranslation(
  * @param range - Selection range
  * @param word - The word to translate
  * @param detectedLang - Pre-detected source language from processTranslation
+ * @param restored - Saved annotation to render instead of requesting a translation
+ * @param glosses - Pending glosses of the word's paragraph, for immersive vocabulary (see translateGlosses)
  */
 async function translateWordPath(
     range: Range,
     word: string,
     detectedLang: string,
     limiter?: RequestLimiter,
-    loadingVariant: "text" | "spinner" = "text"
+    loadingVariant: "text" | "spinner" = "text",
+    restored?: PersistedAnnotation,
+    glosses?: Promise<ParagraphGlosses | null>
 ): Promise<void> {
     logger.info("[Word Path] Translating word:", word, "| Language:", detectedLang)
 
@@ -195,6 +369,7 @@ async function translateWordPath(
         nextSentences: v2.nextSentences.length ? v2.nextSentences : undefined,
         bookName: `网页<<${document.title}>>`,
         sourceLanguage: detectedLang, // Use pre-detected language
+        ...(glosses && { autoGloss: true }),
     }
 
     // Fetch latest user settings once before rendering to avoid stale values
@@ -212,9 +387,24 @@ async function translateWordPath(
             const payload = {
                 ...context,
                 targetLanguage: targetLang,
+                translationStyle: translationStyleModule.resolveSiteTranslationStyle(userSettings, location.hostname),
                 ...(upgradeModel && { upgradeModel: true }),
             }
-            const requestFn = () => translationRequest.requestTranslation(payload)
+            // Stream partial translations into the tooltip while the model is still generating
+            const onPartial: translationRequest.PartialTranslationListener = (partial) => {
+                translationDisplay.updateTranslationResult(
+                    anchorId,
+                    {
+                        status: "success",
+                        translation: partial.translation,
+                        sentenceTranslation: partial.sentenceTranslation,
+                        targetLanguage: targetLang,
+                        partial: true,
+                    },
+                    displaySettings
+                )
+            }
+            const requestFn = () => translationRequest.requestTranslationStream(payload, onPartial)
             const response = limiter ? await limiter(requestFn) : await requestFn()
             if (response.success) {
                 translationDisplay.updateTranslationResult(
@@ -230,6 +420,8 @@ async function translateWordPath(
                         lemma: response.data.lemma,
                         phonetic: response.data.phonetic,
                         lemmaPhonetic: response.data.lemmaPhonetic,
+                        senses: response.data.senses,
+                        provider: response.data.provider,
                     },
                     displaySettings
                 )
@@ -284,16 +476,22 @@ async function translateWordPath(
     anchorId = translationDisplay.showTranslationResult(
         range,
         word,
-        {
-            status: "loading",
-            text: i18nModule.translate("modal.loading"),
-            loadingVariant,
-        },
+        restored
+            ? { status: "success", ...restored.result }
+            : {
+                  status: "loading",
+                  text: i18nModule.translate("modal.loading"),
+                  loadingVariant,
+              },
         context,
         refreshCallback,
         "word", // Specify this is a word translation
-        displaySettings
+        displaySettings,
+        restored?.id
     )
+    if (glosses) {
+        translationDisplay.markAnchorAsGloss(anchorId, word)
+    }
 
     // After wrapping, remove ALL instances of pre-detected overlapping anchors by ID
     // This handles cases where a previous anchor was split and duplicated (nested clone + leftover)
@@ -313,8 +511,45 @@ async function translateWordPath(
         logger.warn("[Word Path] Overlap cleanup after wrap failed:", e)
     }
 
-    // Begin async language detection and then request translation
-    await performRequest()
+    // Glosses only show the translation; readings of restored annotations come from the translation cache
+    const readingPromise = glosses ? undefined : showRubyReadingIfEnabled(anchorId, word, detectedLang, context, displaySettings)
+
+    // Restored annotations already have their result; only request new translations
+    if (glosses) {
+        await showGlossResult(anchorId, word, glosses, displaySettings)
+    } else if (!restored) {
+        await performRequest()
+    }
+    await readingPromise
+}
+
+/**
+ * Fill a gloss anchor once its paragraph's glosses return
+ * A failed gloss disappears instead of showing an error the user never asked for.
+ */
+async function showGlossResult(
+    anchorId: string,
+    word: string,
+    glosses: Promise<ParagraphGlosses | null>,
+    displaySettings: ReturnType<typeof buildDisplaySettings>
+): Promise<void> {
+    const result = await glosses
+    const translation = result?.translations.get(word.toLowerCase())
+    if (!result || translation === undefined) {
+        translationDisplay.removeTranslationResult(anchorId)
+        return
+    }
+
+    translationDisplay.updateTranslationResult(
+        anchorId,
+        {
+            status: "success",
+            translation,
+            targetLanguage: result.targetLanguage,
+            provider: result.provider,
+        },
+        displaySettings
+    )
 }
 
 /**
@@ -323,13 +558,15 @@ async function translateWordPath(
  * @param range - Selection range (possibly expanded)
  * @param fragment - The text fragment to translate
  * @param detectedLang - Pre-detected source language from processTranslation
+ * @param restored - Saved annotation to render instead of requesting a translation
  */
 async function translateFragmentPath(
     range: Range,
     fragment: string,
     detectedLang: string,
     limiter?: RequestLimiter,
-    loadingVariant: "text" | "spinner" = "text"
+    loadingVariant: "text" | "spinner" = "text",
+    restored?: PersistedAnnotation
 ): Promise<void> {
     logger.info("[Fragment Path] Translating fragment:", fragment, "| Language:", detectedLang)
 
@@ -375,9 +612,17 @@ async function translateFragmentPath(
                 bookName: context.bookName,
                 sourceLanguage: detectedLang,
                 targetLanguage: targetLang,
+                translationStyle: translationStyleModule.resolveSiteTranslationStyle(userSettings, location.hostname),
                 ...(upgradeModel && { upgradeModel: true }),
             }
-            const requestFn = () => translationRequest.requestFragmentTranslation(requestPayload)
+            const onPartial: translationRequest.PartialTranslationListener = (partial) => {
+                translationDisplay.updateTranslationResult(
+                    anchorId,
+                    { status: "success", translation: partial.translation, sentenceTranslation: partial.sentenceTranslation, partial: true },
+                    displaySettings
+                )
+            }
+            const requestFn = () => translationRequest.requestFragmentTranslationStream(requestPayload, onPartial)
             const response = limiter ? await limiter(requestFn) : await requestFn()
             if (response.success) {
                 translationDisplay.updateTranslationResult(
@@ -386,6 +631,7 @@ async function translateFragmentPath(
                         status: "success",
                         translation: response.data.translation,
                         sentenceTranslation: response.data.sentenceTranslation,
+                        provider: response.data.provider,
                     },
                     displaySettings
                 )
@@ -440,15 +686,18 @@ async function translateFragmentPath(
     anchorId = translationDisplay.showTranslationResult(
         range,
         fragment,
-        {
-            status: "loading",
-            text: i18nModule.translate("modal.loading"),
-            loadingVariant,
-        },
+        restored
+            ? { status: "success", ...restored.result }
+            : {
+                  status: "loading",
+                  text: i18nModule.translate("modal.loading"),
+                  loadingVariant,
+              },
         context,
         refreshCallback,
         "fragment", // Specify this is a fragment translation
-        displaySettings
+        displaySettings,
+        restored?.id
     )
 
     // After wrapping, remove ALL instances of pre-detected overlapping anchors by ID
@@ -467,6 +716,12 @@ async function translateFragmentPath(
         logger.warn("[Fragment Path] Overlap cleanup after wrap failed:", e)
     }
 
-    // Begin async language detection and then request translation
-    await performFragmentRequest()
+    // Readings of restored annotations come from the translation cache
+    const readingPromise = showRubyReadingIfEnabled(anchorId, fragment, detectedLang, context, displaySettings)
+
+    // Restored annotations already have their result; only request new translations
+    if (!restored) {
+        await performFragmentRequest()
+    }
+    await readingPromise
 }
\ No newline at end of file
@@ -3,14 +3,14 @@
  *
  * Provides functions to trim boundary whitespace and expand a selection range
  * to word boundaries, without performing classification.
+ * Word boundaries come from Unicode word segmentation (see wordSegmenter).
  */
 
 import * as domSanitizer from "@/1_content/utils/domSanitizer"
+import * as wordSegmenter from "@/1_content/utils/wordSegmenter"
 import * as selectionClassifier from "@/1_content/handlers/utils/selectionClassifier"
 
-const WORD_BOUNDARY_REGEX = /[\s\p{P}\p{S}]/u
 const NBSP = "\u00A0"
-const HYPHEN = "-"
 const MAX_BOUNDARY_SCAN_LENGTH = 50
 
 export interface TrimResult {
@@ -25,6 +25,12 @@ export interface ExpandResult {
     adjusted: boolean
 }
 
+/** Position of a single character: its text node and index within it */
+interface CharPosition {
+    node: Node
+    offset: number
+}
+
 /**
  * Trim leading/trailing whitespace from a selection range without expanding boundaries.
  */
@@ -138,107 +144,53 @@ export function trimBoundaryWhitespace(originalRange: Range): TrimResult {
 
 /**
  * Expand selection to nearest word boundaries on both sides.
+ * Words cut by the selection grow to their full extent; punctuation at the edges is dropped.
+ *
+ * @param originalRange - Range to expand
+ * @param language - Detected language of the text (declared lang attributes when omitted)
  */
-export function expandToWordBoundaries(originalRange: Range): ExpandResult {
+export function expandToWordBoundaries(originalRange: Range, language?: string): ExpandResult {
     let startNode = originalRange.startContainer
     let startOffset = originalRange.startOffset
     let endNode = originalRange.endContainer
     let endOffset = originalRange.endOffset
-
-    let leftScanCount = 0
-    let rightScanCount = 0
     let adjusted = false
 
     // Limit cross-node traversal to within the closest block ancestor on each side.
     const leftRoot = domSanitizer.getClosestBlockAncestor(startNode) || originalRange.commonAncestorContainer
     const rightRoot = domSanitizer.getClosestBlockAncestor(endNode) || originalRange.commonAncestorContainer
-
-    // Expand left boundary
-    while (leftScanCount < MAX_BOUNDARY_SCAN_LENGTH) {
-        const leftChar = getCharAt(startNode, startOffset - 1)
-        if (leftChar === null) {
-            // At the beginning of this text node → peek previous text node's last char.
-            const prevNode = domSanitizer.getPreviousTextNodeWithin(startNode, leftRoot)
-            if (!prevNode) break
-            const prevText = (prevNode as Text).textContent || ""
-            if (prevText.length === 0) break
-            const lastChar = prevText.charAt(prevText.length - 1)
-            if (isWordBoundary(lastChar)) {
-                // The previous node ends with a boundary → we've reached the left boundary.
-                break
-            }
-            // Hop into previous node at its end and continue scanning.
-            startNode = prevNode
-            startOffset = prevText.length
+    const segmentationLanguage = wordSegmenter.resolveSegmentationLanguage(startNode, language)
+
+    // Expand left boundary: segment the text around the start and move to the start of the first word it touches
+    const leftBefore = collectCharsBefore(startNode, startOffset, leftRoot)
+    const leftChars = [...leftBefore, ...collectCharsAfter(startNode, startOffset, leftRoot)]
+    const leftPivot = leftBefore.length
+    const startWord = wordSegmenter.getWordSegments(getText(leftChars), segmentationLanguage).find((word) => word.end > leftPivot)
+    if (startWord && startWord.start !== leftPivot) {
+        const first = leftChars[startWord.start]!
+        // A cut word grows to its start; leading boundary chars are skipped within the current node only
+        if (startWord.start < leftPivot || first.node === startNode) {
+            startNode = first.node
+            startOffset = first.offset
             adjusted = true
-            leftScanCount++
-            continue
-        }
-        if (isWordBoundary(leftChar)) {
-            break
-        }
-        startOffset--
-        adjusted = true
-        leftScanCount++
-    }
-    // Skip consecutive boundary chars (if any) at the start position within current node
-    if (startNode.nodeType === Node.TEXT_NODE) {
-        const textLen = ((startNode as Text).textContent || "").length
-        while (startOffset < textLen) {
-            const nextChar = getCharAt(startNode, startOffset)
-            if (nextChar && isWordBoundary(nextChar)) {
-                startOffset++
-                adjusted = true
-            } else {
-                break
-            }
         }
     }
 
-    // Expand right boundary
-    while (rightScanCount < MAX_BOUNDARY_SCAN_LENGTH) {
-        const rightChar = getCharAt(endNode, endOffset)
-
-        if (rightChar === null) {
-            // At the end of this text node → peek next text node's first char.
-            const nextNode = domSanitizer.getNextTextNodeWithin(endNode, rightRoot)
-            if (!nextNode) break
-            const nextText = (nextNode as Text).textContent || ""
-            if (nextText.length === 0) break
-            const firstChar = nextText.charAt(0)
-            if (isWordBoundary(firstChar)) {
-                // The next node starts with a boundary → we've reached the right boundary.
-                break
-            }
-            // Hop into next node at its start and continue scanning.
-            endNode = nextNode
-            endOffset = 0
+    // Expand right boundary: move to the end of the last word the selection touches
+    const rightBefore = collectCharsBefore(endNode, endOffset, rightRoot)
+    const rightChars = [...rightBefore, ...collectCharsAfter(endNode, endOffset, rightRoot)]
+    const rightPivot = rightBefore.length
+    const endWord = wordSegmenter
+        .getWordSegments(getText(rightChars), segmentationLanguage)
+        .filter((word) => word.start < rightPivot)
+        .pop()
+    if (endWord && endWord.end !== rightPivot) {
+        const last = rightChars[endWord.end - 1]!
+        // A cut word grows to its end; trailing boundary chars are trimmed within the current node only
+        if (endWord.end > rightPivot || last.node === endNode) {
+            endNode = last.node
+            endOffset = last.offset + 1
             adjusted = true
-            rightScanCount++
-            continue
-        }
-
-        if (isWordBoundary(rightChar)) {
-            break
-        }
-
-        endOffset++
-        adjusted = true
-        rightScanCount++
-
-        // Note: when endOffset reaches the end of this node, the next loop
-        // iteration will see rightChar === null and handle hopping (with boundary
-        // peek) symmetrically to the left-boundary logic.
-    }
-
-    // Trim trailing boundary chars inside range
-    while (endOffset > 0) {
-        const prevChar = getCharAt(endNode, endOffset - 1)
-        if (prevChar && isWordBoundary(prevChar)) {
-            endOffset--
-            adjusted = true
-        } else {
-            break
         }
     }
 
@@ -256,7 +208,7 @@ export function expandToWordBoundaries(originalRange: Range): ExpandResult {
  * 3) If the result is a 'fragment' and we did not trim boundary whitespace, expand to word boundaries.
  * Returns the adjusted range and whether any modification occurred.
  */
-export function adjustSelectionRange(range: Range): { range: Range; adjusted: boolean } {
+export function adjustSelectionRange(range: Range, language?: string): { range: Range; adjusted: boolean } {
     const trimRes = trimBoundaryWhitespace(range)
     let workingRange = trimRes.range
     let adjusted = trimRes.adjusted
@@ -265,14 +217,14 @@ export function adjustSelectionRange(range: Range): { range: Range; adjusted: bo
 
     if (cls.type === "word") {
         if (!cls.isComplete) {
-            const exp = expandToWordBoundaries(workingRange)
+            const exp = expandToWordBoundaries(workingRange, language)
             workingRange = exp.range
             adjusted = adjusted || exp.adjusted
         }
     } else {
         // fragment
         if (!trimRes.adjusted) {
-            const exp = expandToWordBoundaries(workingRange)
+            const exp = expandToWordBoundaries(workingRange, language)
             workingRange = exp.range
             adjusted = adjusted || exp.adjusted
         }
@@ -281,11 +233,6 @@ export function adjustSelectionRange(range: Range): { range: Range; adjusted: bo
     return { range: workingRange, adjusted }
 }
 
-function isWordBoundary(char: string): boolean {
-    if (char === HYPHEN) return false
-    return WORD_BOUNDARY_REGEX.test(char)
-}
-
 function isWhitespaceChar(char: string): boolean {
     // Treat standard JS whitespace and NBSP as whitespace for trimming
     return /\s/.test(char) || char === NBSP
@@ -298,6 +245,52 @@ function getCharAt(node: Node, offset: number): string | null {
     return text.charAt(offset)
 }
 
+/**
+ * Characters before a boundary point (up to MAX_BOUNDARY_SCAN_LENGTH), in document order, crossing text nodes within root
+ */
+function collectCharsBefore(node: Node, offset: number, root: Node): CharPosition[] {
+    const chars: CharPosition[] = []
+    if (node.nodeType !== Node.TEXT_NODE) return chars
+
+    let current: Node | null = node
+    let index = offset - 1
+    while (current && chars.length < MAX_BOUNDARY_SCAN_LENGTH) {
+        if (index >= 0) {
+            chars.unshift({ node: current, offset: index })
+            index--
+            continue
+        }
+        current = domSanitizer.getPreviousTextNodeWithin(current, root)
+        index = (current?.textContent || "").length - 1
+    }
+    return chars
+}
+
+/**
+ * Characters from a boundary point on (up to MAX_BOUNDARY_SCAN_LENGTH), crossing text nodes within root
+ */
+function collectCharsAfter(node: Node, offset: number, root: Node): CharPosition[] {
+    const chars: CharPosition[] = []
+    if (node.nodeType !== Node.TEXT_NODE) return chars
+
+    let current: Node | null = node
+    let index = offset
+    while (current && chars.length < MAX_BOUNDARY_SCAN_LENGTH) {
+        if (index < (current.textContent || "").length) {
+            chars.push({ node: current, offset: index })
+            index++
+            continue
+        }
+        current = domSanitizer.getNextTextNodeWithin(current, root)
+        index = 0
+    }
+    return chars
+}
+
+function getText(chars: CharPosition[]): string {
+    return chars.map(({ node, offset }) => getCharAt(node, offset) ?? "").join("")
+}
+
 // Note: global previous/next text traversal within the entire document body is intentionally
 // avoided in expansion to prevent crossing block-level boundaries. Use the local helpers below.
 
@@ -7,9 +7,9 @@
 
 import * as domSanitizer from "@/1_content/utils/domSanitizer"
 
-// Keep boundary logic in sync with rangeAdjuster
 const WORD_BOUNDARY_REGEX = /[\s\p{P}\p{S}]/u
-const HYPHEN = "-"
+// Hyphens and apostrophes may sit inside a word ("well-known", "can't"); rangeAdjuster's segmentation decides
+const WORD_JOINERS = new Set(["-", "'", "\u2019"])
 
 export interface SelectionClassification {
     type: "word" | "fragment"
@@ -72,7 +72,7 @@ export function detectSelectionType(range: Range): SelectionClassification {
 }
 
 function isWordBoundary(char: string): boolean {
-    if (char === HYPHEN) return false
+    if (WORD_JOINERS.has(char)) return false
     return WORD_BOUNDARY_REGEX.test(char)
 }
 
@@ -6,6 +6,8 @@
 import * as types from "@/0_common/types"
 import * as constants from "@/1_content/constants"
 import * as domSanitizer from "@/1_content/utils/domSanitizer"
+import * as languageDetector from "@/1_content/utils/languageDetector"
+import * as wordSegmenter from "@/1_content/utils/wordSegmenter"
 import * as editableElementDetector from "@/1_content/handlers/utils/editableElementDetector"
 import * as tapWordDetector from "@/1_content/handlers/utils/tapWordDetector"
 
@@ -132,7 +134,11 @@ export async function validateSelectionAsync(
         return { isValid: false, text: selectedText, reason: "Selection inside editable element", shouldCleanup: true }
     }
 
-    if (element?.closest(`.${constants.CSS_CLASSES.ICON}, .${constants.CSS_CLASSES.TOOLTIP}, .${constants.CSS_CLASSES.ANCHOR}`)) {
+    if (
+        element?.closest(
+            `.${constants.CSS_CLASSES.ICON}, .${constants.CSS_CLASSES.TOOLTIP}, .${constants.CSS_CLASSES.ANCHOR}, .${constants.CSS_CLASSES.BILINGUAL_TRANSLATION}`
+        )
+    ) {
         return { isValid: false, text: selectedText, reason: "Selection inside extension UI", shouldCleanup: false }
     }
 
@@ -193,6 +199,7 @@ export async function validateSingleClickAsync(
         (target.closest(`.${constants.CSS_CLASSES.ICON}`) ||
             target.closest(`.${constants.CSS_CLASSES.ANCHOR}`) ||
             target.closest(`.${constants.CSS_CLASSES.TOOLTIP}`) ||
+            target.closest(`.${constants.CSS_CLASSES.BILINGUAL_TRANSLATION}`) ||
             target.closest(`.${constants.CSS_CLASSES.MODAL}`) ||
             target.closest(`.${constants.CSS_CLASSES.MODAL_BACKDROP}`))
     ) {
@@ -205,8 +212,8 @@ export async function validateSingleClickAsync(
         return { isValid: false, text: "", reason: "Active selection present", shouldCleanup: false }
     }
 
-    // 5. Range Extraction
-    const range = tapWordDetector.getWordRangeFromPoint(event.clientX, event.clientY)
+    // 5. Range Extraction (segmented in the page language, detected once per page when the content script loads)
+    const range = tapWordDetector.getWordRangeFromPoint(event.clientX, event.clientY, languageDetector.getPageLanguage())
     if (!range) {
         return { isValid: false, text: "", reason: "No word range at point", shouldCleanup: false }
     }
@@ -221,6 +228,12 @@ export async function validateSingleClickAsync(
         return { isValid: false, text: sanitizedText, reason: `Word too long (${sanitizedText.length} chars)`, shouldCleanup: false }
     }
 
+    // Chinese, Japanese, Korean and Thai words come from dictionary segmentation, which can be turned off
+    const segmentedWordLookup = settings?.segmentedWordLookup ?? types.DEFAULT_USER_SETTINGS.segmentedWordLookup
+    if (!segmentedWordLookup && wordSegmenter.containsSegmentedScript(sanitizedText)) {
+        return { isValid: false, text: sanitizedText, reason: "Segmented word lookup disabled", shouldCleanup: false }
+    }
+
     // 7. Contentless Check (Numeric, Symbols, Punctuation only)
     if (/^[\d\s\p{P}\p{S}]+$/u.test(sanitizedText)) {
         return { isValid: false, text: sanitizedText, reason: "Contentless selection skipped", shouldCleanup: false }
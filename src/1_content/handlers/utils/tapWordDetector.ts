@@ -2,22 +2,31 @@
  * Tap Word Detector
  *
  * Provides helpers to resolve a word range from a click/tap point.
+ * Words are found with Unicode word segmentation (see wordSegmenter), so any script works.
  */
 
 import * as loggerModule from "@/0_common/utils/logger"
+import * as wordSegmenter from "@/1_content/utils/wordSegmenter"
 
-const WORD_CHAR_REGEX = /[A-Za-z0-9'-]/
 const HIT_TEST_PADDING_PX = 2
 const logger = loggerModule.createLogger("tapWordDetector")
 
-export function getWordRangeFromPoint(x: number, y: number): Range | null {
+/**
+ * Resolve the word under a click/tap point
+ *
+ * @param x - Client X coordinate
+ * @param y - Client Y coordinate
+ * @param language - Detected page language used for segmentation (declared lang attributes when omitted)
+ * @returns Range of the word, or null when the point is not on a word
+ */
+export function getWordRangeFromPoint(x: number, y: number, language?: string): Range | null {
     const caretRange = getCaretRangeFromPoint(x, y)
     if (!caretRange) {
         logger.debug("No caret range at point", { x, y })
         return null
     }
 
-    const wordRange = expandRangeToWord(caretRange)
+    const wordRange = expandRangeToWord(caretRange, language)
     if (!wordRange) {
         logger.debug("Failed to expand caret range to word", { x, y })
         return null
@@ -55,7 +64,10 @@ function getCaretRangeFromPoint(x: number, y: number): Range | null {
     return range
 }
 
-function expandRangeToWord(range: Range): Range | null {
+/**
+ * Expand a collapsed caret range to the word it touches within its text node
+ */
+export function expandRangeToWord(range: Range, language?: string): Range | null {
     const node = range.startContainer
     if (!node || node.nodeType !== Node.TEXT_NODE) {
         return null
@@ -66,32 +78,14 @@ function expandRangeToWord(range: Range): Range | null {
         return null
     }
 
-    let index = range.startOffset
-    if (index > 0 && !isWordChar(text[index] ?? "") && isWordChar(text[index - 1] ?? "")) {
-        index -= 1
-    }
-
-    if (!isWordChar(text[index] ?? "")) {
-        return null
-    }
-
-    let start = index
-    while (start > 0 && isWordChar(text[start - 1] ?? "")) {
-        start -= 1
-    }
-
-    let end = index
-    while (end < text.length && isWordChar(text[end] ?? "")) {
-        end += 1
-    }
-
-    if (start === end) {
+    const word = wordSegmenter.findWordAt(text, range.startOffset, wordSegmenter.resolveSegmentationLanguage(node, language))
+    if (!word) {
         return null
     }
 
     const wordRange = document.createRange()
-    wordRange.setStart(node, start)
-    wordRange.setEnd(node, end)
+    wordRange.setStart(node, word.start)
+    wordRange.setEnd(node, word.end)
     return wordRange
 }
 
@@ -108,7 +102,3 @@ function isPointInRects(x: number, y: number, rects: DOMRectList): boolean {
 
     return false
 }
-
-function isWordChar(ch: string): boolean {
-    return WORD_CHAR_REGEX.test(ch)
-}
\ No newline at end of file
@@ -6,18 +6,30 @@
  * 2. Translation icon display (for manual selection)
  * 3. Direct translation trigger (for double-click)
  * 4. Translation result rendering
+ * 5. Whole-page bilingual mode (toggled from the popup or a keyboard command)
+ * 6. Immersive vocabulary glosses on the sites where the user turned them on
  */
 
-import type { UserSettings } from "@/0_common/types"
+import type {
+    BilingualModeRequestMessage,
+    BilingualModeResponseMessage,
+    ImmersiveVocabularyRequestMessage,
+    ImmersiveVocabularyResponseMessage,
+    UserSettings,
+} from "@/0_common/types"
 import { DEFAULT_USER_SETTINGS } from "@/0_common/types"
 import { UNDERLINE_OPACITY } from "@/0_common/constants"
 import * as loggerModule from "@/0_common/utils/logger"
 import * as storageManager from "@/0_common/utils/storageManager"
 import * as colorUtils from "@/0_common/utils/colorUtils"
+import * as annotationRestorer from "@/1_content/handlers/AnnotationRestorer"
+import * as bilingualReader from "@/1_content/handlers/BilingualReader"
+import * as immersiveVocabulary from "@/1_content/handlers/ImmersiveVocabulary"
 import * as inputListener from "@/1_content/handlers/InputListener"
 import "@/1_content/resources/content.css"
 import "@/1_content/resources/modal.css"
 import * as iconManager from "@/1_content/ui/iconManager"
+import * as languageDetector from "@/1_content/utils/languageDetector"
 
 const logger = loggerModule.createLogger("content-script")
 
@@ -66,15 +78,66 @@ async function initializeUserSettings(): Promise<void> {
             const newSettings = changes.userSettings.newValue as UserSettings
             userSettings = newSettings
             applyDynamicStyles(userSettings)
+            immersiveVocabulary.syncImmersiveVocabulary(userSettings)
             logger.info("User settings updated:", newSettings)
         }
     })
 }
 
+/**
+ * Listen for bilingual mode requests from the popup and the background keyboard command
+ */
+function setupBilingualModeListener(): void {
+    chrome.runtime.onMessage.addListener((message: BilingualModeRequestMessage, _sender, sendResponse) => {
+        if (message?.type !== "BILINGUAL_MODE_REQUEST") {
+            return false
+        }
+
+        const active = message.action === "toggle" ? bilingualReader.toggleBilingualMode() : bilingualReader.isBilingualModeActive()
+        const response: BilingualModeResponseMessage = { type: "BILINGUAL_MODE_RESPONSE", active }
+        sendResponse(response)
+        return false
+    })
+}
+
+/**
+ * Listen for immersive vocabulary requests from the popup
+ */
+function setupImmersiveVocabularyListener(): void {
+    chrome.runtime.onMessage.addListener((message: ImmersiveVocabularyRequestMessage, _sender, sendResponse) => {
+        if (message?.type !== "IMMERSIVE_VOCABULARY_REQUEST") {
+            return false
+        }
+
+        const respond = (active: boolean) => {
+            const response: ImmersiveVocabularyResponseMessage = { type: "IMMERSIVE_VOCABULARY_RESPONSE", active }
+            sendResponse(response)
+        }
+
+        if (message.action === "status") {
+            respond(immersiveVocabulary.isEnabledForPage(userSettings ?? DEFAULT_USER_SETTINGS))
+            return false
+        }
+
+        immersiveVocabulary
+            .toggleImmersiveVocabularyForSite()
+            .then(respond)
+            .catch((error) => {
+                logger.error("Failed to toggle immersive vocabulary:", error)
+                respond(immersiveVocabulary.isEnabledForPage(userSettings ?? DEFAULT_USER_SETTINGS))
+            })
+        // Keep the channel open for the asynchronous response
+        return true
+    })
+}
+
 /**
  * Initialize the content script
  */
 async function init(): Promise<void> {
+    // Detect the page language up front so the first single-click doesn't wait for it
+    void languageDetector.detectPageLanguageAsync()
+
     // Initialize user settings
     await initializeUserSettings()
 
@@ -93,7 +156,19 @@ async function init(): Promise<void> {
     // Listen for scroll to hide icon
     document.addEventListener("scroll", iconManager.removeTranslationIcon, { passive: true })
 
+    // Listen for bilingual mode toggles
+    setupBilingualModeListener()
+
+    // Gloss unknown words if the user turned immersive vocabulary on for this site
+    setupImmersiveVocabularyListener()
+    immersiveVocabulary.syncImmersiveVocabulary(userSettings ?? DEFAULT_USER_SETTINGS)
+
     logger.info("AI Click Translator - Event listeners registered")
+
+    // Bring back translations saved on a previous visit (no provider calls)
+    annotationRestorer.restorePageAnnotations().catch((error) => {
+        logger.error("Failed to restore saved annotations:", error)
+    })
 }
 
 // Start the extension
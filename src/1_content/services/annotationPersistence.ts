@@ -0,0 +1,68 @@
+/**
+ * Annotation Persistence
+ *
+ * Saved page annotations of the current page (see 0_common/utils/annotationStorage).
+ * Reads go to chrome.storage.local directly. Each write is sent to the background service worker,
+ * whose annotationStorage queue serializes it with the writes of every other tab,
+ * so no tab's read-modify-write cycle can overwrite another's annotations.
+ */
+
+import type * as types from "@/0_common/types"
+import * as annotationStorage from "@/0_common/utils/annotationStorage"
+import * as loggerModule from "@/0_common/utils/logger"
+
+const logger = loggerModule.createLogger("annotationPersistence")
+
+function sendAnnotationWrite(data: types.AnnotationWriteRequestData): Promise<void> {
+    const message: types.AnnotationWriteRequestMessage = {
+        type: "ANNOTATION_WRITE_REQUEST",
+        data,
+    }
+
+    return new Promise((resolve, reject) => {
+        chrome.runtime.sendMessage(message, (response: types.AnnotationWriteResponseMessage | undefined) => {
+            if (chrome.runtime.lastError || !response) {
+                logger.error("Error sending annotation write:", chrome.runtime.lastError)
+                reject(new Error(chrome.runtime.lastError?.message ?? "No response to annotation write"))
+                return
+            }
+
+            if (!response.success) {
+                reject(new Error(response.error))
+                return
+            }
+
+            resolve()
+        })
+    })
+}
+
+/**
+ * Get the annotations saved for a page
+ *
+ * @param pageUrl - Page URL (defaults to the current location)
+ * @returns Saved annotations, oldest first
+ */
+export function getPageAnnotations(pageUrl: string = location.href): Promise<types.PersistedAnnotation[]> {
+    return annotationStorage.getPageAnnotations(pageUrl)
+}
+
+/**
+ * Save (insert or overwrite) an annotation for a page
+ *
+ * @param annotation - Annotation to save
+ * @param pageUrl - Page URL (defaults to the current location)
+ */
+export function saveAnnotation(annotation: types.PersistedAnnotation, pageUrl: string = location.href): Promise<void> {
+    return sendAnnotationWrite({ operation: "save", pageUrl, annotation })
+}
+
+/**
+ * Remove an annotation from a page
+ *
+ * @param annotationId - Annotation ID
+ * @param pageUrl - Page URL (defaults to the current location)
+ */
+export function removeAnnotation(annotationId: string, pageUrl: string = location.href): Promise<void> {
+    return sendAnnotationWrite({ operation: "remove", pageUrl, annotationId })
+}
@@ -4,13 +4,28 @@
  * Handles sending translation requests to background script and receiving responses
  */
 
+import { TRANSLATION_STREAM_PORT_NAME } from "@/0_common/constants"
 import type {
+    ExplainRequestMessage,
+    ExplainResponseMessage,
+    ExplanationRequestData,
+    FollowUpRequestData,
+    FollowUpRequestMessage,
+    FollowUpResponseMessage,
     FragmentTranslateRequestMessage,
     FragmentTranslateResponseMessage,
     FragmentTranslationContextData,
+    GlossRequestData,
+    GlossRequestMessage,
+    GlossResponseMessage,
+    ReadingRequestData,
+    ReadingRequestMessage,
+    ReadingResponseMessage,
     TranslateRequestMessage,
     TranslateResponseMessage,
     TranslationContextData,
+    TranslationPartialMessage,
+    TranslationStreamMessage,
 } from "@/0_common/types"
 import * as loggerModule from "@/0_common/utils/logger"
 
@@ -84,6 +99,204 @@ export async function requestFragmentTranslation(data: FragmentTranslationContex
     )
 }
 
+/**
+ * Request a grammar and usage explanation of a translation from background script
+ *
+ * @param data - Text, its current translation and sentence context
+ * @returns Promise resolving to the explanation or error
+ *
+ * @example
+ * ```typescript
+ * const result = await requestExplanation({
+ *     text: 'light',
+ *     translation: '光线',
+ *     textType: 'word',
+ *     leadingText: 'The room was filled with natural ',
+ *     trailingText: ' from the large windows.',
+ *     targetLanguage: 'zh'
+ * });
+ * ```
+ */
+export async function requestExplanation(data: ExplanationRequestData): Promise<ExplainResponseMessage> {
+    return sendMessageWithRetry<ExplainRequestMessage, ExplainResponseMessage>(
+        {
+            type: "EXPLAIN_REQUEST",
+            data,
+        },
+        2,
+        150
+    )
+}
+
+/**
+ * Request the pronunciation reading of Chinese, Japanese or Korean text from background script
+ *
+ * @param data - Text, its sentence context and source language
+ * @returns Promise resolving to the reading segments or error
+ *
+ * @example
+ * ```typescript
+ * const result = await requestReading({
+ *     text: '银行',
+ *     leadingText: '我明天去',
+ *     trailingText: '办事。',
+ *     sourceLanguage: 'zh'
+ * });
+ * ```
+ */
+export async function requestReading(data: ReadingRequestData): Promise<ReadingResponseMessage> {
+    return sendMessageWithRetry<ReadingRequestMessage, ReadingResponseMessage>(
+        {
+            type: "READING_REQUEST",
+            data,
+        },
+        2,
+        150
+    )
+}
+
+/**
+ * Request the glosses of several words of one paragraph from background script (immersive vocabulary)
+ *
+ * @param data - Words, their paragraph and languages
+ * @returns Promise resolving to one gloss per translated word or error
+ */
+export async function requestGlosses(data: GlossRequestData): Promise<GlossResponseMessage> {
+    return sendMessageWithRetry<GlossRequestMessage, GlossResponseMessage>(
+        {
+            type: "GLOSS_REQUEST",
+            data,
+        },
+        2,
+        150
+    )
+}
+
+/**
+ * Ask a follow-up question about a translation from background script
+ *
+ * @param data - Translation context, earlier turns and the new question
+ * @returns Promise resolving to the reply or error
+ */
+export async function requestFollowUp(data: FollowUpRequestData): Promise<FollowUpResponseMessage> {
+    return sendMessageWithRetry<FollowUpRequestMessage, FollowUpResponseMessage>(
+        {
+            type: "FOLLOW_UP_REQUEST",
+            data,
+        },
+        2,
+        150
+    )
+}
+
+/**
+ * Partial translation received while a response is still streaming
+ */
+export type PartialTranslationListener = (partial: TranslationPartialMessage["data"]) => void
+
+/**
+ * Request translation over the translation stream port, receiving partial results as they arrive
+ *
+ * Partials are only sent for providers that stream (OpenAI-compatible custom APIs); every other
+ * provider just delivers the final response. Falls back to requestTranslation() only if the background
+ * never accepted the request (e.g. it was not ready yet); a port that closes after the ack yields an
+ * error response instead, since the request may already have been translated and charged.
+ *
+ * @param context - Translation context data
+ * @param onPartial - Called with each partial translation before the final response
+ * @returns Promise resolving to the final (validated) translation result or error
+ */
+export async function requestTranslationStream(
+    context: TranslationContextData,
+    onPartial: PartialTranslationListener
+): Promise<TranslateResponseMessage> {
+    const response = await connectTranslationStream<TranslateResponseMessage>({ type: "TRANSLATE_REQUEST", data: context }, onPartial)
+    return response ?? requestTranslation(context)
+}
+
+/**
+ * Request fragment translation over the translation stream port (see requestTranslationStream)
+ *
+ * @param data - Fragment translation context data
+ * @param onPartial - Called with each partial translation before the final response
+ * @returns Promise resolving to the final (validated) fragment translation result or error
+ */
+export async function requestFragmentTranslationStream(
+    data: FragmentTranslationContextData,
+    onPartial: PartialTranslationListener
+): Promise<FragmentTranslateResponseMessage> {
+    const response = await connectTranslationStream<FragmentTranslateResponseMessage>({ type: "FRAGMENT_TRANSLATE_REQUEST", data }, onPartial)
+    return response ?? requestFragmentTranslation(data)
+}
+
+// ============================================================================
+// Internal Helper: connectTranslationStream
+// ============================================================================
+
+/**
+ * Post one request on a new stream port and wait for the final response
+ * Resolves null when the request could not be posted or the port closes before the background acknowledged it;
+ * resolves a generic error response when the port closes after the ack but before the final response.
+ */
+function connectTranslationStream<TResponse extends TranslateResponseMessage | FragmentTranslateResponseMessage>(
+    message: TranslateRequestMessage | FragmentTranslateRequestMessage,
+    onPartial: PartialTranslationListener
+): Promise<TResponse | null> {
+    return new Promise((resolve) => {
+        let settled = false
+        let accepted = false
+        let port: chrome.runtime.Port
+
+        try {
+            port = chrome.runtime.connect({ name: TRANSLATION_STREAM_PORT_NAME })
+        } catch (error) {
+            logger.warn("Failed to open translation stream port:", error)
+            resolve(null)
+            return
+        }
+
+        port.onMessage.addListener((response: TranslationStreamMessage) => {
+            if (response.type === "TRANSLATION_ACK") {
+                accepted = true
+                return
+            }
+            if (response.type === "TRANSLATION_PARTIAL") {
+                onPartial(response.data)
+                return
+            }
+            settled = true
+            resolve(response as TResponse)
+        })
+
+        port.onDisconnect.addListener(() => {
+            if (settled) {
+                return
+            }
+            settled = true
+            logger.warn("Translation stream closed without a response:", chrome.runtime.lastError?.message, "| accepted:", accepted)
+            if (!accepted) {
+                resolve(null)
+                return
+            }
+            const responseType = message.type === "TRANSLATE_REQUEST" ? "TRANSLATE_RESPONSE" : "FRAGMENT_TRANSLATE_RESPONSE"
+            resolve({
+                type: responseType,
+                success: false,
+                error: "Translation stream closed before the response",
+                errorType: "GenericError",
+            } as TResponse)
+        })
+
+        try {
+            port.postMessage(message)
+        } catch (error) {
+            settled = true
+            logger.warn("Failed to post to translation stream port:", error)
+            resolve(null)
+        }
+    })
+}
+
 // ============================================================================
 // Internal Helper: sendMessageWithRetry
 // ============================================================================
@@ -5,6 +5,7 @@
  * Templates are loaded from separate HTML files for better maintainability.
  */
 
+import type { TranslationExplanation, TranslationProvider } from "@/0_common/types"
 import type { TranslationDetailData } from "@/1_content/ui/translationModal"
 import { APP_EDITION } from "@/0_common/constants"
 import * as i18nModule from "@/0_common/utils/i18n"
@@ -17,6 +18,9 @@ import loadingTemplate from "@/1_content/resources/modal-loading.html?raw"
 import successFragmentTemplate from "@/1_content/resources/modal-success-fragment.html?raw"
 import successTemplate from "@/1_content/resources/modal-success.html?raw"
 import dictionaryTemplate from "@/1_content/resources/section-dictionary.html?raw"
+import explanationTemplate from "@/1_content/resources/section-explanation.html?raw"
+import followUpTemplate from "@/1_content/resources/section-follow-up.html?raw"
+import sensesTemplate from "@/1_content/resources/section-senses.html?raw"
 import sentenceTemplate from "@/1_content/resources/section-original-sentence.html?raw"
 import sentenceFragmentTemplate from "@/1_content/resources/section-sentence-fragment.html?raw"
 
@@ -32,6 +36,18 @@ function getUpdateLabelHtml(): string {
     return `<a class="ai-translator-modal-update-label" href="#" data-action="download-update">${text}</a>`
 }
 
+/**
+ * Get the provider label HTML ("Translated by …"), or an empty string when the provider is unknown
+ */
+function getProviderLabelHtml(provider?: TranslationProvider): string {
+    if (!provider) {
+        return ""
+    }
+    const providerName = i18nModule.translate(`popup.translationProvider.${provider}`)
+    const text = i18nModule.translate("modal.providerLabel").replace("{provider}", providerName)
+    return `<div class="ai-translator-modal-provider-label">${escapeHtml(text)}</div>`
+}
+
 /**
  * Escape HTML to prevent XSS attacks
  */
@@ -167,6 +183,132 @@ function createFragmentSentenceSection(leadingText: string, fragment: string, tr
     })
 }
 
+/**
+ * Render the explanation fields (part of speech, grammatical role, collocations, register, examples)
+ */
+function renderExplanationContent(explanation: TranslationExplanation): string {
+    const rows: string[] = []
+    const addRow = (labelKey: string, valueHtml: string): void => {
+        rows.push(
+            `<div class="ai-translator-modal-explanation-row"><span class="ai-translator-modal-explanation-label">${escapeHtml(
+                i18nModule.translate(labelKey)
+            )}</span><div class="ai-translator-modal-explanation-value">${valueHtml}</div></div>`
+        )
+    }
+
+    if (explanation.partOfSpeech) {
+        addRow("modal.explanation.partOfSpeech", escapeHtml(explanation.partOfSpeech))
+    }
+    addRow("modal.explanation.grammaticalRole", escapeHtml(explanation.grammaticalRole))
+    if (explanation.collocations.length > 0) {
+        const items = explanation.collocations.map((item) => `<li>${escapeHtml(item)}</li>`).join("")
+        addRow("modal.explanation.collocations", `<ul class="ai-translator-modal-explanation-list">${items}</ul>`)
+    }
+    if (explanation.register) {
+        addRow("modal.explanation.register", escapeHtml(explanation.register))
+    }
+    if (explanation.examples.length > 0) {
+        const items = explanation.examples
+            .map(
+                (example) =>
+                    `<li><div class="ai-translator-modal-explanation-example">${escapeHtml(example.sentence)}</div>` +
+                    `<div class="ai-translator-modal-explanation-example-translation">${escapeHtml(example.translation)}</div></li>`
+            )
+            .join("")
+        addRow("modal.explanation.examples", `<ul class="ai-translator-modal-explanation-list">${items}</ul>`)
+    }
+
+    return rows.join("")
+}
+
+/**
+ * Create the button that opens the settings, offered when a feature needs an LLM provider and none is configured
+ */
+function createOpenSettingsButton(): string {
+    return `<button type="button" class="ai-translator-modal-open-settings">${escapeHtml(i18nModule.translate("modal.openSettings"))}</button>`
+}
+
+/**
+ * Create the explanation section, or an empty string before the Explain button is used
+ */
+function createExplanationSection(data: TranslationDetailData): string {
+    let content = ""
+    if (data.explanation) {
+        content = renderExplanationContent(data.explanation)
+    } else if (data.explanationStatus === "loading") {
+        content = `<div class="ai-translator-modal-explanation-status">${escapeHtml(i18nModule.translate("modal.explanation.loading"))}</div>`
+    } else if (data.explanationStatus === "error") {
+        const message = data.explanationError || i18nModule.translate("modal.explanation.error")
+        content = `<div class="ai-translator-modal-explanation-status ai-translator-modal-explanation-status--error">${escapeHtml(message)}</div>`
+        if (data.explanationNeedsProvider) {
+            content += createOpenSettingsButton()
+        }
+    } else {
+        return ""
+    }
+
+    const translatedTemplate = i18nModule.translateTemplate(explanationTemplate)
+    return replaceVariables(translatedTemplate, {
+        EXPLANATION_CONTENT: content,
+    })
+}
+
+/**
+ * Create the senses section (contextual sense first), or an empty string when the word has a single sense
+ */
+function createSensesSection(data: TranslationDetailData): string {
+    if (!data.senses || data.senses.length < 2) {
+        return ""
+    }
+
+    const selectedIndex = data.selectedSenseIndex ?? 0
+    const items = data.senses.map((sense, index) => {
+        const isSelected = index === selectedIndex
+        const parts = [`<span class="ai-translator-modal-sense-translation">${escapeHtml(sense.translation)}</span>`]
+        if (index === 0) {
+            parts.push(`<span class="ai-translator-modal-sense-badge">${escapeHtml(i18nModule.translate("modal.senses.contextual"))}</span>`)
+        }
+        if (sense.gloss) {
+            parts.push(`<span class="ai-translator-modal-sense-gloss">${escapeHtml(sense.gloss)}</span>`)
+        }
+        if (sense.example) {
+            parts.push(`<span class="ai-translator-modal-sense-example">${escapeHtml(sense.example)}</span>`)
+        }
+        const className = `ai-translator-modal-sense-item${isSelected ? " ai-translator-modal-sense-item--selected" : ""}`
+        return `<button type="button" class="${className}" role="option" aria-selected="${isSelected}" data-sense-index="${index}">${parts.join("")}</button>`
+    })
+
+    const translatedTemplate = i18nModule.translateTemplate(sensesTemplate)
+    return replaceVariables(translatedTemplate, {
+        SENSE_ITEMS: items.join(""),
+    })
+}
+
+/**
+ * Create the follow-up chat section (earlier turns, pending / error message and the question input)
+ */
+function createFollowUpSection(data: TranslationDetailData): string {
+    const messages = (data.followUps ?? []).map(
+        (turn) =>
+            `<div class="ai-translator-modal-follow-up-message ai-translator-modal-follow-up-message--${turn.role}">${escapeHtml(turn.content)}</div>`
+    )
+    if (data.followUpStatus === "loading") {
+        messages.push(`<div class="ai-translator-modal-follow-up-status">${escapeHtml(i18nModule.translate("modal.followUp.thinking"))}</div>`)
+    } else if (data.followUpStatus === "error") {
+        const message = data.followUpError || i18nModule.translate("modal.followUp.error")
+        messages.push(`<div class="ai-translator-modal-follow-up-status ai-translator-modal-follow-up-status--error">${escapeHtml(message)}</div>`)
+        if (data.followUpNeedsProvider) {
+            messages.push(createOpenSettingsButton())
+        }
+    }
+
+    const translatedTemplate = i18nModule.translateTemplate(followUpTemplate)
+    return replaceVariables(translatedTemplate, {
+        FOLLOW_UP_MESSAGES: messages.length > 0 ? `<div class="ai-translator-modal-follow-up-messages">${messages.join("")}</div>` : "",
+        FOLLOW_UP_DISABLED: data.followUpStatus === "loading" ? "disabled" : "",
+    })
+}
+
 // ============================================================================
 // Template Renderers
 // ============================================================================
@@ -229,6 +371,10 @@ export function renderSuccessTemplate(data: TranslationDetailData, showUpdateLab
         PHONETIC: escapeHtml(phoneticText),
         ORIGINAL_SENTENCE_SECTION: originalSentenceSection,
         DICTIONARY_SECTION: dictionarySection,
+        SENSES_SECTION: createSensesSection(data),
+        EXPLANATION_SECTION: createExplanationSection(data),
+        FOLLOW_UP_SECTION: createFollowUpSection(data),
+        PROVIDER_LABEL: getProviderLabelHtml(data.provider),
         APP_EDITION,
     })
 }
@@ -284,7 +430,10 @@ export function renderSuccessFragmentTemplate(data: TranslationDetailData, showU
         FRAGMENT_TEXT: escapeHtml(data.text),
         FRAGMENT_TRANSLATION: escapeHtml(data.translation),
         SENTENCE_SECTION: sentenceSection,
+        EXPLANATION_SECTION: createExplanationSection(data),
+        FOLLOW_UP_SECTION: createFollowUpSection(data),
         UPDATE_LABEL: fragmentUpdateLabel,
+        PROVIDER_LABEL: getProviderLabelHtml(data.provider),
         APP_EDITION,
     })
 }
@@ -0,0 +1,147 @@
+/**
+ * Ruby Annotator
+ *
+ * Renders readings (pinyin, kana, romaja) above the characters of a translation anchor
+ * as `<ruby>`/`<rt>` elements, and strips them again before the anchor is unwrapped.
+ *
+ * Segments are aligned with the anchor's text in order: each segment is looked up from the end
+ * of the previous match, so a reading is only placed over the characters it belongs to.
+ * Segments the model changed or that span an element boundary (e.g. `<b>银</b>行`) are skipped.
+ */
+
+import type { ReadingSegment } from "@/0_common/types"
+import * as constants from "@/1_content/constants"
+
+/** Font size of the reading relative to the annotated text (matches .ai-translator-ruby-text in content.css) */
+export const RUBY_TEXT_FONT_SCALE = 0.5
+
+/** Gap kept between the reading and the line above (px) */
+const RUBY_TEXT_GAP_PX = 2
+
+interface TextNodeSpan {
+    node: Text
+    /** Offset of the node's first character in the anchor text */
+    start: number
+}
+
+interface SegmentMatch {
+    start: number
+    end: number
+    reading: string
+}
+
+function collectTextNodes(anchor: HTMLElement): TextNodeSpan[] {
+    const spans: TextNodeSpan[] = []
+    const walker = document.createTreeWalker(anchor, NodeFilter.SHOW_TEXT)
+    let offset = 0
+    for (let node = walker.nextNode() as Text | null; node; node = walker.nextNode() as Text | null) {
+        if (node.parentElement?.closest(`.${constants.CSS_CLASSES.RUBY}`)) {
+            continue
+        }
+        spans.push({ node, start: offset })
+        offset += node.data.length
+    }
+    return spans
+}
+
+/**
+ * Find each segment in the text, in order
+ * Segments without a reading still advance the cursor, so later readings land on the right occurrence.
+ */
+function matchSegments(text: string, segments: readonly ReadingSegment[]): SegmentMatch[] {
+    const matches: SegmentMatch[] = []
+    let cursor = 0
+    for (const segment of segments) {
+        const base = segment.text.trim()
+        if (!base) {
+            continue
+        }
+        const start = text.indexOf(base, cursor)
+        if (start === -1) {
+            continue
+        }
+        cursor = start + base.length
+        if (segment.reading) {
+            matches.push({ start, end: cursor, reading: segment.reading })
+        }
+    }
+    return matches
+}
+
+/**
+ * Wrap a text node in a ruby element with its reading
+ */
+function wrapInRuby(base: Text, reading: string): void {
+    const ruby = document.createElement("ruby")
+    ruby.className = constants.CSS_CLASSES.RUBY
+    const rt = document.createElement("rt")
+    rt.className = constants.CSS_CLASSES.RUBY_TEXT
+    rt.textContent = reading
+    base.replaceWith(ruby)
+    ruby.append(base, rt)
+}
+
+/**
+ * Show readings above the text of an anchor
+ *
+ * @param anchor - Translation anchor holding the original text
+ * @param segments - Reading segments covering the anchor text in order
+ * @returns Number of readings placed
+ *
+ * @example
+ * ```typescript
+ * applyRubyReading(anchor, [{ text: '银', reading: 'yín' }, { text: '行', reading: 'háng' }]) // 2
+ * ```
+ */
+export function applyRubyReading(anchor: HTMLElement, segments: readonly ReadingSegment[]): number {
+    const spans = collectTextNodes(anchor)
+    const text = spans.map((span) => span.node.data).join("")
+    const matches = matchSegments(text, segments)
+
+    let placed = 0
+    // Last match first: splitting a node keeps the original node as its first part, so earlier offsets stay valid
+    for (const match of matches.reverse()) {
+        const span = spans.find((candidate) => candidate.start <= match.start && match.start < candidate.start + candidate.node.data.length)
+        if (!span || match.end > span.start + span.node.data.length) {
+            continue
+        }
+        // No empty text nodes are left behind when a match starts or ends at a node boundary
+        const base = match.start > span.start ? span.node.splitText(match.start - span.start) : span.node
+        if (match.end - match.start < base.data.length) {
+            base.splitText(match.end - match.start)
+        }
+        wrapInRuby(base, match.reading)
+        placed++
+    }
+    return placed
+}
+
+/**
+ * Remove the readings of an anchor, leaving its original text nodes
+ *
+ * @param anchor - Translation anchor
+ * @returns Whether the anchor had readings
+ */
+export function removeRubyReading(anchor: HTMLElement): boolean {
+    const rubies = Array.from(anchor.querySelectorAll(`.${constants.CSS_CLASSES.RUBY}`))
+    if (rubies.length === 0) {
+        return false
+    }
+    for (const ruby of rubies) {
+        ruby.querySelectorAll(`.${constants.CSS_CLASSES.RUBY_TEXT}`).forEach((rt) => rt.remove())
+        ruby.replaceWith(...Array.from(ruby.childNodes))
+    }
+    anchor.normalize()
+    return true
+}
+
+/**
+ * Height the readings need above the text of an anchor
+ *
+ * @param anchor - Translation anchor
+ * @returns Height in px (reading font size plus a small gap)
+ */
+export function getRubyTextHeight(anchor: HTMLElement): number {
+    const fontSize = parseFloat(window.getComputedStyle(anchor).fontSize) || 16
+    return fontSize * RUBY_TEXT_FONT_SCALE + RUBY_TEXT_GAP_PX
+}
@@ -8,9 +8,14 @@
 import type { TranslationContextData, TranslationFontSizePreset } from "@/0_common/types"
 import * as types from "@/0_common/types"
 import * as translationFontSizeModule from "@/0_common/constants/translationFontSize"
+import * as annotationStorage from "@/0_common/utils/annotationStorage"
+import * as immersiveVocabularyModule from "@/0_common/utils/immersiveVocabulary"
 import * as textTruncator from "@/0_common/utils/textTruncator"
+import * as vocabularyRequests from "@/0_common/utils/vocabularyRequests"
 import * as constants from "@/1_content/constants"
 import * as contentIndex from "@/1_content/index"
+import * as annotationPersistence from "@/1_content/services/annotationPersistence"
+import * as rubyAnnotator from "@/1_content/ui/rubyAnnotator"
 import type { TranslationDetailData } from "@/1_content/ui/translationModal"
 import * as translationModal from "@/1_content/ui/translationModal"
 import * as lineHeightAdjuster from "@/1_content/utils/lineHeightAdjuster"
@@ -49,6 +54,15 @@ interface SuccessState {
     lemma?: string | null
     phonetic?: string
     lemmaPhonetic?: string
+    provider?: types.TranslationProvider
+    /** Contextual sense first, then other common senses (only for ambiguous words) */
+    senses?: types.WordSense[]
+    /** Index of the sense picked in the modal (absent = contextual sense) */
+    selectedSenseIndex?: number
+    /** Grammar and usage explanation (restored annotations only) */
+    explanation?: types.TranslationExplanation
+    /** Incomplete text received while the response is still streaming */
+    partial?: boolean
 }
 
 /**
@@ -126,6 +140,24 @@ const anchorAdjustedBlocks = new Map<string, HTMLElement>()
  */
 const anchorObservers = new Map<string, IntersectionObserver>()
 
+/**
+ * Map to track the persisted annotation for each anchor (for restore-on-revisit)
+ * Key: anchor ID, Value: annotation ID in annotationPersistence
+ */
+const anchorAnnotationIds = new Map<string, string>()
+
+/**
+ * Map to track immersive vocabulary glosses (not persisted, removed when their word is marked as known)
+ * Key: anchor ID, Value: glossed word in lowercase
+ */
+const glossAnchorWords = new Map<string, string>()
+
+/**
+ * Map to track the block adjusted for ruby readings of each anchor (released like anchorAdjustedBlocks)
+ * Key: anchor ID, Value: adjusted block element
+ */
+const anchorRubyBlocks = new Map<string, HTMLElement>()
+
 let spinnerStylesInjected = false
 
 // ============================================================================
@@ -139,6 +171,14 @@ let spinnerStylesInjected = false
  */
 export function removeTranslationResult(anchorId: string): void {
     try {
+        // Removed by the user (or replaced by an overlapping translation): forget it for future visits too
+        const annotationId = anchorAnnotationIds.get(anchorId)
+        if (annotationId) {
+            annotationPersistence.removeAnnotation(annotationId).catch((error) => {
+                logger.warn("Failed to remove persisted annotation:", error)
+            })
+        }
+
         const anchor = document.getElementById(anchorId)
         cleanupTranslationById(anchorId, anchor, "remove")
     } catch (error) {
@@ -146,6 +186,73 @@ export function removeTranslationResult(anchorId: string): void {
     }
 }
 
+/**
+ * Mark a word anchor as an immersive vocabulary gloss
+ * Glosses are not saved for future visits; they are added again while the mode is on.
+ *
+ * @param anchorId - ID returned by showTranslationResult()
+ * @param word - The glossed word
+ */
+export function markAnchorAsGloss(anchorId: string, word: string): void {
+    glossAnchorWords.set(anchorId, immersiveVocabularyModule.normalizeKnownWord(word))
+    document.getElementById(anchorId)?.classList.add(constants.CSS_CLASSES.GLOSS_ANCHOR)
+}
+
+/**
+ * Remove immersive vocabulary glosses
+ *
+ * @param words - Only remove glosses of these words (lowercase); all glosses when omitted
+ * @returns Number of glosses removed
+ */
+export function removeGlossTranslations(words?: ReadonlySet<string>): number {
+    const anchorIds = Array.from(glossAnchorWords.entries())
+        .filter(([, word]) => !words || words.has(word))
+        .map(([anchorId]) => anchorId)
+    anchorIds.forEach(removeTranslationResult)
+    return anchorIds.length
+}
+
+/**
+ * Show the reading (pinyin, kana, romaja) above the text of a translation anchor
+ * The readings are removed with the anchor; the line-height is adjusted for them like for the tooltip.
+ *
+ * @param anchorId - ID returned by showTranslationResult()
+ * @param segments - Reading segments covering the anchor text in order
+ * @param userSettings - Display settings (auto-adjust height)
+ * @returns Whether any reading was placed (false when the anchor is gone, e.g. removed while the reading loaded)
+ */
+export function showRubyReading(anchorId: string, segments: readonly types.ReadingSegment[], userSettings?: DisplayUserSettings): boolean {
+    try {
+        const anchor = document.getElementById(anchorId)
+        if (!anchor || !activeTranslations.has(anchorId)) {
+            return false
+        }
+
+        rubyAnnotator.removeRubyReading(anchor)
+        if (rubyAnnotator.applyRubyReading(anchor, segments) === 0) {
+            return false
+        }
+
+        const autoAdjustHeight = userSettings?.autoAdjustHeight ?? contentIndex.getCachedUserSettings()?.autoAdjustHeight ?? true
+        if (autoAdjustHeight && !anchorRubyBlocks.has(anchorId)) {
+            const adjustedBlock = lineHeightAdjuster.adjustLineHeightForRuby(anchor, rubyAnnotator.getRubyTextHeight(anchor))
+            if (adjustedBlock) {
+                anchorRubyBlocks.set(anchorId, adjustedBlock)
+            }
+        }
+
+        // The readings move the text down within its line
+        anchorRectSignatureCache.delete(anchorId)
+        positionTooltip(anchorId)
+
+        logger.info("Ruby reading displayed:", anchorId)
+        return true
+    } catch (error) {
+        logger.error("Error showing ruby reading:", error)
+        return false
+    }
+}
+
 // ============================================================================
 // Internal Helpers
 // ============================================================================
@@ -239,7 +346,7 @@ function setupVisibilityObserver(anchorId: string, anchor: HTMLElement): void {
  * - Removes tooltip element
  * - Disconnects IntersectionObserver
  * - Restores line-height (via mapped block if present; else via anchorElement if provided)
- * - Optionally unwraps the anchorElement (when provided)
+ * - Optionally unwraps the anchorElement (when provided), removing its ruby readings
  * - Cleans internal maps and maybe detaches global listeners
  */
 function cleanupTranslationById(anchorId: string, anchorElement?: HTMLElement | null, reason: "remove" | "orphan" = "remove"): void {
@@ -267,25 +374,28 @@ function cleanupTranslationById(anchorId: string, anchorElement?: HTMLElement |
         }
     }
 
-    // Restore line-height if it was adjusted
-    const mappedBlock = anchorAdjustedBlocks.get(anchorId)
-    if (mappedBlock) {
-        try {
-            const cachedSettings = contentIndex.getCachedUserSettings()
-            const shouldRestore = cachedSettings?.restoreLineHeightOnClear ?? false
-            // Always call restore to update ref counts; pass skipDomRestoration=!shouldRestore
-            lineHeightAdjuster.restoreLineHeight(mappedBlock, !shouldRestore)
-        } catch (e) {
-            logger.warn("[translationDisplay] Failed to restore line-height via mapped block:", anchorId, e)
-        } finally {
-            anchorAdjustedBlocks.delete(anchorId)
+    // Restore line-height if it was adjusted (for the tooltip and for ruby readings)
+    for (const blockMap of [anchorAdjustedBlocks, anchorRubyBlocks]) {
+        const mappedBlock = blockMap.get(anchorId)
+        if (mappedBlock) {
+            try {
+                const cachedSettings = contentIndex.getCachedUserSettings()
+                const shouldRestore = cachedSettings?.restoreLineHeightOnClear ?? false
+                // Always call restore to update ref counts; pass skipDomRestoration=!shouldRestore
+                lineHeightAdjuster.restoreLineHeight(mappedBlock, !shouldRestore)
+            } catch (e) {
+                logger.warn("[translationDisplay] Failed to restore line-height via mapped block:", anchorId, e)
+            } finally {
+                blockMap.delete(anchorId)
+            }
         }
     }
 
-    // Unwrap anchor if present
+    // Unwrap anchor if present (readings first, so only the original text is put back)
     if (anchorElement && anchorElement.parentNode) {
         const parent = anchorElement.parentNode
         try {
+            rubyAnnotator.removeRubyReading(anchorElement)
             anchorElement.replaceWith(...Array.from(anchorElement.childNodes))
             // Normalize the parent to merge adjacent text nodes
             parent.normalize()
@@ -299,6 +409,8 @@ function cleanupTranslationById(anchorId: string, anchorElement?: HTMLElement |
     anchorRectSignatureCache.delete(anchorId)
     anchorTooltipSegmentsCache.delete(anchorId)
     translationDataMap.delete(anchorId)
+    anchorAnnotationIds.delete(anchorId)
+    glossAnchorWords.delete(anchorId)
     maybeDetachGlobalRepositionListeners()
 
     const tag = anchorElement ? anchorElement.tagName.toLowerCase() : "(missing)"
@@ -782,12 +894,18 @@ export function showTranslationResult(
     context?: TranslationContextData,
     onRefresh?: () => void,
     translationType: "word" | "fragment" = "word",
-    userSettings?: DisplayUserSettings
+    userSettings?: DisplayUserSettings,
+    annotationId?: string
 ): string {
     try {
         // Generate unique anchor ID
         const anchorId = `translation-anchor-${anchorIdCounter++}`
 
+        // Anchors restored from a previous visit keep pointing at their saved record
+        if (annotationId) {
+            anchorAnnotationIds.set(anchorId, annotationId)
+        }
+
         // Create anchor element to wrap the selected text
         const anchor = document.createElement("span")
         anchor.className = constants.CSS_CLASSES.ANCHOR
@@ -853,10 +971,18 @@ export function showTranslationResult(
             lemma: state.status === "success" ? state.lemma : undefined,
             phonetic: state.status === "success" ? state.phonetic : undefined,
             lemmaPhonetic: state.status === "success" ? state.lemmaPhonetic : undefined,
+            provider: state.status === "success" ? state.provider : undefined,
+            senses: state.status === "success" ? state.senses : undefined,
+            selectedSenseIndex: state.status === "success" ? state.selectedSenseIndex : undefined,
+            explanation: state.status === "success" ? state.explanation : undefined,
             // If caller already knows the source language (e.g., performed detection earlier), propagate it now.
             sourceLanguage: context?.sourceLanguage,
             onDelete: () => removeTranslationResult(anchorId),
             onRefresh: onRefresh,
+            onExplanation: (explanation) => saveExplanation(anchorId, explanation),
+            onFollowUp: (turns) => saveFollowUps(anchorId, turns),
+            onSenseSelect: (index) => selectSense(anchorId, index),
+            onMarkKnown: translationType === "word" ? () => markWordAsKnown(anchorId) : undefined,
         }
         translationDataMap.set(anchorId, initialData)
 
@@ -937,14 +1063,29 @@ export function updateTranslationResult(anchorId: string, state: TranslationStat
                 lemma: state.status === "success" ? state.lemma : existingData.lemma,
                 phonetic: state.status === "success" ? state.phonetic : existingData.phonetic,
                 lemmaPhonetic: state.status === "success" ? state.lemmaPhonetic : existingData.lemmaPhonetic,
-                // Preserve leadingText, trailingText, onDelete, and onRefresh from existing data
+                provider: state.status === "success" ? state.provider : existingData.provider,
+                senses: state.status === "success" ? state.senses : existingData.senses,
+                selectedSenseIndex: state.status === "success" ? state.selectedSenseIndex : existingData.selectedSenseIndex,
+                // A new translation invalidates the explanation and follow-up conversation of the previous one
+                explanation: state.status === "success" ? state.explanation : existingData.explanation,
+                followUps: state.status === "success" ? undefined : existingData.followUps,
+                // Preserve leadingText, trailingText and callbacks from existing data
                 leadingText: existingData.leadingText,
                 trailingText: existingData.trailingText,
                 onDelete: existingData.onDelete,
                 onRefresh: existingData.onRefresh,
+                onExplanation: existingData.onExplanation,
+                onFollowUp: existingData.onFollowUp,
+                onSenseSelect: existingData.onSenseSelect,
+                onMarkKnown: existingData.onMarkKnown,
             }
             translationDataMap.set(anchorId, updatedData)
 
+            // Only final results are persisted; partial ones are replaced as the stream continues
+            if (state.status === "success" && !state.partial) {
+                persistAnnotation(anchorId, updatedData)
+            }
+
             // If modal is open for this anchor, automatically update it
             if (translationModal.getActiveModalAnchorId() === anchorId) {
                 logger.info("Auto-refreshing modal for anchor:", anchorId)
@@ -958,6 +1099,132 @@ export function updateTranslationResult(anchorId: string, state: TranslationStat
     }
 }
 
+/**
+ * Store the explanation generated in the modal with its translation
+ */
+function saveExplanation(anchorId: string, explanation: types.TranslationExplanation): void {
+    const existingData = translationDataMap.get(anchorId)
+    if (!existingData || existingData.status !== "success") {
+        return
+    }
+
+    const updatedData: TranslationDetailData = { ...existingData, explanation }
+    translationDataMap.set(anchorId, updatedData)
+    persistAnnotation(anchorId, updatedData)
+}
+
+/**
+ * Switch the translation to a sense picked in the modal and record the choice in the vocabulary notebook
+ */
+function selectSense(anchorId: string, index: number): void {
+    const existingData = translationDataMap.get(anchorId)
+    const senses = existingData?.senses
+    const sense = senses?.[index]
+    const contextualSense = senses?.[0]
+    if (!existingData || existingData.status !== "success" || !senses || !sense || !contextualSense) {
+        return
+    }
+
+    // Re-render the tooltip, persist the annotation and refresh the open modal like any new result
+    updateTranslationResult(anchorId, {
+        status: "success",
+        translation: sense.translation,
+        sentenceTranslation: existingData.sentenceTranslation,
+        chineseDefinition: existingData.chineseDefinition,
+        englishDefinition: existingData.englishDefinition,
+        targetDefinition: existingData.targetDefinition,
+        targetLanguage: existingData.targetLanguage,
+        lemma: existingData.lemma,
+        phonetic: existingData.phonetic,
+        lemmaPhonetic: existingData.lemmaPhonetic,
+        provider: existingData.provider,
+        senses,
+        selectedSenseIndex: index,
+    })
+
+    vocabularyRequests
+        .recordSenseSelection({
+            word: existingData.text,
+            lemma: existingData.lemma,
+            targetLanguage: existingData.targetLanguage || "zh",
+            sense,
+            contextualSense,
+        })
+        .catch((error) => {
+            logger.warn("Failed to record sense selection:", error)
+        })
+}
+
+/**
+ * Keep the follow-up conversation with its translation while the page is open (not persisted)
+ */
+function saveFollowUps(anchorId: string, turns: types.FollowUpTurn[]): void {
+    const existingData = translationDataMap.get(anchorId)
+    if (!existingData) {
+        return
+    }
+
+    translationDataMap.set(anchorId, { ...existingData, followUps: turns.length > 0 ? turns : undefined })
+}
+
+/**
+ * Remember the word (and its dictionary form) as known and remove every gloss of it
+ * The anchor itself stays unless it is a gloss: a word the user looked up remains translated.
+ */
+function markWordAsKnown(anchorId: string): void {
+    const existingData = translationDataMap.get(anchorId)
+    if (!existingData) {
+        return
+    }
+
+    const words = [existingData.text, existingData.lemma].filter((word): word is string => Boolean(word))
+    removeGlossTranslations(new Set(words.map(immersiveVocabularyModule.normalizeKnownWord)))
+    immersiveVocabularyModule.markWordsAsKnown(words).catch((error) => {
+        logger.warn("Failed to mark word as known:", error)
+    })
+}
+
+/**
+ * Save a successful translation so it can be restored when the page is revisited
+ * Immersive vocabulary glosses are skipped.
+ */
+function persistAnnotation(anchorId: string, data: TranslationDetailData): void {
+    if (glossAnchorWords.has(anchorId)) {
+        return
+    }
+
+    const selector = { exact: data.text, prefix: data.leadingText ?? "", suffix: data.trailingText ?? "" }
+    const annotationId = anchorAnnotationIds.get(anchorId) ?? annotationStorage.buildAnnotationId(data.translationType, selector)
+    anchorAnnotationIds.set(anchorId, annotationId)
+
+    annotationPersistence
+        .saveAnnotation({
+            id: annotationId,
+            translationType: data.translationType,
+            selector,
+            result: {
+                translation: data.translation,
+                sentenceTranslation: data.sentenceTranslation,
+                chineseDefinition: data.chineseDefinition,
+                englishDefinition: data.englishDefinition,
+                targetDefinition: data.targetDefinition,
+                targetLanguage: data.targetLanguage,
+                lemma: data.lemma,
+                phonetic: data.phonetic,
+                lemmaPhonetic: data.lemmaPhonetic,
+                provider: data.provider,
+                senses: data.senses,
+                selectedSenseIndex: data.selectedSenseIndex,
+                explanation: data.explanation,
+            },
+            sourceLanguage: data.sourceLanguage,
+            updatedAt: Date.now(),
+        })
+        .catch((error) => {
+            logger.warn("Failed to persist annotation:", error)
+        })
+}
+
 // ============================================================================
 // Rendering Functions
 // ============================================================================
@@ -5,11 +5,12 @@
  * Shows word, translation, original sentence, sentence translation, and dictionary content.
  */
 
-import type { SpeechSynthesisResponseMessage } from "@/0_common/types"
+import type { FollowUpTurn, SpeechSynthesisResponseMessage, TranslationExplanation, TranslationProvider, WordSense } from "@/0_common/types"
 import { APP_EDITION } from "@/0_common/constants"
 import * as loggerModule from "@/0_common/utils/logger"
 import * as constants from "@/1_content/constants"
 import * as contentIndex from "@/1_content/index"
+import * as translationRequest from "@/1_content/services/translationRequest"
 import * as modalTemplates from "@/1_content/ui/modalTemplates"
 import * as toastNotification from "@/1_content/ui/toastNotification"
 import * as languageDetector from "@/1_content/utils/languageDetector"
@@ -71,12 +72,42 @@ export interface TranslationDetailData {
     phonetic?: string
     /** Phonetic transcription for the lemma (base form) (only when word was lemmatized) */
     lemmaPhonetic?: string
+    /** Provider that produced the translation (differs from the configured one after a fallback) */
+    provider?: TranslationProvider
     /** Detected source language to be reused by speech synthesis (avoid re-detection errors) */
     sourceLanguage?: string
+    /** Contextual sense first, then other common senses (only for ambiguous words) */
+    senses?: WordSense[]
+    /** Index of the sense the user picked (absent = contextual sense) */
+    selectedSenseIndex?: number
+    /** Grammar and usage explanation (generated on demand with the Explain button) */
+    explanation?: TranslationExplanation
+    /** Explanation request state while it is not available yet */
+    explanationStatus?: "loading" | "error"
+    /** Explanation error message (only present when explanationStatus is 'error') */
+    explanationError?: string
+    /** The explanation failed because no LLM provider is configured (the error offers to open the settings) */
+    explanationNeedsProvider?: boolean
+    /** Follow-up questions and answers about this translation (kept while the page is open) */
+    followUps?: FollowUpTurn[]
+    /** Follow-up request state while an answer is pending or after it failed */
+    followUpStatus?: "loading" | "error"
+    /** Follow-up error message (only present when followUpStatus is 'error') */
+    followUpError?: string
+    /** The question failed because no LLM provider is configured (the error offers to open the settings) */
+    followUpNeedsProvider?: boolean
     /** Callback function to handle deletion */
     onDelete?: () => void
     /** Callback function to handle refresh/retranslation */
     onRefresh?: () => void
+    /** Callback function to store a generated explanation with the translation */
+    onExplanation?: (explanation: TranslationExplanation) => void
+    /** Callback function to store the follow-up conversation with the translation */
+    onFollowUp?: (turns: FollowUpTurn[]) => void
+    /** Callback function to switch the translation to another sense */
+    onSenseSelect?: (index: number) => void
+    /** Callback function to mark the word as known (word translations only) */
+    onMarkKnown?: () => void
 }
 
 // ============================================================================
@@ -398,6 +429,23 @@ function handleDeleteClick(event: Event, onDelete?: () => void): void {
     closeTranslationModal()
 }
 
+/**
+ * Handler for the mark-as-known button.
+ * Executes the onMarkKnown callback (which removes the word's glosses) and closes the modal.
+ * @param event - The click event.
+ * @param onMarkKnown - The callback function to execute.
+ */
+function handleMarkKnownClick(event: Event, onMarkKnown?: () => void): void {
+    event.stopPropagation()
+    logger.info("Mark as known button clicked")
+
+    if (onMarkKnown) {
+        onMarkKnown()
+    }
+
+    closeTranslationModal()
+}
+
 /**
  * Handler for refresh button.
  * Updates modal to loading state and executes the onRefresh callback.
@@ -420,7 +468,19 @@ function handleRefreshClick(event: Event, data: TranslationDetailData): void {
         lemma: undefined,
         phonetic: undefined,
         lemmaPhonetic: undefined,
+        provider: undefined,
+        explanation: undefined,
+        explanationStatus: undefined,
+        explanationError: undefined,
+        explanationNeedsProvider: undefined,
+        senses: undefined,
+        selectedSenseIndex: undefined,
+        followUps: undefined,
+        followUpStatus: undefined,
+        followUpError: undefined,
+        followUpNeedsProvider: undefined,
     })
+    data.onFollowUp?.([])
 
     // Execute refresh callback if provided
     if (data.onRefresh) {
@@ -428,6 +488,178 @@ function handleRefreshClick(event: Event, data: TranslationDetailData): void {
     }
 }
 
+/**
+ * Handler for explain button.
+ * Shows the explanation section in loading state, requests the explanation and stores it with the translation.
+ * @param event - The click event.
+ * @param data - The translation data to explain.
+ */
+async function handleExplainClick(event: Event, data: TranslationDetailData): Promise<void> {
+    event.stopPropagation()
+    if (data.explanation || data.explanationStatus === "loading") {
+        return
+    }
+    logger.info("Explain button clicked for:", data.text)
+
+    const anchorId = activeModalAnchorId
+    await updateTranslationModal({ ...data, explanationStatus: "loading", explanationError: undefined, explanationNeedsProvider: undefined })
+
+    let explanation: TranslationExplanation | undefined
+    let errorMessage: string | undefined
+    let needsProvider = false
+    try {
+        const response = await translationRequest.requestExplanation({
+            text: data.text,
+            translation: data.translation,
+            textType: data.translationType,
+            leadingText: data.leadingText,
+            trailingText: data.trailingText,
+            sourceLanguage: data.sourceLanguage,
+            targetLanguage: data.targetLanguage || contentIndex.getCachedUserSettings()?.targetLanguage || "zh",
+        })
+        if (response.success) {
+            explanation = response.data
+            data.onExplanation?.(explanation)
+        } else {
+            logger.warn("Explanation failed:", response.error)
+            errorMessage = response.error
+            needsProvider = response.errorType === "ProviderUnavailable"
+        }
+    } catch (error) {
+        // Messaging failures get the generic error text
+        logger.error("Explanation request failed:", error)
+    }
+
+    // The user may have closed the modal or opened another one meanwhile
+    if (activeModalAnchorId !== anchorId) {
+        return
+    }
+    await updateTranslationModal(
+        explanation
+            ? { ...data, explanation, explanationStatus: undefined }
+            : { ...data, explanationStatus: "error", explanationError: errorMessage, explanationNeedsProvider: needsProvider }
+    )
+}
+
+/**
+ * Handler for the "Open settings" button shown when no LLM provider is configured.
+ * Content scripts cannot open the options page, so the background opens it.
+ * @param event - The click event.
+ */
+function handleOpenSettingsClick(event: Event): void {
+    event.stopPropagation()
+    chrome.runtime.sendMessage({ type: "OPEN_OPTIONS_REQUEST" }, () => {
+        if (chrome.runtime.lastError) {
+            logger.warn("Failed to send OPEN_OPTIONS_REQUEST:", chrome.runtime.lastError)
+        }
+    })
+}
+
+/**
+ * Handler for the items of the senses list.
+ * The display layer updates the tooltip and refreshes this modal with the picked sense.
+ * @param event - The click event.
+ * @param data - The translation data containing the onSenseSelect callback.
+ * @param index - Index of the picked sense.
+ */
+function handleSenseClick(event: Event, data: TranslationDetailData, index: number): void {
+    event.stopPropagation()
+    if (index === (data.selectedSenseIndex ?? 0)) {
+        return
+    }
+    logger.info("Sense selected for:", data.text, index)
+    data.onSenseSelect?.(index)
+}
+
+/**
+ * Focus the follow-up input and scroll the conversation to the latest message (after a re-render)
+ */
+function focusFollowUpInput(value: string = ""): void {
+    const input = activeModalContainer?.querySelector<HTMLInputElement>(".ai-translator-modal-follow-up-input")
+    const messages = activeModalContainer?.querySelector<HTMLElement>(".ai-translator-modal-follow-up-messages")
+    if (messages) {
+        messages.scrollTop = messages.scrollHeight
+    }
+    if (input && !input.disabled) {
+        input.value = value
+        input.focus()
+    }
+}
+
+/**
+ * Handler for the follow-up form.
+ * Shows the question with a pending answer, asks the background and stores the conversation with the translation.
+ * @param event - The submit event.
+ * @param data - The translation data the question is about.
+ * @param input - The question input.
+ */
+async function handleFollowUpSubmit(event: Event, data: TranslationDetailData, input: HTMLInputElement): Promise<void> {
+    event.preventDefault()
+    event.stopPropagation()
+    const question = input.value.trim()
+    if (!question || data.followUpStatus === "loading") {
+        return
+    }
+    logger.info("Follow-up question for:", data.text)
+
+    const anchorId = activeModalAnchorId
+    const history = data.followUps ?? []
+    const pendingTurns: FollowUpTurn[] = [...history, { role: "user", content: question }]
+    await updateTranslationModal({
+        ...data,
+        followUps: pendingTurns,
+        followUpStatus: "loading",
+        followUpError: undefined,
+        followUpNeedsProvider: undefined,
+    })
+    focusFollowUpInput()
+
+    let reply: string | undefined
+    let errorMessage: string | undefined
+    let needsProvider = false
+    try {
+        const response = await translationRequest.requestFollowUp({
+            text: data.text,
+            translation: data.translation,
+            sentenceTranslation: data.sentenceTranslation,
+            textType: data.translationType,
+            leadingText: data.leadingText,
+            trailingText: data.trailingText,
+            sourceLanguage: data.sourceLanguage,
+            targetLanguage: data.targetLanguage || contentIndex.getCachedUserSettings()?.targetLanguage || "zh",
+            history,
+            question,
+        })
+        if (response.success) {
+            reply = response.data.reply
+        } else {
+            logger.warn("Follow-up failed:", response.error)
+            errorMessage = response.error
+            needsProvider = response.errorType === "ProviderUnavailable"
+        }
+    } catch (error) {
+        // Messaging failures get the generic error text
+        logger.error("Follow-up request failed:", error)
+    }
+
+    const turns: FollowUpTurn[] = reply !== undefined ? [...pendingTurns, { role: "assistant", content: reply }] : history
+    if (reply !== undefined) {
+        data.onFollowUp?.(turns)
+    }
+
+    // The user may have closed the modal or opened another one meanwhile
+    if (activeModalAnchorId !== anchorId) {
+        return
+    }
+    await updateTranslationModal(
+        reply !== undefined
+            ? { ...data, followUps: turns, followUpStatus: undefined, followUpError: undefined }
+            : { ...data, followUps: turns, followUpStatus: "error", followUpError: errorMessage, followUpNeedsProvider: needsProvider }
+    )
+    // Give a failed question back so it can be sent again
+    focusFollowUpInput(reply !== undefined ? "" : question)
+}
+
 /**
  * Attach event listeners to action buttons
  */
@@ -438,7 +670,13 @@ function attachActionButtonListeners(modalContainer: HTMLElement, data: Translat
     const speakSentenceBtn = modalContainer.querySelector(".ai-translator-speak-sentence-btn")
     const speakLemmaBtn = modalContainer.querySelector(".ai-translator-speak-lemma-btn")
     const deleteBtn = modalContainer.querySelector(".ai-translator-delete-btn")
+    const knownBtn = modalContainer.querySelector(".ai-translator-known-btn")
     const refreshBtn = modalContainer.querySelector(".ai-translator-refresh-btn")
+    const explainBtn = modalContainer.querySelector(".ai-translator-explain-btn")
+    const senseItems = modalContainer.querySelectorAll<HTMLElement>(".ai-translator-modal-sense-item")
+    const followUpForm = modalContainer.querySelector(".ai-translator-modal-follow-up-form")
+    const followUpInput = modalContainer.querySelector<HTMLInputElement>(".ai-translator-modal-follow-up-input")
+    const openSettingsButtons = modalContainer.querySelectorAll(".ai-translator-modal-open-settings")
     const closeButton = modalContainer.querySelector(".ai-translator-modal-close")
 
     if (closeButton) {
@@ -464,9 +702,29 @@ function attachActionButtonListeners(modalContainer: HTMLElement, data: Translat
     if (deleteBtn) {
         deleteBtn.addEventListener("click", (e) => handleDeleteClick(e, data.onDelete))
     }
+    if (knownBtn) {
+        knownBtn.addEventListener("click", (e) => handleMarkKnownClick(e, data.onMarkKnown))
+    }
     if (refreshBtn) {
         refreshBtn.addEventListener("click", (e) => handleRefreshClick(e, data))
     }
+    if (explainBtn) {
+        explainBtn.addEventListener("click", (e) => void handleExplainClick(e, data))
+    }
+    openSettingsButtons.forEach((button) => button.addEventListener("click", handleOpenSettingsClick))
+    senseItems.forEach((item) => {
+        const index = Number(item.dataset.senseIndex)
+        item.addEventListener("click", (e) => handleSenseClick(e, data, index))
+    })
+    if (followUpForm && followUpInput) {
+        followUpForm.addEventListener("submit", (e) => void handleFollowUpSubmit(e, data, followUpInput))
+        // Keep typing from triggering page shortcuts (Escape still closes the modal)
+        followUpInput.addEventListener("keydown", (e) => {
+            if (e.key !== "Escape") {
+                e.stopPropagation()
+            }
+        })
+    }
 
     logger.info("Action button listeners attached")
 }
@@ -3,7 +3,8 @@
  *
  * Provides functions to filter out UI-specific elements from DOM operations,
  * ensuring that text extraction and traversal logic doesn't accidentally
- * include content from the extension's own UI (e.g., tooltips, icons).
+ * include content from the extension's own UI (e.g., tooltips, icons,
+ * bilingual mode translations).
  */
 
 import * as constants from "@/1_content/constants"
@@ -44,7 +45,13 @@ export function isInsideIgnoredElement(node: Node): boolean {
     let el: Element | null = node.parentElement
     while (el && el !== document.body) {
         // Check if the element has any of the CSS classes we want to ignore
-        if (el.classList && (el.classList.contains(constants.CSS_CLASSES.TOOLTIP) || el.classList.contains(constants.CSS_CLASSES.ICON))) {
+        if (
+            el.classList &&
+            (el.classList.contains(constants.CSS_CLASSES.TOOLTIP) ||
+                el.classList.contains(constants.CSS_CLASSES.ICON) ||
+                el.classList.contains(constants.CSS_CLASSES.BILINGUAL_TRANSLATION) ||
+                el.classList.contains(constants.CSS_CLASSES.RUBY_TEXT))
+        ) {
             return true
         }
         // Move up the DOM tree
@@ -71,7 +78,11 @@ export function getCleanTextFromRange(r: Range): string {
         container.appendChild(fragment)
 
         // Find and remove any of our UI elements within the cloned fragment
-        container.querySelectorAll(`.${constants.CSS_CLASSES.TOOLTIP}, .${constants.CSS_CLASSES.ICON}`).forEach((el) => el.remove())
+        container
+            .querySelectorAll(
+                `.${constants.CSS_CLASSES.TOOLTIP}, .${constants.CSS_CLASSES.ICON}, .${constants.CSS_CLASSES.BILINGUAL_TRANSLATION}, .${constants.CSS_CLASSES.RUBY_TEXT}`
+            )
+            .forEach((el) => el.remove())
 
         // Return the text content of the cleaned fragment
         return container.textContent || ""
@@ -61,6 +61,48 @@ export async function detectSourceLanguageAsync(text: string): Promise<string> {
     return fallback
 }
 
+/** Characters of page text sampled for page language detection */
+const PAGE_LANGUAGE_SAMPLE_LENGTH = 1200
+
+let pageLanguagePromise: Promise<string> | null = null
+let pageLanguage: string | null = null
+
+/**
+ * Detect the main language of the current page from a sample of its text.
+ * The result is cached for the page's lifetime; pages without text yet are detected again on the next call.
+ *
+ * @returns Language code (e.g., 'en', 'ru', 'ar')
+ */
+export function detectPageLanguageAsync(): Promise<string> {
+    if (!pageLanguagePromise) {
+        const sample = (document.body?.innerText || document.body?.textContent || "")
+            .replace(/\s+/g, " ")
+            .trim()
+            .slice(0, PAGE_LANGUAGE_SAMPLE_LENGTH)
+        if (sample.length === 0) {
+            return Promise.resolve(getDocumentLanguage())
+        }
+        pageLanguagePromise = detectSourceLanguageAsync(sample).then((language) => (pageLanguage = language))
+    }
+    return pageLanguagePromise
+}
+
+/**
+ * Page language without waiting: the detected language once detection has finished,
+ * otherwise the document's `lang` attribute (detection is started if it has not been yet).
+ *
+ * @returns Language code (e.g., 'en', 'ru', 'ar')
+ */
+export function getPageLanguage(): string {
+    if (pageLanguage) return pageLanguage
+    if (!pageLanguagePromise) void detectPageLanguageAsync()
+    return getDocumentLanguage()
+}
+
+function getDocumentLanguage(): string {
+    return document.documentElement.lang.split("-")[0]?.toLowerCase() || "en"
+}
+
 function normalizeLangCode(code: string): string | null {
     if (!code) return null
     const parts = code.toLowerCase().split("-")
@@ -12,6 +12,10 @@
  * The module uses reference counting to track how many anchors are using each
  * adjusted block. The original line-height is only restored when the last
  * anchor is removed.
+ *
+ * **Ruby readings:**
+ * Readings shown above the characters take a reference of their own and need space
+ * above the line rather than below it, added once per block on top of any adjustment.
  */
 
 import * as types from "@/0_common/types"
@@ -27,6 +31,9 @@ const originalLineHeights = new WeakMap<HTMLElement, string>()
 // Reference counting: track how many anchors are using each adjusted block element
 const blockElementRefCount = new WeakMap<HTMLElement, number>()
 
+// Extra line-height added for ruby readings (added once per block, forgotten when the block is restored)
+const rubyLineHeightIncreases = new WeakMap<HTMLElement, number>()
+
 // Marker attribute to track adjusted elements
 const ADJUSTED_MARKER = "data-ai-translator-line-height-adjusted"
 
@@ -207,6 +214,7 @@ export function restoreLineHeight(blockElement: HTMLElement, skipDomRestoration:
     blockElement.removeAttribute(ADJUSTED_MARKER)
     originalLineHeights.delete(blockElement)
     blockElementRefCount.delete(blockElement)
+    rubyLineHeightIncreases.delete(blockElement)
 }
 
 /**
@@ -252,6 +260,45 @@ export function adjustLineHeightIfNeeded(anchor: HTMLElement | null, spaceCalc:
     return null
 }
 
+/**
+ * Make room above the lines of an anchor's block for ruby readings.
+ * The block gains one reference, released with restoreLineHeight() like any other adjustment.
+ *
+ * @param anchor - The anchor element holding the readings
+ * @param rubyHeight - Height of the readings in pixels
+ * @returns The block element that was adjusted, or null if no adjustment was made
+ */
+export function adjustLineHeightForRuby(anchor: HTMLElement | null, rubyHeight: number): HTMLElement | null {
+    if (!anchor || rubyHeight <= 0) {
+        return null
+    }
+
+    const blockAncestor = findNearestBlockAncestor(anchor)
+    if (!blockAncestor) {
+        logger.warn("Could not find block ancestor for ruby line-height adjustment")
+        return null
+    }
+
+    if (!blockAncestor.hasAttribute(ADJUSTED_MARKER)) {
+        applyLineHeightAdjustment(blockAncestor, rubyHeight)
+        rubyLineHeightIncreases.set(blockAncestor, rubyHeight)
+        return blockAncestor
+    }
+
+    // Already adjusted (e.g. for the tooltip below the line): take a reference and grow once more for the readings
+    const next = (blockElementRefCount.get(blockAncestor) || 0) + 1
+    blockElementRefCount.set(blockAncestor, next)
+    if (!rubyLineHeightIncreases.has(blockAncestor)) {
+        const currentLineHeight = parseFloat(window.getComputedStyle(blockAncestor).lineHeight)
+        if (Number.isFinite(currentLineHeight)) {
+            blockAncestor.style.lineHeight = `${currentLineHeight + rubyHeight}px`
+            rubyLineHeightIncreases.set(blockAncestor, rubyHeight)
+        }
+    }
+    logger.info(`Ruby readings share adjusted block, ref count: ${next} on <${blockAncestor.tagName.toLowerCase()}>`)
+    return blockAncestor
+}
+
 /**
  * Restore line-height for the block ancestor of an anchor element.
  * This is a convenience wrapper that finds the block ancestor and restores it.
@@ -0,0 +1,154 @@
+/**
+ * Text Quote Anchor
+ *
+ * Re-anchors saved translations on a reloaded page using a text-quote selector:
+ * the exact text plus the prefix/suffix around it (leadingText/trailingText from extractContextV2).
+ *
+ * Matching is whitespace-insensitive (runs of whitespace collapse to one space), so
+ * re-rendered markup or reflowed text still matches. When the exact text occurs several
+ * times, the occurrence whose surroundings match the prefix/suffix wins.
+ */
+
+import type { TextQuoteSelector } from "@/0_common/types"
+import * as constants from "@/1_content/constants"
+
+/** How many characters of prefix/suffix are compared against the page */
+const CONTEXT_MATCH_CHARS = 32
+
+const SKIPPED_TAGS = new Set(["SCRIPT", "STYLE", "NOSCRIPT", "TEXTAREA"])
+
+/** Extension UI that lives in the page but is not page content */
+const SKIPPED_SELECTOR = [
+    `.${constants.CSS_CLASSES.TOOLTIP}`,
+    `.${constants.CSS_CLASSES.ICON}`,
+    `.${constants.CSS_CLASSES.BILINGUAL_TRANSLATION}`,
+    `.${constants.CSS_CLASSES.RUBY_TEXT}`,
+].join(", ")
+
+interface TextPosition {
+    node: Text
+    offset: number
+}
+
+/**
+ * Whitespace-normalized page text with a map back to DOM positions
+ */
+interface NormalizedTextIndex {
+    text: string
+    positions: TextPosition[]
+}
+
+function normalizeWhitespace(value: string): string {
+    return value.replace(/\s+/g, " ")
+}
+
+function isSkippedTextNode(node: Text): boolean {
+    const parent = node.parentElement
+    if (!parent) return true
+    if (SKIPPED_TAGS.has(parent.tagName)) return true
+    return parent.closest(SKIPPED_SELECTOR) !== null
+}
+
+function buildTextIndex(root: Node): NormalizedTextIndex {
+    const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT)
+    let text = ""
+    const positions: TextPosition[] = []
+    let previousWasSpace = false
+
+    let current = walker.nextNode() as Text | null
+    while (current) {
+        if (!isSkippedTextNode(current)) {
+            const data = current.data
+            for (let offset = 0; offset < data.length; offset++) {
+                const isSpace = /\s/.test(data[offset]!)
+                if (isSpace && previousWasSpace) continue
+
+                text += isSpace ? " " : data[offset]
+                positions.push({ node: current, offset })
+                previousWasSpace = isSpace
+            }
+        }
+        current = walker.nextNode() as Text | null
+    }
+
+    return { text, positions }
+}
+
+function scoreOccurrence(index: NormalizedTextIndex, start: number, length: number, prefix: string, suffix: string): number {
+    let score = 0
+
+    if (prefix) {
+        const before = index.text.slice(Math.max(0, start - CONTEXT_MATCH_CHARS - 1), start).trimEnd()
+        if (before.endsWith(prefix)) score++
+    }
+
+    if (suffix) {
+        const after = index.text.slice(start + length, start + length + CONTEXT_MATCH_CHARS + 1).trimStart()
+        if (after.startsWith(suffix)) score++
+    }
+
+    return score
+}
+
+function findInIndex(index: NormalizedTextIndex, selector: TextQuoteSelector): Range | null {
+    const exact = normalizeWhitespace(selector.exact).trim()
+    if (!exact) return null
+
+    const prefix = normalizeWhitespace(selector.prefix).trimEnd().slice(-CONTEXT_MATCH_CHARS)
+    const suffix = normalizeWhitespace(selector.suffix).trimStart().slice(0, CONTEXT_MATCH_CHARS)
+    // With context available, at least one side must still match; otherwise any occurrence will do
+    const requiredScore = prefix || suffix ? 1 : 0
+
+    let bestStart = -1
+    let bestScore = -1
+
+    for (let start = index.text.indexOf(exact); start !== -1; start = index.text.indexOf(exact, start + 1)) {
+        const score = scoreOccurrence(index, start, exact.length, prefix, suffix)
+        if (score > bestScore) {
+            bestStart = start
+            bestScore = score
+        }
+    }
+
+    if (bestStart === -1 || bestScore < requiredScore) {
+        return null
+    }
+
+    const startPosition = index.positions[bestStart]!
+    const endPosition = index.positions[bestStart + exact.length - 1]!
+    const range = document.createRange()
+    range.setStart(startPosition.node, startPosition.offset)
+    range.setEnd(endPosition.node, endPosition.offset + 1)
+    return range
+}
+
+/**
+ * Find the DOM range for a text-quote selector
+ *
+ * @param selector - Exact text with prefix/suffix context
+ * @param root - Subtree to search (defaults to document.body)
+ * @returns Range covering the best-matching occurrence, or null when the quote no longer matches
+ *
+ * @example
+ * ```typescript
+ * const range = findTextQuoteRange({ exact: 'light', prefix: 'filled with natural ', suffix: ' from the windows.' })
+ * if (range) translationDisplay.showTranslationResult(range, 'light', state)
+ * ```
+ */
+export function findTextQuoteRange(selector: TextQuoteSelector, root: Node = document.body): Range | null {
+    return findInIndex(buildTextIndex(root), selector)
+}
+
+/**
+ * Find the DOM ranges for several text-quote selectors, indexing the page text once
+ * The ranges are live: wrapping the text of one of them (which splits text nodes) keeps the others in place.
+ *
+ * @param selectors - Exact texts with prefix/suffix context
+ * @param root - Subtree to search (defaults to document.body)
+ * @returns One range per selector, null where the quote no longer matches
+ */
+export function findTextQuoteRanges(selectors: TextQuoteSelector[], root: Node = document.body): Array<Range | null> {
+    if (selectors.length === 0) return []
+    const index = buildTextIndex(root)
+    return selectors.map((selector) => findInIndex(index, selector))
+}
@@ -0,0 +1,180 @@
+/**
+ * Word Frequency
+ *
+ * Frequency ranks of common English words, from the bundled list in resources/word-frequency-en.txt.
+ * Inflected forms share the rank of their base form ("studies" → "study", "running" → "run", "went" → "go").
+ */
+
+import wordFrequencyList from "@/1_content/resources/word-frequency-en.txt?raw"
+
+/** Irregular forms the suffix rules cannot reduce (form → base form) */
+const IRREGULAR_BASE_FORMS: Record<string, string> = {
+    ...forms("be", "am", "are", "was", "were", "been"),
+    ...forms("have", "has", "had"),
+    ...forms("do", "does", "did", "done"),
+    ...forms("go", "goes", "went", "gone"),
+    ...forms("say", "said"),
+    ...forms("make", "made"),
+    ...forms("take", "took", "taken"),
+    ...forms("come", "came"),
+    ...forms("see", "saw", "seen"),
+    ...forms("know", "knew", "known"),
+    ...forms("get", "got", "gotten"),
+    ...forms("give", "gave", "given"),
+    ...forms("find", "found"),
+    ...forms("tell", "told"),
+    ...forms("become", "became"),
+    ...forms("feel", "felt"),
+    ...forms("bring", "brought"),
+    ...forms("begin", "began", "begun"),
+    ...forms("keep", "kept"),
+    ...forms("hold", "held"),
+    ...forms("write", "wrote", "written"),
+    ...forms("stand", "stood"),
+    ...forms("hear", "heard"),
+    ...forms("mean", "meant"),
+    ...forms("meet", "met"),
+    ...forms("run", "ran"),
+    ...forms("pay", "paid"),
+    ...forms("sit", "sat"),
+    ...forms("speak", "spoke", "spoken"),
+    ...forms("lead", "led"),
+    ...forms("grow", "grew", "grown"),
+    ...forms("lose", "lost"),
+    ...forms("fall", "fell", "fallen"),
+    ...forms("send", "sent"),
+    ...forms("build", "built"),
+    ...forms("understand", "understood"),
+    ...forms("draw", "drew", "drawn"),
+    ...forms("break", "broke", "broken"),
+    ...forms("spend", "spent"),
+    ...forms("rise", "rose", "risen"),
+    ...forms("drive", "drove", "driven"),
+    ...forms("buy", "bought"),
+    ...forms("wear", "wore", "worn"),
+    ...forms("choose", "chose", "chosen"),
+    ...forms("seek", "sought"),
+    ...forms("throw", "threw", "thrown"),
+    ...forms("catch", "caught"),
+    ...forms("deal", "dealt"),
+    ...forms("win", "won"),
+    ...forms("fight", "fought"),
+    ...forms("teach", "taught"),
+    ...forms("eat", "ate", "eaten"),
+    ...forms("sell", "sold"),
+    ...forms("fly", "flew", "flown"),
+    ...forms("forget", "forgot", "forgotten"),
+    ...forms("hide", "hid"),
+    ...forms("sleep", "slept"),
+    ...forms("lay", "laid"),
+    ...forms("light", "lit"),
+    ...forms("ride", "rode", "ridden"),
+    ...forms("sing", "sang", "sung"),
+    ...forms("drink", "drank", "drunk"),
+    ...forms("ring", "rang", "rung"),
+    ...forms("bear", "bore", "borne"),
+    ...forms("steal", "stole", "stolen"),
+    ...forms("shake", "shook", "shaken"),
+    ...forms("wake", "woke", "woken"),
+    ...forms("man", "men"),
+    ...forms("woman", "women"),
+    ...forms("child", "children"),
+    ...forms("foot", "feet"),
+    ...forms("tooth", "teeth"),
+    ...forms("mouse", "mice"),
+    ...forms("bad", "worst"),
+    ...forms("far", "further", "farther", "furthest"),
+    ...forms("i", "mine"),
+    ...forms("she", "hers"),
+    ...forms("we", "ours"),
+    ...forms("they", "theirs"),
+    ...forms("you", "yours"),
+}
+
+function forms(base: string, ...inflected: string[]): Record<string, string> {
+    return Object.fromEntries(inflected.map((form) => [form, base]))
+}
+
+let ranks: Map<string, number> | null = null
+
+function getRanks(): Map<string, number> {
+    if (!ranks) {
+        const words = wordFrequencyList
+            .split("\n")
+            .map((line) => line.trim())
+            .filter((line) => line.length > 0 && !line.startsWith("#"))
+        ranks = new Map()
+        words.forEach((word, index) => {
+            if (!ranks!.has(word)) {
+                ranks!.set(word, index + 1)
+            }
+        })
+    }
+    return ranks
+}
+
+/**
+ * Candidate base forms of an inflected English word
+ */
+function getBaseFormCandidates(word: string): string[] {
+    const irregular = IRREGULAR_BASE_FORMS[word]
+    const candidates: string[] = irregular ? [irregular] : []
+    const add = (suffix: string, replacement = "") => {
+        if (word.length > suffix.length + 1 && word.endsWith(suffix)) {
+            const stem = word.slice(0, -suffix.length)
+            candidates.push(stem + replacement)
+            // Doubled final consonant: "running" → "run", "stopped" → "stop"
+            if (!replacement && /([b-df-hj-np-tv-z])\1$/.test(stem)) {
+                candidates.push(stem.slice(0, -1))
+            }
+        }
+    }
+
+    add("ies", "y")
+    add("ied", "y")
+    add("es")
+    add("s")
+    add("ed")
+    add("ed", "e")
+    add("d")
+    add("ing")
+    add("ing", "e")
+    add("ier", "y")
+    add("iest", "y")
+    add("er")
+    add("est")
+    add("ily", "y")
+    add("ly")
+    return candidates
+}
+
+/**
+ * Get the frequency rank of an English word
+ *
+ * @param word - Word in any case, e.g. "Studies"
+ * @returns 1-based rank (1 = most frequent), or null when neither the word nor a base form is listed
+ *          A listed word keeps its own rank; otherwise the most frequent matching base form counts.
+ *
+ * @example
+ * ```typescript
+ * getWordFrequencyRank('the') // 1
+ * getWordFrequencyRank('serendipity') // null
+ * ```
+ */
+export function getWordFrequencyRank(word: string): number | null {
+    const wordRanks = getRanks()
+    const lowercase = word.toLowerCase()
+    const exactRank = wordRanks.get(lowercase)
+    if (exactRank !== undefined) {
+        return exactRank
+    }
+
+    let best: number | null = null
+    for (const candidate of getBaseFormCandidates(lowercase)) {
+        const rank = wordRanks.get(candidate)
+        if (rank !== undefined && (best === null || rank < best)) {
+            best = rank
+        }
+    }
+    return best
+}
@@ -0,0 +1,142 @@
+/**
+ * Word Segmenter
+ *
+ * Unicode word segmentation on top of Intl.Segmenter, shared by tap-word detection and selection expansion.
+ * Works for any script the browser can segment (accented Latin, Cyrillic, Greek, Arabic, Hebrew, ...).
+ * Apostrophe forms ("can't", "l'homme") are single segments; hyphenated compounds ("well-known") are joined.
+ * Chinese, Japanese and Thai are split with the segmenter's dictionary, since they have no spaces between words.
+ */
+
+/** Hyphens that join two words into one compound (hyphen-minus, hyphen, non-breaking hyphen) */
+const JOINING_HYPHENS = new Set(["-", "‐", "‑"])
+
+/** Languages whose words are found by dictionary segmentation: no spaces between words (zh, ja, th) or particles attached (ko) */
+const SEGMENTED_WORD_LANGUAGES = ["zh", "ja", "ko", "th"]
+
+/** Scripts of those languages */
+const SEGMENTED_SCRIPT_REGEX = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}\p{Script=Thai}]/u
+
+/** Characters segmented on each side of the offset by findWordAt; longer words are cut at the window edge */
+const WORD_SCAN_WINDOW = 64
+
+export interface WordBounds {
+    /** Index of the first character of the word */
+    start: number
+    /** Index after the last character of the word */
+    end: number
+}
+
+const segmenters = new Map<string, Intl.Segmenter>()
+
+function getSegmenter(language?: string): Intl.Segmenter {
+    const key = language ?? ""
+    let segmenter = segmenters.get(key)
+    if (!segmenter) {
+        try {
+            segmenter = new Intl.Segmenter(language || undefined, { granularity: "word" })
+        } catch {
+            // Invalid language tag (e.g. "und" variants from detection) → default locale
+            segmenter = new Intl.Segmenter(undefined, { granularity: "word" })
+        }
+        segmenters.set(key, segmenter)
+    }
+    return segmenter
+}
+
+/**
+ * Resolve the language used to segment the text of a node
+ * The detected language wins; otherwise the nearest declared lang attribute (falling back to the page's).
+ *
+ * @param node - Node holding the text
+ * @param detectedLanguage - Language detected for the text, when already known
+ * @returns BCP 47 tag, or undefined to use the default locale
+ */
+export function resolveSegmentationLanguage(node: Node | null, detectedLanguage?: string): string | undefined {
+    if (detectedLanguage) {
+        return detectedLanguage
+    }
+    const element = node?.nodeType === Node.ELEMENT_NODE ? (node as Element) : node?.parentElement
+    const declared = element?.closest("[lang]")?.getAttribute("lang") || document.documentElement.lang
+    return declared?.trim() || undefined
+}
+
+/**
+ * Split a text into words
+ *
+ * @param text - Text to segment
+ * @param language - BCP 47 tag of the text (default locale when omitted)
+ * @returns Word bounds in text order; punctuation, symbols and whitespace are left out
+ *
+ * @example
+ * ```typescript
+ * getWordSegments("a well-known café") // [{start: 0, end: 1}, {start: 2, end: 12}, {start: 13, end: 17}]
+ * ```
+ */
+export function getWordSegments(text: string, language?: string): WordBounds[] {
+    const words: WordBounds[] = []
+    for (const segment of getSegmenter(language).segment(text)) {
+        if (!segment.isWordLike) {
+            continue
+        }
+        const start = segment.index
+        const end = start + segment.segment.length
+        const previous = words[words.length - 1]
+        if (previous && previous.end + 1 === start && JOINING_HYPHENS.has(text.charAt(previous.end))) {
+            previous.end = end
+        } else {
+            words.push({ start, end })
+        }
+    }
+    return words
+}
+
+/**
+ * Find the word at a character offset
+ * An offset right after a word also hits it, since carets land between characters.
+ *
+ * @param text - Text holding the word
+ * @param offset - Character offset (e.g. a caret offset)
+ * @param language - BCP 47 tag of the text (default locale when omitted)
+ * @returns Bounds of the word, or null when the offset is not on a word
+ */
+export function findWordAt(text: string, offset: number, language?: string): WordBounds | null {
+    const windowStart = Math.max(0, offset - WORD_SCAN_WINDOW)
+    const windowText = text.slice(windowStart, offset + WORD_SCAN_WINDOW)
+    const relativeOffset = offset - windowStart
+    const words = getWordSegments(windowText, language)
+
+    const word =
+        words.find((bounds) => bounds.start <= relativeOffset && relativeOffset < bounds.end) ?? words.find((bounds) => bounds.end === relativeOffset)
+    return word ? { start: windowStart + word.start, end: windowStart + word.end } : null
+}
+
+/**
+ * Check whether a language looks words up by dictionary segmentation (Chinese, Japanese, Korean, Thai)
+ *
+ * @param language - Language code, e.g. "zh" or "zh-TW"
+ */
+export function isSegmentedWordLanguage(language: string): boolean {
+    const primary = language.toLowerCase().split("-")[0] ?? ""
+    return SEGMENTED_WORD_LANGUAGES.includes(primary)
+}
+
+/**
+ * Check whether a text contains characters of the Chinese, Japanese, Korean or Thai scripts
+ */
+export function containsSegmentedScript(text: string): boolean {
+    return SEGMENTED_SCRIPT_REGEX.test(text)
+}
+
+/**
+ * Check whether a text is exactly one word
+ *
+ * @example
+ * ```typescript
+ * isSingleWord("安静", "zh") // true
+ * isSingleWord("喜欢安静", "zh") // false
+ * ```
+ */
+export function isSingleWord(text: string, language?: string): boolean {
+    const words = getWordSegments(text, language)
+    return words.length === 1 && words[0]!.start === 0 && words[0]!.end === text.length
+}
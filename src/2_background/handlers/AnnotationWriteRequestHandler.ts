@@ -0,0 +1,45 @@
+/**
+ * Annotation Write Request Handler
+ *
+ * Applies saved page annotation writes sent by content scripts.
+ * Running them here puts the writes of every tab in one annotationStorage queue.
+ */
+
+import type { AnnotationWriteRequestData, AnnotationWriteRequestMessage, AnnotationWriteResponseMessage } from "@/0_common/types"
+import * as annotationStorage from "@/0_common/utils/annotationStorage"
+import * as loggerModule from "@/0_common/utils/logger"
+
+const logger = loggerModule.createLogger("AnnotationWriteRequestHandler")
+
+function applyAnnotationWrite(data: AnnotationWriteRequestData): Promise<void> {
+    switch (data.operation) {
+        case "save":
+            return annotationStorage.saveAnnotation(data.annotation, data.pageUrl)
+
+        case "remove":
+            return annotationStorage.removeAnnotation(data.annotationId, data.pageUrl)
+    }
+}
+
+/**
+ * Handle annotation write request
+ *
+ * @param message - Annotation write request message
+ * @param sendResponse - Response callback function
+ */
+export async function handleAnnotationWriteRequest(
+    message: AnnotationWriteRequestMessage,
+    sendResponse: (response: AnnotationWriteResponseMessage) => void
+): Promise<void> {
+    try {
+        await applyAnnotationWrite(message.data)
+        sendResponse({ type: "ANNOTATION_WRITE_RESPONSE", success: true })
+    } catch (error: unknown) {
+        logger.error("Annotation write error:", error)
+        sendResponse({
+            type: "ANNOTATION_WRITE_RESPONSE",
+            success: false,
+            error: error instanceof Error ? error.message : String(error),
+        })
+    }
+}
@@ -1,17 +1,21 @@
 /**
  * Translation Error Handler Utility
  *
- * Handles error responses for translation and speech synthesis requests
+ * Handles error responses for translation, explanation, follow-up, reading, gloss and speech synthesis requests
  * Errors are now properly typed and wrapped by TranslationService
  */
 
 import {
     QuotaExceededError,
+    type ExplainResponseMessage,
+    type FollowUpResponseMessage,
     type FragmentTranslateResponseMessage,
+    type GlossResponseMessage,
+    type ReadingResponseMessage,
     type SpeechSynthesisResponseMessage,
     type TranslateResponseMessage,
 } from "@/0_common/types"
-import { TranslationError } from "@/6_translate"
+import { LlmProviderUnavailableError, TranslationError } from "@/6_translate"
 import { SpeechError } from "@/7_speech"
 
 function sendTranslationErrorResponse(error: TranslationError, sendResponse: (response: TranslateResponseMessage) => void): void {
@@ -48,6 +52,7 @@ export function handleTranslationRequestError(error: unknown, sendResponse: (res
             success: false,
             error: error.message,
             errorType: "QuotaExceeded",
+            ...(error.shortMessage ? { shortMessage: error.shortMessage } : {}),
         })
         return
     }
@@ -81,6 +86,7 @@ export function handleFragmentTranslationRequestError(error: unknown, sendRespon
             success: false,
             error: error.message,
             errorType: "QuotaExceeded",
+            ...(error.shortMessage ? { shortMessage: error.shortMessage } : {}),
         })
         return
     }
@@ -100,6 +106,154 @@ export function handleFragmentTranslationRequestError(error: unknown, sendRespon
     })
 }
 
+/**
+ * Handle explanation request errors
+ *
+ * @param error - The error to handle (QuotaExceededError or TranslationError)
+ * @param sendResponse - Response callback function
+ */
+export function handleExplanationRequestError(error: unknown, sendResponse: (response: ExplainResponseMessage) => void): void {
+    if (error instanceof QuotaExceededError) {
+        sendResponse({
+            type: "EXPLAIN_RESPONSE",
+            success: false,
+            error: error.message,
+            errorType: "QuotaExceeded",
+            ...(error.shortMessage ? { shortMessage: error.shortMessage } : {}),
+        })
+        return
+    }
+
+    if (error instanceof TranslationError) {
+        sendResponse({
+            type: "EXPLAIN_RESPONSE",
+            success: false,
+            error: error.message,
+            errorType: error instanceof LlmProviderUnavailableError ? "ProviderUnavailable" : "TranslationError",
+            ...(error.shortMessage ? { shortMessage: error.shortMessage } : {}),
+        })
+        return
+    }
+
+    sendResponse({
+        type: "EXPLAIN_RESPONSE",
+        success: false,
+        error: error instanceof Error ? error.message : "Explanation failed",
+        errorType: "GenericError",
+    })
+}
+
+/**
+ * Handle follow-up question request errors
+ *
+ * @param error - The error to handle (QuotaExceededError or TranslationError)
+ * @param sendResponse - Response callback function
+ */
+export function handleFollowUpRequestError(error: unknown, sendResponse: (response: FollowUpResponseMessage) => void): void {
+    if (error instanceof QuotaExceededError) {
+        sendResponse({
+            type: "FOLLOW_UP_RESPONSE",
+            success: false,
+            error: error.message,
+            errorType: "QuotaExceeded",
+            ...(error.shortMessage ? { shortMessage: error.shortMessage } : {}),
+        })
+        return
+    }
+
+    if (error instanceof TranslationError) {
+        sendResponse({
+            type: "FOLLOW_UP_RESPONSE",
+            success: false,
+            error: error.message,
+            errorType: error instanceof LlmProviderUnavailableError ? "ProviderUnavailable" : "TranslationError",
+            ...(error.shortMessage ? { shortMessage: error.shortMessage } : {}),
+        })
+        return
+    }
+
+    sendResponse({
+        type: "FOLLOW_UP_RESPONSE",
+        success: false,
+        error: error instanceof Error ? error.message : "Follow-up question failed",
+        errorType: "GenericError",
+    })
+}
+
+/**
+ * Handle reading request errors
+ *
+ * @param error - The error to handle (QuotaExceededError or TranslationError)
+ * @param sendResponse - Response callback function
+ */
+export function handleReadingRequestError(error: unknown, sendResponse: (response: ReadingResponseMessage) => void): void {
+    if (error instanceof QuotaExceededError) {
+        sendResponse({
+            type: "READING_RESPONSE",
+            success: false,
+            error: error.message,
+            errorType: "QuotaExceeded",
+            ...(error.shortMessage ? { shortMessage: error.shortMessage } : {}),
+        })
+        return
+    }
+
+    if (error instanceof TranslationError) {
+        sendResponse({
+            type: "READING_RESPONSE",
+            success: false,
+            error: error.message,
+            errorType: "TranslationError",
+            ...(error.shortMessage ? { shortMessage: error.shortMessage } : {}),
+        })
+        return
+    }
+
+    sendResponse({
+        type: "READING_RESPONSE",
+        success: false,
+        error: error instanceof Error ? error.message : "Reading failed",
+        errorType: "GenericError",
+    })
+}
+
+/**
+ * Handle gloss request errors
+ *
+ * @param error - The error to handle (QuotaExceededError or TranslationError)
+ * @param sendResponse - Response callback function
+ */
+export function handleGlossRequestError(error: unknown, sendResponse: (response: GlossResponseMessage) => void): void {
+    if (error instanceof QuotaExceededError) {
+        sendResponse({
+            type: "GLOSS_RESPONSE",
+            success: false,
+            error: error.message,
+            errorType: "QuotaExceeded",
+            ...(error.shortMessage ? { shortMessage: error.shortMessage } : {}),
+        })
+        return
+    }
+
+    if (error instanceof TranslationError) {
+        sendResponse({
+            type: "GLOSS_RESPONSE",
+            success: false,
+            error: error.message,
+            errorType: "TranslationError",
+            ...(error.shortMessage ? { shortMessage: error.shortMessage } : {}),
+        })
+        return
+    }
+
+    sendResponse({
+        type: "GLOSS_RESPONSE",
+        success: false,
+        error: error instanceof Error ? error.message : "Gloss failed",
+        errorType: "GenericError",
+    })
+}
+
 /**
  * Handle speech synthesis request errors
  *
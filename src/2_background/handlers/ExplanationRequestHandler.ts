@@ -0,0 +1,70 @@
+/**
+ * Explanation Request Handler
+ *
+ * Handles grammar and usage explanation requests from the translation detail modal
+ */
+
+import type { ExplainRequestMessage, ExplainResponseMessage } from "@/0_common/types"
+import * as loggerModule from "@/0_common/utils/logger"
+import { getQuotaManager } from "@/5_backend"
+import * as translateModule from "@/6_translate"
+import * as inFlightRegistry from "../services/InFlightRequestRegistry"
+import * as errorHandler from "./BackgroundErrorHandler"
+
+const logger = loggerModule.createLogger("ExplanationRequestHandler")
+
+/**
+ * Handle explanation request from content script
+ * Each explanation is charged like a word translation; cached explanations are free.
+ *
+ * @param message - Explanation request message
+ * @param sendResponse - Response callback function
+ */
+export async function handleExplanationRequest(
+    message: ExplainRequestMessage,
+    sendResponse: (response: ExplainResponseMessage) => void
+): Promise<void> {
+    try {
+        const { text, translation, textType, leadingText, trailingText, sourceLanguage, targetLanguage } = message.data
+
+        logger.info("Explaining:", text)
+
+        // Check quota before explaining
+        const quotaManager = getQuotaManager()
+        await quotaManager.checkTranslationQuota()
+
+        // Identical concurrent requests (e.g. double clicks) share one generation
+        const requestKey = inFlightRegistry.buildInFlightRequestKey("explanation", [
+            text,
+            translation,
+            leadingText,
+            trailingText,
+            sourceLanguage,
+            targetLanguage,
+        ])
+
+        const result = await inFlightRegistry.runDeduplicated(requestKey, () =>
+            translateModule.explainTranslation({ text, translation, textType, leadingText, trailingText, sourceLanguage, targetLanguage })
+        )
+
+        // Increment count after a successful explanation (cached explanations are free)
+        if (!result.fromCache) {
+            await quotaManager.incrementTranslationCount()
+        }
+
+        sendResponse({
+            type: "EXPLAIN_RESPONSE",
+            success: true,
+            data: {
+                partOfSpeech: result.partOfSpeech,
+                grammaticalRole: result.grammaticalRole,
+                collocations: result.collocations,
+                register: result.register,
+                examples: result.examples,
+            },
+        })
+    } catch (error: unknown) {
+        logger.error("Explanation error:", error)
+        errorHandler.handleExplanationRequestError(error, sendResponse)
+    }
+}
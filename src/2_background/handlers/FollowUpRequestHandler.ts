@@ -0,0 +1,52 @@
+/**
+ * Follow-up Request Handler
+ *
+ * Handles follow-up questions about a translation from the detail modal chat
+ */
+
+import type { FollowUpRequestMessage, FollowUpResponseMessage } from "@/0_common/types"
+import * as loggerModule from "@/0_common/utils/logger"
+import { getQuotaManager } from "@/5_backend"
+import * as translateModule from "@/6_translate"
+import * as errorHandler from "./BackgroundErrorHandler"
+
+const logger = loggerModule.createLogger("FollowUpRequestHandler")
+
+/**
+ * Handle follow-up question from content script
+ * Each question is charged like a word translation.
+ *
+ * @param message - Follow-up request message
+ * @param sendResponse - Response callback function
+ */
+export async function handleFollowUpRequest(
+    message: FollowUpRequestMessage,
+    sendResponse: (response: FollowUpResponseMessage) => void
+): Promise<void> {
+    try {
+        const { question } = message.data
+
+        logger.info("Answering follow-up question:", question)
+
+        // Check quota before asking
+        const quotaManager = getQuotaManager()
+        await quotaManager.checkTranslationQuota()
+
+        const result = await translateModule.askFollowUp(message.data)
+
+        // Increment count after a successful answer
+        await quotaManager.incrementTranslationCount()
+
+        sendResponse({
+            type: "FOLLOW_UP_RESPONSE",
+            success: true,
+            data: {
+                reply: result.reply,
+                provider: result.provider,
+            },
+        })
+    } catch (error: unknown) {
+        logger.error("Follow-up error:", error)
+        errorHandler.handleFollowUpRequestError(error, sendResponse)
+    }
+}
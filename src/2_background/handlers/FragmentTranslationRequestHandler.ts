@@ -8,6 +8,7 @@ import type { FragmentTranslateRequestMessage, FragmentTranslateResponseMessage
 import * as loggerModule from "@/0_common/utils/logger"
 import { getQuotaManager } from "@/5_backend"
 import * as translateModule from "@/6_translate"
+import * as inFlightRegistry from "../services/InFlightRequestRegistry"
 import * as errorHandler from "./BackgroundErrorHandler"
 
 const logger = loggerModule.createLogger("FragmentTranslationRequestHandler")
@@ -17,43 +18,77 @@ const logger = loggerModule.createLogger("FragmentTranslationRequestHandler")
  *
  * @param message - Fragment translation request message
  * @param sendResponse - Response callback function
+ * @param onPartial - Optional listener for partial results (translation stream port only)
  */
 export async function handleFragmentTranslationRequest(
     message: FragmentTranslateRequestMessage,
-    sendResponse: (response: FragmentTranslateResponseMessage) => void
+    sendResponse: (response: FragmentTranslateResponseMessage) => void,
+    onPartial?: translateModule.PartialTranslationCallback
 ): Promise<void> {
     try {
-        const { fragment, leadingText, trailingText, previousSentences, nextSentences, sourceLanguage, targetLanguage, upgradeModel, bookName } =
-            message.data
+        const {
+            fragment,
+            leadingText,
+            trailingText,
+            previousSentences,
+            nextSentences,
+            sourceLanguage,
+            targetLanguage,
+            upgradeModel,
+            bookName,
+            translationStyle,
+        } = message.data
 
         logger.info("Translating fragment:", fragment)
 
-        // Check quota before translation
-        const quotaManager = getQuotaManager()
-        await quotaManager.checkTranslationQuota()
-
-        // Call fragment translation service
-        const result = await translateModule.translateFragment({
+        // Identical concurrent requests share one translation and quota charge
+        // (a joining request only receives the final result, not the partials)
+        const requestKey = inFlightRegistry.buildInFlightRequestKey("fragment", [
             fragment,
             leadingText,
             trailingText,
             sourceLanguage,
             targetLanguage,
             upgradeModel,
-            contextInfo:
-                previousSentences || nextSentences || bookName
-                    ? {
-                          previousSentences,
-                          nextSentences,
-                          bookName,
-                      }
-                    : undefined,
-        })
+            translationStyle,
+        ])
+
+        const result = await inFlightRegistry.runDeduplicated(requestKey, async () => {
+            // Check quota before translation
+            const quotaManager = getQuotaManager()
+            await quotaManager.checkTranslationQuota()
 
-        logger.info("Fragment translation result:", result)
+            // Call fragment translation service
+            const translation = await translateModule.translateFragment(
+                {
+                    fragment,
+                    leadingText,
+                    trailingText,
+                    sourceLanguage,
+                    targetLanguage,
+                    upgradeModel,
+                    translationStyle,
+                    contextInfo:
+                        previousSentences || nextSentences || bookName
+                            ? {
+                                  previousSentences,
+                                  nextSentences,
+                                  bookName,
+                              }
+                            : undefined,
+                },
+                onPartial
+            )
 
-        // Increment quota counter after successful translation
-        await quotaManager.incrementTranslationCount()
+            logger.info("Fragment translation result:", translation)
+
+            // Increment quota counter after successful translation (cache hits are free)
+            if (!translation.fromCache) {
+                await quotaManager.incrementTranslationCount()
+            }
+
+            return translation
+        })
 
         // Send success response
         sendResponse({
@@ -62,6 +97,7 @@ export async function handleFragmentTranslationRequest(
             data: {
                 translation: result.translation,
                 sentenceTranslation: result.sentenceTranslation,
+                provider: result.provider,
             },
         })
     } catch (error: unknown) {
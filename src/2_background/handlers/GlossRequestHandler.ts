@@ -0,0 +1,63 @@
+/**
+ * Gloss Request Handler
+ *
+ * Handles immersive vocabulary gloss requests: the unknown words of one paragraph translated in one request
+ */
+
+import type { GlossRequestMessage, GlossResponseMessage } from "@/0_common/types"
+import * as loggerModule from "@/0_common/utils/logger"
+import { getQuotaManager } from "@/5_backend"
+import * as translateModule from "@/6_translate"
+import * as inFlightRegistry from "../services/InFlightRequestRegistry"
+import * as errorHandler from "./BackgroundErrorHandler"
+
+const logger = loggerModule.createLogger("GlossRequestHandler")
+
+/**
+ * Handle gloss request from content script
+ * A paragraph's glosses are one request, so they are charged like a single word translation.
+ *
+ * @param message - Gloss request message
+ * @param sendResponse - Response callback function
+ */
+export async function handleGlossRequest(message: GlossRequestMessage, sendResponse: (response: GlossResponseMessage) => void): Promise<void> {
+    try {
+        const { words, paragraph, sourceLanguage, targetLanguage, translationStyle } = message.data
+
+        logger.info(`Glossing ${words.length} words`)
+
+        // Check quota before glossing
+        const quotaManager = getQuotaManager()
+        await quotaManager.checkTranslationQuota()
+
+        // The same paragraph scanned again while its glosses are generated shares one generation
+        const requestKey = inFlightRegistry.buildInFlightRequestKey("gloss", [
+            words.join("\n"),
+            paragraph,
+            sourceLanguage,
+            targetLanguage,
+            translationStyle,
+        ])
+
+        const result = await inFlightRegistry.runDeduplicated(requestKey, () =>
+            translateModule.translateGlosses({ words, paragraph, sourceLanguage, targetLanguage, translationStyle })
+        )
+
+        // Increment count after a successful request (cached glosses are free)
+        if (!result.fromCache) {
+            await quotaManager.incrementTranslationCount()
+        }
+
+        sendResponse({
+            type: "GLOSS_RESPONSE",
+            success: true,
+            data: {
+                glosses: result.glosses,
+                provider: result.provider,
+            },
+        })
+    } catch (error: unknown) {
+        logger.error("Gloss error:", error)
+        errorHandler.handleGlossRequestError(error, sendResponse)
+    }
+}
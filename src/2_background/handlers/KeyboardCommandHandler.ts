@@ -0,0 +1,43 @@
+/**
+ * Keyboard Command Handler
+ *
+ * Handles the keyboard shortcuts declared under "commands" in the manifest
+ */
+
+import type { BilingualModeRequestMessage } from "@/0_common/types"
+import * as loggerModule from "@/0_common/utils/logger"
+
+const logger = loggerModule.createLogger("KeyboardCommandHandler")
+
+/**
+ * Command name of the bilingual mode shortcut (see manifest "commands")
+ */
+export const TOGGLE_BILINGUAL_MODE_COMMAND = "toggle-bilingual-mode"
+
+/**
+ * Setup keyboard command listener
+ */
+export function setupCommandListener(): void {
+    chrome.commands.onCommand.addListener((command) => {
+        handleCommand(command).catch((error) => {
+            logger.warn(`Failed to handle command "${command}":`, error)
+        })
+    })
+}
+
+async function handleCommand(command: string): Promise<void> {
+    if (command !== TOGGLE_BILINGUAL_MODE_COMMAND) {
+        logger.warn("Unknown command:", command)
+        return
+    }
+
+    const [tab] = await chrome.tabs.query({ active: true, currentWindow: true })
+    if (tab?.id === undefined) {
+        return
+    }
+
+    // Rejects on pages without the content script (browser pages, web store); nothing to toggle there
+    const message: BilingualModeRequestMessage = { type: "BILINGUAL_MODE_REQUEST", action: "toggle" }
+    await chrome.tabs.sendMessage(tab.id, message)
+    logger.info("Bilingual mode toggled in tab", tab.id)
+}
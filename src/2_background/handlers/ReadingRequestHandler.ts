@@ -0,0 +1,47 @@
+/**
+ * Reading Request Handler
+ *
+ * Handles pronunciation reading requests (pinyin, kana, romaja) for translated Chinese, Japanese and Korean text
+ */
+
+import type { ReadingRequestMessage, ReadingResponseMessage } from "@/0_common/types"
+import * as loggerModule from "@/0_common/utils/logger"
+import * as translateModule from "@/6_translate"
+import * as inFlightRegistry from "../services/InFlightRequestRegistry"
+import * as errorHandler from "./BackgroundErrorHandler"
+
+const logger = loggerModule.createLogger("ReadingRequestHandler")
+
+/**
+ * Handle reading request from content script
+ * Readings run on the user's own LLM provider, so they are not counted against the translation quota.
+ *
+ * @param message - Reading request message
+ * @param sendResponse - Response callback function
+ */
+export async function handleReadingRequest(message: ReadingRequestMessage, sendResponse: (response: ReadingResponseMessage) => void): Promise<void> {
+    try {
+        const { text, leadingText, trailingText, sourceLanguage } = message.data
+
+        logger.info("Reading:", text)
+
+        // The same text tapped again while its reading is generated shares one generation
+        const requestKey = inFlightRegistry.buildInFlightRequestKey("reading", [text, leadingText, trailingText, sourceLanguage])
+
+        const result = await inFlightRegistry.runDeduplicated(requestKey, () =>
+            translateModule.getReading({ text, leadingText, trailingText, sourceLanguage })
+        )
+
+        sendResponse({
+            type: "READING_RESPONSE",
+            success: true,
+            data: {
+                segments: result.segments,
+                provider: result.provider,
+            },
+        })
+    } catch (error: unknown) {
+        logger.error("Reading error:", error)
+        errorHandler.handleReadingRequestError(error, sendResponse)
+    }
+}
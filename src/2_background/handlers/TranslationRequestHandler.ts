@@ -6,8 +6,10 @@
 
 import type { TranslateRequestMessage, TranslateResponseMessage } from "@/0_common/types"
 import * as loggerModule from "@/0_common/utils/logger"
+import * as vocabularyStorage from "@/0_common/utils/vocabularyStorage"
 import { getQuotaManager } from "@/5_backend"
 import * as translateModule from "@/6_translate"
+import * as inFlightRegistry from "../services/InFlightRequestRegistry"
 import * as errorHandler from "./BackgroundErrorHandler"
 
 const logger = loggerModule.createLogger("TranslationRequestHandler")
@@ -17,40 +19,101 @@ const logger = loggerModule.createLogger("TranslationRequestHandler")
  *
  * @param message - Translation request message
  * @param sendResponse - Response callback function
+ * @param sender - Message sender (used to record the page in the vocabulary notebook)
+ * @param onPartial - Optional listener for partial results (translation stream port only)
  */
 export async function handleTranslationRequest(
     message: TranslateRequestMessage,
-    sendResponse: (response: TranslateResponseMessage) => void
+    sendResponse: (response: TranslateResponseMessage) => void,
+    sender?: chrome.runtime.MessageSender,
+    onPartial?: translateModule.PartialTranslationCallback
 ): Promise<void> {
     try {
-        const { word, leadingText, trailingText, previousSentences, nextSentences, sourceLanguage, targetLanguage, upgradeModel, bookName } =
-            message.data
+        const {
+            word,
+            leadingText,
+            trailingText,
+            previousSentences,
+            nextSentences,
+            sourceLanguage,
+            targetLanguage,
+            upgradeModel,
+            bookName,
+            translationStyle,
+            autoGloss,
+        } = message.data
 
         logger.info("Translating word:", word, "with context")
 
-        // Check quota before translation
-        const quotaManager = getQuotaManager()
-        await quotaManager.checkTranslationQuota()
-
-        // Call translation service
-        const result = await translateModule.translateWord({
+        // Identical concurrent requests share one translation, quota charge and notebook entry
+        // (a joining request only receives the final result, not the partials)
+        const requestKey = inFlightRegistry.buildInFlightRequestKey("word", [
             word,
             leadingText,
             trailingText,
             sourceLanguage,
             targetLanguage,
             upgradeModel,
-            contextInfo: {
-                previousSentences,
-                nextSentences,
-                bookName,
-            },
-        })
+            translationStyle,
+            autoGloss,
+        ])
+
+        const result = await inFlightRegistry.runDeduplicated(requestKey, async () => {
+            // Check quota before translation
+            const quotaManager = getQuotaManager()
+            await quotaManager.checkTranslationQuota()
+
+            // Call translation service
+            const translation = await translateModule.translateWord(
+                {
+                    word,
+                    leadingText,
+                    trailingText,
+                    sourceLanguage,
+                    targetLanguage,
+                    upgradeModel,
+                    translationStyle,
+                    contextInfo: {
+                        previousSentences,
+                        nextSentences,
+                        bookName,
+                    },
+                },
+                onPartial
+            )
 
-        logger.info("Translation result:", result)
+            logger.info("Translation result:", translation)
 
-        // Increment quota counter after successful translation
-        await quotaManager.incrementTranslationCount()
+            // Increment quota counter after successful translation (cache hits are free)
+            if (!translation.fromCache) {
+                await quotaManager.incrementTranslationCount()
+            }
+
+            // Record the lookup in the vocabulary notebook (never affects the response)
+            // Immersive vocabulary glosses are added automatically, not looked up by the user
+            if (autoGloss) {
+                return translation
+            }
+            vocabularyStorage
+                .recordVocabularyLookup({
+                    word,
+                    lemma: translation.lemma,
+                    phonetic: translation.phonetic,
+                    lemmaPhonetic: translation.lemmaPhonetic,
+                    translation: translation.wordTranslation,
+                    sentenceTranslation: translation.sentenceTranslation,
+                    originalSentence: message.data.originalSentence,
+                    pageUrl: sender?.url ?? sender?.tab?.url,
+                    pageTitle: sender?.tab?.title,
+                    sourceLanguage,
+                    targetLanguage: targetLanguage || "zh",
+                })
+                .catch((error: unknown) => {
+                    logger.warn("Failed to record vocabulary lookup:", error)
+                })
+
+            return translation
+        })
 
         // Send success response
         sendResponse({
@@ -65,6 +128,8 @@ export async function handleTranslationRequest(
                 lemma: result.lemma,
                 phonetic: result.phonetic,
                 lemmaPhonetic: result.lemmaPhonetic,
+                senses: result.senses,
+                provider: result.provider,
             },
         })
     } catch (error: unknown) {
@@ -0,0 +1,58 @@
+/**
+ * Vocabulary Write Request Handler
+ *
+ * Applies vocabulary notebook writes sent by content scripts and extension pages.
+ * Running them here puts them in the same write queue as the lookups recorded by TranslationRequestHandler.
+ */
+
+import type { VocabularyEntry, VocabularyWriteRequestData, VocabularyWriteRequestMessage, VocabularyWriteResponseMessage } from "@/0_common/types"
+import * as loggerModule from "@/0_common/utils/logger"
+import * as vocabularyStorage from "@/0_common/utils/vocabularyStorage"
+
+const logger = loggerModule.createLogger("VocabularyWriteRequestHandler")
+
+async function applyVocabularyWrite(data: VocabularyWriteRequestData): Promise<VocabularyEntry | null> {
+    switch (data.operation) {
+        case "selectSense":
+            return vocabularyStorage.recordSenseSelection({
+                word: data.word,
+                lemma: data.lemma,
+                targetLanguage: data.targetLanguage,
+                sense: data.sense,
+                contextualSense: data.contextualSense,
+            })
+
+        case "update":
+            return vocabularyStorage.updateVocabularyEntry(data.id, data.patch)
+
+        case "grade":
+            return vocabularyStorage.gradeVocabularyEntry(data.id, data.grade)
+
+        case "delete":
+            await vocabularyStorage.deleteVocabularyEntry(data.id)
+            return null
+    }
+}
+
+/**
+ * Handle vocabulary write request
+ *
+ * @param message - Vocabulary write request message
+ * @param sendResponse - Response callback function
+ */
+export async function handleVocabularyWriteRequest(
+    message: VocabularyWriteRequestMessage,
+    sendResponse: (response: VocabularyWriteResponseMessage) => void
+): Promise<void> {
+    try {
+        const entry = await applyVocabularyWrite(message.data)
+        sendResponse({ type: "VOCABULARY_WRITE_RESPONSE", success: true, data: { entry } })
+    } catch (error: unknown) {
+        logger.error("Vocabulary write error:", error)
+        sendResponse({
+            type: "VOCABULARY_WRITE_RESPONSE",
+            success: false,
+            error: error instanceof Error ? error.message : String(error),
+        })
+    }
+}
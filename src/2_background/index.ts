@@ -7,7 +7,7 @@
  * Responsibilities:
  * 1. Initialize backend services (API client, storage, etc.)
  * 2. Setup message listeners for content script communication
- * 3. Register extension lifecycle event handlers
+ * 3. Register extension lifecycle event handlers and keyboard commands
  * 4. Coordinate between different modules
  *
  * Note: Business logic is delegated to specialized handlers and services.
@@ -15,7 +15,9 @@
 
 import * as loggerModule from "@/0_common/utils/logger"
 import { isLowerVersion } from "@/0_common/utils/version"
+import * as KeyboardCommandHandler from "./handlers/KeyboardCommandHandler"
 import * as MessageRouter from "./messaging/MessageRouter"
+import * as TranslationStreamPort from "./messaging/TranslationStreamPort"
 import * as ServiceInitializer from "./services/ServiceInitializer"
 
 const logger = loggerModule.createLogger("background")
@@ -33,6 +35,8 @@ async function initialize(): Promise<void> {
     // Register message listener ASAP to avoid first-message race on cold start
     logger.info("[INIT_DEBUG] Registering message listener early")
     MessageRouter.setupMessageListener()
+    TranslationStreamPort.setupTranslationStreamListener()
+    KeyboardCommandHandler.setupCommandListener()
 
     logger.info("[INIT_DEBUG] Starting services initialization")
     await ServiceInitializer.initializeServices()
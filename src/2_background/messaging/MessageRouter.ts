@@ -4,12 +4,26 @@
  * Routes Chrome runtime messages to appropriate handlers
  */
 
-import type { MessageType } from "@/0_common/types"
+import type {
+    AnnotationWriteRequestMessage,
+    ExplainRequestMessage,
+    FollowUpRequestMessage,
+    GlossRequestMessage,
+    MessageType,
+    ReadingRequestMessage,
+    VocabularyWriteRequestMessage,
+} from "@/0_common/types"
 import * as loggerModule from "@/0_common/utils/logger"
+import * as AnnotationWriteRequestHandler from "../handlers/AnnotationWriteRequestHandler"
+import * as ExplanationRequestHandler from "../handlers/ExplanationRequestHandler"
+import * as FollowUpRequestHandler from "../handlers/FollowUpRequestHandler"
 import * as FragmentTranslationRequestHandler from "../handlers/FragmentTranslationRequestHandler"
+import * as GlossRequestHandler from "../handlers/GlossRequestHandler"
 import { buildPopupBootstrapResponse } from "../handlers/PopupBootstrapHandler"
+import * as ReadingRequestHandler from "../handlers/ReadingRequestHandler"
 import * as SpeechSynthesisRequestHandler from "../handlers/SpeechSynthesisRequestHandler"
 import * as TranslationRequestHandler from "../handlers/TranslationRequestHandler"
+import * as VocabularyWriteRequestHandler from "../handlers/VocabularyWriteRequestHandler"
 
 const logger = loggerModule.createLogger("MessageRouter")
 
@@ -20,7 +34,7 @@ const logger = loggerModule.createLogger("MessageRouter")
  * to appropriate handlers based on message type
  */
 export function setupMessageListener(): void {
-    chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
+    chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
         logger.info("Message received in background:", message)
 
         // Route based on message type
@@ -28,13 +42,37 @@ export function setupMessageListener(): void {
 
         switch (messageType) {
             case "TRANSLATE_REQUEST":
-                TranslationRequestHandler.handleTranslationRequest(message, sendResponse)
+                TranslationRequestHandler.handleTranslationRequest(message, sendResponse, sender)
                 return true // Keep message channel open for async response
 
             case "FRAGMENT_TRANSLATE_REQUEST":
                 FragmentTranslationRequestHandler.handleFragmentTranslationRequest(message, sendResponse)
                 return true // Keep message channel open for async response
 
+            case "EXPLAIN_REQUEST":
+                void ExplanationRequestHandler.handleExplanationRequest(message as ExplainRequestMessage, sendResponse)
+                return true // Keep message channel open for async response
+
+            case "FOLLOW_UP_REQUEST":
+                void FollowUpRequestHandler.handleFollowUpRequest(message as FollowUpRequestMessage, sendResponse)
+                return true // Keep message channel open for async response
+
+            case "READING_REQUEST":
+                void ReadingRequestHandler.handleReadingRequest(message as ReadingRequestMessage, sendResponse)
+                return true // Keep message channel open for async response
+
+            case "GLOSS_REQUEST":
+                void GlossRequestHandler.handleGlossRequest(message as GlossRequestMessage, sendResponse)
+                return true // Keep message channel open for async response
+
+            case "VOCABULARY_WRITE_REQUEST":
+                void VocabularyWriteRequestHandler.handleVocabularyWriteRequest(message as VocabularyWriteRequestMessage, sendResponse)
+                return true // Keep message channel open for async response
+
+            case "ANNOTATION_WRITE_REQUEST":
+                void AnnotationWriteRequestHandler.handleAnnotationWriteRequest(message as AnnotationWriteRequestMessage, sendResponse)
+                return true // Keep message channel open for async response
+
             case "SPEECH_SYNTHESIS_REQUEST":
                 SpeechSynthesisRequestHandler.handleSpeechSynthesisRequest(message, sendResponse)
                 return true // Keep message channel open for async response
@@ -43,6 +81,13 @@ export function setupMessageListener(): void {
                 SpeechSynthesisRequestHandler.handleSpeechStopRequest(sendResponse)
                 return true
 
+            case "OPEN_OPTIONS_REQUEST":
+                chrome.runtime.openOptionsPage().catch((error: unknown) => {
+                    logger.warn("Failed to open the options page:", error)
+                })
+                sendResponse({ status: "ok" })
+                return true
+
             case "POPUP_BOOTSTRAP_REQUEST": {
                 const response = buildPopupBootstrapResponse()
                 sendResponse(response)
@@ -0,0 +1,95 @@
+/**
+ * Translation Stream Port
+ *
+ * Long-lived chrome.runtime.Port channel for translations, alongside MessageRouter.
+ * Unlike sendMessage, a port can carry several messages per request, so partial
+ * translations are pushed to the content script while the model is still generating.
+ *
+ * Protocol (one request per port):
+ * 1. Content script connects with TRANSLATION_STREAM_PORT_NAME and posts a translation request
+ * 2. Background posts TRANSLATION_ACK once it accepts the request
+ * 3. Background posts zero or more TRANSLATION_PARTIAL messages
+ * 4. Background posts the final TRANSLATE_RESPONSE / FRAGMENT_TRANSLATE_RESPONSE and disconnects
+ */
+
+import { TRANSLATION_STREAM_PORT_NAME } from "@/0_common/constants"
+import type { TranslationPartialMessage, TranslationStreamMessage, TranslationStreamRequestMessage } from "@/0_common/types"
+import * as loggerModule from "@/0_common/utils/logger"
+import * as FragmentTranslationRequestHandler from "../handlers/FragmentTranslationRequestHandler"
+import * as TranslationRequestHandler from "../handlers/TranslationRequestHandler"
+
+const logger = loggerModule.createLogger("TranslationStreamPort")
+
+/**
+ * Handle the single request posted on a translation stream port
+ */
+function handleStreamRequest(port: chrome.runtime.Port, message: TranslationStreamRequestMessage): void {
+    let disconnected = false
+    port.onDisconnect.addListener(() => {
+        disconnected = true
+    })
+
+    // The tab may close or navigate mid-stream; posting to a closed port throws
+    const post = (response: TranslationStreamMessage) => {
+        if (disconnected) {
+            return
+        }
+        try {
+            port.postMessage(response)
+        } catch (error) {
+            disconnected = true
+            logger.warn("Failed to post to translation stream port:", error)
+        }
+    }
+
+    const finish = (response: TranslationStreamMessage) => {
+        post(response)
+        if (!disconnected) {
+            port.disconnect()
+        }
+    }
+
+    const onPartial = (partial: TranslationPartialMessage["data"]) => {
+        post({ type: "TRANSLATION_PARTIAL", data: partial })
+    }
+
+    // Handlers report every failure through finish(), so their promises never reject
+    switch (message.type) {
+        case "TRANSLATE_REQUEST":
+            post({ type: "TRANSLATION_ACK" })
+            void TranslationRequestHandler.handleTranslationRequest(message, finish, port.sender, onPartial)
+            return
+
+        case "FRAGMENT_TRANSLATE_REQUEST":
+            post({ type: "TRANSLATION_ACK" })
+            void FragmentTranslationRequestHandler.handleFragmentTranslationRequest(message, finish, onPartial)
+            return
+
+        default:
+            logger.warn("Unknown translation stream request:", (message as { type?: string }).type)
+            port.disconnect()
+    }
+}
+
+/**
+ * Setup translation stream port listener
+ *
+ * Registers the Chrome runtime connect listener for TRANSLATION_STREAM_PORT_NAME ports
+ */
+export function setupTranslationStreamListener(): void {
+    chrome.runtime.onConnect.addListener((port) => {
+        if (port.name !== TRANSLATION_STREAM_PORT_NAME) {
+            return
+        }
+
+        const onMessage = (message: TranslationStreamRequestMessage) => {
+            // One request per port: ignore anything posted after the first message
+            port.onMessage.removeListener(onMessage)
+            logger.info("Stream request received in background:", message)
+            handleStreamRequest(port, message)
+        }
+        port.onMessage.addListener(onMessage)
+    })
+
+    logger.info("Translation stream listener registered")
+}
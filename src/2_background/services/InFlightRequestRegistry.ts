@@ -0,0 +1,52 @@
+/**
+ * In-Flight Request Registry
+ *
+ * Shares one pending promise between concurrent identical requests (e.g. a double-click
+ * and a single-click on the same word, or two tabs translating the same sentence), so the
+ * translation backend is called - and quota charged - only once per request key.
+ *
+ * Entries are removed as soon as the shared promise settles; this is not a result cache.
+ */
+
+import * as loggerModule from "@/0_common/utils/logger"
+
+const logger = loggerModule.createLogger("InFlightRequestRegistry")
+
+const pendingRequests = new Map<string, Promise<unknown>>()
+
+/**
+ * Build a request key from the fields that determine the response
+ *
+ * @param kind - Request kind (e.g. "word", "fragment")
+ * @param parts - Fields that make the request unique (undefined and "" are treated alike)
+ * @returns Stable string key
+ */
+export function buildInFlightRequestKey(kind: string, parts: Array<string | boolean | undefined>): string {
+    return JSON.stringify([kind, ...parts.map((part) => part ?? "")])
+}
+
+/**
+ * Run a task, or join the pending run of an identical request
+ *
+ * @param key - Key from buildInFlightRequestKey()
+ * @param task - Work to perform when no identical request is pending
+ * @returns The shared result (rejections are shared too)
+ *
+ * @example
+ * ```typescript
+ * const result = await runDeduplicated(key, () => translateModule.translateWord(params))
+ * ```
+ */
+export function runDeduplicated<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const pending = pendingRequests.get(key) as Promise<T> | undefined
+    if (pending) {
+        logger.info("Joining in-flight request:", key)
+        return pending
+    }
+
+    const promise = task().finally(() => {
+        pendingRequests.delete(key)
+    })
+    pendingRequests.set(key, promise)
+    return promise
+}
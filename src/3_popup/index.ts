@@ -6,12 +6,17 @@
  * 2. Settings loading and event binding
  * 3. Website link and update notification
  * 4. Tooltip positioning
- * 5. Loading state management
+ * 5. Review "due today" summary
+ * 6. Bilingual mode and immersive vocabulary toggles for the active tab
+ * 7. Loading state management
  */
 
 import * as i18nModule from "@/0_common/utils/i18n"
 import { APP_EDITION } from "@/0_common/constants"
 import * as loggerModule from "@/0_common/utils/logger"
+import * as bilingualModeManagerModule from "./modules/bilingualModeManager"
+import * as immersiveVocabularyManagerModule from "./modules/immersiveVocabularyManager"
+import * as reviewSummaryManagerModule from "./modules/reviewSummaryManager"
 import * as settingsManagerModule from "./modules/settingsManager"
 import * as tooltipManagerModule from "./modules/tooltipManager"
 import "./styles/popup.css"
@@ -38,6 +43,15 @@ async function initialize(): Promise<void> {
     // Set up setting change listeners
     settingsManagerModule.setupSettingChangeListeners()
 
+    // Show vocabulary cards due today
+    await reviewSummaryManagerModule.setupReviewSummary()
+
+    // Show bilingual mode state of the active tab
+    await bilingualModeManagerModule.setupBilingualMode()
+
+    // Show whether unknown words are glossed on the active tab's site
+    await immersiveVocabularyManagerModule.setupImmersiveVocabulary()
+
     // Set up tooltip interactions
     const helpIcons = document.querySelectorAll<HTMLElement>(".help-icon")
     const popupContainer = document.querySelector<HTMLElement>(".popup-container")
@@ -0,0 +1,60 @@
+/**
+ * Bilingual Mode Manager for Popup
+ *
+ * Shows and toggles whole-page bilingual mode in the active tab.
+ * The state lives in the tab's content script; pages without it (browser pages) disable the toggle.
+ */
+
+import type { BilingualModeRequestMessage, BilingualModeResponseMessage } from "@/0_common/types"
+import * as loggerModule from "@/0_common/utils/logger"
+
+const logger = loggerModule.createLogger("Popup/BilingualMode")
+
+async function sendBilingualModeRequest(tabId: number, action: BilingualModeRequestMessage["action"]): Promise<boolean> {
+    const message: BilingualModeRequestMessage = { type: "BILINGUAL_MODE_REQUEST", action }
+    const response = await chrome.tabs.sendMessage<BilingualModeRequestMessage, BilingualModeResponseMessage | undefined>(tabId, message)
+    return response?.active === true
+}
+
+/**
+ * Load the bilingual mode state of the active tab and wire the toggle
+ */
+export async function setupBilingualMode(): Promise<void> {
+    const toggle = document.getElementById("bilingualMode") as HTMLInputElement | null
+    if (!toggle) {
+        return
+    }
+
+    const setUnavailable = () => {
+        toggle.checked = false
+        toggle.disabled = true
+        toggle.closest(".setting-item")?.classList.add("is-disabled")
+    }
+
+    let tabId: number | undefined
+    try {
+        const [tab] = await chrome.tabs.query({ active: true, currentWindow: true })
+        tabId = tab?.id
+        if (tabId === undefined) {
+            setUnavailable()
+            return
+        }
+        toggle.checked = await sendBilingualModeRequest(tabId, "status")
+    } catch (error) {
+        logger.info("Bilingual mode unavailable in this tab:", error)
+        setUnavailable()
+        return
+    }
+
+    const activeTabId = tabId
+    toggle.addEventListener("change", () => {
+        sendBilingualModeRequest(activeTabId, "toggle")
+            .then((active) => {
+                toggle.checked = active
+            })
+            .catch((error) => {
+                logger.warn("Failed to toggle bilingual mode:", error)
+                setUnavailable()
+            })
+    })
+}
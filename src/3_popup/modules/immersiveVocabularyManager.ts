@@ -0,0 +1,60 @@
+/**
+ * Immersive Vocabulary Manager for Popup
+ *
+ * Shows and toggles immersive vocabulary (glosses for unknown words) for the active tab's site.
+ * The content script saves the site in the settings; pages without it (browser pages) disable the toggle.
+ */
+
+import type { ImmersiveVocabularyRequestMessage, ImmersiveVocabularyResponseMessage } from "@/0_common/types"
+import * as loggerModule from "@/0_common/utils/logger"
+
+const logger = loggerModule.createLogger("Popup/ImmersiveVocabulary")
+
+async function sendImmersiveVocabularyRequest(tabId: number, action: ImmersiveVocabularyRequestMessage["action"]): Promise<boolean> {
+    const message: ImmersiveVocabularyRequestMessage = { type: "IMMERSIVE_VOCABULARY_REQUEST", action }
+    const response = await chrome.tabs.sendMessage<ImmersiveVocabularyRequestMessage, ImmersiveVocabularyResponseMessage | undefined>(tabId, message)
+    return response?.active === true
+}
+
+/**
+ * Load the immersive vocabulary state of the active tab's site and wire the toggle
+ */
+export async function setupImmersiveVocabulary(): Promise<void> {
+    const toggle = document.getElementById("immersiveVocabulary") as HTMLInputElement | null
+    if (!toggle) {
+        return
+    }
+
+    const setUnavailable = () => {
+        toggle.checked = false
+        toggle.disabled = true
+        toggle.closest(".setting-item")?.classList.add("is-disabled")
+    }
+
+    let tabId: number | undefined
+    try {
+        const [tab] = await chrome.tabs.query({ active: true, currentWindow: true })
+        tabId = tab?.id
+        if (tabId === undefined) {
+            setUnavailable()
+            return
+        }
+        toggle.checked = await sendImmersiveVocabularyRequest(tabId, "status")
+    } catch (error) {
+        logger.info("Immersive vocabulary unavailable in this tab:", error)
+        setUnavailable()
+        return
+    }
+
+    const activeTabId = tabId
+    toggle.addEventListener("change", () => {
+        sendImmersiveVocabularyRequest(activeTabId, "toggle")
+            .then((active) => {
+                toggle.checked = active
+            })
+            .catch((error) => {
+                logger.warn("Failed to toggle immersive vocabulary:", error)
+                setUnavailable()
+            })
+    })
+}
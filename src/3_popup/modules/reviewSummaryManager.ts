@@ -0,0 +1,42 @@
+/**
+ * Review Summary Manager for Popup
+ *
+ * Shows the number of vocabulary cards due today and opens the review page
+ */
+
+import * as loggerModule from "@/0_common/utils/logger"
+import * as spacedRepetition from "@/0_common/utils/spacedRepetition"
+import * as vocabularyStorage from "@/0_common/utils/vocabularyStorage"
+
+const logger = loggerModule.createLogger("Popup/ReviewSummary")
+
+export const REVIEW_PAGE_PATH = "src/11_review/index.html"
+
+/**
+ * Load the due-today count and wire the "Review" button
+ */
+export async function setupReviewSummary(): Promise<void> {
+    const countElement = document.getElementById("reviewDueCount")
+    const reviewButton = document.getElementById("reviewButton") as HTMLButtonElement | null
+
+    reviewButton?.addEventListener("click", () => {
+        chrome.tabs.create({ url: chrome.runtime.getURL(REVIEW_PAGE_PATH) }).catch((error) => {
+            logger.error("Failed to open the review page:", error)
+        })
+    })
+
+    try {
+        const entries = await vocabularyStorage.getVocabularyEntries()
+        const dueCount = spacedRepetition.getDueEntries(entries).length
+
+        if (countElement) {
+            countElement.textContent = String(dueCount)
+            countElement.classList.toggle("has-due", dueCount > 0)
+        }
+        if (reviewButton) {
+            reviewButton.disabled = dueCount === 0
+        }
+    } catch (error) {
+        logger.warn("Failed to load review summary:", error)
+    }
+}
@@ -3,6 +3,11 @@ import * as i18nModule from "@/0_common/utils/i18n"
 import * as loggerModule from "@/0_common/utils/logger"
 import * as colorUtils from "@/0_common/utils/colorUtils"
 import * as settingsManagerModule from "@/4_options/modules/settingsManager"
+import * as vocabularyManagerModule from "@/4_options/modules/vocabularyManager"
+import * as promptEditorModule from "@/4_options/modules/promptEditor"
+import * as glossaryManagerModule from "@/4_options/modules/glossaryManager"
+import * as siteStyleManagerModule from "@/4_options/modules/siteStyleManager"
+import * as usageDashboardModule from "@/4_options/modules/usageDashboard"
 import type * as types from "@/0_common/types"
 import * as storageManagerModule from "@/0_common/utils/storageManager"
 import * as translationFontSizeModule from "@/0_common/constants/translationFontSize"
@@ -374,8 +379,16 @@ async function initializeOptions(): Promise<void> {
         await settingsManagerModule.loadSettings()
         settingsManagerModule.setupSettingChangeListeners()
         settingsManagerModule.setupCustomApiValidation()
+        settingsManagerModule.setupAnthropicValidation()
+        settingsManagerModule.setupOllamaSettings()
+        settingsManagerModule.setupFallbackProviders()
         settingsManagerModule.setupMTranServerTest()
         await setupTooltipSpacingPreview()
+        await promptEditorModule.setupPromptEditor()
+        await siteStyleManagerModule.setupSiteStylePage()
+        await glossaryManagerModule.setupGlossaryPage()
+        await vocabularyManagerModule.setupVocabularyPage()
+        await usageDashboardModule.setupUsageDashboard()
 
         const websiteUrl = await fetchWebsiteUrl()
 
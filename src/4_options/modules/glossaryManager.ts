@@ -0,0 +1,244 @@
+/**
+ * Glossary Manager for Options Page
+ *
+ * Renders the terminology glossary: add and delete entries, import CSV/TBX files
+ * from a team and export the glossary for sharing. The active domain input is a
+ * regular `data-setting` field saved by settingsManager.
+ */
+
+import type * as types from "@/0_common/types"
+import * as glossaryExport from "@/0_common/utils/glossaryExport"
+import * as glossaryStorage from "@/0_common/utils/glossaryStorage"
+import * as i18nModule from "@/0_common/utils/i18n"
+import * as languageDisplayModule from "@/0_common/utils/languageDisplay"
+import * as loggerModule from "@/0_common/utils/logger"
+import * as storageManagerModule from "@/0_common/utils/storageManager"
+
+const logger = loggerModule.createLogger("Options/Glossary")
+
+let allEntries: types.GlossaryEntry[] = []
+
+function createTextElement<K extends keyof HTMLElementTagNameMap>(tag: K, className: string, text: string): HTMLElementTagNameMap[K] {
+    const element = document.createElement(tag)
+    element.className = className
+    element.textContent = text
+    return element
+}
+
+function renderEntry(entry: types.GlossaryEntry): HTMLElement {
+    const item = document.createElement("div")
+    item.className = "glossary-item"
+    item.dataset.entryId = entry.id
+
+    item.appendChild(createTextElement("span", "glossary-term", entry.sourceTerm))
+    item.appendChild(createTextElement("span", "glossary-arrow", "→"))
+    item.appendChild(createTextElement("span", "glossary-translation", entry.translation))
+    if (entry.domain) {
+        item.appendChild(createTextElement("span", "glossary-domain", entry.domain))
+    }
+    item.appendChild(createTextElement("span", "vocabulary-language", languageDisplayModule.getLanguageDisplayName(entry.targetLanguage)))
+
+    const deleteButton = createTextElement(
+        "button",
+        "secondary-button vocabulary-action vocabulary-action-danger",
+        i18nModule.translate("options.vocabulary.delete")
+    )
+    deleteButton.dataset.action = "delete"
+    item.appendChild(deleteButton)
+
+    return item
+}
+
+function renderGlossaryList(): void {
+    const list = document.getElementById("glossaryList")
+    const emptyState = document.getElementById("glossaryEmpty")
+    if (!list) return
+
+    list.innerHTML = ""
+    for (const entry of allEntries) {
+        list.appendChild(renderEntry(entry))
+    }
+
+    if (emptyState) {
+        emptyState.style.display = allEntries.length === 0 ? "block" : "none"
+    }
+}
+
+function populateDomainOptions(): void {
+    const datalist = document.getElementById("glossaryDomainOptions")
+    if (!datalist) return
+
+    datalist.innerHTML = ""
+    for (const domain of glossaryStorage.getGlossaryDomains(allEntries)) {
+        const option = document.createElement("option")
+        option.value = domain
+        datalist.appendChild(option)
+    }
+}
+
+async function reloadEntries(): Promise<void> {
+    allEntries = await glossaryStorage.getGlossaryEntries()
+    populateDomainOptions()
+    renderGlossaryList()
+}
+
+async function handleAdd(statusElement: HTMLElement | null): Promise<void> {
+    const sourceInput = document.getElementById("glossarySourceTerm") as HTMLInputElement | null
+    const translationInput = document.getElementById("glossaryTranslation") as HTMLInputElement | null
+    const languageSelect = document.getElementById("glossaryTargetLanguage") as HTMLSelectElement | null
+    const domainInput = document.getElementById("glossaryEntryDomain") as HTMLInputElement | null
+
+    const entry = await glossaryStorage.saveGlossaryEntry({
+        sourceTerm: sourceInput?.value ?? "",
+        translation: translationInput?.value ?? "",
+        targetLanguage: languageSelect?.value ?? "",
+        domain: domainInput?.value,
+    })
+    if (!entry) {
+        setStatus(statusElement, "error", i18nModule.translate("options.glossary.add.missing"))
+        return
+    }
+
+    if (sourceInput) sourceInput.value = ""
+    if (translationInput) translationInput.value = ""
+    setStatus(statusElement, "success", i18nModule.translate("options.glossary.add.done").replace("{term}", entry.sourceTerm))
+    await reloadEntries()
+}
+
+async function handleImport(file: File, statusElement: HTMLElement | null): Promise<void> {
+    const inputs = glossaryExport.parseGlossaryFile(file.name, await file.text())
+    if (inputs.length === 0) {
+        setStatus(statusElement, "error", i18nModule.translate("options.glossary.import.empty").replace("{file}", file.name))
+        return
+    }
+
+    const result = await glossaryStorage.importGlossaryEntries(inputs)
+    setStatus(
+        statusElement,
+        "success",
+        i18nModule
+            .translate("options.glossary.import.done")
+            .replace("{added}", String(result.added))
+            .replace("{updated}", String(result.updated))
+            .replace("{skipped}", String(result.skipped))
+    )
+    await reloadEntries()
+}
+
+function downloadFile(file: glossaryExport.GlossaryExportFile): void {
+    const blob = new Blob([file.content], { type: file.mimeType })
+    const url = URL.createObjectURL(blob)
+
+    const link = document.createElement("a")
+    link.href = url
+    link.download = file.fileName
+    document.body.appendChild(link)
+    link.click()
+    link.remove()
+
+    // Revoke on next tick so the download has started
+    setTimeout(() => URL.revokeObjectURL(url), 0)
+}
+
+async function handleExport(format: glossaryExport.GlossaryExportFormat, statusElement: HTMLElement | null): Promise<void> {
+    const entries = await glossaryStorage.getGlossaryEntries()
+    if (entries.length === 0) {
+        setStatus(statusElement, "error", i18nModule.translate("options.glossary.export.empty"))
+        return
+    }
+
+    downloadFile(glossaryExport.exportGlossary(entries, format))
+    setStatus(statusElement, "success", i18nModule.translate("options.glossary.export.done").replace("{count}", String(entries.length)))
+    logger.info("Glossary exported:", format, entries.length)
+}
+
+function setStatus(element: HTMLElement | null, status: "success" | "error", message: string): void {
+    if (!element) return
+    element.textContent = message
+    element.classList.remove("success", "error")
+    element.classList.add(status)
+}
+
+/**
+ * Set up the glossary section
+ * Loads entries, wires the add form, import/export buttons and keeps the list in sync with storage changes
+ */
+export async function setupGlossaryPage(): Promise<void> {
+    const list = document.getElementById("glossaryList")
+    if (!list) {
+        return
+    }
+
+    // Default new entries to the user's target language
+    const languageSelect = document.getElementById("glossaryTargetLanguage") as HTMLSelectElement | null
+    const settings = await storageManagerModule.getUserSettings()
+    if (languageSelect && Array.from(languageSelect.options).some((option) => option.value === settings.targetLanguage)) {
+        languageSelect.value = settings.targetLanguage
+    }
+
+    const formStatus = document.getElementById("glossaryFormStatus")
+    document.getElementById("glossaryAddButton")?.addEventListener("click", () => {
+        handleAdd(formStatus).catch((error) => {
+            logger.error("Failed to save glossary entry:", error)
+            setStatus(formStatus, "error", i18nModule.translate("options.glossary.add.failed"))
+        })
+    })
+
+    const transferStatus = document.getElementById("glossaryTransferStatus")
+    const fileInput = document.getElementById("glossaryImportFile") as HTMLInputElement | null
+    document.getElementById("glossaryImportButton")?.addEventListener("click", () => fileInput?.click())
+    fileInput?.addEventListener("change", () => {
+        const file = fileInput.files?.[0]
+        if (!file) return
+        handleImport(file, transferStatus)
+            .catch((error) => {
+                logger.error("Glossary import failed:", error)
+                setStatus(transferStatus, "error", i18nModule.translate("options.glossary.import.failed"))
+            })
+            .finally(() => {
+                // Allow importing the same file again
+                fileInput.value = ""
+            })
+    })
+
+    const exportButtons: Array<[string, glossaryExport.GlossaryExportFormat]> = [
+        ["glossaryExportCsvButton", "csv"],
+        ["glossaryExportTbxButton", "tbx"],
+    ]
+    for (const [buttonId, format] of exportButtons) {
+        document.getElementById(buttonId)?.addEventListener("click", () => {
+            handleExport(format, transferStatus).catch((error) => {
+                logger.error("Glossary export failed:", error)
+                setStatus(transferStatus, "error", i18nModule.translate("options.glossary.export.failed"))
+            })
+        })
+    }
+
+    list.addEventListener("click", (event) => {
+        const target = event.target as HTMLElement | null
+        const button = target?.closest<HTMLElement>("[data-action='delete']")
+        const entryId = button?.closest<HTMLElement>(".glossary-item")?.dataset.entryId
+        if (!entryId) {
+            return
+        }
+
+        glossaryStorage
+            .deleteGlossaryEntry(entryId)
+            .then(() => reloadEntries())
+            .catch((error) => {
+                logger.error("Failed to delete glossary entry:", error)
+            })
+    })
+
+    // Keep the list fresh while the options page stays open (imports from another window)
+    chrome.storage.onChanged.addListener((changes, areaName) => {
+        if (areaName !== "local" || !changes[glossaryStorage.GLOSSARY_STORAGE_KEY]) {
+            return
+        }
+        reloadEntries().catch((error) => {
+            logger.warn("Failed to refresh glossary entries:", error)
+        })
+    })
+
+    await reloadEntries()
+}
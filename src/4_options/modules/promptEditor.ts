@@ -0,0 +1,268 @@
+/**
+ * Prompt Editor for Options Page
+ *
+ * Edits the prompts sent to local LLM providers (system prompt, user prompt template and
+ * few-shot examples) per task and target language, validates template variables, renders
+ * a live preview of the exact messages for a sample sentence, and resets to the bundled prompts
+ */
+
+import * as i18nModule from "@/0_common/utils/i18n"
+import * as loggerModule from "@/0_common/utils/logger"
+import * as storageManagerModule from "@/0_common/utils/storageManager"
+import * as generateModule from "@/8_generate"
+import type { ChatMessage, PromptOverride, PromptSet } from "@/8_generate"
+
+const logger = loggerModule.createLogger("Options/PromptEditor")
+
+interface PromptEditorElements {
+    taskSelect: HTMLSelectElement
+    languageSelect: HTMLSelectElement
+    systemInput: HTMLTextAreaElement
+    templateInput: HTMLTextAreaElement
+    fewshotInput: HTMLTextAreaElement
+    variablesHelper: HTMLElement | null
+    overrideState: HTMLElement | null
+    preview: HTMLElement
+    status: HTMLElement | null
+}
+
+let bundledPrompts: PromptSet | null = null
+let previewLanguage = "en"
+
+function getElements(): PromptEditorElements | null {
+    const taskSelect = document.getElementById("promptTask") as HTMLSelectElement | null
+    const languageSelect = document.getElementById("promptLanguage") as HTMLSelectElement | null
+    const systemInput = document.getElementById("promptSystem") as HTMLTextAreaElement | null
+    const templateInput = document.getElementById("promptUserTemplate") as HTMLTextAreaElement | null
+    const fewshotInput = document.getElementById("promptFewshot") as HTMLTextAreaElement | null
+    const preview = document.getElementById("promptPreview")
+
+    if (!taskSelect || !languageSelect || !systemInput || !templateInput || !fewshotInput || !preview) {
+        return null
+    }
+
+    return {
+        taskSelect,
+        languageSelect,
+        systemInput,
+        templateInput,
+        fewshotInput,
+        variablesHelper: document.getElementById("promptVariablesHelper"),
+        overrideState: document.getElementById("promptOverrideState"),
+        preview,
+        status: document.getElementById("promptStatus"),
+    }
+}
+
+function formatFewshot(fewshot: ChatMessage[]): string {
+    return fewshot.length > 0 ? JSON.stringify(fewshot, null, 4) : ""
+}
+
+/**
+ * Parse the few-shot textarea; empty text means no examples
+ * @returns Parsed value, or undefined if the text is not valid JSON
+ */
+function parseFewshotInput(text: string): unknown {
+    if (!text.trim()) {
+        return []
+    }
+    try {
+        return JSON.parse(text) as unknown
+    } catch {
+        return undefined
+    }
+}
+
+function setStatus(element: HTMLElement | null, status: "success" | "error" | null, message: string): void {
+    if (!element) return
+    element.textContent = message
+    element.classList.remove("success", "error")
+    if (status) {
+        element.classList.add(status)
+    }
+}
+
+/**
+ * Read the editor into an override, keeping only fields that differ from the bundled prompts
+ */
+function readOverrideFromEditor(elements: PromptEditorElements, bundled: PromptSet): PromptOverride {
+    const systemPrompt = elements.systemInput.value
+    const userPromptTemplate = elements.templateInput.value
+    const fewshot = parseFewshotInput(elements.fewshotInput.value)
+
+    const override: PromptOverride = {}
+    if (systemPrompt.trim() && systemPrompt.trim() !== bundled.systemPrompt.trim()) {
+        override.systemPrompt = systemPrompt
+    }
+    if (userPromptTemplate.trim() && userPromptTemplate.trim() !== bundled.userPromptTemplate.trim()) {
+        override.userPromptTemplate = userPromptTemplate
+    }
+    // Invalid JSON is kept (as a non-array) so validation reports it instead of silently dropping the edit
+    if (fewshot === undefined || JSON.stringify(fewshot) !== JSON.stringify(bundled.fewshot)) {
+        override.fewshot = (fewshot ?? elements.fewshotInput.value) as ChatMessage[]
+    }
+
+    return override
+}
+
+/**
+ * Build validation messages for the current editor contents
+ * @returns Error messages (empty when the override can be saved)
+ */
+function getValidationErrors(task: string, override: PromptOverride): string[] {
+    const validation = generateModule.validatePromptOverride(task, override)
+    const errors: string[] = []
+
+    if (validation.missingVariables.length > 0) {
+        errors.push(i18nModule.translate("options.prompts.validation.missing").replace("{variables}", validation.missingVariables.join(", ")))
+    }
+    if (validation.unknownVariables.length > 0) {
+        errors.push(i18nModule.translate("options.prompts.validation.unknown").replace("{variables}", validation.unknownVariables.join(", ")))
+    }
+    if (validation.invalidFewshot) {
+        errors.push(i18nModule.translate("options.prompts.validation.fewshot"))
+    }
+
+    return errors
+}
+
+function renderPreview(elements: PromptEditorElements): void {
+    if (!bundledPrompts) {
+        return
+    }
+
+    const task = elements.taskSelect.value
+    const override = readOverrideFromEditor(elements, bundledPrompts)
+    const errors = getValidationErrors(task, override)
+    setStatus(elements.status, errors.length > 0 ? "error" : null, errors.join(" "))
+
+    const prompts: PromptSet = {
+        systemPrompt: override.systemPrompt ?? bundledPrompts.systemPrompt,
+        userPromptTemplate: override.userPromptTemplate ?? bundledPrompts.userPromptTemplate,
+        // Invalid few-shot JSON cannot be previewed; show the bundled examples until it is fixed
+        fewshot: override.fewshot && generateModule.isValidFewshot(override.fewshot) ? override.fewshot : bundledPrompts.fewshot,
+    }
+    const messages = generateModule.buildPromptPreview(task, prompts, previewLanguage)
+
+    elements.preview.innerHTML = ""
+    for (const message of messages) {
+        const block = document.createElement("div")
+        block.className = `prompt-preview-message prompt-preview-message--${message.role}`
+
+        const role = document.createElement("span")
+        role.className = "prompt-preview-role"
+        role.textContent = message.role
+
+        const content = document.createElement("pre")
+        content.className = "prompt-preview-content"
+        content.textContent = message.content
+
+        block.append(role, content)
+        elements.preview.appendChild(block)
+    }
+}
+
+/**
+ * Load the bundled prompts and saved override for the selected task and language into the editor
+ */
+async function loadSelection(elements: PromptEditorElements): Promise<void> {
+    const task = elements.taskSelect.value
+    const language = elements.languageSelect.value
+
+    if (language === generateModule.PROMPT_OVERRIDE_ALL_LANGUAGES) {
+        const settings = await storageManagerModule.getUserSettings()
+        previewLanguage = settings.targetLanguage
+    } else {
+        previewLanguage = language
+    }
+
+    const [systemPrompt, userPromptTemplate, fewshot, override] = await Promise.all([
+        generateModule.loadSystemPrompt(task),
+        generateModule.loadUserPromptTemplate(task),
+        generateModule.PROMPT_FEWSHOT_TASKS.includes(task) ? generateModule.loadFewshot(task, previewLanguage) : Promise.resolve([]),
+        generateModule.getStoredPromptOverride(task, language),
+    ])
+    bundledPrompts = { systemPrompt, userPromptTemplate, fewshot }
+
+    elements.systemInput.value = override?.systemPrompt ?? systemPrompt
+    elements.templateInput.value = override?.userPromptTemplate ?? userPromptTemplate
+    elements.fewshotInput.value = formatFewshot(override?.fewshot ?? fewshot)
+
+    if (elements.variablesHelper) {
+        const variables = (generateModule.PROMPT_TEMPLATE_VARIABLES[task] ?? []).map((name) => `\${${name}}`).join(", ")
+        elements.variablesHelper.textContent = i18nModule.translate("options.prompts.variables").replace("{variables}", variables)
+    }
+    if (elements.overrideState) {
+        elements.overrideState.textContent = i18nModule.translate(override ? "options.prompts.state.custom" : "options.prompts.state.bundled")
+        elements.overrideState.classList.toggle("is-custom", Boolean(override))
+    }
+
+    renderPreview(elements)
+}
+
+async function handleSave(elements: PromptEditorElements): Promise<void> {
+    if (!bundledPrompts) {
+        return
+    }
+
+    const task = elements.taskSelect.value
+    const override = readOverrideFromEditor(elements, bundledPrompts)
+    const errors = getValidationErrors(task, override)
+    if (errors.length > 0) {
+        setStatus(elements.status, "error", errors.join(" "))
+        return
+    }
+
+    await generateModule.savePromptOverride(task, elements.languageSelect.value, override)
+    await loadSelection(elements)
+    setStatus(elements.status, "success", i18nModule.translate("options.prompts.saved"))
+}
+
+async function handleReset(elements: PromptEditorElements): Promise<void> {
+    await generateModule.resetPromptOverride(elements.taskSelect.value, elements.languageSelect.value)
+    await loadSelection(elements)
+    setStatus(elements.status, "success", i18nModule.translate("options.prompts.resetDone"))
+}
+
+/**
+ * Set up the prompt editor section
+ * Loads the selected task's prompts and wires selection, live preview, save and reset
+ */
+export async function setupPromptEditor(): Promise<void> {
+    const elements = getElements()
+    if (!elements) {
+        return
+    }
+
+    const reload = async () => {
+        try {
+            await loadSelection(elements)
+        } catch (error) {
+            logger.error("Failed to load prompts:", error)
+            setStatus(elements.status, "error", i18nModule.translate("options.prompts.loadFailed"))
+        }
+    }
+
+    elements.taskSelect.addEventListener("change", () => void reload())
+    elements.languageSelect.addEventListener("change", () => void reload())
+
+    for (const input of [elements.systemInput, elements.templateInput, elements.fewshotInput]) {
+        input.addEventListener("input", () => renderPreview(elements))
+    }
+
+    document.getElementById("promptSaveButton")?.addEventListener("click", () => {
+        handleSave(elements).catch((error) => {
+            logger.error("Failed to save prompt override:", error)
+            setStatus(elements.status, "error", i18nModule.translate("options.prompts.saveFailed"))
+        })
+    })
+
+    document.getElementById("promptResetButton")?.addEventListener("click", () => {
+        handleReset(elements).catch((error) => {
+            logger.error("Failed to reset prompt override:", error)
+            setStatus(elements.status, "error", i18nModule.translate("options.prompts.saveFailed"))
+        })
+    })
+
+    await reload()
+}
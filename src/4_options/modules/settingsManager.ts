@@ -5,15 +5,17 @@
  */
 
 import { APP_EDITION } from "@/0_common/constants"
-import { CUSTOM_API_FIXED_PARAMS } from "@/0_common/constants/customApi"
+import { CUSTOM_API_FIXED_PARAMS, OLLAMA_FIXED_PARAMS, OLLAMA_TIMEOUT_SECONDS } from "@/0_common/constants/customApi"
 import type * as types from "@/0_common/types"
+import { DEFAULT_USER_SETTINGS } from "@/0_common/types"
 import * as i18nModule from "@/0_common/utils/i18n"
+import * as immersiveVocabularyModule from "@/0_common/utils/immersiveVocabulary"
 import * as languageDisplayModule from "@/0_common/utils/languageDisplay"
 import * as loggerModule from "@/0_common/utils/logger"
 import * as storageManagerModule from "@/0_common/utils/storageManager"
 import { getPlatformOS, PLATFORMS } from "@/0_common/utils/platformDetector"
-import { translateWord as translateWordWithLLM } from "@/8_generate"
-import type { LLMConfig } from "@/8_generate"
+import { detectStructuredOutputMode, listOllamaModels, saveEndpointCapabilities, translateWord as translateWordWithLLM } from "@/8_generate"
+import type { LLMConfig, StructuredOutputMode } from "@/8_generate"
 import { testMTranServerConnection } from "@/6_translate/services/MTranServerService"
 
 const logger = loggerModule.createLogger("Options/Settings")
@@ -34,7 +36,8 @@ function setTranslationControlsEnabled(enabled: boolean): void {
         "singleClickTranslate",
         "doubleClickTranslateV2",
         "doubleClickSentenceTranslate",
-        "doubleClickSentenceTriggerKey"
+        "doubleClickSentenceTriggerKey",
+        "segmentedWordLookup",
     ]
 
     dependentIds.forEach((id) => {
@@ -233,6 +236,11 @@ export async function loadSettings(): Promise<void> {
         // Load translation provider selection
         setValue("translationProvider", settings.translationProvider)
 
+        // Load fallback provider chain (unused slots show "None")
+        document.querySelectorAll<HTMLSelectElement>("select[data-fallback-index]").forEach((select) => {
+            select.value = settings.fallbackProviders[Number(select.dataset.fallbackIndex)] ?? ""
+        })
+
         // Load Custom API settings
         setValue("customApiBaseUrl", customApi.baseUrl)
         setValue("customApiKey", customApi.apiKey)
@@ -244,6 +252,16 @@ export async function loadSettings(): Promise<void> {
             setValue("mtranserverKey", settings.mtranserver.key || "")
         }
 
+        // Load Anthropic settings
+        setValue("anthropicBaseUrl", settings.anthropic.baseUrl)
+        setValue("anthropicApiKey", settings.anthropic.apiKey)
+        setValue("anthropicModel", settings.anthropic.model)
+
+        // Load Ollama settings
+        setValue("ollamaBaseUrl", settings.ollama.baseUrl)
+        setValue("ollamaModel", settings.ollama.model)
+        setValue("ollamaTimeoutSeconds", settings.ollama.timeoutSeconds)
+
         // Initialize Custom Selects with loaded values
         const customSelects = document.querySelectorAll(".custom-select-wrapper[data-setting]")
         customSelects.forEach((wrapper) => {
@@ -369,11 +387,43 @@ export function setupSettingChangeListeners(): void {
                 return
             }
 
+            if (settingKey === "ollamaTimeoutSeconds") {
+                parsed = Math.max(OLLAMA_TIMEOUT_SECONDS.min, Math.min(OLLAMA_TIMEOUT_SECONDS.max, Math.round(parsed)))
+                inputElement.value = String(parsed)
+                const current = await storageManagerModule.getUserSettings()
+                await storageManagerModule.updateUserSettings({
+                    ollama: {
+                        ...current.ollama,
+                        timeoutSeconds: parsed,
+                    },
+                })
+                return
+            }
+
             if (settingKey === "tooltipNextLineGapPxV2" || settingKey === "tooltipVerticalOffsetPxV2" || settingKey === "textUnderlineOffsetPxV2") {
                 parsed = Math.max(0, Math.min(20, parsed))
                 inputElement.value = String(parsed)
             }
 
+            if (
+                settingKey === "customApiInputPricePerMillion" ||
+                settingKey === "customApiOutputPricePerMillion" ||
+                settingKey === "customApiMonthlyBudget"
+            ) {
+                parsed = Math.max(0, parsed)
+                inputElement.value = String(parsed)
+            }
+
+            if (settingKey === "immersiveVocabularyKnownRank") {
+                parsed = immersiveVocabularyModule.normalizeKnownRank(parsed, DEFAULT_USER_SETTINGS.immersiveVocabularyKnownRank)
+                inputElement.value = String(parsed)
+            }
+
+            if (settingKey === "immersiveVocabularyMaxPerViewport") {
+                parsed = immersiveVocabularyModule.normalizeMaxGlossesPerViewport(parsed, DEFAULT_USER_SETTINGS.immersiveVocabularyMaxPerViewport)
+                inputElement.value = String(parsed)
+            }
+
             await saveSetting(settingKey as keyof types.UserSettings, parsed)
         })
     })
@@ -435,6 +485,49 @@ export function setupSettingChangeListeners(): void {
                 return
             }
 
+            if (settingKey === "anthropicBaseUrl" || settingKey === "anthropicApiKey" || settingKey === "anthropicModel") {
+                const current = await storageManagerModule.getUserSettings()
+                const partial: Partial<types.AnthropicApiSettings> = {}
+
+                if (settingKey === "anthropicBaseUrl") {
+                    partial.baseUrl = value
+                }
+                if (settingKey === "anthropicApiKey") {
+                    partial.apiKey = value
+                }
+                if (settingKey === "anthropicModel") {
+                    partial.model = value
+                }
+
+                await storageManagerModule.updateUserSettings({
+                    anthropic: {
+                        ...current.anthropic,
+                        ...partial,
+                    },
+                })
+                return
+            }
+
+            if (settingKey === "ollamaBaseUrl" || settingKey === "ollamaModel") {
+                const current = await storageManagerModule.getUserSettings()
+                const partial: Partial<types.OllamaSettings> = {}
+
+                if (settingKey === "ollamaBaseUrl") {
+                    partial.baseUrl = value
+                }
+                if (settingKey === "ollamaModel") {
+                    partial.model = value
+                }
+
+                await storageManagerModule.updateUserSettings({
+                    ollama: {
+                        ...current.ollama,
+                        ...partial,
+                    },
+                })
+                return
+            }
+
             await saveSetting(settingKey as keyof types.UserSettings, value)
         })
     })
@@ -466,6 +559,60 @@ function buildCustomApiConfigFromInputs(): LLMConfig | null {
     }
 }
 
+function buildAnthropicConfigFromInputs(): LLMConfig | null {
+    const baseUrlInput = document.getElementById("anthropicBaseUrl") as HTMLInputElement | null
+    const apiKeyInput = document.getElementById("anthropicApiKey") as HTMLInputElement | null
+    const modelInput = document.getElementById("anthropicModel") as HTMLInputElement | null
+    if (!baseUrlInput || !apiKeyInput || !modelInput) {
+        return null
+    }
+
+    const apiKey = apiKeyInput.value.trim()
+    const baseUrl = baseUrlInput.value.trim()
+    const model = modelInput.value.trim()
+
+    if (!apiKey || !baseUrl || !model) {
+        return null
+    }
+
+    return {
+        apiFormat: "anthropic",
+        apiKey,
+        baseUrl,
+        model,
+        temperature: CUSTOM_API_FIXED_PARAMS.temperature,
+        maxTokens: CUSTOM_API_FIXED_PARAMS.maxTokens,
+        timeout: CUSTOM_API_FIXED_PARAMS.timeout,
+    }
+}
+
+function buildOllamaConfigFromInputs(): LLMConfig | null {
+    const baseUrlInput = document.getElementById("ollamaBaseUrl") as HTMLInputElement | null
+    const modelInput = document.getElementById("ollamaModel") as HTMLInputElement | null
+    const timeoutInput = document.getElementById("ollamaTimeoutSeconds") as HTMLInputElement | null
+    if (!baseUrlInput || !modelInput) {
+        return null
+    }
+
+    const baseUrl = baseUrlInput.value.trim()
+    const model = modelInput.value.trim()
+    const timeoutSeconds = Number(timeoutInput?.value) || OLLAMA_TIMEOUT_SECONDS.default
+
+    if (!baseUrl || !model) {
+        return null
+    }
+
+    return {
+        apiFormat: "ollama",
+        apiKey: "",
+        baseUrl,
+        model,
+        temperature: OLLAMA_FIXED_PARAMS.temperature,
+        maxTokens: OLLAMA_FIXED_PARAMS.maxTokens,
+        timeout: timeoutSeconds * 1000,
+    }
+}
+
 function setValidationStatus(element: HTMLElement | null, status: "idle" | "success" | "error" | "loading", message?: string): void {
     if (!element) {
         return
@@ -577,6 +724,13 @@ function updateCustomSelectUI(wrapper: HTMLElement, value: string): void {
     selectedOption.classList.add("selected")
 }
 
+const STRUCTURED_OUTPUT_LABELS: Record<StructuredOutputMode, string> = {
+    json_schema: "JSON schema",
+    tool_call: "function calling",
+    json_object: "JSON mode",
+    text: "plain text",
+}
+
 export function setupCustomApiValidation(): void {
     const validateButton = document.getElementById("validateCustomApiButton") as HTMLButtonElement | null
     const statusElement = document.getElementById("validateCustomApiStatus")
@@ -604,6 +758,50 @@ export function setupCustomApiValidation(): void {
         setValidationStatus(statusElement, "loading", "Validating...")
         validateButton.disabled = true
 
+        try {
+            // Detect how the endpoint accepts structured output; translations read the cached mode per base URL and model
+            const structuredOutput = await detectStructuredOutputMode(config)
+            await saveEndpointCapabilities(config.baseUrl, config.model, { structuredOutput, detectedAt: Date.now() })
+
+            const targetLanguage = targetLanguageSelect?.value || "zh"
+            await translateWordWithLLM(
+                {
+                    word: "hello",
+                    sourceLanguage: "en",
+                    targetLanguage,
+                },
+                { ...config, structuredOutput }
+            )
+
+            setValidationStatus(statusElement, "success", `Validation succeeded (structured output: ${STRUCTURED_OUTPUT_LABELS[structuredOutput]}).`)
+        } catch (error) {
+            const message = error instanceof Error ? error.message : "Validation failed"
+            setValidationStatus(statusElement, "error", message)
+        } finally {
+            validateButton.disabled = false
+        }
+    })
+}
+
+export function setupAnthropicValidation(): void {
+    const validateButton = document.getElementById("validateAnthropicButton") as HTMLButtonElement | null
+    const statusElement = document.getElementById("validateAnthropicStatus")
+    const targetLanguageSelect = document.getElementById("targetLanguage") as HTMLSelectElement | null
+
+    if (!validateButton) {
+        return
+    }
+
+    const validate = async () => {
+        const config = buildAnthropicConfigFromInputs()
+        if (!config) {
+            setValidationStatus(statusElement, "error", "Endpoint, API key, and model are required.")
+            return
+        }
+
+        setValidationStatus(statusElement, "loading", "Validating...")
+        validateButton.disabled = true
+
         try {
             const targetLanguage = targetLanguageSelect?.value || "zh"
             await translateWordWithLLM(
@@ -622,15 +820,162 @@ export function setupCustomApiValidation(): void {
         } finally {
             validateButton.disabled = false
         }
+    }
+
+    validateButton.addEventListener("click", () => void validate())
+}
+
+/**
+ * Setup the ordered fallback provider selects
+ * Empty slots are skipped, so choosing "None" in the middle simply shortens the chain.
+ */
+export function setupFallbackProviders(): void {
+    const selects = Array.from(document.querySelectorAll<HTMLSelectElement>("select[data-fallback-index]"))
+
+    const save = async () => {
+        const fallbackProviders = selects.map((element) => element.value).filter((value): value is types.TranslationProvider => value.length > 0)
+
+        try {
+            await storageManagerModule.updateUserSettings({
+                fallbackProviders: [...new Set(fallbackProviders)],
+            })
+            logger.info("Fallback providers updated:", fallbackProviders)
+        } catch (error) {
+            logger.error("Failed to save fallback providers:", error)
+        }
+    }
+
+    selects.forEach((select) => {
+        select.addEventListener("change", () => void save())
     })
 }
 
+/**
+ * Fill the Ollama model suggestions from the server's installed models (/api/tags)
+ */
+async function refreshOllamaModels(): Promise<void> {
+    const baseUrlInput = document.getElementById("ollamaBaseUrl") as HTMLInputElement | null
+    const modelInput = document.getElementById("ollamaModel") as HTMLInputElement | null
+    const datalist = document.getElementById("ollamaModelOptions")
+    const statusElement = document.getElementById("refreshOllamaModelsStatus")
+    const baseUrl = baseUrlInput?.value.trim()
+
+    if (!baseUrl || !datalist) {
+        return
+    }
+
+    setValidationStatus(statusElement, "loading", i18nModule.translate("popup.ollama.refreshModels.loading"))
+
+    try {
+        const models = await listOllamaModels(baseUrl)
+        datalist.innerHTML = ""
+        models.forEach((name) => {
+            const option = document.createElement("option")
+            option.value = name
+            datalist.appendChild(option)
+        })
+
+        if (models.length === 0) {
+            setValidationStatus(statusElement, "error", i18nModule.translate("popup.ollama.refreshModels.empty"))
+            return
+        }
+
+        // Preselect the first installed model when none is configured yet
+        if (modelInput && !modelInput.value.trim()) {
+            modelInput.value = models[0] ?? ""
+            modelInput.dispatchEvent(new Event("change"))
+        }
+
+        setValidationStatus(
+            statusElement,
+            "success",
+            i18nModule.translate("popup.ollama.refreshModels.found").replace("{count}", String(models.length))
+        )
+    } catch (error) {
+        const message = error instanceof Error ? error.message : "Failed to list models"
+        setValidationStatus(statusElement, "error", message)
+    }
+}
+
+/**
+ * Setup Ollama model discovery and connection test
+ */
+export function setupOllamaSettings(): void {
+    const refreshButton = document.getElementById("refreshOllamaModelsButton") as HTMLButtonElement | null
+    const validateButton = document.getElementById("validateOllamaButton") as HTMLButtonElement | null
+    const statusElement = document.getElementById("validateOllamaStatus")
+    const translationProviderSelect = document.getElementById("translationProvider") as HTMLSelectElement | null
+    const targetLanguageSelect = document.getElementById("targetLanguage") as HTMLSelectElement | null
+
+    const refresh = async () => {
+        if (!refreshButton) {
+            return
+        }
+        refreshButton.disabled = true
+        try {
+            await refreshOllamaModels()
+        } finally {
+            refreshButton.disabled = false
+        }
+    }
+
+    refreshButton?.addEventListener("click", () => void refresh())
+
+    // Discover models as soon as the Ollama card is in use
+    translationProviderSelect?.addEventListener("change", () => {
+        if (translationProviderSelect.value === "ollama") {
+            refreshOllamaModels().catch((error) => logger.error("Failed to refresh Ollama models:", error))
+        }
+    })
+    if (translationProviderSelect?.value === "ollama") {
+        refreshOllamaModels().catch((error) => logger.error("Failed to refresh Ollama models:", error))
+    }
+
+    if (!validateButton) {
+        return
+    }
+
+    const validate = async () => {
+        const config = buildOllamaConfigFromInputs()
+        if (!config) {
+            setValidationStatus(statusElement, "error", "Ollama URL and model are required.")
+            return
+        }
+
+        setValidationStatus(statusElement, "loading", "Validating...")
+        validateButton.disabled = true
+
+        try {
+            const targetLanguage = targetLanguageSelect?.value || "zh"
+            await translateWordWithLLM(
+                {
+                    word: "hello",
+                    sourceLanguage: "en",
+                    targetLanguage,
+                },
+                config
+            )
+
+            setValidationStatus(statusElement, "success", "Validation succeeded.")
+        } catch (error) {
+            const message = error instanceof Error ? error.message : "Validation failed"
+            setValidationStatus(statusElement, "error", message)
+        } finally {
+            validateButton.disabled = false
+        }
+    }
+
+    validateButton.addEventListener("click", () => void validate())
+}
+
 /**
  * Update UI based on selected translation provider
  */
 function updateProviderDependentUI(provider: types.TranslationProvider): void {
     const customApiCard = document.getElementById("customApiCard")
     const mtranserverCard = document.getElementById("mtranserverCard")
+    const anthropicCard = document.getElementById("anthropicCard")
+    const ollamaCard = document.getElementById("ollamaCard")
 
     // Show/hide cards based on provider selection
     if (customApiCard) {
@@ -640,6 +985,14 @@ function updateProviderDependentUI(provider: types.TranslationProvider): void {
     if (mtranserverCard) {
         mtranserverCard.style.display = provider === "mtranserver" ? "block" : "none"
     }
+
+    if (anthropicCard) {
+        anthropicCard.style.display = provider === "anthropic" ? "block" : "none"
+    }
+
+    if (ollamaCard) {
+        ollamaCard.style.display = provider === "ollama" ? "block" : "none"
+    }
 }
 
 /**
@@ -0,0 +1,137 @@
+/**
+ * Per-site Translation Style Manager for Options Page
+ *
+ * Renders the per-site translation style overrides: add (or replace) and delete
+ * overrides. The global style select is a regular `data-setting` field saved by settingsManager.
+ */
+
+import type * as types from "@/0_common/types"
+import * as i18nModule from "@/0_common/utils/i18n"
+import * as loggerModule from "@/0_common/utils/logger"
+import * as storageManagerModule from "@/0_common/utils/storageManager"
+import * as translationStyleModule from "@/0_common/utils/translationStyle"
+
+const logger = loggerModule.createLogger("Options/SiteStyles")
+
+let siteStyles: Record<string, types.TranslationStylePreference> = {}
+
+function getStyleLabel(style: types.TranslationStylePreference): string {
+    return i18nModule.translate(`options.translationStyle.${style}`)
+}
+
+function renderSiteStyleList(): void {
+    const list = document.getElementById("siteStyleList")
+    if (!list) return
+
+    list.innerHTML = ""
+    for (const hostname of Object.keys(siteStyles).sort()) {
+        const item = document.createElement("div")
+        item.className = "glossary-item site-style-item"
+        item.dataset.hostname = hostname
+
+        const hostnameElement = document.createElement("span")
+        hostnameElement.className = "site-style-hostname"
+        hostnameElement.textContent = hostname
+        item.appendChild(hostnameElement)
+
+        const arrow = document.createElement("span")
+        arrow.className = "glossary-arrow"
+        arrow.textContent = "→"
+        item.appendChild(arrow)
+
+        const styleElement = document.createElement("span")
+        styleElement.className = "glossary-translation"
+        styleElement.textContent = getStyleLabel(siteStyles[hostname] as types.TranslationStylePreference)
+        item.appendChild(styleElement)
+
+        const deleteButton = document.createElement("button")
+        deleteButton.className = "secondary-button vocabulary-action vocabulary-action-danger"
+        deleteButton.dataset.action = "delete"
+        deleteButton.textContent = i18nModule.translate("options.vocabulary.delete")
+        item.appendChild(deleteButton)
+
+        list.appendChild(item)
+    }
+}
+
+function populateStyleOptions(): void {
+    const select = document.getElementById("siteStyleValue") as HTMLSelectElement | null
+    if (!select) return
+
+    select.innerHTML = ""
+    for (const style of translationStyleModule.TRANSLATION_STYLE_PREFERENCES) {
+        const option = document.createElement("option")
+        option.value = style
+        option.textContent = getStyleLabel(style)
+        select.appendChild(option)
+    }
+}
+
+async function saveSiteStyles(next: Record<string, types.TranslationStylePreference>): Promise<void> {
+    await storageManagerModule.updateUserSettings({ siteTranslationStyles: next })
+    siteStyles = next
+    renderSiteStyleList()
+}
+
+async function handleAdd(statusElement: HTMLElement | null): Promise<void> {
+    const hostnameInput = document.getElementById("siteStyleHostname") as HTMLInputElement | null
+    const styleSelect = document.getElementById("siteStyleValue") as HTMLSelectElement | null
+
+    const hostname = translationStyleModule.normalizeSiteHostname(hostnameInput?.value ?? "")
+    const style = styleSelect?.value
+    if (!hostname || !translationStyleModule.isTranslationStylePreference(style)) {
+        setStatus(statusElement, "error", i18nModule.translate("options.siteStyles.invalid"))
+        return
+    }
+
+    await saveSiteStyles({ ...siteStyles, [hostname]: style })
+    if (hostnameInput) hostnameInput.value = ""
+    setStatus(statusElement, "success", i18nModule.translate("options.siteStyles.added").replace("{site}", hostname))
+    logger.info("Site translation style saved:", hostname, style)
+}
+
+function setStatus(element: HTMLElement | null, status: "success" | "error", message: string): void {
+    if (!element) return
+    element.textContent = message
+    element.classList.remove("success", "error")
+    element.classList.add(status)
+}
+
+/**
+ * Set up the per-site translation style overrides
+ * Loads the overrides, wires the add form and delete buttons
+ */
+export async function setupSiteStylePage(): Promise<void> {
+    const list = document.getElementById("siteStyleList")
+    if (!list) {
+        return
+    }
+
+    populateStyleOptions()
+    const settings = await storageManagerModule.getUserSettings()
+    siteStyles = settings.siteTranslationStyles
+    renderSiteStyleList()
+
+    const status = document.getElementById("siteStyleStatus")
+    document.getElementById("siteStyleAddButton")?.addEventListener("click", () => {
+        handleAdd(status).catch((error) => {
+            logger.error("Failed to save site translation style:", error)
+            setStatus(status, "error", i18nModule.translate("options.siteStyles.failed"))
+        })
+    })
+
+    list.addEventListener("click", (event) => {
+        const target = event.target as HTMLElement | null
+        const button = target?.closest<HTMLElement>("[data-action='delete']")
+        const hostname = button?.closest<HTMLElement>(".site-style-item")?.dataset.hostname
+        if (!hostname) {
+            return
+        }
+
+        const next = { ...siteStyles }
+        delete next[hostname]
+        saveSiteStyles(next).catch((error) => {
+            logger.error("Failed to delete site translation style:", error)
+        })
+    })
+}
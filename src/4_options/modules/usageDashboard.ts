@@ -0,0 +1,159 @@
+/**
+ * Custom API Usage Dashboard for Options Page
+ *
+ * Shows the token usage recorded for the custom API: this month's totals against the monthly budget,
+ * and the last 30 days by day, model and request type. Prices and budget are regular `data-setting`
+ * fields saved by settingsManager; the dashboard refreshes when they or the usage data change.
+ */
+
+import type * as types from "@/0_common/types"
+import * as i18nModule from "@/0_common/utils/i18n"
+import * as loggerModule from "@/0_common/utils/logger"
+import * as storageManagerModule from "@/0_common/utils/storageManager"
+import * as usageStorage from "@/0_common/utils/usageStorage"
+
+const logger = loggerModule.createLogger("Options/UsageDashboard")
+
+/**
+ * Days shown in the breakdown tables
+ */
+const BREAKDOWN_DAYS = 30
+
+function formatNumber(value: number): string {
+    return value.toLocaleString(i18nModule.getCurrentLocale())
+}
+
+function formatCost(value: number): string {
+    // Completions cost fractions of a cent; show enough digits to see them add up
+    return value.toLocaleString(i18nModule.getCurrentLocale(), { minimumFractionDigits: 2, maximumFractionDigits: value < 1 ? 4 : 2 })
+}
+
+function setText(id: string, text: string): void {
+    const element = document.getElementById(id)
+    if (element) element.textContent = text
+}
+
+function appendCell(row: HTMLTableRowElement, tag: "th" | "td", text: string): void {
+    const cell = document.createElement(tag)
+    cell.textContent = text
+    row.appendChild(cell)
+}
+
+function renderTable(id: string, labelHeader: string, rows: [string, types.TokenUsageTotals][]): void {
+    const table = document.getElementById(id)
+    if (!table) return
+
+    table.innerHTML = ""
+    const header = document.createElement("tr")
+    for (const text of [
+        labelHeader,
+        i18nModule.translate("options.usage.column.requests"),
+        i18nModule.translate("options.usage.column.promptTokens"),
+        i18nModule.translate("options.usage.column.completionTokens"),
+        i18nModule.translate("options.usage.column.cost"),
+    ]) {
+        appendCell(header, "th", text)
+    }
+    table.appendChild(header)
+
+    for (const [label, totals] of rows) {
+        const row = document.createElement("tr")
+        appendCell(row, "td", label)
+        appendCell(row, "td", formatNumber(totals.requests))
+        appendCell(row, "td", formatNumber(totals.promptTokens))
+        appendCell(row, "td", formatNumber(totals.completionTokens))
+        appendCell(row, "td", formatCost(totals.cost))
+        table.appendChild(row)
+    }
+}
+
+function renderBudgetStatus(spent: number, budget: number): void {
+    const status = document.getElementById("usageBudgetStatus")
+    if (!status) return
+
+    status.classList.remove("success", "error")
+    if (budget <= 0) {
+        status.textContent = ""
+        return
+    }
+
+    const exceeded = spent >= budget
+    const key = exceeded ? "options.usage.budget.exceeded" : "options.usage.budget.remaining"
+    status.textContent = i18nModule
+        .translate(key)
+        .replace("{spent}", formatCost(spent))
+        .replace("{budget}", formatCost(budget))
+        .replace("{remaining}", formatCost(budget - spent))
+    status.classList.add(exceeded ? "error" : "success")
+}
+
+async function refreshDashboard(): Promise<void> {
+    const [store, settings] = await Promise.all([usageStorage.getTokenUsage(), storageManagerModule.getUserSettings()])
+    const now = new Date()
+
+    const month = usageStorage.summarizeTokenUsage(store, usageStorage.getMonthStartDay(now))
+    setText("usageMonthRequests", formatNumber(month.total.requests))
+    setText("usageMonthTokens", formatNumber(month.total.promptTokens + month.total.completionTokens))
+    setText("usageMonthCost", formatCost(month.total.cost))
+    renderBudgetStatus(month.total.cost, settings.customApiMonthlyBudget)
+
+    const since = usageStorage.formatUsageDay(new Date(now.getFullYear(), now.getMonth(), now.getDate() - (BREAKDOWN_DAYS - 1)))
+    const recent = usageStorage.summarizeTokenUsage(store, since)
+    const hasUsage = recent.total.requests > 0
+
+    const breakdown = document.getElementById("usageBreakdown")
+    const empty = document.getElementById("usageEmpty")
+    if (breakdown) breakdown.style.display = hasUsage ? "" : "none"
+    if (empty) empty.style.display = hasUsage ? "none" : "block"
+    if (!hasUsage) {
+        return
+    }
+
+    const byCost = (a: [string, types.TokenUsageTotals], b: [string, types.TokenUsageTotals]) =>
+        b[1].cost - a[1].cost || b[1].requests - a[1].requests
+    renderTable(
+        "usageByDay",
+        i18nModule.translate("options.usage.column.day"),
+        Object.entries(recent.byDay).sort(([a], [b]) => b.localeCompare(a))
+    )
+    renderTable("usageByModel", i18nModule.translate("options.usage.column.model"), Object.entries(recent.byModel).sort(byCost))
+    renderTable(
+        "usageByRequestType",
+        i18nModule.translate("options.usage.column.requestType"),
+        (Object.entries(recent.byRequestType) as [types.UsageRequestType, types.TokenUsageTotals][])
+            .sort(byCost)
+            .map(([requestType, totals]) => [i18nModule.translate(`options.usage.requestType.${requestType}`), totals])
+    )
+}
+
+/**
+ * Set up the usage dashboard
+ * Renders the recorded usage, wires the clear button and refreshes on usage or settings changes
+ */
+export async function setupUsageDashboard(): Promise<void> {
+    if (!document.getElementById("usage-settings")) {
+        return
+    }
+
+    document.getElementById("usageClearButton")?.addEventListener("click", () => {
+        if (!window.confirm(i18nModule.translate("options.usage.clearConfirm"))) {
+            return
+        }
+        usageStorage.clearTokenUsage().catch((error) => {
+            logger.error("Failed to clear token usage:", error)
+        })
+    })
+
+    chrome.storage.onChanged.addListener((changes, areaName) => {
+        const usageChanged = areaName === "local" && changes[usageStorage.USAGE_STORAGE_KEY]
+        const settingsChanged = areaName === "sync" && changes.userSettings
+        if (!usageChanged && !settingsChanged) {
+            return
+        }
+        refreshDashboard().catch((error) => {
+            logger.warn("Failed to refresh usage dashboard:", error)
+        })
+    })
+
+    await refreshDashboard()
+}
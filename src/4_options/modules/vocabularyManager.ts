@@ -0,0 +1,370 @@
+/**
+ * Vocabulary Manager for Options Page
+ *
+ * Renders the vocabulary notebook: browse, search, filter by target language,
+ * edit and delete entries recorded by the background translation handler, and
+ * export them (Anki TSV, CSV, Markdown) as a file download
+ */
+
+import type * as types from "@/0_common/types"
+import * as i18nModule from "@/0_common/utils/i18n"
+import * as languageDisplayModule from "@/0_common/utils/languageDisplay"
+import * as loggerModule from "@/0_common/utils/logger"
+import * as vocabularyExport from "@/0_common/utils/vocabularyExport"
+import * as vocabularyRequests from "@/0_common/utils/vocabularyRequests"
+import * as vocabularyStorage from "@/0_common/utils/vocabularyStorage"
+
+const logger = loggerModule.createLogger("Options/Vocabulary")
+
+let allEntries: types.VocabularyEntry[] = []
+let editingEntryId: string | null = null
+
+function getFilterFromInputs(): vocabularyStorage.VocabularyFilter {
+    const searchInput = document.getElementById("vocabularySearch") as HTMLInputElement | null
+    const languageSelect = document.getElementById("vocabularyLanguageFilter") as HTMLSelectElement | null
+
+    return {
+        query: searchInput?.value ?? "",
+        targetLanguage: languageSelect?.value ?? "",
+    }
+}
+
+function populateLanguageFilter(selectId: string, entries: types.VocabularyEntry[]): void {
+    const select = document.getElementById(selectId) as HTMLSelectElement | null
+    if (!select) return
+
+    const previous = select.value
+    const languages = Array.from(new Set(entries.map((entry) => entry.targetLanguage))).sort()
+
+    select.innerHTML = ""
+    const allOption = document.createElement("option")
+    allOption.value = ""
+    allOption.textContent = i18nModule.translate("options.vocabulary.filter.allLanguages")
+    select.appendChild(allOption)
+
+    for (const language of languages) {
+        const option = document.createElement("option")
+        option.value = language
+        option.textContent = languageDisplayModule.getLanguageDisplayName(language)
+        select.appendChild(option)
+    }
+
+    select.value = languages.includes(previous) ? previous : ""
+}
+
+function createTextElement<K extends keyof HTMLElementTagNameMap>(tag: K, className: string, text: string): HTMLElementTagNameMap[K] {
+    const element = document.createElement(tag)
+    element.className = className
+    element.textContent = text
+    return element
+}
+
+function createEditInput(field: keyof vocabularyStorage.VocabularyEntryPatch, value: string, multiline: boolean = false): HTMLElement {
+    const wrapper = document.createElement("label")
+    wrapper.className = "vocabulary-edit-field"
+
+    const label = createTextElement("span", "vocabulary-edit-label", i18nModule.translate(`options.vocabulary.field.${field}`))
+    wrapper.appendChild(label)
+
+    const input = multiline ? document.createElement("textarea") : document.createElement("input")
+    input.className = "select-input vocabulary-edit-input"
+    input.value = value
+    input.dataset.field = field
+    wrapper.appendChild(input)
+
+    return wrapper
+}
+
+function renderEntryView(entry: types.VocabularyEntry): HTMLElement {
+    const item = document.createElement("div")
+    item.className = "vocabulary-item"
+    item.dataset.entryId = entry.id
+
+    const header = document.createElement("div")
+    header.className = "vocabulary-item-header"
+    header.appendChild(createTextElement("span", "vocabulary-word", entry.word))
+
+    if (entry.lemma && entry.lemma.toLowerCase() !== entry.word.toLowerCase()) {
+        header.appendChild(createTextElement("span", "vocabulary-lemma", entry.lemma))
+    }
+    const phonetic = entry.lemmaPhonetic || entry.phonetic
+    if (phonetic) {
+        header.appendChild(createTextElement("span", "vocabulary-phonetic", phonetic))
+    }
+    header.appendChild(createTextElement("span", "vocabulary-language", languageDisplayModule.getLanguageDisplayName(entry.targetLanguage)))
+    item.appendChild(header)
+
+    item.appendChild(createTextElement("div", "vocabulary-translation", entry.translation))
+
+    if (entry.originalSentence) {
+        item.appendChild(createTextElement("div", "vocabulary-sentence", entry.originalSentence))
+    }
+
+    const meta = document.createElement("div")
+    meta.className = "vocabulary-meta"
+
+    const countText = i18nModule.translate("options.vocabulary.lookupCount").replace("{count}", String(entry.lookupCount))
+    meta.appendChild(createTextElement("span", "vocabulary-count", countText))
+    meta.appendChild(createTextElement("span", "vocabulary-date", new Date(entry.lastLookedUpAt).toLocaleDateString()))
+
+    if (entry.pageUrl) {
+        const link = createTextElement("a", "vocabulary-source link", entry.pageTitle || entry.pageUrl)
+        link.href = entry.pageUrl
+        link.target = "_blank"
+        link.rel = "noopener noreferrer"
+        meta.appendChild(link)
+    }
+    item.appendChild(meta)
+
+    const actions = document.createElement("div")
+    actions.className = "vocabulary-actions"
+
+    const editButton = createTextElement("button", "secondary-button vocabulary-action", i18nModule.translate("options.vocabulary.edit"))
+    editButton.dataset.action = "edit"
+    actions.appendChild(editButton)
+
+    const deleteButton = createTextElement(
+        "button",
+        "secondary-button vocabulary-action vocabulary-action-danger",
+        i18nModule.translate("options.vocabulary.delete")
+    )
+    deleteButton.dataset.action = "delete"
+    actions.appendChild(deleteButton)
+
+    item.appendChild(actions)
+    return item
+}
+
+function renderEntryEditor(entry: types.VocabularyEntry): HTMLElement {
+    const item = document.createElement("div")
+    item.className = "vocabulary-item is-editing"
+    item.dataset.entryId = entry.id
+
+    const fields = document.createElement("div")
+    fields.className = "vocabulary-edit-fields"
+    fields.appendChild(createEditInput("word", entry.word))
+    fields.appendChild(createEditInput("lemma", entry.lemma ?? ""))
+    fields.appendChild(createEditInput("phonetic", entry.phonetic ?? ""))
+    fields.appendChild(createEditInput("translation", entry.translation))
+    fields.appendChild(createEditInput("originalSentence", entry.originalSentence ?? "", true))
+    item.appendChild(fields)
+
+    const actions = document.createElement("div")
+    actions.className = "vocabulary-actions"
+
+    const saveButton = createTextElement("button", "secondary-button vocabulary-action", i18nModule.translate("options.vocabulary.save"))
+    saveButton.dataset.action = "save"
+    actions.appendChild(saveButton)
+
+    const cancelButton = createTextElement("button", "secondary-button vocabulary-action", i18nModule.translate("options.vocabulary.cancel"))
+    cancelButton.dataset.action = "cancel"
+    actions.appendChild(cancelButton)
+
+    item.appendChild(actions)
+    return item
+}
+
+function renderVocabularyList(): void {
+    const list = document.getElementById("vocabularyList")
+    const emptyState = document.getElementById("vocabularyEmpty")
+    const countElement = document.getElementById("vocabularyCount")
+    if (!list) return
+
+    const filtered = vocabularyStorage.filterVocabularyEntries(allEntries, getFilterFromInputs())
+
+    list.innerHTML = ""
+    for (const entry of filtered) {
+        list.appendChild(entry.id === editingEntryId ? renderEntryEditor(entry) : renderEntryView(entry))
+    }
+
+    if (emptyState) {
+        emptyState.style.display = filtered.length === 0 ? "block" : "none"
+    }
+    if (countElement) {
+        countElement.textContent = i18nModule
+            .translate("options.vocabulary.count")
+            .replace("{shown}", String(filtered.length))
+            .replace("{total}", String(allEntries.length))
+    }
+}
+
+function readPatchFromEditor(item: HTMLElement): vocabularyStorage.VocabularyEntryPatch {
+    const read = (field: string): string => {
+        const input = item.querySelector<HTMLInputElement | HTMLTextAreaElement>(`[data-field="${field}"]`)
+        return (input?.value ?? "").trim()
+    }
+
+    const lemma = read("lemma")
+    return {
+        word: read("word"),
+        lemma: lemma || null,
+        phonetic: read("phonetic") || undefined,
+        translation: read("translation"),
+        originalSentence: read("originalSentence") || undefined,
+    }
+}
+
+async function reloadEntries(): Promise<void> {
+    allEntries = await vocabularyStorage.getVocabularyEntries()
+    populateLanguageFilter("vocabularyLanguageFilter", allEntries)
+    populateLanguageFilter("vocabularyExportLanguage", allEntries)
+    renderVocabularyList()
+}
+
+async function handleListAction(action: string, entryId: string, item: HTMLElement): Promise<void> {
+    switch (action) {
+        case "edit":
+            editingEntryId = entryId
+            renderVocabularyList()
+            return
+
+        case "cancel":
+            editingEntryId = null
+            renderVocabularyList()
+            return
+
+        case "save": {
+            const patch = readPatchFromEditor(item)
+            if (!patch.word || !patch.translation) {
+                item.classList.add("has-error")
+                return
+            }
+            await vocabularyRequests.updateVocabularyEntry(entryId, patch)
+            editingEntryId = null
+            await reloadEntries()
+            return
+        }
+
+        case "delete": {
+            const confirmed = window.confirm(i18nModule.translate("options.vocabulary.deleteConfirm"))
+            if (!confirmed) return
+            await vocabularyRequests.deleteVocabularyEntry(entryId)
+            if (editingEntryId === entryId) {
+                editingEntryId = null
+            }
+            await reloadEntries()
+            return
+        }
+
+        default:
+            logger.warn("Unknown vocabulary action:", action)
+    }
+}
+
+/**
+ * Parse a date input value (YYYY-MM-DD) as a local-time timestamp
+ *
+ * @param value - Input value
+ * @param endOfDay - Use the last millisecond of the day (for "to" bounds)
+ * @returns Timestamp in ms, or undefined when the input is empty/invalid
+ */
+function parseDateInput(value: string, endOfDay: boolean): number | undefined {
+    const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value)
+    if (!match) return undefined
+
+    const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]))
+    if (endOfDay) {
+        date.setHours(23, 59, 59, 999)
+    }
+    return date.getTime()
+}
+
+function downloadFile(file: vocabularyExport.VocabularyExportFile): void {
+    const blob = new Blob([file.content], { type: file.mimeType })
+    const url = URL.createObjectURL(blob)
+
+    const link = document.createElement("a")
+    link.href = url
+    link.download = file.fileName
+    document.body.appendChild(link)
+    link.click()
+    link.remove()
+
+    // Revoke on next tick so the download has started
+    setTimeout(() => URL.revokeObjectURL(url), 0)
+}
+
+async function handleExport(statusElement: HTMLElement | null): Promise<void> {
+    const formatSelect = document.getElementById("vocabularyExportFormat") as HTMLSelectElement | null
+    const fromInput = document.getElementById("vocabularyExportFrom") as HTMLInputElement | null
+    const toInput = document.getElementById("vocabularyExportTo") as HTMLInputElement | null
+    const languageSelect = document.getElementById("vocabularyExportLanguage") as HTMLSelectElement | null
+
+    const format = (formatSelect?.value || "anki") as vocabularyExport.VocabularyExportFormat
+    const options: vocabularyExport.VocabularyExportOptions = {
+        from: parseDateInput(fromInput?.value ?? "", false),
+        to: parseDateInput(toInput?.value ?? "", true),
+        targetLanguage: languageSelect?.value ?? "",
+    }
+
+    const entries = await vocabularyStorage.getVocabularyEntries()
+    const count = vocabularyExport.filterEntriesForExport(entries, options).length
+    if (count === 0) {
+        setStatus(statusElement, "error", i18nModule.translate("options.vocabulary.export.empty"))
+        return
+    }
+
+    downloadFile(vocabularyExport.exportVocabulary(entries, format, options))
+    setStatus(statusElement, "success", i18nModule.translate("options.vocabulary.export.done").replace("{count}", String(count)))
+    logger.info("Vocabulary exported:", format, count)
+}
+
+function setStatus(element: HTMLElement | null, status: "success" | "error", message: string): void {
+    if (!element) return
+    element.textContent = message
+    element.classList.remove("success", "error")
+    element.classList.add(status)
+}
+
+/**
+ * Set up the vocabulary notebook section
+ * Loads entries, wires search/filter inputs and keeps the list in sync with storage changes
+ */
+export async function setupVocabularyPage(): Promise<void> {
+    const list = document.getElementById("vocabularyList")
+    if (!list) {
+        return
+    }
+
+    const searchInput = document.getElementById("vocabularySearch") as HTMLInputElement | null
+    const languageSelect = document.getElementById("vocabularyLanguageFilter") as HTMLSelectElement | null
+
+    const exportButton = document.getElementById("vocabularyExportButton")
+    const exportStatus = document.getElementById("vocabularyExportStatus")
+    exportButton?.addEventListener("click", () => {
+        handleExport(exportStatus).catch((error) => {
+            logger.error("Vocabulary export failed:", error)
+            setStatus(exportStatus, "error", i18nModule.translate("options.vocabulary.export.failed"))
+        })
+    })
+
+    searchInput?.addEventListener("input", () => renderVocabularyList())
+    languageSelect?.addEventListener("change", () => renderVocabularyList())
+
+    list.addEventListener("click", (event) => {
+        const target = event.target as HTMLElement | null
+        const button = target?.closest<HTMLElement>("[data-action]")
+        const item = button?.closest<HTMLElement>(".vocabulary-item")
+        const entryId = item?.dataset.entryId
+        const action = button?.dataset.action
+        if (!button || !item || !entryId || !action) {
+            return
+        }
+
+        handleListAction(action, entryId, item).catch((error) => {
+            logger.error("Vocabulary action failed:", action, error)
+        })
+    })
+
+    // Keep the list fresh while the options page stays open (new lookups from other tabs)
+    chrome.storage.onChanged.addListener((changes, areaName) => {
+        if (areaName !== "local" || !changes[vocabularyStorage.VOCABULARY_STORAGE_KEY] || editingEntryId) {
+            return
+        }
+        reloadEntries().catch((error) => {
+            logger.warn("Failed to refresh vocabulary entries:", error)
+        })
+    })
+
+    await reloadEntries()
+}
@@ -28,3 +28,17 @@ export const LOCAL_LLM_DEFAULT_CONFIG = {
     // Chrome MV3 service worker has no process.env; keep a static default timeout
     timeout: 10000,
 }
+
+/**
+ * Persistent translation cache (chrome.storage.local)
+ * Entries expire after CACHE_EXPIRY_MS; beyond the size limit the least recently used entries are evicted
+ */
+export const TRANSLATION_CACHE_STORAGE_KEY = "translationCache"
+export const TRANSLATION_CACHE_MAX_ENTRIES = 500
+/** Delay before cache hits (recency changes only) are written back, so a burst of hits costs one write */
+export const TRANSLATION_CACHE_RECENCY_PERSIST_DELAY_MS = 5000
+
+/**
+ * Maximum glossary terms MTranServer translates on their own to find (and replace) its rendering of each term
+ */
+export const MTRANSERVER_GLOSSARY_MAX_TERMS = 5
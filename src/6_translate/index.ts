@@ -8,8 +8,22 @@
  */
 
 // Export types
-export type { FragmentTranslationResult, TranslateFragmentParams, TranslateParams, TranslationResult } from "./types/TranslationModels"
-export { TranslationError } from "./types/TranslationError"
+export type {
+    ExplainParams,
+    ExplanationResult,
+    FollowUpParams,
+    FollowUpResult,
+    FragmentTranslationResult,
+    GlossParams,
+    GlossResult,
+    ReadingParams,
+    ReadingResult,
+    TranslateFragmentParams,
+    TranslateParams,
+    TranslationResult,
+} from "./types/TranslationModels"
+export type { PartialTranslation, PartialTranslationCallback } from "@/8_generate/types/GenerateTypes"
+export { LlmProviderUnavailableError, TranslationError } from "./types/TranslationError"
 
 // Export services
-export { translateFragment, translateWord } from "./services/TranslationService"
+export { askFollowUp, explainTranslation, getReading, translateFragment, translateGlosses, translateWord } from "./services/TranslationService"
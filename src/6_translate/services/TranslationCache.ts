@@ -0,0 +1,207 @@
+/**
+ * Translation Cache
+ *
+ * Persistent LRU cache for word and fragment translations, stored in chrome.storage.local
+ * so it survives service worker restarts. Entries expire after CACHE_EXPIRY_MS and the
+ * least recently used entries are evicted once TRANSLATION_CACHE_MAX_ENTRIES is reached.
+ *
+ * The in-memory Map mirrors storage; its insertion order is the LRU order (oldest first).
+ * New entries are written immediately, while cache hits only change the recency order and are
+ * written back after TRANSLATION_CACHE_RECENCY_PERSIST_DELAY_MS (losing them only costs LRU precision).
+ */
+
+import * as commonConstants from "@/0_common/constants"
+import * as loggerModule from "@/0_common/utils/logger"
+import * as translationConstants from "@/6_translate/constants/TranslationConstants"
+
+const logger = loggerModule.createLogger("TranslationCache")
+
+/**
+ * Inputs that identify a cached translation
+ */
+export interface TranslationCacheKeyParts {
+    /** Request kind, so word, fragment, explanation, reading and gloss results never collide */
+    kind: "word" | "fragment" | "explanation" | "reading" | "gloss"
+    text: string
+    leadingText?: string
+    trailingText?: string
+    sourceLanguage?: string
+    targetLanguage: string
+    /** Provider and model signature (e.g. "cloud", "customApi|https://api.example.com|gpt-4o-mini") */
+    provider: string
+    /** Glossary terms applied to the request (e.g. "api→接口"), so glossary edits never serve stale results */
+    glossary?: string
+    /** Translation style applied to the request (e.g. "formal") */
+    style?: string
+    /** Translation being explained (explanation requests only) */
+    translation?: string
+}
+
+interface TranslationCacheEntry<T = unknown> {
+    value: T
+    createdAt: number
+    lastAccessedAt: number
+}
+
+type TranslationCacheStore = Record<string, TranslationCacheEntry>
+
+let memoryCache: Map<string, TranslationCacheEntry> | null = null
+let loadPromise: Promise<Map<string, TranslationCacheEntry>> | null = null
+let writeQueue: Promise<void> = Promise.resolve()
+let recencyPersistTimer: ReturnType<typeof setTimeout> | null = null
+
+/**
+ * Build the cache key for a translation request
+ *
+ * @param parts - Text, context, languages, provider, glossary signature and translation style
+ * @returns Stable string key
+ */
+export function buildTranslationCacheKey(parts: TranslationCacheKeyParts): string {
+    const key = [
+        parts.kind,
+        parts.text,
+        parts.leadingText ?? "",
+        parts.trailingText ?? "",
+        parts.sourceLanguage ?? "",
+        parts.targetLanguage,
+        parts.provider,
+    ]
+    // Only appended when terms matched, so keys of requests without glossary terms stay unchanged
+    if (parts.glossary) {
+        key.push(parts.glossary)
+    }
+    // Prefixed so a style never collides with a glossary signature or a translation
+    if (parts.style) {
+        key.push(`style:${parts.style}`)
+    }
+    if (parts.translation) {
+        key.push(parts.translation)
+    }
+    return JSON.stringify(key)
+}
+
+async function loadCache(): Promise<Map<string, TranslationCacheEntry>> {
+    if (memoryCache) {
+        return memoryCache
+    }
+
+    if (!loadPromise) {
+        loadPromise = (async () => {
+            let store: TranslationCacheStore = {}
+            try {
+                const result = await chrome.storage.local.get(translationConstants.TRANSLATION_CACHE_STORAGE_KEY)
+                store = (result[translationConstants.TRANSLATION_CACHE_STORAGE_KEY] as TranslationCacheStore | undefined) ?? {}
+            } catch (error) {
+                logger.warn("Failed to load translation cache, starting empty:", error)
+            }
+
+            const entries = Object.entries(store).sort(([, a], [, b]) => a.lastAccessedAt - b.lastAccessedAt)
+            memoryCache = new Map(entries)
+            return memoryCache
+        })()
+    }
+
+    return loadPromise
+}
+
+function persistCache(cache: Map<string, TranslationCacheEntry>): Promise<void> {
+    // This write includes any pending recency changes
+    if (recencyPersistTimer !== null) {
+        clearTimeout(recencyPersistTimer)
+        recencyPersistTimer = null
+    }
+    writeQueue = writeQueue
+        .then(() => chrome.storage.local.set({ [translationConstants.TRANSLATION_CACHE_STORAGE_KEY]: Object.fromEntries(cache) }))
+        .catch((error: unknown) => {
+            logger.warn("Failed to persist translation cache:", error)
+        })
+    return writeQueue
+}
+
+/**
+ * Write the cache back once hits stop arriving for a moment
+ */
+function scheduleRecencyPersist(cache: Map<string, TranslationCacheEntry>): void {
+    if (recencyPersistTimer !== null) {
+        clearTimeout(recencyPersistTimer)
+    }
+    recencyPersistTimer = setTimeout(() => {
+        recencyPersistTimer = null
+        void persistCache(cache)
+    }, translationConstants.TRANSLATION_CACHE_RECENCY_PERSIST_DELAY_MS)
+}
+
+function isExpired(entry: TranslationCacheEntry, now: number): boolean {
+    return now - entry.createdAt > commonConstants.CACHE_EXPIRY_MS
+}
+
+/**
+ * Look up a cached translation
+ * A hit is moved to the most recently used position; expired entries are dropped.
+ * Both only change memory right away and reach storage with the next write (at most after the recency delay).
+ *
+ * @param key - Key from buildTranslationCacheKey()
+ * @param now - Current timestamp (ms)
+ * @returns Cached value, or null on miss/expiry
+ */
+export async function getCachedTranslation<T>(key: string, now: number = Date.now()): Promise<T | null> {
+    const cache = await loadCache()
+    const entry = cache.get(key) as TranslationCacheEntry<T> | undefined
+    if (!entry) {
+        return null
+    }
+
+    cache.delete(key)
+    if (isExpired(entry, now)) {
+        scheduleRecencyPersist(cache)
+        return null
+    }
+
+    entry.lastAccessedAt = now
+    cache.set(key, entry)
+    scheduleRecencyPersist(cache)
+    return entry.value
+}
+
+/**
+ * Store a translation, evicting expired and least recently used entries as needed
+ *
+ * @param key - Key from buildTranslationCacheKey()
+ * @param value - Translation result to cache
+ * @param now - Current timestamp (ms)
+ */
+export async function setCachedTranslation<T>(key: string, value: T, now: number = Date.now()): Promise<void> {
+    const cache = await loadCache()
+
+    cache.delete(key)
+    cache.set(key, { value, createdAt: now, lastAccessedAt: now })
+
+    for (const [existingKey, entry] of cache) {
+        if (isExpired(entry, now)) {
+            cache.delete(existingKey)
+        }
+    }
+
+    // Map iteration order is LRU order: the first key is the least recently used
+    while (cache.size > translationConstants.TRANSLATION_CACHE_MAX_ENTRIES) {
+        const oldestKey = cache.keys().next().value
+        if (oldestKey === undefined) break
+        cache.delete(oldestKey)
+    }
+
+    await persistCache(cache)
+}
+
+/**
+ * Remove every cached translation
+ * Used when generation inputs outside the cache key change (e.g. user prompt overrides).
+ */
+export async function clearTranslationCache(): Promise<void> {
+    const cache = await loadCache()
+    if (cache.size === 0) {
+        return
+    }
+
+    cache.clear()
+    await persistCache(cache)
+}
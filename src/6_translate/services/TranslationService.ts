@@ -7,38 +7,83 @@
 import { createLogger } from "@/0_common/utils/logger"
 import * as i18nModule from "@/0_common/utils/i18n"
 import { post, APIError } from "@/5_backend"
-import { TRANSLATION_API_ENDPOINTS } from "../constants/TranslationConstants"
+import { MTRANSERVER_GLOSSARY_MAX_TERMS, TRANSLATION_API_ENDPOINTS } from "../constants/TranslationConstants"
 import {
     FragmentTranslationApiRequest,
     FragmentTranslationApiResponse,
     TranslationApiRequest,
     TranslationApiResponse,
 } from "../types/TranslationApiTypes"
-import { FragmentTranslationResult, TranslateFragmentParams, TranslateParams, TranslationResult } from "../types/TranslationModels"
-import { TranslationError } from "../types/TranslationError"
+import {
+    ExplainParams,
+    ExplanationResult,
+    FollowUpParams,
+    FollowUpResult,
+    FragmentTranslationResult,
+    GlossParams,
+    GlossResult,
+    ReadingParams,
+    ReadingResult,
+    TranslateFragmentParams,
+    TranslateParams,
+    TranslationResult,
+} from "../types/TranslationModels"
+import { LlmProviderUnavailableError, TranslationError } from "../types/TranslationError"
 import { createWordTranslationService, WordTranslationService } from "@/8_generate/services/WordTranslationService"
 import { createFragmentTranslationService, FragmentTranslationService } from "@/8_generate/services/FragmentTranslationService"
+import { createExplanationService, ExplanationService } from "@/8_generate/services/ExplanationService"
+import { createFollowUpChatService, FollowUpChatService } from "@/8_generate/services/FollowUpChatService"
+import { createReadingService, ReadingService } from "@/8_generate/services/ReadingService"
+import { createGlossService, GlossService } from "@/8_generate/services/GlossService"
 import * as storageManagerModule from "@/0_common/utils/storageManager"
-import type { UserSettings } from "@/0_common/types"
-import type { LLMConfig } from "@/8_generate/types/GenerateTypes"
-import { CUSTOM_API_FIXED_PARAMS } from "@/0_common/constants/customApi"
+import * as glossaryStorageModule from "@/0_common/utils/glossaryStorage"
+import * as glossaryMatcherModule from "@/0_common/utils/glossaryMatcher"
+import * as usageStorageModule from "@/0_common/utils/usageStorage"
+import { QuotaExceededError } from "@/0_common/types"
+import type { GlossaryEntry, TranslationProvider, TranslationStyle, UsageRequestType, UserSettings } from "@/0_common/types"
+import type { GlossaryTerm, LLMConfig, PartialTranslationCallback, TokenUsage, WordDictionaryFields } from "@/8_generate/types/GenerateTypes"
+import { LLMRequestError } from "@/8_generate/types/LLMRequestError"
+import { PROMPT_OVERRIDES_STORAGE_KEY } from "@/8_generate/constants/GenerateConstants"
+import { CUSTOM_API_FIXED_PARAMS, OLLAMA_FIXED_PARAMS } from "@/0_common/constants/customApi"
 import { translateWithMTranServer, MTranServerError } from "./MTranServerService"
+import {
+    buildTranslationCacheKey,
+    clearTranslationCache,
+    getCachedTranslation,
+    setCachedTranslation,
+    TranslationCacheKeyParts,
+} from "./TranslationCache"
 
 const logger = createLogger("TranslationService")
 
-let localWordServicePromise: Promise<WordTranslationService> | null = null
-let localFragmentServicePromise: Promise<FragmentTranslationService> | null = null
-let cachedLocalConfigSignature: string | null = null
+// Keyed by config signature, so a fallback chain with several LLM providers keeps one service per provider
+const localWordServicePromises = new Map<string, Promise<WordTranslationService>>()
+const localFragmentServicePromises = new Map<string, Promise<FragmentTranslationService>>()
+const localExplanationServicePromises = new Map<string, Promise<ExplanationService>>()
+const localFollowUpServicePromises = new Map<string, Promise<FollowUpChatService>>()
+const localReadingServicePromises = new Map<string, Promise<ReadingService>>()
+const localGlossServicePromises = new Map<string, Promise<GlossService>>()
 let cachedUserSettings: UserSettings | null = null
 
 function computeConfigSignature(config: LLMConfig): string {
-    return [config.baseUrl, config.model, config.apiKey, config.temperature ?? "", config.maxTokens ?? "", config.timeout ?? ""].join("|")
+    return [
+        config.apiFormat ?? "openai",
+        config.baseUrl,
+        config.model,
+        config.apiKey,
+        config.temperature ?? "",
+        config.maxTokens ?? "",
+        config.timeout ?? "",
+    ].join("|")
 }
 
 function resetLocalServiceCache(): void {
-    localWordServicePromise = null
-    localFragmentServicePromise = null
-    cachedLocalConfigSignature = null
+    localWordServicePromises.clear()
+    localFragmentServicePromises.clear()
+    localExplanationServicePromises.clear()
+    localFollowUpServicePromises.clear()
+    localReadingServicePromises.clear()
+    localGlossServicePromises.clear()
 }
 
 async function getCachedUserSettings(): Promise<UserSettings> {
@@ -50,9 +95,53 @@ async function getCachedUserSettings(): Promise<UserSettings> {
     return cachedUserSettings
 }
 
-function buildLocalLlmConfig(settings: UserSettings): LLMConfig | null {
-    // Only build LLM config when customApi provider is selected
-    if (settings.translationProvider !== "customApi") {
+function buildLocalLlmConfig(settings: UserSettings, provider: TranslationProvider): LLMConfig | null {
+    // Only build LLM config for bring-your-own-key LLM providers
+    if (provider === "anthropic") {
+        const anthropic = settings.anthropic
+        const apiKey = anthropic.apiKey.trim()
+        const baseUrl = anthropic.baseUrl.trim()
+        const model = anthropic.model.trim()
+
+        if (!apiKey || !baseUrl || !model) {
+            throw new TranslationError(
+                i18nModule.translate("error.anthropicConfigMissing"),
+                i18nModule.translate("error.short.anthropicConfigMissing")
+            )
+        }
+
+        return {
+            apiFormat: "anthropic",
+            apiKey,
+            baseUrl,
+            model,
+            temperature: CUSTOM_API_FIXED_PARAMS.temperature,
+            maxTokens: CUSTOM_API_FIXED_PARAMS.maxTokens,
+            timeout: CUSTOM_API_FIXED_PARAMS.timeout,
+        }
+    }
+
+    if (provider === "ollama") {
+        const ollama = settings.ollama
+        const baseUrl = ollama.baseUrl.trim()
+        const model = ollama.model.trim()
+
+        if (!baseUrl || !model) {
+            throw new TranslationError(i18nModule.translate("error.ollamaConfigMissing"), i18nModule.translate("error.short.ollamaConfigMissing"))
+        }
+
+        return {
+            apiFormat: "ollama",
+            apiKey: "",
+            baseUrl,
+            model,
+            temperature: OLLAMA_FIXED_PARAMS.temperature,
+            maxTokens: OLLAMA_FIXED_PARAMS.maxTokens,
+            timeout: ollama.timeoutSeconds * 1000,
+        }
+    }
+
+    if (provider !== "customApi") {
         return null
     }
 
@@ -75,75 +164,257 @@ function buildLocalLlmConfig(settings: UserSettings): LLMConfig | null {
     }
 }
 
+async function recordCustomApiUsage(usage: TokenUsage, requestType: UsageRequestType): Promise<void> {
+    const settings = await getCachedUserSettings()
+    const cost = usageStorageModule.estimateTokenCost(usage.promptTokens, usage.completionTokens, {
+        inputPricePerMillion: settings.customApiInputPricePerMillion,
+        outputPricePerMillion: settings.customApiOutputPricePerMillion,
+    })
+    await usageStorageModule.recordTokenUsage({ ...usage, requestType, cost })
+}
+
+/**
+ * Record the token usage of custom API completions (OpenAI-compatible endpoints report it)
+ * Cost is estimated with the prices set when a completion finishes; recording failures never fail the request.
+ */
+function withUsageTracking(config: LLMConfig, requestType: UsageRequestType): LLMConfig {
+    if ((config.apiFormat ?? "openai") !== "openai") {
+        return config
+    }
+    return {
+        ...config,
+        onUsage: (usage) => {
+            recordCustomApiUsage(usage, requestType).catch((error) => {
+                logger.warn("Failed to record token usage:", error)
+            })
+        },
+    }
+}
+
+/**
+ * Block custom API requests once this month's estimated spend reaches the monthly budget
+ * Cache hits cost nothing, so callers check only before calling the API.
+ *
+ * @throws QuotaExceededError when the budget is used up
+ */
+async function ensureCustomApiBudget(settings: UserSettings, provider: TranslationProvider): Promise<void> {
+    const budget = settings.customApiMonthlyBudget
+    if (provider !== "customApi" || budget <= 0) {
+        return
+    }
+
+    const usage = await usageStorageModule.getTokenUsage()
+    const { total } = usageStorageModule.summarizeTokenUsage(usage, usageStorageModule.getMonthStartDay(new Date()))
+    if (total.cost >= budget) {
+        logger.warn(`Custom API monthly budget reached: ${total.cost.toFixed(4)} of ${budget}`)
+        throw new QuotaExceededError(
+            "budget",
+            i18nModule.translate("error.customApiBudgetExceeded").replace("{budget}", String(budget)),
+            i18nModule.translate("error.short.customApiBudgetExceeded")
+        )
+    }
+}
+
 async function getLocalWordService(config: LLMConfig): Promise<WordTranslationService> {
     const signature = computeConfigSignature(config)
-    if (!localWordServicePromise || signature !== cachedLocalConfigSignature) {
-        localWordServicePromise = createWordTranslationService(config)
-        cachedLocalConfigSignature = signature
+    let servicePromise = localWordServicePromises.get(signature)
+    if (!servicePromise) {
+        servicePromise = createWordTranslationService(withUsageTracking(config, "word"))
+        localWordServicePromises.set(signature, servicePromise)
     }
-    return localWordServicePromise
+    return servicePromise
 }
 
 async function getLocalFragmentService(config: LLMConfig): Promise<FragmentTranslationService> {
     const signature = computeConfigSignature(config)
-    if (!localFragmentServicePromise || signature !== cachedLocalConfigSignature) {
-        localFragmentServicePromise = createFragmentTranslationService(config)
-        cachedLocalConfigSignature = signature
+    let servicePromise = localFragmentServicePromises.get(signature)
+    if (!servicePromise) {
+        servicePromise = createFragmentTranslationService(withUsageTracking(config, "fragment"))
+        localFragmentServicePromises.set(signature, servicePromise)
+    }
+    return servicePromise
+}
+
+async function getLocalExplanationService(config: LLMConfig): Promise<ExplanationService> {
+    const signature = computeConfigSignature(config)
+    let servicePromise = localExplanationServicePromises.get(signature)
+    if (!servicePromise) {
+        servicePromise = createExplanationService(withUsageTracking(config, "explanation"))
+        localExplanationServicePromises.set(signature, servicePromise)
+    }
+    return servicePromise
+}
+
+async function getLocalFollowUpService(config: LLMConfig): Promise<FollowUpChatService> {
+    const signature = computeConfigSignature(config)
+    let servicePromise = localFollowUpServicePromises.get(signature)
+    if (!servicePromise) {
+        servicePromise = createFollowUpChatService(withUsageTracking(config, "followUp"))
+        localFollowUpServicePromises.set(signature, servicePromise)
     }
-    return localFragmentServicePromise
+    return servicePromise
 }
 
-async function translateWordWithLocal(params: TranslateParams, config: LLMConfig): Promise<TranslationResult> {
+async function getLocalReadingService(config: LLMConfig): Promise<ReadingService> {
+    const signature = computeConfigSignature(config)
+    let servicePromise = localReadingServicePromises.get(signature)
+    if (!servicePromise) {
+        servicePromise = createReadingService(withUsageTracking(config, "reading"))
+        localReadingServicePromises.set(signature, servicePromise)
+    }
+    return servicePromise
+}
+
+async function getLocalGlossService(config: LLMConfig): Promise<GlossService> {
+    const signature = computeConfigSignature(config)
+    let servicePromise = localGlossServicePromises.get(signature)
+    if (!servicePromise) {
+        servicePromise = createGlossService(withUsageTracking(config, "gloss"))
+        localGlossServicePromises.set(signature, servicePromise)
+    }
+    return servicePromise
+}
+
+/**
+ * Find glossary entries that occur in the selection, its sentence or the surrounding sentences
+ * The glossary storage returns no entries when it cannot be read, so translation never fails because of it.
+ */
+async function findRequestGlossary(
+    settings: UserSettings,
+    text: string,
+    params: Pick<TranslateFragmentParams, "leadingText" | "trailingText" | "targetLanguage" | "contextInfo">
+): Promise<GlossaryEntry[]> {
+    const entries = await glossaryStorageModule.getGlossaryEntries()
+    if (entries.length === 0) {
+        return []
+    }
+
+    const searchText = [
+        ...(params.contextInfo?.previousSentences ?? []),
+        `${params.leadingText || ""}${text}${params.trailingText || ""}`,
+        ...(params.contextInfo?.nextSentences ?? []),
+    ].join(" ")
+    return glossaryMatcherModule.findGlossaryMatches(entries, searchText, params.targetLanguage || "zh", settings.glossaryDomain)
+}
+
+function toGlossaryTerms(glossary: GlossaryEntry[]): GlossaryTerm[] {
+    return glossary.map(({ sourceTerm, translation }) => ({ sourceTerm, translation }))
+}
+
+/**
+ * Translation style of a request: the page's style (set by the content script from the per-site overrides)
+ * or the user setting; "standard" means no preference
+ */
+function resolveRequestTranslationStyle(settings: UserSettings, params: Pick<TranslateParams, "translationStyle">): TranslationStyle | undefined {
+    const style = params.translationStyle ?? settings.translationStyle
+    return style === "standard" ? undefined : style
+}
+
+/**
+ * Cache key signature of the applied glossary terms (undefined when none matched)
+ */
+function buildGlossaryCacheSignature(glossary: GlossaryEntry[]): string | undefined {
+    if (glossary.length === 0) {
+        return undefined
+    }
+    return glossary.map(({ sourceTerm, translation }) => `${sourceTerm}→${translation}`).join("|")
+}
+
+/**
+ * Map dictionary fields from a local LLM word translation to the fields the translation modal renders
+ * The definition (prefixed with the part of speech) fills chineseDefinition for Chinese, like the cloud API,
+ * and targetDefinition otherwise. The word's own phonetic is only known when it is its lemma.
+ */
+function mapLocalDictionaryFields(
+    word: string,
+    targetLanguage: string,
+    dictionary: WordDictionaryFields | undefined
+): Pick<TranslationResult, "chineseDefinition" | "englishDefinition" | "targetDefinition" | "lemma" | "phonetic" | "lemmaPhonetic"> {
+    const definition = dictionary?.definition ? [dictionary.partOfSpeech, dictionary.definition].filter(Boolean).join(" ") : undefined
+    const isLemma = dictionary?.lemma?.toLowerCase() === word.trim().toLowerCase()
+
+    return {
+        chineseDefinition: targetLanguage.split("-")[0] === "zh" ? definition : undefined,
+        englishDefinition: undefined,
+        targetDefinition: definition,
+        lemma: dictionary?.lemma,
+        phonetic: isLemma ? dictionary?.phonetic : undefined,
+        lemmaPhonetic: dictionary?.phonetic,
+    }
+}
+
+async function translateWordWithLocal(
+    params: TranslateParams,
+    config: LLMConfig,
+    glossary: GlossaryEntry[],
+    translationStyle: TranslationStyle | undefined,
+    onPartial?: PartialTranslationCallback
+): Promise<TranslationResult> {
     const { word, leadingText, trailingText, sourceLanguage, targetLanguage = "zh", contextInfo } = params
 
     logger.info("Using local LLM translation (8_generate)")
 
     const service = await getLocalWordService(config)
-    const localResult = await service.translateWord({
-        word,
-        leadingText,
-        trailingText,
-        sourceLanguage,
-        targetLanguage,
-        contextInfo: {
-            previousSentences: contextInfo?.previousSentences,
-            nextSentences: contextInfo?.nextSentences,
-            sourceTitle: contextInfo?.bookName,
-            sourceAuthor: contextInfo?.bookAuthor,
+    const localResult = await service.translateWord(
+        {
+            word,
+            leadingText,
+            trailingText,
+            sourceLanguage,
+            targetLanguage,
+            glossary: toGlossaryTerms(glossary),
+            translationStyle,
+            contextInfo: {
+                previousSentences: contextInfo?.previousSentences,
+                nextSentences: contextInfo?.nextSentences,
+                sourceTitle: contextInfo?.bookName,
+                sourceAuthor: contextInfo?.bookAuthor,
+            },
         },
-    })
+        onPartial
+    )
 
     return {
         wordTranslation: localResult.wordTranslation,
         sentenceTranslation: localResult.fragmentTranslation,
-        chineseDefinition: undefined,
-        englishDefinition: undefined,
-        targetDefinition: undefined,
-        lemma: undefined,
-        phonetic: undefined,
-        lemmaPhonetic: undefined,
+        ...mapLocalDictionaryFields(word, targetLanguage, localResult.dictionary),
+        // The contextual sense leads the list so the modal can switch back to it
+        senses: localResult.alternativeSenses
+            ? [{ translation: localResult.wordTranslation, gloss: localResult.dictionary?.definition }, ...localResult.alternativeSenses]
+            : undefined,
     }
 }
 
-async function translateFragmentWithLocal(params: TranslateFragmentParams, config: LLMConfig): Promise<FragmentTranslationResult> {
+async function translateFragmentWithLocal(
+    params: TranslateFragmentParams,
+    config: LLMConfig,
+    glossary: GlossaryEntry[],
+    translationStyle: TranslationStyle | undefined,
+    onPartial?: PartialTranslationCallback
+): Promise<FragmentTranslationResult> {
     const { fragment, leadingText, trailingText, sourceLanguage, targetLanguage = "zh", contextInfo } = params
 
     logger.info("Using local LLM fragment translation (8_generate)")
 
     const service = await getLocalFragmentService(config)
-    const localResult = await service.translateFragment({
-        fragment,
-        leadingText,
-        trailingText,
-        sourceLanguage,
-        targetLanguage,
-        contextInfo: {
-            previousSentences: contextInfo?.previousSentences,
-            nextSentences: contextInfo?.nextSentences,
-            sourceTitle: contextInfo?.bookName,
-            sourceAuthor: contextInfo?.bookAuthor,
+    const localResult = await service.translateFragment(
+        {
+            fragment,
+            leadingText,
+            trailingText,
+            sourceLanguage,
+            targetLanguage,
+            glossary: toGlossaryTerms(glossary),
+            translationStyle,
+            contextInfo: {
+                previousSentences: contextInfo?.previousSentences,
+                nextSentences: contextInfo?.nextSentences,
+                sourceTitle: contextInfo?.bookName,
+                sourceAuthor: contextInfo?.bookAuthor,
+            },
         },
-    })
+        onPartial
+    )
 
     return {
         translation: localResult.translation,
@@ -183,7 +454,7 @@ function handleAPIError(error: APIError): never {
     }
 }
 
-async function translateWordWithCloud(params: TranslateParams): Promise<TranslationResult> {
+async function translateWordWithCloud(params: TranslateParams, translationStyle: TranslationStyle | undefined): Promise<TranslationResult> {
     const { word, leadingText, trailingText, sourceLanguage, targetLanguage = "zh", upgradeModel, contextInfo } = params
 
     const request: TranslationApiRequest = {
@@ -191,6 +462,7 @@ async function translateWordWithCloud(params: TranslateParams): Promise<Translat
         sourceLanguage,
         targetLanguage,
         ...(upgradeModel && { upgradeModel: true }),
+        ...(translationStyle && { translationStyle }),
         context: {
             leadingText,
             trailingText,
@@ -219,12 +491,328 @@ async function translateWordWithCloud(params: TranslateParams): Promise<Translat
     }
 }
 
+function ensureMTranServerConfigured(settings: UserSettings): void {
+    if (!settings.mtranserver.url || !settings.mtranserver.url.trim()) {
+        throw new TranslationError(
+            i18nModule.translate("error.mtranserverConfigMissing"),
+            i18nModule.translate("error.short.mtranserverConfigMissing")
+        )
+    }
+}
+
+function requireLocalLlmConfig(settings: UserSettings, provider: TranslationProvider): LLMConfig {
+    const localConfig = buildLocalLlmConfig(settings, provider)
+    if (!localConfig) {
+        throw new TranslationError(i18nModule.translate("error.customApiConfigMissing"), i18nModule.translate("error.short.customApiConfigMissing"))
+    }
+    return localConfig
+}
+
+/**
+ * Identify the provider (and model) for cache keys, so switching provider or model never serves stale results
+ */
+function getProviderCacheSignature(settings: UserSettings, provider: TranslationProvider): string {
+    switch (provider) {
+        case "mtranserver":
+            return ["mtranserver", settings.mtranserver.url.trim()].join("|")
+        case "customApi":
+            return ["customApi", settings.customApi.baseUrl.trim(), settings.customApi.model.trim()].join("|")
+        case "anthropic":
+            return ["anthropic", settings.anthropic.baseUrl.trim(), settings.anthropic.model.trim()].join("|")
+        case "ollama":
+            return ["ollama", settings.ollama.baseUrl.trim(), settings.ollama.model.trim()].join("|")
+        default:
+            return "cloud"
+    }
+}
+
+/**
+ * Build post-translation glossary substitutions for MTranServer, which cannot be instructed to use a glossary
+ * Each term is translated on its own to learn how MTranServer renders it, and that rendering is replaced
+ * with the preferred translation (as is any term left untranslated).
+ */
+async function buildMTranServerGlossarySubstitutions(
+    glossary: GlossaryEntry[],
+    sourceText: string,
+    sourceLanguage: string | undefined,
+    targetLanguage: string,
+    settings: UserSettings
+): Promise<glossaryMatcherModule.GlossarySubstitution[]> {
+    const entries = glossaryMatcherModule
+        .findGlossaryMatches(glossary, sourceText, targetLanguage, settings.glossaryDomain)
+        .slice(0, MTRANSERVER_GLOSSARY_MAX_TERMS)
+
+    const substitutions = await Promise.all(
+        entries.map(async (entry) => {
+            const termSubstitution = { from: entry.sourceTerm, to: entry.translation }
+            try {
+                const rendering = await translateWithMTranServer(entry.sourceTerm, sourceLanguage, targetLanguage, settings.mtranserver)
+                return [{ from: rendering, to: entry.translation }, termSubstitution]
+            } catch (error) {
+                logger.warn(`Failed to translate glossary term "${entry.sourceTerm}" with MTranServer:`, error)
+                return [termSubstitution]
+            }
+        })
+    )
+    return substitutions.flat()
+}
+
+async function translateWordWithMTranServer(params: TranslateParams, settings: UserSettings, glossary: GlossaryEntry[]): Promise<TranslationResult> {
+    ensureMTranServerConfigured(settings)
+
+    logger.info("Translating word using MTranServer")
+    const { word, leadingText, trailingText, sourceLanguage, targetLanguage = "zh" } = params
+    const mtranserverSettings = settings.mtranserver
+
+    // Translate the word itself (a glossary term is used as-is)
+    const glossaryEntry = glossaryMatcherModule.findExactGlossaryEntry(glossary, word)
+    let wordTranslation = glossaryEntry
+        ? glossaryEntry.translation
+        : await translateWithMTranServer(word, sourceLanguage, targetLanguage, mtranserverSettings)
+
+    // Translate full sentence if context is available
+    let sentenceTranslation: string | undefined
+    const fullSentence = `${leadingText || ""}${word}${trailingText || ""}`
+    if (leadingText || trailingText) {
+        sentenceTranslation = await translateWithMTranServer(fullSentence, sourceLanguage, targetLanguage, mtranserverSettings)
+    }
+
+    const substitutions = await buildMTranServerGlossarySubstitutions(glossary, fullSentence, sourceLanguage, targetLanguage, settings)
+    if (!glossaryEntry) {
+        wordTranslation = glossaryMatcherModule.applyGlossarySubstitutions(wordTranslation, substitutions)
+    }
+
+    return {
+        wordTranslation: wordTranslation,
+        sentenceTranslation: sentenceTranslation && glossaryMatcherModule.applyGlossarySubstitutions(sentenceTranslation, substitutions),
+        chineseDefinition: undefined,
+        englishDefinition: undefined,
+        targetDefinition: undefined,
+        lemma: undefined,
+        phonetic: undefined,
+        lemmaPhonetic: undefined,
+    }
+}
+
+async function translateFragmentWithMTranServer(
+    params: TranslateFragmentParams,
+    settings: UserSettings,
+    glossary: GlossaryEntry[]
+): Promise<FragmentTranslationResult> {
+    ensureMTranServerConfigured(settings)
+
+    logger.info("Translating fragment using MTranServer")
+    const { fragment, leadingText, trailingText, sourceLanguage, targetLanguage = "zh" } = params
+    const mtranserverSettings = settings.mtranserver
+
+    // Translate the selected fragment (a glossary term is used as-is)
+    const glossaryEntry = glossaryMatcherModule.findExactGlossaryEntry(glossary, fragment)
+    let translation = glossaryEntry
+        ? glossaryEntry.translation
+        : await translateWithMTranServer(fragment, sourceLanguage, targetLanguage, mtranserverSettings)
+
+    // Translate full sentence if context is available
+    let sentenceTranslation: string | undefined
+    const fullSentence = `${leadingText || ""}${fragment}${trailingText || ""}`
+    if (leadingText || trailingText) {
+        sentenceTranslation = await translateWithMTranServer(fullSentence, sourceLanguage, targetLanguage, mtranserverSettings)
+    }
+
+    const substitutions = await buildMTranServerGlossarySubstitutions(glossary, fullSentence, sourceLanguage, targetLanguage, settings)
+    if (!glossaryEntry) {
+        translation = glossaryMatcherModule.applyGlossarySubstitutions(translation, substitutions)
+    }
+
+    return {
+        translation: translation,
+        sentenceTranslation: sentenceTranslation && glossaryMatcherModule.applyGlossarySubstitutions(sentenceTranslation, substitutions),
+    }
+}
+
+async function translateFragmentWithCloud(
+    params: TranslateFragmentParams,
+    translationStyle: TranslationStyle | undefined
+): Promise<FragmentTranslationResult> {
+    const { fragment, leadingText, trailingText, sourceLanguage, targetLanguage = "zh", upgradeModel, contextInfo } = params
+
+    // Build API request
+    const request: FragmentTranslationApiRequest = {
+        text: fragment,
+        leadingText,
+        trailingText,
+        sourceLanguage,
+        targetLanguage,
+        ...(upgradeModel && { upgradeModel: true }),
+        ...(translationStyle && { translationStyle }),
+        context: contextInfo
+            ? {
+                  previousSentences: contextInfo.previousSentences,
+                  nextSentences: contextInfo.nextSentences,
+                  bookName: contextInfo.bookName,
+                  bookAuthor: contextInfo.bookAuthor,
+              }
+            : undefined,
+    }
+
+    logger.info("Sending fragment translation request:", request)
+
+    // Make API request - post() now returns data directly and handles errors
+    const data = await post<FragmentTranslationApiResponse, FragmentTranslationApiRequest>(TRANSLATION_API_ENDPOINTS.TRANSLATE_FRAGMENT, request)
+
+    logger.info("Fragment translation response data:", data)
+
+    // Return fragment translation result
+    return {
+        translation: data.translation,
+        sentenceTranslation: data.sentenceTranslation,
+    }
+}
+
+/**
+ * Gloss a word list with a provider that translates plain text (cloud API or MTranServer)
+ * The words are sent one per line in a single request and the translation is split back into lines;
+ * a translation that does not keep the line structure cannot be matched to the words and fails.
+ */
+function splitGlossTranslation(words: string[], translation: string): GlossResult {
+    const lines = translation
+        .split("\n")
+        .map((line) => line.trim())
+        .filter((line) => line.length > 0)
+    if (lines.length !== words.length) {
+        logger.warn(`Gloss translation has ${lines.length} lines for ${words.length} words`)
+        throw new TranslationError(i18nModule.translate("error.serverBusy"), i18nModule.translate("error.short.serverBusy"))
+    }
+    return { glosses: words.map((word, index) => ({ word, translation: lines[index] as string })) }
+}
+
+/**
+ * Run a translation through the persistent cache
+ * Refresh requests (upgradeModel) skip the lookup but still store their result,
+ * so the refreshed translation is what later taps get.
+ */
+async function withTranslationCache<T extends object>(
+    keyParts: TranslationCacheKeyParts,
+    upgradeModel: boolean | undefined,
+    translate: () => Promise<T>
+): Promise<T & { fromCache?: boolean }> {
+    const cacheKey = buildTranslationCacheKey(keyParts)
+
+    if (!upgradeModel) {
+        const cached = await getCachedTranslation<T>(cacheKey)
+        if (cached) {
+            logger.info("Translation cache hit:", keyParts.kind, keyParts.text)
+            return { ...cached, fromCache: true }
+        }
+    }
+
+    const result = await translate()
+    await setCachedTranslation(cacheKey, result)
+    return result
+}
+
+/**
+ * Primary provider followed by the configured fallback providers (deduplicated, in order)
+ */
+function getProviderChain(settings: UserSettings): TranslationProvider[] {
+    return [...new Set([settings.translationProvider, ...(settings.fallbackProviders ?? [])])]
+}
+
+/**
+ * Whether an LLM provider has the settings it needs (a provider can be listed in the chain before it is set up)
+ */
+function isLocalLlmConfigured(settings: UserSettings, provider: TranslationProvider): boolean {
+    try {
+        return buildLocalLlmConfig(settings, provider) !== null
+    } catch {
+        return false
+    }
+}
+
+/**
+ * Configured LLM providers of the provider chain, in order (the only providers that can explain or chat)
+ */
+function getLlmProviderChain(settings: UserSettings): TranslationProvider[] {
+    return getProviderChain(settings).filter(
+        (provider) => (provider === "customApi" || provider === "anthropic" || provider === "ollama") && isLocalLlmConfigured(settings, provider)
+    )
+}
+
+/**
+ * Errors worth retrying with the next provider: rate limits, timeouts, server and network failures and unusable output
+ * Malformed requests (HTTP 400) and moderation rejections would fail the same way on every provider.
+ * LLM clients throw LLMRequestError for provider failures and plain errors for the rest.
+ */
+function isFallbackEligibleError(error: unknown): boolean {
+    if (error instanceof TranslationError || error instanceof MTranServerError || error instanceof LLMRequestError) {
+        return true
+    }
+    if (!(error instanceof APIError)) {
+        return false
+    }
+    switch (error.type) {
+        case "businessError":
+            // 20001: content blocked by moderation
+            return error.code !== 20001
+        case "requestError":
+            return error.code !== 400
+        default:
+            return true
+    }
+}
+
+/**
+ * Try each provider in the chain until one succeeds
+ * Each provider has its own cache entries, so a result from a fallback provider is never served as the primary's.
+ * The last provider's error is re-thrown when every provider fails.
+ * The chain defaults to the whole provider chain; it must not be empty.
+ */
+async function translateWithFallback<T extends object>(
+    settings: UserSettings,
+    keyParts: Omit<TranslationCacheKeyParts, "provider">,
+    upgradeModel: boolean | undefined,
+    translate: (provider: TranslationProvider) => Promise<T>,
+    chain: TranslationProvider[] = getProviderChain(settings)
+): Promise<T & { fromCache?: boolean; provider: TranslationProvider; fallbackHops: number }> {
+    for (let hop = 0; hop < chain.length; hop++) {
+        const provider = chain[hop] as TranslationProvider
+        try {
+            const result = await withTranslationCache({ ...keyParts, provider: getProviderCacheSignature(settings, provider) }, upgradeModel, () =>
+                translate(provider)
+            )
+            if (hop > 0) {
+                logger.info(`Translation served by fallback provider ${provider} after ${hop} fallback hop(s)`)
+            }
+            return { ...result, provider, fallbackHops: hop }
+        } catch (error: unknown) {
+            if (hop === chain.length - 1 || !isFallbackEligibleError(error)) {
+                if (hop > 0) {
+                    logger.warn(`All ${hop + 1} providers failed (${chain.join(" → ")})`)
+                }
+                throw error
+            }
+            logger.warn(`Provider ${provider} failed, falling back to ${chain[hop + 1]} (hop ${hop + 1}):`, error)
+        }
+    }
+
+    // Unreachable: the chain is not empty
+    throw new TranslationError(i18nModule.translate("error.serverBusy"), i18nModule.translate("error.short.serverBusy"))
+}
+
 /**
  * Translate a word with context
  *
+ * Results are cached per text, context, languages and provider/model (see TranslationCache);
+ * `upgradeModel` requests bypass the cache lookup.
+ * Glossary terms found in the selection and its context are sent to LLM providers with the prompt
+ * and substituted into MTranServer output; the cloud API does not support a glossary.
+ * The translation style (`params.translationStyle`, else the user setting) is sent to LLM providers
+ * and the cloud API; MTranServer cannot apply it.
+ *
  * @param params - Translation parameters
- * @returns Promise with translation result
+ * @param onPartial - Optional listener for partial results while an OpenAI-compatible custom API streams its response
+ * @returns Promise with translation result (`fromCache` is set when served from the cache)
  * @throws APIError subclasses for different error scenarios
+ * @throws QuotaExceededError when the custom API monthly budget is used up
  *
  * @example
  * ```typescript
@@ -243,78 +831,44 @@ async function translateWordWithCloud(params: TranslateParams): Promise<Translat
  * });
  * ```
  */
-export async function translateWord(params: TranslateParams): Promise<TranslationResult> {
+export async function translateWord(params: TranslateParams, onPartial?: PartialTranslationCallback): Promise<TranslationResult> {
     try {
         const userSettings = await getCachedUserSettings()
-
-        // Check translation provider selection
-        const provider = userSettings.translationProvider
-
-        // MTranServer
-        if (provider === "mtranserver") {
-            const mtranserverSettings = userSettings.mtranserver
-            if (!mtranserverSettings.url || !mtranserverSettings.url.trim()) {
-                throw new TranslationError(
-                    i18nModule.translate("error.mtranserverConfigMissing"),
-                    i18nModule.translate("error.short.mtranserverConfigMissing")
-                )
-            }
-
-            logger.info("Translating word using MTranServer")
-            const { word, leadingText, trailingText, sourceLanguage, targetLanguage = "zh", contextInfo } = params
-
-            // Translate the word itself
-            const wordTranslation = await translateWithMTranServer(
-                word,
-                sourceLanguage,
-                targetLanguage,
-                mtranserverSettings
-            )
-
-            // Translate full sentence if context is available
-            let sentenceTranslation: string | undefined
-            if (leadingText || trailingText) {
-                const fullSentence = `${leadingText || ""}${word}${trailingText || ""}`
-                sentenceTranslation = await translateWithMTranServer(
-                    fullSentence,
-                    sourceLanguage,
-                    targetLanguage,
-                    mtranserverSettings
-                )
-            }
-
-            return {
-                wordTranslation: wordTranslation,
-                sentenceTranslation: sentenceTranslation,
-                chineseDefinition: undefined,
-                englishDefinition: undefined,
-                targetDefinition: undefined,
-                lemma: undefined,
-                phonetic: undefined,
-                lemmaPhonetic: undefined,
-            }
+        const glossary = await findRequestGlossary(userSettings, params.word, params)
+        const translationStyle = resolveRequestTranslationStyle(userSettings, params)
+
+        const keyParts = {
+            kind: "word" as const,
+            text: params.word,
+            leadingText: params.leadingText,
+            trailingText: params.trailingText,
+            sourceLanguage: params.sourceLanguage,
+            targetLanguage: params.targetLanguage || "zh",
+            glossary: buildGlossaryCacheSignature(glossary),
+            style: translationStyle,
         }
 
-        // Custom API
-        if (provider === "customApi") {
-            const localConfig = buildLocalLlmConfig(userSettings)
-            if (!localConfig) {
-                throw new TranslationError(
-                    i18nModule.translate("error.customApiConfigMissing"),
-                    i18nModule.translate("error.short.customApiConfigMissing")
-                )
+        return await translateWithFallback(userSettings, keyParts, params.upgradeModel, async (provider) => {
+            // MTranServer
+            if (provider === "mtranserver") {
+                return translateWordWithMTranServer(params, userSettings, glossary)
             }
 
-            logger.info("Translating word using custom LLM API")
-            return await translateWordWithLocal(params, localConfig)
-        }
+            // Custom API / Anthropic Messages API / Ollama
+            if (provider === "customApi" || provider === "anthropic" || provider === "ollama") {
+                const localConfig = requireLocalLlmConfig(userSettings, provider)
+                await ensureCustomApiBudget(userSettings, provider)
+                logger.info(`Translating word using ${provider} LLM API`)
+                return translateWordWithLocal(params, localConfig, glossary, translationStyle, onPartial)
+            }
 
-        // Official Cloud API (default)
-        logger.info("Translating word using cloud API translation")
-        return await translateWordWithCloud(params)
+            // Official Cloud API (default)
+            logger.info("Translating word using cloud API translation")
+            return translateWordWithCloud(params, translationStyle)
+        })
     } catch (error: unknown) {
-        // Re-throw TranslationError as-is
-        if (error instanceof TranslationError) {
+        // Re-throw TranslationError and QuotaExceededError (custom API budget) as-is
+        if (error instanceof TranslationError || error instanceof QuotaExceededError) {
             throw error
         }
 
@@ -341,8 +895,11 @@ export async function translateWord(params: TranslateParams): Promise<Translatio
 /**
  * Translate a text fragment with context
  *
+ * Cached the same way as translateWord(); `upgradeModel` requests bypass the cache lookup.
+ *
  * @param params - Fragment translation parameters
- * @returns Promise with fragment translation result
+ * @param onPartial - Optional listener for partial results (see translateWord)
+ * @returns Promise with fragment translation result (`fromCache` is set when served from the cache)
  * @throws APIError subclasses for different error scenarios
  *
  * @example
@@ -362,127 +919,346 @@ export async function translateWord(params: TranslateParams): Promise<Translatio
  * });
  * ```
  */
-export async function translateFragment(params: TranslateFragmentParams): Promise<FragmentTranslationResult> {
+export async function translateFragment(params: TranslateFragmentParams, onPartial?: PartialTranslationCallback): Promise<FragmentTranslationResult> {
     try {
         const userSettings = await getCachedUserSettings()
+        const glossary = await findRequestGlossary(userSettings, params.fragment, params)
+        const translationStyle = resolveRequestTranslationStyle(userSettings, params)
+
+        const keyParts = {
+            kind: "fragment" as const,
+            text: params.fragment,
+            leadingText: params.leadingText,
+            trailingText: params.trailingText,
+            sourceLanguage: params.sourceLanguage,
+            targetLanguage: params.targetLanguage || "zh",
+            glossary: buildGlossaryCacheSignature(glossary),
+            style: translationStyle,
+        }
 
-        // Check translation provider selection
-        const provider = userSettings.translationProvider
-
-        // MTranServer
-        if (provider === "mtranserver") {
-            const mtranserverSettings = userSettings.mtranserver
-            if (!mtranserverSettings.url || !mtranserverSettings.url.trim()) {
-                throw new TranslationError(
-                    i18nModule.translate("error.mtranserverConfigMissing"),
-                    i18nModule.translate("error.short.mtranserverConfigMissing")
-                )
+        return await translateWithFallback(userSettings, keyParts, params.upgradeModel, async (provider) => {
+            // MTranServer
+            if (provider === "mtranserver") {
+                return translateFragmentWithMTranServer(params, userSettings, glossary)
             }
 
-            logger.info("Translating fragment using MTranServer")
-            const { fragment, leadingText, trailingText, sourceLanguage, targetLanguage = "zh" } = params
+            // Custom API / Anthropic Messages API / Ollama
+            if (provider === "customApi" || provider === "anthropic" || provider === "ollama") {
+                const localConfig = requireLocalLlmConfig(userSettings, provider)
+                await ensureCustomApiBudget(userSettings, provider)
+                logger.info(`Translating fragment using ${provider} LLM API`)
+                return translateFragmentWithLocal(params, localConfig, glossary, translationStyle, onPartial)
+            }
 
-            // Translate the selected fragment
-            const translation = await translateWithMTranServer(
-                fragment,
-                sourceLanguage,
-                targetLanguage,
-                mtranserverSettings
+            // Official Cloud API (default)
+            return translateFragmentWithCloud(params, translationStyle)
+        })
+    } catch (error: unknown) {
+        // Re-throw TranslationError and QuotaExceededError (custom API budget) as-is
+        if (error instanceof TranslationError || error instanceof QuotaExceededError) {
+            throw error
+        }
+
+        // Handle MTranServerError
+        if (error instanceof MTranServerError) {
+            logger.error("MTranServer fragment translation error:", error.message)
+            throw new TranslationError(
+                error.message,
+                i18nModule.translate("error.short.mtranserverError")
             )
+        }
+
+        // Convert APIError to TranslationError
+        if (error instanceof APIError) {
+            handleAPIError(error)
+        }
+
+        // Handle unexpected errors
+        logger.error("Unexpected fragment translation error:", error)
+        throw new TranslationError(i18nModule.translate("error.serverBusy"), i18nModule.translate("error.short.serverBusy"))
+    }
+}
+
+/**
+ * Gloss several words of one paragraph in a single request (immersive vocabulary)
+ *
+ * LLM providers translate each word in the sense the paragraph gives it; the cloud API and MTranServer
+ * translate the word list line by line without context. Falls back and caches like translateWord(),
+ * keyed by the word list and the paragraph.
+ *
+ * @param params - Words to gloss (in paragraph order) and their paragraph
+ * @returns Promise with one gloss per word the provider translated, in request order
+ * @throws TranslationError when every provider fails
+ * @throws QuotaExceededError when the custom API monthly budget is used up
+ *
+ * @example
+ * ```typescript
+ * const { glosses } = await translateGlosses({
+ *     words: ['curtains', 'inviting'],
+ *     paragraph: 'He opened the curtains. It made the space feel warm and inviting.',
+ *     sourceLanguage: 'en',
+ *     targetLanguage: 'zh',
+ * });
+ * // [{ word: 'curtains', translation: '窗帘' }, { word: 'inviting', translation: '诱人的' }]
+ * ```
+ */
+export async function translateGlosses(params: GlossParams): Promise<GlossResult> {
+    try {
+        const userSettings = await getCachedUserSettings()
+        const translationStyle = resolveRequestTranslationStyle(userSettings, params)
+        const targetLanguage = params.targetLanguage || "zh"
+
+        const keyParts = {
+            kind: "gloss" as const,
+            text: params.words.join("\n"),
+            leadingText: params.paragraph,
+            sourceLanguage: params.sourceLanguage,
+            targetLanguage,
+            style: translationStyle,
+        }
 
-            // Translate full sentence if context is available
-            let sentenceTranslation: string | undefined
-            if (leadingText || trailingText) {
-                const fullSentence = `${leadingText || ""}${fragment}${trailingText || ""}`
-                sentenceTranslation = await translateWithMTranServer(
-                    fullSentence,
-                    sourceLanguage,
-                    targetLanguage,
-                    mtranserverSettings
-                )
+        return await translateWithFallback(userSettings, keyParts, false, async (provider) => {
+            const wordList = params.words.join("\n")
+
+            // MTranServer
+            if (provider === "mtranserver") {
+                ensureMTranServerConfigured(userSettings)
+                logger.info(`Glossing ${params.words.length} words using MTranServer`)
+                const translation = await translateWithMTranServer(wordList, params.sourceLanguage, targetLanguage, userSettings.mtranserver)
+                return splitGlossTranslation(params.words, translation)
             }
 
-            return {
-                translation: translation,
-                sentenceTranslation: sentenceTranslation,
+            // Custom API / Anthropic Messages API / Ollama
+            if (provider === "customApi" || provider === "anthropic" || provider === "ollama") {
+                const localConfig = requireLocalLlmConfig(userSettings, provider)
+                await ensureCustomApiBudget(userSettings, provider)
+                logger.info(`Glossing ${params.words.length} words using ${provider} LLM API`)
+                const service = await getLocalGlossService(localConfig)
+                return service.gloss({ ...params, targetLanguage, translationStyle })
             }
+
+            // Official Cloud API (default)
+            logger.info(`Glossing ${params.words.length} words using cloud API translation`)
+            const { translation } = await translateFragmentWithCloud(
+                { fragment: wordList, sourceLanguage: params.sourceLanguage, targetLanguage },
+                translationStyle
+            )
+            return splitGlossTranslation(params.words, translation)
+        })
+    } catch (error: unknown) {
+        if (error instanceof TranslationError || error instanceof QuotaExceededError) {
+            throw error
         }
 
-        // Custom API
-        if (provider === "customApi") {
-            const localConfig = buildLocalLlmConfig(userSettings)
-            if (!localConfig) {
-                throw new TranslationError(
-                    i18nModule.translate("error.customApiConfigMissing"),
-                    i18nModule.translate("error.short.customApiConfigMissing")
-                )
-            }
+        if (error instanceof MTranServerError) {
+            logger.error("MTranServer gloss error:", error.message)
+            throw new TranslationError(error.message, i18nModule.translate("error.short.mtranserverError"))
+        }
 
-            logger.info("Translating fragment using custom LLM API")
-            return await translateFragmentWithLocal(params, localConfig)
+        if (error instanceof APIError) {
+            handleAPIError(error)
         }
 
-        // Official Cloud API (default)
-        const { fragment, leadingText, trailingText, sourceLanguage, targetLanguage = "zh", upgradeModel, contextInfo } = params
+        logger.error("Unexpected gloss error:", error)
+        throw new TranslationError(i18nModule.translate("error.serverBusy"), i18nModule.translate("error.short.serverBusy"))
+    }
+}
 
-        // Build API request
-        const request: FragmentTranslationApiRequest = {
-            text: fragment,
-            leadingText,
-            trailingText,
-            sourceLanguage,
+/**
+ * Explain the grammar and usage of a translated word or fragment
+ *
+ * Explanations need an LLM, so only the configured LLM providers of the provider chain (custom API, Anthropic
+ * or Ollama) are used, in order and with the same fallback as translateWord(), even when the primary provider
+ * is the cloud API or MTranServer. Results are cached like translations, keyed additionally by the translation
+ * being explained.
+ *
+ * @param params - Explanation parameters
+ * @returns Promise with the explanation (`fromCache` is set when served from the cache)
+ * @throws LlmProviderUnavailableError when no LLM provider is configured
+ * @throws TranslationError when every provider fails
+ *
+ * @example
+ * ```typescript
+ * const explanation = await explainTranslation({
+ *     text: 'light',
+ *     translation: '光线',
+ *     textType: 'word',
+ *     leadingText: 'The room was filled with natural ',
+ *     trailingText: ' from the large windows.',
+ *     targetLanguage: 'zh',
+ * });
+ * ```
+ */
+export async function explainTranslation(params: ExplainParams): Promise<ExplanationResult> {
+    try {
+        const userSettings = await getCachedUserSettings()
+        const chain = getLlmProviderChain(userSettings)
+        if (chain.length === 0) {
+            throw new LlmProviderUnavailableError(
+                i18nModule.translate("error.explanationUnavailable"),
+                i18nModule.translate("error.short.explanationUnavailable")
+            )
+        }
+
+        const targetLanguage = params.targetLanguage || "zh"
+        const keyParts = {
+            kind: "explanation" as const,
+            text: params.text,
+            leadingText: params.leadingText,
+            trailingText: params.trailingText,
+            sourceLanguage: params.sourceLanguage,
             targetLanguage,
-            ...(upgradeModel && { upgradeModel: true }),
-            context: contextInfo
-                ? {
-                      previousSentences: contextInfo.previousSentences,
-                      nextSentences: contextInfo.nextSentences,
-                      bookName: contextInfo.bookName,
-                      bookAuthor: contextInfo.bookAuthor,
-                  }
-                : undefined,
+            translation: params.translation,
         }
 
-        logger.info("Sending fragment translation request:", request)
+        return await translateWithFallback(
+            userSettings,
+            keyParts,
+            false,
+            async (provider) => {
+                await ensureCustomApiBudget(userSettings, provider)
+                logger.info(`Explaining ${params.textType} using ${provider} LLM API`)
+                const service = await getLocalExplanationService(requireLocalLlmConfig(userSettings, provider))
+                return service.explain({ ...params, targetLanguage })
+            },
+            chain
+        )
+    } catch (error: unknown) {
+        if (error instanceof TranslationError || error instanceof QuotaExceededError) {
+            throw error
+        }
 
-        // Make API request - post() now returns data directly and handles errors
-        const data = await post<FragmentTranslationApiResponse, FragmentTranslationApiRequest>(TRANSLATION_API_ENDPOINTS.TRANSLATE_FRAGMENT, request)
+        logger.error("Unexpected explanation error:", error)
+        throw new TranslationError(i18nModule.translate("error.serverBusy"), i18nModule.translate("error.short.serverBusy"))
+    }
+}
 
-        logger.info("Fragment translation response data:", data)
+/**
+ * Get the reading (pinyin, kana or romaja) of Chinese, Japanese or Korean text
+ *
+ * Readings need an LLM, so the first configured LLM provider in the provider chain is used.
+ * Results are cached like translations; readings do not depend on the target language.
+ *
+ * @param params - Text, its sentence context and source language
+ * @returns Promise with segments covering the text in order (`fromCache` is set when served from the cache)
+ * @throws TranslationError when no LLM provider is configured or the request fails
+ *
+ * @example
+ * ```typescript
+ * const { segments } = await getReading({ text: '银行', leadingText: '我明天去', trailingText: '办事。', sourceLanguage: 'zh' });
+ * // [{ text: '银', reading: 'yín' }, { text: '行', reading: 'háng' }]
+ * ```
+ */
+export async function getReading(params: ReadingParams): Promise<ReadingResult> {
+    try {
+        const userSettings = await getCachedUserSettings()
+        const provider = getLlmProviderChain(userSettings)[0]
+        if (!provider) {
+            throw new TranslationError(i18nModule.translate("error.readingUnavailable"), i18nModule.translate("error.short.readingUnavailable"))
+        }
 
-        // Return fragment translation result
-        return {
-            translation: data.translation,
-            sentenceTranslation: data.sentenceTranslation,
+        const localConfig = requireLocalLlmConfig(userSettings, provider)
+        const keyParts = {
+            kind: "reading" as const,
+            text: params.text,
+            leadingText: params.leadingText,
+            trailingText: params.trailingText,
+            sourceLanguage: params.sourceLanguage,
+            targetLanguage: "",
+            provider: getProviderCacheSignature(userSettings, provider),
         }
+
+        const result = await withTranslationCache(keyParts, false, async () => {
+            await ensureCustomApiBudget(userSettings, provider)
+            logger.info(`Reading ${params.sourceLanguage ?? "text"} using ${provider} LLM API`)
+            const service = await getLocalReadingService(localConfig)
+            return service.read(params)
+        })
+        return { ...result, provider }
     } catch (error: unknown) {
-        // Re-throw TranslationError as-is
-        if (error instanceof TranslationError) {
+        if (error instanceof TranslationError || error instanceof QuotaExceededError) {
             throw error
         }
 
-        // Handle MTranServerError
-        if (error instanceof MTranServerError) {
-            logger.error("MTranServer fragment translation error:", error.message)
-            throw new TranslationError(
-                error.message,
-                i18nModule.translate("error.short.mtranserverError")
+        logger.error("Unexpected reading error:", error)
+        throw new TranslationError(i18nModule.translate("error.serverBusy"), i18nModule.translate("error.short.serverBusy"))
+    }
+}
+
+/**
+ * Answer a follow-up question about a translation
+ *
+ * Uses the configured LLM providers of the provider chain in order, falling back on the same errors as translateWord();
+ * the cloud API and MTranServer cannot chat and are skipped, as are LLM providers that are listed but not set up.
+ * Replies are not cached.
+ *
+ * @param params - Translation context, earlier turns and the new question
+ * @returns Promise with the reply and the provider that produced it
+ * @throws LlmProviderUnavailableError when no LLM provider is configured
+ * @throws TranslationError when every provider fails
+ *
+ * @example
+ * ```typescript
+ * const { reply } = await askFollowUp({
+ *     text: 'light',
+ *     translation: '光线',
+ *     textType: 'word',
+ *     leadingText: 'The room was filled with natural ',
+ *     trailingText: ' from the large windows.',
+ *     targetLanguage: 'zh',
+ *     history: [],
+ *     question: 'Is this formal?',
+ * });
+ * ```
+ */
+export async function askFollowUp(params: FollowUpParams): Promise<FollowUpResult> {
+    try {
+        const userSettings = await getCachedUserSettings()
+        const chain = getLlmProviderChain(userSettings)
+        if (chain.length === 0) {
+            throw new LlmProviderUnavailableError(
+                i18nModule.translate("error.followUpUnavailable"),
+                i18nModule.translate("error.short.followUpUnavailable")
             )
         }
 
-        // Convert APIError to TranslationError
-        if (error instanceof APIError) {
-            handleAPIError(error)
+        for (let hop = 0; hop < chain.length; hop++) {
+            const provider = chain[hop] as TranslationProvider
+            try {
+                const service = await getLocalFollowUpService(requireLocalLlmConfig(userSettings, provider))
+                await ensureCustomApiBudget(userSettings, provider)
+                const reply = await service.reply({ ...params, targetLanguage: params.targetLanguage || "zh" })
+                return { reply, provider, fallbackHops: hop }
+            } catch (error: unknown) {
+                if (hop === chain.length - 1 || !isFallbackEligibleError(error)) {
+                    throw error
+                }
+                logger.warn(`Provider ${provider} failed to answer, falling back to ${chain[hop + 1]} (hop ${hop + 1}):`, error)
+            }
         }
 
-        // Handle unexpected errors
-        logger.error("Unexpected fragment translation error:", error)
+        // Unreachable: the chain is not empty
+        throw new TranslationError(i18nModule.translate("error.serverBusy"), i18nModule.translate("error.short.serverBusy"))
+    } catch (error: unknown) {
+        if (error instanceof TranslationError || error instanceof QuotaExceededError) {
+            throw error
+        }
+
+        logger.error("Unexpected follow-up error:", error)
         throw new TranslationError(i18nModule.translate("error.serverBusy"), i18nModule.translate("error.short.serverBusy"))
     }
 }
 
 try {
     chrome.storage?.onChanged.addListener((changes, areaName) => {
+        // Cached translations were generated with the previous prompts
+        if (areaName === "local" && changes[PROMPT_OVERRIDES_STORAGE_KEY]) {
+            clearTranslationCache().catch((error) => {
+                logger.warn("Failed to clear translation cache after prompt change", error)
+            })
+            return
+        }
+
         if (areaName !== "sync") {
             return
         }
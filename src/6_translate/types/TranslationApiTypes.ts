@@ -34,6 +34,8 @@ export interface TranslationApiRequest {
     targetLanguage?: string
     /** 使用升级模型 (可选, 用于刷新请求) */
     upgradeModel?: boolean
+    /** 翻译风格 (可选: literal, natural, concise, formal, casual, learner; 省略表示无偏好) */
+    translationStyle?: string
     /** 上下文信息 */
     context?: TranslationContext
 }
@@ -92,6 +94,8 @@ export interface FragmentTranslationApiRequest {
     targetLanguage?: string
     /** 使用升级模型 (可选, 用于刷新请求) */
     upgradeModel?: boolean
+    /** 翻译风格 (可选: literal, natural, concise, formal, casual, learner; 省略表示无偏好) */
+    translationStyle?: string
     /** 上下文信息 */
     context?: FragmentTranslationContext
 }
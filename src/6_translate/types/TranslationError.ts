@@ -25,3 +25,14 @@ export class TranslationError extends Error {
         this.shortMessage = shortMessage
     }
 }
+
+/**
+ * Raised when a request needs an LLM provider and none in the provider chain is configured
+ * The UI offers to open the settings instead of a retry.
+ */
+export class LlmProviderUnavailableError extends TranslationError {
+    constructor(message: string, shortMessage?: string) {
+        super(message, shortMessage)
+        this.name = "LlmProviderUnavailableError"
+    }
+}
@@ -4,6 +4,8 @@
  * Type definitions for translation functionality
  */
 
+import type { TranslationProvider, TranslationStylePreference, WordSense } from "@/0_common/types"
+
 /**
  * Translation function parameters
  */
@@ -20,6 +22,8 @@ export interface TranslateParams {
     targetLanguage?: string
     /** 使用升级模型 (可选, 用于刷新请求) */
     upgradeModel?: boolean
+    /** 翻译风格 (可选, 页面的站点覆盖设置; 默认使用用户设置) */
+    translationStyle?: TranslationStylePreference
     /** 上下文信息 (可选) */
     contextInfo?: {
         /** 之前的句子 */
@@ -53,6 +57,14 @@ export interface TranslationResult {
     phonetic?: string
     /** 词形还原后的基本形式的音标 (仅当词形还原时存在) */
     lemmaPhonetic?: string
+    /** 词义列表: 第一个是上下文词义, 其余是其他常见词义 (仅多义词, 仅大模型服务) */
+    senses?: WordSense[]
+    /** 是否来自本地翻译缓存 (缓存命中时不消耗配额) */
+    fromCache?: boolean
+    /** 实际产生结果的翻译服务 (可能是备用服务) */
+    provider?: TranslationProvider
+    /** 在得到结果之前切换备用服务的次数 (0 = 主服务成功) */
+    fallbackHops?: number
 }
 
 /**
@@ -71,6 +83,8 @@ export interface TranslateFragmentParams {
     targetLanguage?: string
     /** 使用升级模型 (可选, 用于刷新请求) */
     upgradeModel?: boolean
+    /** 翻译风格 (可选, 页面的站点覆盖设置; 默认使用用户设置) */
+    translationStyle?: TranslationStylePreference
     /** 上下文信息 (可选) */
     contextInfo?: {
         /** 之前的句子 */
@@ -92,4 +106,142 @@ export interface FragmentTranslationResult {
     translation: string
     /** 完整句子翻译 (可选: 当提供 leadingText 和 trailingText 时返回) */
     sentenceTranslation?: string
+    /** 是否来自本地翻译缓存 (缓存命中时不消耗配额) */
+    fromCache?: boolean
+    /** 实际产生结果的翻译服务 (可能是备用服务) */
+    provider?: TranslationProvider
+    /** 在得到结果之前切换备用服务的次数 (0 = 主服务成功) */
+    fallbackHops?: number
+}
+
+/**
+ * Explanation parameters (grammar and usage of a translated word or fragment)
+ */
+export interface ExplainParams {
+    /** 要讲解的单词或片段 */
+    text: string
+    /** 当前译文 */
+    translation: string
+    /** 单词或片段 */
+    textType: "word" | "fragment"
+    /** 目标前的文本 (句子内部, 可选) */
+    leadingText?: string
+    /** 目标后的文本 (句子内部, 可选) */
+    trailingText?: string
+    /** 源语言 (可选, 例如 "en") */
+    sourceLanguage?: string
+    /** 目标语言 (可选, 默认 "zh"), 讲解使用该语言 */
+    targetLanguage?: string
+}
+
+/**
+ * Explanation result
+ */
+export interface ExplanationResult {
+    /** 词性 (片段为短语类型) */
+    partOfSpeech?: string
+    /** 在句中的语法作用 */
+    grammaticalRole: string
+    /** 习语和常见搭配 */
+    collocations: string[]
+    /** 语域和用法说明 */
+    register?: string
+    /** 2-3 个例句 */
+    examples: Array<{ sentence: string; translation: string }>
+    /** 是否来自本地翻译缓存 */
+    fromCache?: boolean
+    /** 生成讲解的服务 */
+    provider?: TranslationProvider
+}
+
+/**
+ * Reading parameters (pronunciation of Chinese, Japanese or Korean text)
+ */
+export interface ReadingParams {
+    /** 要标注读音的文本 */
+    text: string
+    /** 目标前的文本 (句子内部, 可选, 用于区分多音字) */
+    leadingText?: string
+    /** 目标后的文本 (句子内部, 可选) */
+    trailingText?: string
+    /** 源语言 ("zh", "ja" 或 "ko") */
+    sourceLanguage?: string
+}
+
+/**
+ * Reading result
+ */
+export interface ReadingResult {
+    /** 按顺序覆盖文本的片段及其读音 (拼音、假名或罗马字) */
+    segments: Array<{ text: string; reading: string }>
+    /** 是否来自本地翻译缓存 */
+    fromCache?: boolean
+    /** 生成读音的服务 */
+    provider?: TranslationProvider
+}
+
+/**
+ * Gloss parameters (short translations of several words of one paragraph, for immersive vocabulary)
+ */
+export interface GlossParams {
+    /** 要注释的单词 (按段落中的顺序) */
+    words: string[]
+    /** 单词所在的段落 (用于确定词义) */
+    paragraph: string
+    /** 源语言 (可选) */
+    sourceLanguage?: string
+    /** 目标语言 (可选, 默认 "zh") */
+    targetLanguage?: string
+    /** 翻译风格 (可选, 页面的站点覆盖设置; 默认使用用户设置) */
+    translationStyle?: TranslationStylePreference
+}
+
+/**
+ * Gloss result
+ */
+export interface GlossResult {
+    /** 各单词的简短翻译 (按请求顺序, 未能注释的单词不包含在内) */
+    glosses: Array<{ word: string; translation: string }>
+    /** 是否来自本地翻译缓存 */
+    fromCache?: boolean
+    /** 生成注释的服务 */
+    provider?: TranslationProvider
+}
+
+/**
+ * Follow-up question parameters (chat about a translation)
+ */
+export interface FollowUpParams {
+    /** 已翻译的单词或片段 */
+    text: string
+    /** 当前译文 */
+    translation: string
+    /** 当前句子译文 (可选) */
+    sentenceTranslation?: string
+    /** 单词或片段 */
+    textType: "word" | "fragment"
+    /** 目标前的文本 (句子内部, 可选) */
+    leadingText?: string
+    /** 目标后的文本 (句子内部, 可选) */
+    trailingText?: string
+    /** 源语言 (可选, 例如 "en") */
+    sourceLanguage?: string
+    /** 目标语言 (可选, 默认 "zh") */
+    targetLanguage?: string
+    /** 之前的问答 (按时间顺序) */
+    history: Array<{ role: "user" | "assistant"; content: string }>
+    /** 新的问题 */
+    question: string
+}
+
+/**
+ * Follow-up answer
+ */
+export interface FollowUpResult {
+    /** 回答 */
+    reply: string
+    /** 实际产生回答的服务 (可能是备用服务) */
+    provider: TranslationProvider
+    /** 在得到回答之前切换备用服务的次数 (0 = 第一个大模型服务成功) */
+    fallbackHops: number
 }
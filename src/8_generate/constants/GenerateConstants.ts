@@ -2,6 +2,8 @@
  * Constants for 8_generate module
  */
 
+import type { ResponseSchema, StructuredOutputMode, TranslationStyle } from "../types/GenerateTypes"
+
 /**
  * Default LLM generation parameters
  */
@@ -15,6 +17,10 @@ export const DEFAULT_TIMEOUT = 10000 // 10 seconds
 export const TASK_WORD_TRANSLATION = "word_translation"
 export const TASK_FRAGMENT_TRANSLATION = "fragment_translation"
 export const TASK_FRAGMENT_ONLY_TRANSLATION = "fragment_translation_only"
+export const TASK_EXPLANATION = "explanation"
+export const TASK_FOLLOW_UP_CHAT = "follow_up_chat"
+export const TASK_READING = "reading"
+export const TASK_GLOSS = "gloss"
 
 /**
  * Prompt file names
@@ -27,3 +33,301 @@ export const PROMPT_FILE_FEWSHOT = "fewshot.json"
  * Default language for fallback
  */
 export const DEFAULT_FEWSHOT_LANGUAGE = "en"
+
+/**
+ * Template variables each task's user prompt template must contain
+ */
+export const PROMPT_TEMPLATE_VARIABLES: Record<string, readonly string[]> = {
+    [TASK_WORD_TRANSLATION]: [
+        "sourceLanguageSection",
+        "targetLanguageSection",
+        "targetWordSection",
+        "dictionaryDefinitionSection",
+        "textFragmentSection",
+        "paragraphContextSection",
+        "sourceTypeSection",
+        "sourceTitleSection",
+        "sourceAuthorSection",
+        "glossarySection",
+        "translationStyleSection",
+    ],
+    [TASK_FRAGMENT_TRANSLATION]: [
+        "sourceLanguageSection",
+        "targetLanguageSection",
+        "targetFragmentSection",
+        "targetSentenceSection",
+        "contextSection",
+        "sourceTypeSection",
+        "sourceTitleSection",
+        "sourceAuthorSection",
+        "glossarySection",
+        "translationStyleSection",
+    ],
+    [TASK_FRAGMENT_ONLY_TRANSLATION]: [
+        "sourceLanguageSection",
+        "targetLanguageSection",
+        "targetFragmentSection",
+        "contextSection",
+        "sourceTypeSection",
+        "sourceTitleSection",
+        "sourceAuthorSection",
+        "glossarySection",
+        "translationStyleSection",
+    ],
+    [TASK_EXPLANATION]: ["sourceLanguageSection", "targetLanguageSection", "targetTextSection", "translationSection", "sentenceSection"],
+    [TASK_FOLLOW_UP_CHAT]: [
+        "sourceLanguageSection",
+        "targetLanguageSection",
+        "targetTextSection",
+        "translationSection",
+        "sentenceSection",
+        "sentenceTranslationSection",
+    ],
+    [TASK_READING]: ["sourceLanguageSection", "targetTextSection", "sentenceSection"],
+    [TASK_GLOSS]: ["sourceLanguageSection", "targetLanguageSection", "wordsSection", "paragraphSection", "translationStyleSection"],
+}
+
+/**
+ * Instructions for the "Translation Style" prompt section
+ */
+export const TRANSLATION_STYLE_INSTRUCTIONS: Readonly<Record<TranslationStyle, string>> = {
+    literal: "Literal: stay close to the source wording and sentence structure, as long as the translation remains grammatical.",
+    natural: "Natural: translate idiomatically, the way a native speaker would phrase it, rather than word for word.",
+    concise: "Concise: use the shortest translation that keeps the meaning; drop filler words.",
+    formal: "Formal: use a formal, polite register and avoid slang and contractions.",
+    casual: "Casual: use an informal, conversational register, as between friends.",
+    learner:
+        "Learner-friendly: the reader is learning the language; prefer common, simple vocabulary and short, plain sentence structures over rare words and idioms.",
+}
+
+/**
+ * Tasks whose bundled few-shot examples are sent with each request
+ * Other tasks only send few-shot examples from a user prompt override.
+ */
+export const PROMPT_FEWSHOT_TASKS: readonly string[] = [TASK_WORD_TRANSLATION]
+
+/**
+ * User prompt overrides (chrome.storage.local)
+ * Overrides are keyed by task and target language; PROMPT_OVERRIDE_ALL_LANGUAGES applies to every target language.
+ */
+export const PROMPT_OVERRIDES_STORAGE_KEY = "promptOverrides"
+export const PROMPT_OVERRIDE_ALL_LANGUAGES = "*"
+
+/**
+ * Part of speech abbreviations accepted in word translation responses
+ */
+export const WORD_PARTS_OF_SPEECH: readonly string[] = ["n.", "v.", "adj.", "adv.", "pron.", "prep.", "conj.", "int.", "num.", "art.", "phr."]
+
+/**
+ * Maximum lengths of the dictionary fields in word translation responses; longer values are dropped
+ */
+export const DICTIONARY_FIELD_MAX_LENGTH = {
+    lemma: 64,
+    phonetic: 64,
+    definition: 200,
+} as const
+
+/**
+ * Maximum number of alternative senses kept from a word translation response
+ */
+export const WORD_MAX_ALTERNATIVE_SENSES = 3
+
+/**
+ * Maximum lengths of the fields of an alternative sense; senses with a longer translation or gloss are dropped
+ */
+export const WORD_SENSE_FIELD_MAX_LENGTH = {
+    translation: 64,
+    gloss: 200,
+    example: 200,
+} as const
+
+/**
+ * Alternative key names accepted in word translation responses (after camelCase → snake_case normalization)
+ */
+export const WORD_RESPONSE_KEY_ALIASES: Readonly<Record<string, readonly string[]>> = {
+    word_translation: ["translation", "word", "target_word", "target_word_translation", "translated_word"],
+    fragment_translation: ["sentence_translation", "text_fragment_translation", "fragment", "translated_fragment", "sentence"],
+    lemma: ["base_form", "dictionary_form"],
+    phonetic: ["ipa", "pronunciation", "phonetics"],
+    part_of_speech: ["pos", "word_class"],
+    definition: ["meaning", "target_definition"],
+    alternative_senses: ["senses", "other_senses", "alternative_meanings", "alternatives", "other_meanings"],
+}
+
+/**
+ * Alternative key names accepted in the items of `alternative_senses`
+ */
+export const WORD_SENSE_KEY_ALIASES: Readonly<Record<string, readonly string[]>> = {
+    translation: ["word_translation", "sense", "meaning"],
+    gloss: ["definition", "explanation", "description"],
+    example: ["example_sentence", "sentence", "usage"],
+}
+
+/**
+ * Alternative key names accepted in fragment translation responses
+ */
+export const FRAGMENT_RESPONSE_KEY_ALIASES: Readonly<Record<string, readonly string[]>> = {
+    translation: ["fragment_translation", "translated_fragment", "translated_text", "target_fragment", "result"],
+    sentence_translation: ["translated_sentence", "full_sentence_translation", "sentence"],
+}
+
+/**
+ * Alternative key names accepted in explanation responses
+ */
+export const EXPLANATION_RESPONSE_KEY_ALIASES: Readonly<Record<string, readonly string[]>> = {
+    part_of_speech: ["pos", "word_class", "phrase_type"],
+    grammatical_role: ["grammar", "role", "grammatical_function", "syntactic_role"],
+    collocations: ["idioms", "idioms_and_collocations", "collocation", "phrases"],
+    register: ["register_notes", "usage_notes", "usage", "notes"],
+    examples: ["example_sentences", "example"],
+}
+
+/**
+ * Limits applied to explanation responses
+ */
+export const EXPLANATION_LIMITS = {
+    fieldMaxLength: 400,
+    maxCollocations: 5,
+    maxExamples: 3,
+} as const
+
+/**
+ * Alternative key names accepted in reading responses
+ */
+export const READING_RESPONSE_KEY_ALIASES: Readonly<Record<string, readonly string[]>> = {
+    segments: ["readings", "characters", "words", "tokens", "ruby"],
+}
+
+/**
+ * Alternative key names accepted in each reading segment
+ */
+export const READING_SEGMENT_KEY_ALIASES: Readonly<Record<string, readonly string[]>> = {
+    text: ["base", "word", "character", "characters", "surface"],
+    reading: ["pinyin", "kana", "furigana", "romaja", "romanization", "pronunciation"],
+}
+
+/**
+ * Limits applied to reading responses
+ */
+export const READING_LIMITS = {
+    readingMaxLength: 64,
+} as const
+
+/**
+ * Alternative key names accepted in gloss responses
+ */
+export const GLOSS_RESPONSE_KEY_ALIASES: Readonly<Record<string, readonly string[]>> = {
+    glosses: ["translations", "words", "results", "items"],
+}
+
+/**
+ * Alternative key names accepted in each gloss
+ */
+export const GLOSS_ENTRY_KEY_ALIASES: Readonly<Record<string, readonly string[]>> = {
+    word: ["term", "source", "text", "original"],
+    translation: ["gloss", "meaning", "target", "word_translation"],
+}
+
+/**
+ * Limits applied to gloss responses
+ */
+export const GLOSS_LIMITS = {
+    translationMaxLength: 64,
+} as const
+
+/**
+ * Alternative key names accepted in follow-up chat responses
+ */
+export const FOLLOW_UP_RESPONSE_KEY_ALIASES: Readonly<Record<string, readonly string[]>> = {
+    reply: ["answer", "response", "message", "content", "text"],
+}
+
+/**
+ * Earlier question/answer turns sent with a follow-up question (older turns are dropped)
+ */
+export const FOLLOW_UP_MAX_HISTORY_TURNS = 10
+
+/**
+ * Follow-up instruction sent once when a response cannot be parsed as JSON ({keys} = expected keys)
+ */
+export const JSON_CORRECTION_PROMPT =
+    "Your previous response could not be parsed as JSON. Reply again with only a single valid JSON object with the keys {keys}. Do not use markdown code fences, comments or any other text."
+
+/**
+ * Response objects requested from endpoints that support strict schemas or function calling
+ */
+export const WORD_RESPONSE_SCHEMA: ResponseSchema = {
+    name: "word_translation",
+    description: "Translation of the target word and its text fragment",
+    properties: {
+        word_translation: "Translation of the target word in context",
+        fragment_translation: "Translation of the text fragment containing the word (empty string without a fragment)",
+        lemma: "Dictionary form of the word",
+        phonetic: "IPA pronunciation of the lemma, without slashes",
+        part_of_speech: "Part of speech abbreviation (n., v., adj., ...)",
+        definition: "Short definition of the meaning in context, in the target language",
+    },
+    arrayProperties: {
+        alternative_senses: {
+            description: "Other common senses of the word (empty when the word is not ambiguous)",
+            items: {
+                translation: "Translation of the word in this sense",
+                gloss: "Short gloss of the sense, in the target language",
+                example: "Short example sentence using the word in this sense, in the source language",
+            },
+        },
+    },
+    required: ["word_translation"],
+}
+
+export const FRAGMENT_RESPONSE_SCHEMA: ResponseSchema = {
+    name: "fragment_translation",
+    description: "Translation of the target fragment and its sentence",
+    properties: {
+        translation: "Translation of the target fragment",
+        sentence_translation: "Translation of the complete sentence containing the fragment",
+    },
+    required: ["translation"],
+}
+
+export const FRAGMENT_ONLY_RESPONSE_SCHEMA: ResponseSchema = {
+    name: "fragment_translation",
+    description: "Translation of the target fragment",
+    properties: {
+        translation: "Translation of the target fragment",
+    },
+    required: ["translation"],
+}
+
+export const FOLLOW_UP_RESPONSE_SCHEMA: ResponseSchema = {
+    name: "follow_up_reply",
+    description: "Answer to the user's question about the translation",
+    properties: {
+        reply: "Answer to the question, in the language the user asked in",
+    },
+    required: ["reply"],
+}
+
+/**
+ * Structured output modes in order of preference; "text" is used when none is accepted
+ */
+export const STRUCTURED_OUTPUT_PROBE_ORDER: readonly StructuredOutputMode[] = ["json_schema", "tool_call", "json_object"]
+export const DEFAULT_STRUCTURED_OUTPUT_MODE: StructuredOutputMode = "json_object"
+
+/**
+ * Request used to test a structured output mode
+ */
+export const STRUCTURED_OUTPUT_PROBE_SCHEMA: ResponseSchema = {
+    name: "capability_probe",
+    description: "Confirmation that the request was understood",
+    properties: {
+        answer: 'Always "yes"',
+    },
+    required: ["answer"],
+}
+export const STRUCTURED_OUTPUT_PROBE_PROMPT = 'Reply with the JSON object {"answer": "yes"} and nothing else.'
+
+/**
+ * chrome.storage.local key of the detected endpoint capabilities (keyed by base URL and model)
+ */
+export const ENDPOINT_CAPABILITIES_STORAGE_KEY = "llmEndpointCapabilities"
@@ -7,18 +7,84 @@
 // Services
 export { WordTranslationService, createWordTranslationService, translateWord } from "./services/WordTranslationService"
 export { FragmentTranslationService, createFragmentTranslationService, translateFragment } from "./services/FragmentTranslationService"
-export { OpenAICompatibleClient, createOpenAICompatibleClient } from "./services/llm/OpenAICompatibleClient"
+export { ExplanationService, createExplanationService, explainText } from "./services/ExplanationService"
+export { FollowUpChatService, createFollowUpChatService, replyToFollowUp } from "./services/FollowUpChatService"
+export { ReadingService, createReadingService, annotateReading } from "./services/ReadingService"
+export { GlossService, createGlossService, glossWords } from "./services/GlossService"
+export { OpenAICompatibleClient, createOpenAICompatibleClient, detectStructuredOutputMode } from "./services/llm/OpenAICompatibleClient"
+export { AnthropicMessagesClient, createAnthropicMessagesClient } from "./services/llm/AnthropicMessagesClient"
+export { OllamaChatClient, createOllamaChatClient, listOllamaModels } from "./services/llm/OllamaChatClient"
+export { createLLMClient } from "./services/llm/LLMClientFactory"
+
+// Prompts
+export { loadSystemPrompt, loadUserPromptTemplate, loadFewshot } from "./utils/promptLoader"
+export {
+    getStoredPromptOverride,
+    getPromptOverride,
+    savePromptOverride,
+    resetPromptOverride,
+    validatePromptOverride,
+    isValidFewshot,
+} from "./utils/promptOverrides"
+export type { PromptOverride, PromptValidationResult } from "./utils/promptOverrides"
+export { buildPromptPreview } from "./utils/promptPreview"
+export type { PromptSet } from "./utils/promptPreview"
+
+// Endpoint capabilities
+export { getEndpointCapabilities, saveEndpointCapabilities } from "./utils/endpointCapabilities"
 
 // Types
 export type {
     LLMConfig,
+    LLMApiFormat,
+    LLMClient,
+    StructuredOutputMode,
+    ResponseSchema,
+    GenerateOptions,
+    EndpointCapabilities,
     WordTranslationRequest,
     WordTranslationResult,
+    WordDictionaryFields,
+    WordSense,
+    TranslationStyle,
     FragmentTranslationRequest,
     FragmentTranslationResult,
+    ExplanationRequest,
+    ExplanationResult,
+    ExplanationExample,
+    FollowUpChatRequest,
+    FollowUpTurn,
+    ReadingRequest,
+    ReadingResult,
+    ReadingSegment,
+    GlossRequest,
+    GlossEntry,
+    GlossResult,
     ChatMessage,
     ChatRole,
+    PartialTranslation,
+    PartialTranslationCallback,
 } from "./types/GenerateTypes"
 
+// Errors
+export { LLMRequestError } from "./types/LLMRequestError"
+export type { LLMRequestErrorType } from "./types/LLMRequestError"
+
 // Constants
-export { DEFAULT_TEMPERATURE, DEFAULT_MAX_TOKENS, DEFAULT_TIMEOUT } from "./constants/GenerateConstants"
+export {
+    DEFAULT_TEMPERATURE,
+    DEFAULT_MAX_TOKENS,
+    DEFAULT_TIMEOUT,
+    TASK_WORD_TRANSLATION,
+    TASK_FRAGMENT_TRANSLATION,
+    TASK_FRAGMENT_ONLY_TRANSLATION,
+    TASK_EXPLANATION,
+    TASK_FOLLOW_UP_CHAT,
+    TASK_READING,
+    TASK_GLOSS,
+    PROMPT_TEMPLATE_VARIABLES,
+    PROMPT_FEWSHOT_TASKS,
+    PROMPT_OVERRIDE_ALL_LANGUAGES,
+    PROMPT_OVERRIDES_STORAGE_KEY,
+    TRANSLATION_STYLE_INSTRUCTIONS,
+} from "./constants/GenerateConstants"
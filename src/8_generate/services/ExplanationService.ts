@@ -0,0 +1,162 @@
+/**
+ * Explanation Service
+ *
+ * Explains the grammar and usage of a translated word or fragment using local LLM generation
+ */
+
+import * as loggerModule from "@/0_common/utils/logger"
+import type {
+    ChatMessage,
+    ExplanationExample,
+    ExplanationRequest,
+    ExplanationResult,
+    LLMClient,
+    LLMConfig,
+    LLMExplanationResponse,
+} from "../types/GenerateTypes"
+import * as jsonResponseParserModule from "../utils/jsonResponseParser"
+import * as promptLoaderModule from "../utils/promptLoader"
+import * as promptOverridesModule from "../utils/promptOverrides"
+import type { PromptOverride } from "../utils/promptOverrides"
+import * as promptVariablesModule from "../utils/promptVariables"
+import * as templateRendererModule from "../utils/templateRenderer"
+import * as constants from "../constants/GenerateConstants"
+import { LLMRequestError } from "../types/LLMRequestError"
+import { createLLMClient } from "./llm/LLMClientFactory"
+
+const logger = loggerModule.createLogger("8_generate/ExplanationService")
+
+/**
+ * Read a non-empty string field, truncated to the field length limit
+ */
+function readText(value: unknown): string | undefined {
+    if (typeof value !== "string") {
+        return undefined
+    }
+    const trimmed = value.trim()
+    return trimmed ? trimmed.slice(0, constants.EXPLANATION_LIMITS.fieldMaxLength) : undefined
+}
+
+function readCollocations(value: unknown): string[] {
+    const items = Array.isArray(value) ? value : typeof value === "string" ? value.split(/\n|;/) : []
+    return items
+        .map((item) => readText(item))
+        .filter((item): item is string => item !== undefined)
+        .slice(0, constants.EXPLANATION_LIMITS.maxCollocations)
+}
+
+function readExamples(value: unknown): ExplanationExample[] {
+    if (!Array.isArray(value)) {
+        return []
+    }
+
+    const examples: ExplanationExample[] = []
+    for (const item of value) {
+        // Accept plain strings as examples without a translation
+        const example = typeof item === "string" ? { sentence: item } : item && typeof item === "object" ? (item as Record<string, unknown>) : {}
+        const sentence = readText(example.sentence ?? example.example)
+        if (sentence) {
+            examples.push({ sentence, translation: readText(example.translation) ?? "" })
+        }
+    }
+    return examples.slice(0, constants.EXPLANATION_LIMITS.maxExamples)
+}
+
+/**
+ * Validate and normalize an explanation response
+ * @param content Raw model output
+ * @returns Explanation result
+ * @throws Error if the response has no grammatical role
+ */
+export function parseExplanationResponse(content: string): ExplanationResult {
+    const parsed = jsonResponseParserModule.parseJsonResponse(content, constants.EXPLANATION_RESPONSE_KEY_ALIASES) as Partial<
+        Record<keyof LLMExplanationResponse, unknown>
+    >
+
+    const grammaticalRole = readText(parsed.grammatical_role)
+    if (!grammaticalRole) {
+        throw new Error("Missing grammatical_role in response")
+    }
+
+    return {
+        partOfSpeech: readText(parsed.part_of_speech),
+        grammaticalRole,
+        collocations: readCollocations(parsed.collocations),
+        register: readText(parsed.register),
+        examples: readExamples(parsed.examples),
+    }
+}
+
+export class ExplanationService {
+    private client: LLMClient
+    private systemPrompt: string | null = null
+    private userPromptTemplate: string | null = null
+
+    constructor(config: LLMConfig) {
+        this.client = createLLMClient(config)
+        logger.info("ExplanationService initialized")
+    }
+
+    async initialize(): Promise<void> {
+        logger.debug("Loading prompts for explanation")
+        this.systemPrompt = await promptLoaderModule.loadSystemPrompt(constants.TASK_EXPLANATION)
+        this.userPromptTemplate = await promptLoaderModule.loadUserPromptTemplate(constants.TASK_EXPLANATION)
+        logger.info("Explanation prompts loaded successfully")
+    }
+
+    private buildMessages(request: ExplanationRequest, override?: PromptOverride): ChatMessage[] {
+        const systemPrompt = override?.systemPrompt ?? this.systemPrompt
+        const userPromptTemplate = override?.userPromptTemplate ?? this.userPromptTemplate
+        if (!systemPrompt || !userPromptTemplate) {
+            throw new Error("Service not initialized. Call initialize() first.")
+        }
+
+        const userPrompt = templateRendererModule.renderTemplate(userPromptTemplate, promptVariablesModule.buildExplanationPromptVariables(request))
+        return [{ role: "system", content: systemPrompt }, ...(override?.fewshot ?? []), { role: "user", content: userPrompt }]
+    }
+
+    private parseModelResponse(content: string): ExplanationResult {
+        try {
+            return parseExplanationResponse(content)
+        } catch (error) {
+            logger.error("Failed to parse explanation LLM response:", error)
+            throw new LLMRequestError("invalidResponse", "Could not parse explanation response from LLM")
+        }
+    }
+
+    async explain(request: ExplanationRequest): Promise<ExplanationResult> {
+        if (!this.systemPrompt || !this.userPromptTemplate) {
+            throw new Error("Service not initialized. Call initialize() first.")
+        }
+
+        logger.debug("Starting explanation")
+
+        const override = await promptOverridesModule.getPromptOverride(constants.TASK_EXPLANATION, request.targetLanguage)
+        const messages = this.buildMessages(request, override)
+        const rawContent = await this.client.generate(messages)
+
+        // Unparsable output gets one corrective retry
+        const result = await jsonResponseParserModule.parseWithCorrectiveRetry(
+            this.client,
+            messages,
+            rawContent,
+            Object.keys(constants.EXPLANATION_RESPONSE_KEY_ALIASES),
+            (content) => this.parseModelResponse(content)
+        )
+
+        logger.info("Explanation completed")
+
+        return result
+    }
+}
+
+export async function createExplanationService(config: LLMConfig): Promise<ExplanationService> {
+    const service = new ExplanationService(config)
+    await service.initialize()
+    return service
+}
+
+export async function explainText(request: ExplanationRequest, config: LLMConfig): Promise<ExplanationResult> {
+    const service = await createExplanationService(config)
+    return service.explain(request)
+}
@@ -0,0 +1,94 @@
+/**
+ * Follow-up Chat Service
+ *
+ * Answers follow-up questions about a translation using local LLM generation
+ */
+
+import * as loggerModule from "@/0_common/utils/logger"
+import type { ChatMessage, FollowUpChatRequest, LLMClient, LLMConfig } from "../types/GenerateTypes"
+import * as followUpMessagesModule from "../utils/followUpMessages"
+import * as jsonResponseParserModule from "../utils/jsonResponseParser"
+import * as promptLoaderModule from "../utils/promptLoader"
+import * as promptOverridesModule from "../utils/promptOverrides"
+import * as constants from "../constants/GenerateConstants"
+import { LLMRequestError } from "../types/LLMRequestError"
+import { createLLMClient } from "./llm/LLMClientFactory"
+
+const logger = loggerModule.createLogger("8_generate/FollowUpChatService")
+
+export class FollowUpChatService {
+    private client: LLMClient
+    private systemPrompt: string | null = null
+    private userPromptTemplate: string | null = null
+
+    constructor(config: LLMConfig) {
+        this.client = createLLMClient(config)
+        logger.info("FollowUpChatService initialized")
+    }
+
+    async initialize(): Promise<void> {
+        logger.debug("Loading prompts for follow-up chat")
+        this.systemPrompt = await promptLoaderModule.loadSystemPrompt(constants.TASK_FOLLOW_UP_CHAT)
+        this.userPromptTemplate = await promptLoaderModule.loadUserPromptTemplate(constants.TASK_FOLLOW_UP_CHAT)
+        logger.info("Follow-up chat prompts loaded successfully")
+    }
+
+    private parseModelResponse(content: string): string {
+        try {
+            const parsed = jsonResponseParserModule.parseJsonResponse(content, constants.FOLLOW_UP_RESPONSE_KEY_ALIASES)
+            if (typeof parsed.reply !== "string" || !parsed.reply.trim()) {
+                throw new Error("Missing reply in response")
+            }
+            return parsed.reply.trim()
+        } catch (error) {
+            logger.error("Failed to parse follow-up LLM response:", error)
+            throw new LLMRequestError("invalidResponse", "Could not parse follow-up response from LLM")
+        }
+    }
+
+    async reply(request: FollowUpChatRequest): Promise<string> {
+        if (!this.systemPrompt || !this.userPromptTemplate) {
+            throw new Error("Service not initialized. Call initialize() first.")
+        }
+
+        logger.debug(`Answering follow-up question (${request.history.length} earlier turns)`)
+
+        const override = await promptOverridesModule.getPromptOverride(constants.TASK_FOLLOW_UP_CHAT, request.targetLanguage)
+        const messages: ChatMessage[] = followUpMessagesModule.buildFollowUpMessages(
+            {
+                systemPrompt: override?.systemPrompt ?? this.systemPrompt,
+                userPromptTemplate: override?.userPromptTemplate ?? this.userPromptTemplate,
+                fewshot: override?.fewshot,
+            },
+            request
+        )
+
+        const options = { responseSchema: constants.FOLLOW_UP_RESPONSE_SCHEMA }
+        const rawContent = await this.client.generate(messages, options)
+
+        // Unparsable output gets one corrective retry
+        const reply = await jsonResponseParserModule.parseWithCorrectiveRetry(
+            this.client,
+            messages,
+            rawContent,
+            ["reply"],
+            (content) => this.parseModelResponse(content),
+            options
+        )
+
+        logger.info("Follow-up reply completed")
+
+        return reply
+    }
+}
+
+export async function createFollowUpChatService(config: LLMConfig): Promise<FollowUpChatService> {
+    const service = new FollowUpChatService(config)
+    await service.initialize()
+    return service
+}
+
+export async function replyToFollowUp(request: FollowUpChatRequest, config: LLMConfig): Promise<string> {
+    const service = await createFollowUpChatService(config)
+    return service.reply(request)
+}
@@ -9,47 +9,33 @@ import type {
     ChatMessage,
     FragmentTranslationRequest,
     FragmentTranslationResult,
+    LLMClient,
     LLMConfig,
     LLMFragmentTranslationResponse,
+    PartialTranslationCallback,
 } from "../types/GenerateTypes"
+import * as jsonResponseParserModule from "../utils/jsonResponseParser"
+import * as partialJsonParserModule from "../utils/partialJsonParser"
 import * as promptLoaderModule from "../utils/promptLoader"
+import * as promptOverridesModule from "../utils/promptOverrides"
+import type { PromptOverride } from "../utils/promptOverrides"
+import * as promptVariablesModule from "../utils/promptVariables"
 import * as templateRendererModule from "../utils/templateRenderer"
-import * as languageUtilsModule from "../utils/languageUtils"
 import * as constants from "../constants/GenerateConstants"
-import { OpenAICompatibleClient } from "./llm/OpenAICompatibleClient"
+import { LLMRequestError } from "../types/LLMRequestError"
+import { createLLMClient } from "./llm/LLMClientFactory"
 
 const logger = loggerModule.createLogger("8_generate/FragmentTranslationService")
 
-function escapeXmlChars(text: string): string {
-    return text.replace(/</g, "&lt;").replace(/>/g, "&gt;")
-}
-
-function buildOptionalSection(title: string, value: string | undefined): string {
-    if (value && value.trim().length > 0) {
-        return `# ${title}\n${value.trim()}`
-    }
-    return ""
-}
-
-function buildContextText(params: { previousSentences?: string[]; highlightedText: string; nextSentences?: string[] }): string {
-    const cleanPrevious = (params.previousSentences ?? []).map((s) => s.replace(/\n/g, " ").trim()).filter(Boolean)
-    const cleanNext = (params.nextSentences ?? []).map((s) => s.replace(/\n/g, " ").trim()).filter(Boolean)
-
-    const previousText = cleanPrevious.join(" ")
-    const nextText = cleanNext.join(" ")
-
-    return [previousText, params.highlightedText, nextText].filter((part) => part.trim().length > 0).join(" ")
-}
-
 export class FragmentTranslationService {
-    private client: OpenAICompatibleClient
+    private client: LLMClient
     private systemPromptWithSentence: string | null = null
     private userPromptWithSentence: string | null = null
     private systemPromptFragmentOnly: string | null = null
     private userPromptFragmentOnly: string | null = null
 
     constructor(config: LLMConfig) {
-        this.client = new OpenAICompatibleClient(config)
+        this.client = createLLMClient(config)
         logger.info("FragmentTranslationService initialized")
     }
 
@@ -62,146 +48,87 @@ export class FragmentTranslationService {
         logger.info("Fragment translation prompts loaded successfully")
     }
 
-    private buildUserPromptWithSentence(request: FragmentTranslationRequest): string {
-        if (!this.userPromptWithSentence) {
-            throw new Error("Service not initialized. Call initialize() first.")
-        }
-
-        const { fragment, leadingText, trailingText, sourceLanguage, targetLanguage, contextInfo } = request
-        const { sourceName, targetName } = languageUtilsModule.getLanguageNames(sourceLanguage, targetLanguage)
-
-        const cleanFragmentText = fragment.replace(/\n/g, " ").trim()
-        const cleanLeadingText = (leadingText ?? "").replace(/\n/g, " ")
-        const cleanTrailingText = (trailingText ?? "").replace(/\n/g, " ")
-        const cleanSentenceText = `${cleanLeadingText}${cleanFragmentText}${cleanTrailingText}`.trim()
-
-        const escapedFragment = escapeXmlChars(cleanFragmentText)
-        const escapedLeading = escapeXmlChars(cleanLeadingText)
-        const escapedTrailing = escapeXmlChars(cleanTrailingText)
-
-        const highlightedSentence = `<sentence>${escapedLeading}<fragment>${escapedFragment}</fragment>${escapedTrailing}</sentence>`
-        const contextText = buildContextText({
-            previousSentences: contextInfo?.previousSentences,
-            highlightedText: highlightedSentence,
-            nextSentences: contextInfo?.nextSentences,
-        })
-
-        const sourceLanguageSection = buildOptionalSection("Source Language", sourceName)
-        const targetLanguageSection = buildOptionalSection("Target Language", targetName)
-        const targetFragmentSection = buildOptionalSection("Target Fragment", cleanFragmentText)
-        const targetSentenceSection = buildOptionalSection("Target Sentence", cleanSentenceText)
-        const contextSection = buildOptionalSection("Context", contextText)
-        const sourceTypeSection = buildOptionalSection("Source Type", contextInfo?.sourceType)
-        const sourceTitleSection = buildOptionalSection("Source Title", contextInfo?.sourceTitle)
-        const sourceAuthorSection = buildOptionalSection("Source Author", contextInfo?.sourceAuthor)
-
-        const variables: Record<string, string | undefined> = {
-            sourceLanguageSection,
-            targetLanguageSection,
-            targetFragmentSection,
-            targetSentenceSection,
-            contextSection,
-            sourceTypeSection,
-            sourceTitleSection,
-            sourceAuthorSection,
-        }
-
-        return templateRendererModule.renderTemplate(this.userPromptWithSentence, variables)
-    }
-
-    private buildUserPromptFragmentOnly(request: FragmentTranslationRequest): string {
-        if (!this.userPromptFragmentOnly) {
-            throw new Error("Service not initialized. Call initialize() first.")
-        }
-
-        const { fragment, sourceLanguage, targetLanguage, contextInfo } = request
-        const { sourceName, targetName } = languageUtilsModule.getLanguageNames(sourceLanguage, targetLanguage)
-
-        const cleanFragmentText = fragment.replace(/\n/g, " ").trim()
-        const escapedFragment = escapeXmlChars(cleanFragmentText)
-
-        const highlightedFragment = `<fragment>${escapedFragment}</fragment>`
-        const contextText = buildContextText({
-            previousSentences: contextInfo?.previousSentences,
-            highlightedText: highlightedFragment,
-            nextSentences: contextInfo?.nextSentences,
-        })
-
-        const sourceLanguageSection = buildOptionalSection("Source Language", sourceName)
-        const targetLanguageSection = buildOptionalSection("Target Language", targetName)
-        const targetFragmentSection = buildOptionalSection("Target Fragment", cleanFragmentText)
-        const contextSection = buildOptionalSection("Context", contextText)
-        const sourceTypeSection = buildOptionalSection("Source Type", contextInfo?.sourceType)
-        const sourceTitleSection = buildOptionalSection("Source Title", contextInfo?.sourceTitle)
-        const sourceAuthorSection = buildOptionalSection("Source Author", contextInfo?.sourceAuthor)
-
-        const variables: Record<string, string | undefined> = {
-            sourceLanguageSection,
-            targetLanguageSection,
-            targetFragmentSection,
-            contextSection,
-            sourceTypeSection,
-            sourceTitleSection,
-            sourceAuthorSection,
-        }
-
-        return templateRendererModule.renderTemplate(this.userPromptFragmentOnly, variables)
-    }
-
-    private buildMessages(request: FragmentTranslationRequest): { messages: ChatMessage[]; expectsSentence: boolean } {
+    private buildMessages(request: FragmentTranslationRequest, override?: PromptOverride): { messages: ChatMessage[]; expectsSentence: boolean } {
         const hasSentence = Boolean(request.leadingText || request.trailingText)
-        const messages: ChatMessage[] = []
-
-        if (hasSentence) {
-            if (!this.systemPromptWithSentence) {
-                throw new Error("Service not initialized. Call initialize() first.")
-            }
-            const userPrompt = this.buildUserPromptWithSentence(request)
-            messages.push({ role: "system", content: this.systemPromptWithSentence })
-            messages.push({ role: "user", content: userPrompt })
-            return { messages, expectsSentence: true }
-        }
+        const bundledSystemPrompt = hasSentence ? this.systemPromptWithSentence : this.systemPromptFragmentOnly
+        const bundledUserPrompt = hasSentence ? this.userPromptWithSentence : this.userPromptFragmentOnly
 
-        if (!this.systemPromptFragmentOnly) {
+        const systemPrompt = override?.systemPrompt ?? bundledSystemPrompt
+        const userPromptTemplate = override?.userPromptTemplate ?? bundledUserPrompt
+        if (!systemPrompt || !userPromptTemplate) {
             throw new Error("Service not initialized. Call initialize() first.")
         }
 
-        const userPrompt = this.buildUserPromptFragmentOnly(request)
-        messages.push({ role: "system", content: this.systemPromptFragmentOnly })
-        messages.push({ role: "user", content: userPrompt })
-        return { messages, expectsSentence: false }
+        const variables = hasSentence
+            ? promptVariablesModule.buildFragmentPromptVariables(request)
+            : promptVariablesModule.buildFragmentOnlyPromptVariables(request)
+        const userPrompt = templateRendererModule.renderTemplate(userPromptTemplate, variables)
+
+        // Bundled fragment prompts are zero-shot; few-shot examples only come from a user override
+        const messages: ChatMessage[] = [
+            { role: "system", content: systemPrompt },
+            ...(override?.fewshot ?? []),
+            { role: "user", content: userPrompt },
+        ]
+        return { messages, expectsSentence: hasSentence }
     }
 
     private parseModelResponse(content: string, expectsSentence: boolean): FragmentTranslationResult {
         try {
-            const parsed = JSON.parse(content) as LLMFragmentTranslationResponse
+            const parsed = jsonResponseParserModule.parseJsonResponse(
+                content,
+                constants.FRAGMENT_RESPONSE_KEY_ALIASES
+            ) as Partial<LLMFragmentTranslationResponse>
 
-            if (!parsed.translation) {
+            if (typeof parsed.translation !== "string" || !parsed.translation.trim()) {
                 throw new Error("Missing translation in response")
             }
 
             return {
                 translation: parsed.translation.trim(),
-                sentenceTranslation: expectsSentence ? parsed.sentence_translation?.trim() : undefined,
+                sentenceTranslation:
+                    expectsSentence && typeof parsed.sentence_translation === "string" ? parsed.sentence_translation.trim() : undefined,
             }
         } catch (error) {
             logger.error("Failed to parse fragment LLM response:", error)
-            throw new Error("Could not parse fragment translation response from LLM")
+            throw new LLMRequestError("invalidResponse", "Could not parse fragment translation response from LLM")
         }
     }
 
-    async translateFragment(request: FragmentTranslationRequest): Promise<FragmentTranslationResult> {
+    async translateFragment(request: FragmentTranslationRequest, onPartial?: PartialTranslationCallback): Promise<FragmentTranslationResult> {
         if (!this.systemPromptWithSentence || !this.userPromptWithSentence || !this.systemPromptFragmentOnly || !this.userPromptFragmentOnly) {
             throw new Error("Service not initialized. Call initialize() first.")
         }
 
         logger.debug("Starting fragment translation")
 
-        const { messages, expectsSentence } = this.buildMessages(request)
-
-        const rawContent = await this.client.generate(messages)
-
-        const result = this.parseModelResponse(rawContent, expectsSentence)
+        const hasSentence = Boolean(request.leadingText || request.trailingText)
+        const task = hasSentence ? constants.TASK_FRAGMENT_TRANSLATION : constants.TASK_FRAGMENT_ONLY_TRANSLATION
+        const override = await promptOverridesModule.getPromptOverride(task, request.targetLanguage)
+
+        const { messages, expectsSentence } = this.buildMessages(request, override)
+
+        // Streamed when a partial result listener is given; the complete response is still validated below
+        const options = { responseSchema: expectsSentence ? constants.FRAGMENT_RESPONSE_SCHEMA : constants.FRAGMENT_ONLY_RESPONSE_SCHEMA }
+        const rawContent =
+            onPartial && this.client.generateStream
+                ? await this.client.generateStream(
+                      messages,
+                      partialJsonParserModule.createPartialTranslationReader("translation", "sentence_translation", onPartial),
+                      options
+                  )
+                : await this.client.generate(messages, options)
+
+        // Unparsable output gets one corrective retry
+        const expectedKeys = expectsSentence ? Object.keys(constants.FRAGMENT_RESPONSE_KEY_ALIASES) : ["translation"]
+        const result = await jsonResponseParserModule.parseWithCorrectiveRetry(
+            this.client,
+            messages,
+            rawContent,
+            expectedKeys,
+            (content) => this.parseModelResponse(content, expectsSentence),
+            options
+        )
 
         logger.info("Fragment translation completed")
 
@@ -0,0 +1,152 @@
+/**
+ * Gloss Service
+ *
+ * Translates several words of one paragraph in a single request using local LLM generation (immersive vocabulary)
+ */
+
+import * as loggerModule from "@/0_common/utils/logger"
+import type { ChatMessage, GlossEntry, GlossRequest, GlossResult, LLMClient, LLMConfig, LLMGlossResponse } from "../types/GenerateTypes"
+import * as jsonResponseParserModule from "../utils/jsonResponseParser"
+import * as promptLoaderModule from "../utils/promptLoader"
+import * as promptOverridesModule from "../utils/promptOverrides"
+import type { PromptOverride } from "../utils/promptOverrides"
+import * as promptVariablesModule from "../utils/promptVariables"
+import * as templateRendererModule from "../utils/templateRenderer"
+import * as constants from "../constants/GenerateConstants"
+import { LLMRequestError } from "../types/LLMRequestError"
+import { createLLMClient } from "./llm/LLMClientFactory"
+
+const logger = loggerModule.createLogger("8_generate/GlossService")
+
+/**
+ * Read the glosses of a response: a list of objects ({"word", "translation"} or an alias) or [word, translation] pairs,
+ * or an object mapping each word to its translation
+ */
+function readGlossEntries(value: unknown): Array<{ word: unknown; translation: unknown }> {
+    if (Array.isArray(value)) {
+        return value.map((item: unknown) => {
+            if (Array.isArray(item)) {
+                const [word, translation] = item as unknown[]
+                return { word, translation }
+            }
+            if (item && typeof item === "object") {
+                const fields = jsonResponseParserModule.mapResponseKeys(item as Record<string, unknown>, constants.GLOSS_ENTRY_KEY_ALIASES)
+                return { word: fields.word, translation: fields.translation }
+            }
+            return { word: undefined, translation: undefined }
+        })
+    }
+    if (value && typeof value === "object") {
+        return Object.entries(value as Record<string, unknown>).map(([word, translation]) => ({ word, translation }))
+    }
+    throw new Error("Missing glosses in response")
+}
+
+/**
+ * Validate and normalize a gloss response
+ * Glosses of words that were not requested are dropped; requested words the model skipped are left out.
+ * @param content Raw model output
+ * @param words Words the glosses were requested for
+ * @returns Glosses in request order, each with the word as requested
+ * @throws Error if no requested word was glossed
+ */
+export function parseGlossResponse(content: string, words: readonly string[]): GlossResult {
+    const parsed = jsonResponseParserModule.parseJsonResponse(content, constants.GLOSS_RESPONSE_KEY_ALIASES) as Partial<
+        Record<keyof LLMGlossResponse, unknown>
+    >
+
+    // A bare {"word": "translation"} map arrives without the glosses key
+    const translations = new Map<string, string>()
+    for (const { word, translation } of readGlossEntries(parsed.glosses ?? parsed)) {
+        if (typeof word !== "string" || typeof translation !== "string" || !translation.trim()) {
+            continue
+        }
+        const key = word.trim().toLowerCase()
+        if (!translations.has(key)) {
+            translations.set(key, translation.trim().slice(0, constants.GLOSS_LIMITS.translationMaxLength))
+        }
+    }
+
+    const glosses = words
+        .map((word) => ({ word, translation: translations.get(word.trim().toLowerCase()) }))
+        .filter((entry): entry is GlossEntry => entry.translation !== undefined)
+    if (glosses.length === 0) {
+        throw new Error("No requested word was glossed")
+    }
+
+    return { glosses }
+}
+
+export class GlossService {
+    private client: LLMClient
+    private systemPrompt: string | null = null
+    private userPromptTemplate: string | null = null
+
+    constructor(config: LLMConfig) {
+        this.client = createLLMClient(config)
+        logger.info("GlossService initialized")
+    }
+
+    async initialize(): Promise<void> {
+        logger.debug("Loading prompts for gloss")
+        this.systemPrompt = await promptLoaderModule.loadSystemPrompt(constants.TASK_GLOSS)
+        this.userPromptTemplate = await promptLoaderModule.loadUserPromptTemplate(constants.TASK_GLOSS)
+        logger.info("Gloss prompts loaded successfully")
+    }
+
+    private buildMessages(request: GlossRequest, override?: PromptOverride): ChatMessage[] {
+        const systemPrompt = override?.systemPrompt ?? this.systemPrompt
+        const userPromptTemplate = override?.userPromptTemplate ?? this.userPromptTemplate
+        if (!systemPrompt || !userPromptTemplate) {
+            throw new Error("Service not initialized. Call initialize() first.")
+        }
+
+        const userPrompt = templateRendererModule.renderTemplate(userPromptTemplate, promptVariablesModule.buildGlossPromptVariables(request))
+        return [{ role: "system", content: systemPrompt }, ...(override?.fewshot ?? []), { role: "user", content: userPrompt }]
+    }
+
+    private parseModelResponse(content: string, words: readonly string[]): GlossResult {
+        try {
+            return parseGlossResponse(content, words)
+        } catch (error) {
+            logger.error("Failed to parse gloss LLM response:", error)
+            throw new LLMRequestError("invalidResponse", "Could not parse gloss response from LLM")
+        }
+    }
+
+    async gloss(request: GlossRequest): Promise<GlossResult> {
+        if (!this.systemPrompt || !this.userPromptTemplate) {
+            throw new Error("Service not initialized. Call initialize() first.")
+        }
+
+        logger.debug(`Starting gloss of ${request.words.length} words`)
+
+        const override = await promptOverridesModule.getPromptOverride(constants.TASK_GLOSS, request.targetLanguage)
+        const messages = this.buildMessages(request, override)
+        const rawContent = await this.client.generate(messages)
+
+        // Unparsable output or a response without any requested word gets one corrective retry
+        const result = await jsonResponseParserModule.parseWithCorrectiveRetry(
+            this.client,
+            messages,
+            rawContent,
+            Object.keys(constants.GLOSS_RESPONSE_KEY_ALIASES),
+            (content) => this.parseModelResponse(content, request.words)
+        )
+
+        logger.info(`Gloss completed: ${result.glosses.length} of ${request.words.length} words`)
+
+        return result
+    }
+}
+
+export async function createGlossService(config: LLMConfig): Promise<GlossService> {
+    const service = new GlossService(config)
+    await service.initialize()
+    return service
+}
+
+export async function glossWords(request: GlossRequest, config: LLMConfig): Promise<GlossResult> {
+    const service = await createGlossService(config)
+    return service.gloss(request)
+}
@@ -0,0 +1,142 @@
+/**
+ * Reading Service
+ *
+ * Annotates Chinese, Japanese or Korean text with its pronunciation (pinyin, kana or romaja) using local LLM generation
+ */
+
+import * as loggerModule from "@/0_common/utils/logger"
+import type { ChatMessage, LLMClient, LLMConfig, LLMReadingResponse, ReadingRequest, ReadingResult, ReadingSegment } from "../types/GenerateTypes"
+import * as jsonResponseParserModule from "../utils/jsonResponseParser"
+import * as promptLoaderModule from "../utils/promptLoader"
+import * as promptOverridesModule from "../utils/promptOverrides"
+import type { PromptOverride } from "../utils/promptOverrides"
+import * as promptVariablesModule from "../utils/promptVariables"
+import * as templateRendererModule from "../utils/templateRenderer"
+import * as constants from "../constants/GenerateConstants"
+import { LLMRequestError } from "../types/LLMRequestError"
+import { createLLMClient } from "./llm/LLMClientFactory"
+
+const logger = loggerModule.createLogger("8_generate/ReadingService")
+
+function removeWhitespace(text: string): string {
+    return text.replace(/\s+/g, "")
+}
+
+/**
+ * Read one segment: an object ({"text", "reading"} or an alias) or a [text, reading] pair
+ */
+function readSegment(value: unknown): ReadingSegment | null {
+    let fields: Record<string, unknown>
+    if (Array.isArray(value)) {
+        fields = { text: value[0], reading: value[1] }
+    } else if (value && typeof value === "object") {
+        fields = jsonResponseParserModule.mapResponseKeys(value as Record<string, unknown>, constants.READING_SEGMENT_KEY_ALIASES)
+    } else {
+        return null
+    }
+
+    if (typeof fields.text !== "string" || fields.text.length === 0) {
+        return null
+    }
+    const reading = typeof fields.reading === "string" ? fields.reading.trim().slice(0, constants.READING_LIMITS.readingMaxLength) : ""
+    return { text: fields.text, reading }
+}
+
+/**
+ * Validate and normalize a reading response
+ * @param content Raw model output
+ * @param text Text the reading was requested for
+ * @returns Reading result
+ * @throws Error if the segments do not reproduce the text (whitespace aside)
+ */
+export function parseReadingResponse(content: string, text: string): ReadingResult {
+    const parsed = jsonResponseParserModule.parseJsonResponse(content, constants.READING_RESPONSE_KEY_ALIASES) as Partial<
+        Record<keyof LLMReadingResponse, unknown>
+    >
+
+    if (!Array.isArray(parsed.segments)) {
+        throw new Error("Missing segments in response")
+    }
+
+    const segments = parsed.segments.map(readSegment).filter((segment): segment is ReadingSegment => segment !== null)
+    if (removeWhitespace(segments.map((segment) => segment.text).join("")) !== removeWhitespace(text)) {
+        throw new Error("Segments do not match the text")
+    }
+
+    return { segments }
+}
+
+export class ReadingService {
+    private client: LLMClient
+    private systemPrompt: string | null = null
+    private userPromptTemplate: string | null = null
+
+    constructor(config: LLMConfig) {
+        this.client = createLLMClient(config)
+        logger.info("ReadingService initialized")
+    }
+
+    async initialize(): Promise<void> {
+        logger.debug("Loading prompts for reading")
+        this.systemPrompt = await promptLoaderModule.loadSystemPrompt(constants.TASK_READING)
+        this.userPromptTemplate = await promptLoaderModule.loadUserPromptTemplate(constants.TASK_READING)
+        logger.info("Reading prompts loaded successfully")
+    }
+
+    private buildMessages(request: ReadingRequest, override?: PromptOverride): ChatMessage[] {
+        const systemPrompt = override?.systemPrompt ?? this.systemPrompt
+        const userPromptTemplate = override?.userPromptTemplate ?? this.userPromptTemplate
+        if (!systemPrompt || !userPromptTemplate) {
+            throw new Error("Service not initialized. Call initialize() first.")
+        }
+
+        const userPrompt = templateRendererModule.renderTemplate(userPromptTemplate, promptVariablesModule.buildReadingPromptVariables(request))
+        return [{ role: "system", content: systemPrompt }, ...(override?.fewshot ?? []), { role: "user", content: userPrompt }]
+    }
+
+    private parseModelResponse(content: string, text: string): ReadingResult {
+        try {
+            return parseReadingResponse(content, text)
+        } catch (error) {
+            logger.error("Failed to parse reading LLM response:", error)
+            throw new LLMRequestError("invalidResponse", "Could not parse reading response from LLM")
+        }
+    }
+
+    async read(request: ReadingRequest): Promise<ReadingResult> {
+        if (!this.systemPrompt || !this.userPromptTemplate) {
+            throw new Error("Service not initialized. Call initialize() first.")
+        }
+
+        logger.debug("Starting reading")
+
+        // Readings do not depend on the target language, so only the all-languages override applies
+        const override = await promptOverridesModule.getPromptOverride(constants.TASK_READING)
+        const messages = this.buildMessages(request, override)
+        const rawContent = await this.client.generate(messages)
+
+        // Unparsable output or segments that do not cover the text get one corrective retry
+        const result = await jsonResponseParserModule.parseWithCorrectiveRetry(
+            this.client,
+            messages,
+            rawContent,
+            Object.keys(constants.READING_RESPONSE_KEY_ALIASES),
+            (content) => this.parseModelResponse(content, request.text)
+        )
+
+        logger.info("Reading completed")
+
+        return result
+    }
+}
+
+export async function createReadingService(config: LLMConfig): Promise<ReadingService> {
+    const service = new ReadingService(config)
+    await service.initialize()
+    return service
+}
+
+export async function annotateReading(request: ReadingRequest, config: LLMConfig): Promise<ReadingResult> {
+    const service = await createReadingService(config)
+    return service.read(request)
+}
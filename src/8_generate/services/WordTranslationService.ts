@@ -5,45 +5,36 @@
  */
 
 import * as loggerModule from "@/0_common/utils/logger"
-import type { LLMConfig, WordTranslationRequest, WordTranslationResult, LLMTranslationResponse, ChatMessage } from "../types/GenerateTypes"
+import type {
+    LLMConfig,
+    LLMClient,
+    WordTranslationRequest,
+    WordTranslationResult,
+    LLMTranslationResponse,
+    ChatMessage,
+    PartialTranslationCallback,
+} from "../types/GenerateTypes"
+import * as dictionaryFieldsModule from "../utils/dictionaryFields"
+import * as jsonResponseParserModule from "../utils/jsonResponseParser"
+import * as partialJsonParserModule from "../utils/partialJsonParser"
 import * as promptLoaderModule from "../utils/promptLoader"
+import * as promptOverridesModule from "../utils/promptOverrides"
+import type { PromptOverride } from "../utils/promptOverrides"
+import * as promptVariablesModule from "../utils/promptVariables"
 import * as templateRendererModule from "../utils/templateRenderer"
-import * as languageUtilsModule from "../utils/languageUtils"
 import * as constants from "../constants/GenerateConstants"
-import { OpenAICompatibleClient } from "./llm/OpenAICompatibleClient"
+import { LLMRequestError } from "../types/LLMRequestError"
+import { createLLMClient } from "./llm/LLMClientFactory"
 
 const logger = loggerModule.createLogger("8_generate/WordTranslationService")
 
-/**
- * Escape XML special characters
- * @param text Text to escape
- * @returns Escaped text
- */
-function escapeXmlChars(text: string): string {
-    return text.replace(/</g, "&lt;").replace(/>/g, "&gt;")
-}
-
-/**
- * Build optional section with title and value
- * Returns formatted section if value exists, otherwise returns empty string
- * @param title Section title
- * @param value Section value
- * @returns Formatted section (# Title\nvalue) or empty string
- */
-function buildOptionalSection(title: string, value: string | undefined): string {
-    if (value && value.trim().length > 0) {
-        return `# ${title}\n${value.trim()}`
-    }
-    return ""
-}
-
 /**
  * Word Translation Service
  *
  * Class-based service for word translation with pre-initialized prompts and client
  */
 export class WordTranslationService {
-    private client: OpenAICompatibleClient
+    private client: LLMClient
     private systemPrompt: string | null = null
     private userPromptTemplate: string | null = null
 
@@ -52,7 +43,7 @@ export class WordTranslationService {
      * @param config LLM provider configuration
      */
     constructor(config: LLMConfig) {
-        this.client = new OpenAICompatibleClient(config)
+        this.client = createLLMClient(config)
         logger.info("WordTranslationService initialized")
     }
 
@@ -70,117 +61,58 @@ export class WordTranslationService {
     /**
      * Build user prompt for word translation
      * @param request Translation request
+     * @param userPromptTemplate User prompt template (bundled or user override)
      * @returns Rendered user prompt
      */
-    private buildUserPrompt(request: WordTranslationRequest): string {
-        if (!this.userPromptTemplate) {
-            throw new Error("Service not initialized. Call initialize() first.")
-        }
-
-        const { word, leadingText, trailingText, sourceLanguage, targetLanguage, contextInfo } = request
-
-        // Get language names
-        const { sourceName, targetName } = languageUtilsModule.getLanguageNames(sourceLanguage, targetLanguage)
-
-        // Clean input text: replace newlines with spaces and trim
-        const cleanWord = word.replace(/\n/g, " ").trim()
-
-        let contextText = ""
-        let sentenceValue = ""
-
-        if (!leadingText && !trailingText) {
-            // No context provided
-            contextText = ""
-            sentenceValue = ""
-        } else {
-            // Context provided: construct sentence and context
-            const cleanLeadingText = (leadingText ?? "").replace(/\n/g, " ")
-            const cleanTrailingText = (trailingText ?? "").replace(/\n/g, " ")
-            const cleanTarget = cleanWord
-
-            // Construct full sentence
-            const fullSentence = cleanLeadingText + cleanTarget + cleanTrailingText
-            const cleanSentence = fullSentence.trim()
-
-            // Build contextText with <fragment> and <target> tags
-            const escapedTarget = escapeXmlChars(cleanTarget)
-            const highlightedSentenceInContext = `<fragment>${cleanLeadingText}<target>${escapedTarget}</target>${cleanTrailingText}</fragment>`
-
-            // Include previous and next sentences if available
-            const cleanPreviousSentences = (contextInfo?.previousSentences ?? []).map((s) => s.replace(/\n/g, " ").trim())
-            const cleanNextSentences = (contextInfo?.nextSentences ?? []).map((s) => s.replace(/\n/g, " ").trim())
-
-            contextText = [cleanPreviousSentences.join(" "), highlightedSentenceInContext, cleanNextSentences.join(" ")]
-                .filter((part) => part && part.trim().length > 0)
-                .join(" ")
-
-            sentenceValue = cleanSentence
-        }
-
-        // Build all sections with titles using buildOptionalSection
-        const sourceLanguageSection = buildOptionalSection("Source Language", sourceName)
-        const targetLanguageSection = buildOptionalSection("Target Language", targetName)
-        const targetWordSection = buildOptionalSection("Target Word", cleanWord)
-        const dictionaryDefinitionSection = buildOptionalSection("Dictionary Definition", contextInfo?.dictionaryDefinition)
-        const textFragmentSection = buildOptionalSection("Text Fragment", sentenceValue)
-        const paragraphContextSection = buildOptionalSection("Paragraph Context", contextText)
-        const sourceTypeSection = buildOptionalSection("Source Type", contextInfo?.sourceType)
-        const sourceTitleSection = buildOptionalSection("Source Title", contextInfo?.sourceTitle)
-        const sourceAuthorSection = buildOptionalSection("Source Author", contextInfo?.sourceAuthor)
-
-        // Prepare template variables
-        const variables: Record<string, string | undefined> = {
-            sourceLanguageSection,
-            targetLanguageSection,
-            targetWordSection,
-            dictionaryDefinitionSection,
-            textFragmentSection,
-            paragraphContextSection,
-            sourceTypeSection,
-            sourceTitleSection,
-            sourceAuthorSection,
-        }
-
-        return templateRendererModule.renderTemplate(this.userPromptTemplate, variables)
+    private buildUserPrompt(request: WordTranslationRequest, userPromptTemplate: string): string {
+        const variables = promptVariablesModule.buildWordPromptVariables(request)
+        return templateRendererModule.renderTemplate(userPromptTemplate, variables)
     }
 
     /**
      * Build chat messages for LLM
      * @param request Translation request
      * @param fewshotExamples Few-shot examples
+     * @param override User prompt override for the request's target language
      * @returns Array of chat messages
      */
-    private buildMessages(request: WordTranslationRequest, fewshotExamples: ChatMessage[]): ChatMessage[] {
-        if (!this.systemPrompt) {
+    private buildMessages(request: WordTranslationRequest, fewshotExamples: ChatMessage[], override?: PromptOverride): ChatMessage[] {
+        const systemPrompt = override?.systemPrompt ?? this.systemPrompt
+        const userPromptTemplate = override?.userPromptTemplate ?? this.userPromptTemplate
+        if (!systemPrompt || !userPromptTemplate) {
             throw new Error("Service not initialized. Call initialize() first.")
         }
 
-        const userPrompt = this.buildUserPrompt(request)
+        const userPrompt = this.buildUserPrompt(request, userPromptTemplate)
 
-        return [{ role: "system" as const, content: this.systemPrompt }, ...fewshotExamples, { role: "user" as const, content: userPrompt }]
+        return [{ role: "system" as const, content: systemPrompt }, ...fewshotExamples, { role: "user" as const, content: userPrompt }]
     }
 
     /**
      * Parse LLM response to structured result
+     * Tolerates code fences, surrounding prose, common syntax errors and alternative key names.
      * @param content Raw LLM response (JSON string)
-     * @returns Parsed translation result
-     * @throws Error if response is invalid JSON or missing required fields
+     * @returns Parsed translation result (invalid dictionary fields and alternative senses are dropped)
+     * @throws LLMRequestError (invalidResponse) if response is invalid JSON or missing required fields
      */
     private parseModelResponse(content: string): WordTranslationResult {
         try {
-            const parsed = JSON.parse(content) as LLMTranslationResponse
+            const parsed = jsonResponseParserModule.parseJsonResponse(content, constants.WORD_RESPONSE_KEY_ALIASES) as Partial<LLMTranslationResponse>
 
-            if (!parsed.word_translation) {
+            if (typeof parsed.word_translation !== "string" || !parsed.word_translation.trim()) {
                 throw new Error("Missing word_translation in response")
             }
 
+            const wordTranslation = parsed.word_translation.trim()
             return {
-                wordTranslation: parsed.word_translation.trim(),
-                fragmentTranslation: parsed.fragment_translation?.trim() || undefined,
+                wordTranslation,
+                fragmentTranslation: typeof parsed.fragment_translation === "string" ? parsed.fragment_translation.trim() || undefined : undefined,
+                dictionary: dictionaryFieldsModule.parseDictionaryFields(parsed as LLMTranslationResponse),
+                alternativeSenses: dictionaryFieldsModule.parseAlternativeSenses(parsed as LLMTranslationResponse, wordTranslation),
             }
         } catch (error) {
             logger.error("Failed to parse LLM response:", error)
-            throw new Error("Could not parse translation response from LLM")
+            throw new LLMRequestError("invalidResponse", "Could not parse translation response from LLM")
         }
     }
 
@@ -188,7 +120,8 @@ export class WordTranslationService {
      * Translate a word with context using LLM
      *
      * @param request Translation request parameters
-     * @returns Translation result with word translation and optional fragment translation
+     * @param onPartial Optional callback for partial results; streams the response when the client supports it
+     * @returns Translation result with word translation, optional fragment translation, dictionary fields and alternative senses
      *
      * @example
      * ```typescript
@@ -206,26 +139,42 @@ export class WordTranslationService {
      * console.log(result.wordTranslation); // "光线"
      * ```
      */
-    async translateWord(request: WordTranslationRequest): Promise<WordTranslationResult> {
+    async translateWord(request: WordTranslationRequest, onPartial?: PartialTranslationCallback): Promise<WordTranslationResult> {
         if (!this.systemPrompt || !this.userPromptTemplate) {
             throw new Error("Service not initialized. Call initialize() first.")
         }
 
         logger.debug("Starting word translation:", request.word)
 
-        // Load few-shot examples (language-specific, so loaded per request)
-        const fewshotExamples = await promptLoaderModule.loadFewshot(constants.TASK_WORD_TRANSLATION, request.targetLanguage)
+        // User prompt overrides and few-shot examples are language-specific, so they are resolved per request
+        const override = await promptOverridesModule.getPromptOverride(constants.TASK_WORD_TRANSLATION, request.targetLanguage)
+        const fewshotExamples = override?.fewshot ?? (await promptLoaderModule.loadFewshot(constants.TASK_WORD_TRANSLATION, request.targetLanguage))
 
         // Build messages
-        const messages = this.buildMessages(request, fewshotExamples)
+        const messages = this.buildMessages(request, fewshotExamples, override)
 
         logger.debug(`Built ${messages.length} messages for LLM request`)
 
-        // Generate translation
-        const rawContent = await this.client.generate(messages)
-
-        // Parse and return result
-        const result = this.parseModelResponse(rawContent)
+        // Generate translation (streamed when a partial result listener is given)
+        const options = { responseSchema: constants.WORD_RESPONSE_SCHEMA }
+        const rawContent =
+            onPartial && this.client.generateStream
+                ? await this.client.generateStream(
+                      messages,
+                      partialJsonParserModule.createPartialTranslationReader("word_translation", "fragment_translation", onPartial),
+                      options
+                  )
+                : await this.client.generate(messages, options)
+
+        // Parse and validate the complete response (partial results are never final); unparsable output gets one corrective retry
+        const result = await jsonResponseParserModule.parseWithCorrectiveRetry(
+            this.client,
+            messages,
+            rawContent,
+            Object.keys(constants.WORD_RESPONSE_KEY_ALIASES),
+            (content) => this.parseModelResponse(content),
+            options
+        )
 
         logger.info("Word translation completed:", result.wordTranslation)
 
@@ -0,0 +1,185 @@
+/**
+ * Anthropic Messages API Client
+ *
+ * LLM client for the Anthropic Messages API (/v1/messages) with JSON response enforcement
+ */
+
+import * as loggerModule from "@/0_common/utils/logger"
+import type { LLMConfig, LLMClient, ChatMessage } from "../../types/GenerateTypes"
+import * as constants from "../../constants/GenerateConstants"
+import { LLMRequestError } from "../../types/LLMRequestError"
+
+const logger = loggerModule.createLogger("8_generate/AnthropicMessagesClient")
+
+const ANTHROPIC_VERSION = "2023-06-01"
+
+/**
+ * The Messages API has no response_format option, so JSON output is requested in the system prompt
+ */
+const JSON_OUTPUT_INSTRUCTION = "Respond with a single valid JSON object only. Do not wrap it in markdown code fences or add any other text."
+
+interface AnthropicContentBlock {
+    type: string
+    text?: string
+}
+
+interface AnthropicMessagesResponse {
+    content?: AnthropicContentBlock[]
+    stop_reason?: string
+}
+
+interface AnthropicErrorResponse {
+    error?: {
+        type?: string
+        message?: string
+    }
+}
+
+/**
+ * Resolve the Messages endpoint from a base URL with or without the /v1 suffix
+ * @param baseUrl Base URL (e.g., https://api.anthropic.com or https://proxy.example.com/v1)
+ * @returns Full /v1/messages endpoint URL
+ */
+export function buildMessagesEndpoint(baseUrl: string): string {
+    const trimmed = baseUrl.trim().replace(/\/+$/, "")
+    if (trimmed.endsWith("/v1/messages")) {
+        return trimmed
+    }
+    if (trimmed.endsWith("/v1")) {
+        return `${trimmed}/messages`
+    }
+    return `${trimmed}/v1/messages`
+}
+
+/**
+ * Anthropic Messages API Client
+ *
+ * Speaks the Messages wire format: system prompt as a top-level field,
+ * x-api-key authentication and a required max_tokens.
+ * Replies are returned as written; the services read code fences and surrounding prose with jsonResponseParser.
+ */
+export class AnthropicMessagesClient implements LLMClient {
+    private endpoint: string
+    private apiKey: string
+    private model: string
+    private temperature: number
+    private maxTokens: number
+    private timeout: number
+
+    /**
+     * Create a new Anthropic client instance
+     * @param config LLM provider configuration
+     */
+    constructor(config: LLMConfig) {
+        if (!config.apiKey || !config.baseUrl || !config.model) {
+            throw new Error("Missing required LLM configuration: apiKey, baseUrl, or model")
+        }
+
+        this.endpoint = buildMessagesEndpoint(config.baseUrl)
+        this.apiKey = config.apiKey
+        this.model = config.model
+        // The Messages API accepts temperatures in the 0-1 range only
+        this.temperature = Math.min(config.temperature ?? constants.DEFAULT_TEMPERATURE, 1)
+        this.maxTokens = config.maxTokens ?? constants.DEFAULT_MAX_TOKENS
+        this.timeout = config.timeout || constants.DEFAULT_TIMEOUT
+
+        logger.info(`Initialized AnthropicMessagesClient with model: ${this.model}`)
+    }
+
+    /**
+     * Generate completion from the Messages API
+     *
+     * @param messages Array of chat messages (system, user, assistant)
+     * @returns Generated content as string (JSON format)
+     * @throws Error for various failure scenarios (timeout, rate limit, etc.)
+     */
+    async generate(messages: ChatMessage[]): Promise<string> {
+        const systemPrompt = [...messages.filter((message) => message.role === "system").map((message) => message.content), JSON_OUTPUT_INSTRUCTION]
+            .filter((part) => part.trim().length > 0)
+            .join("\n\n")
+        const conversation = messages.filter((message) => message.role !== "system").map(({ role, content }) => ({ role, content }))
+
+        const controller = new AbortController()
+        const timer = setTimeout(() => controller.abort(), this.timeout)
+
+        try {
+            logger.debug(`Sending request to Anthropic (model: ${this.model}, messages: ${conversation.length})`)
+
+            const response = await fetch(this.endpoint, {
+                method: "POST",
+                headers: {
+                    "Content-Type": "application/json",
+                    "x-api-key": this.apiKey,
+                    "anthropic-version": ANTHROPIC_VERSION,
+                    // Required for requests sent from a browser context
+                    "anthropic-dangerous-direct-browser-access": "true",
+                },
+                body: JSON.stringify({
+                    model: this.model,
+                    system: systemPrompt,
+                    messages: conversation,
+                    temperature: this.temperature,
+                    max_tokens: this.maxTokens,
+                }),
+                signal: controller.signal,
+            })
+
+            if (!response.ok) {
+                const errorBody = (await response.json().catch(() => null)) as AnthropicErrorResponse | null
+                const errorMessage = errorBody?.error?.message || response.statusText || `HTTP ${response.status}`
+
+                if (response.status === 429) {
+                    throw new LLMRequestError("rateLimited", "Rate limit exceeded. Please try again later.")
+                }
+                if (response.status === 400) {
+                    throw new Error(`Bad request: ${errorMessage}`)
+                }
+                // Server errors (including 529 overloaded), authentication failures and unknown models are the provider's
+                throw new LLMRequestError("providerError", `Anthropic API error (${response.status}): ${errorMessage}`)
+            }
+
+            const data = (await response.json().catch(() => null)) as AnthropicMessagesResponse | null
+            const text = (data?.content ?? [])
+                .filter((block) => block.type === "text" && typeof block.text === "string")
+                .map((block) => block.text)
+                .join("")
+
+            if (!text.trim()) {
+                throw new LLMRequestError("invalidResponse", "Invalid LLM response: empty content")
+            }
+
+            logger.debug(`Received response from Anthropic (length: ${text.length}, stop_reason: ${data?.stop_reason})`)
+            return text
+        } catch (error) {
+            logger.error("LLM generation error:", error)
+
+            if (error instanceof Error && error.name === "AbortError") {
+                throw new LLMRequestError("timeout", "Request timeout. Please check your network connection and try again.")
+            }
+
+            // fetch rejects with a TypeError when the endpoint cannot be reached
+            if (error instanceof TypeError) {
+                throw new LLMRequestError("network", "Could not reach the Anthropic endpoint. Please check the URL and your network connection.")
+            }
+
+            // Re-throw if already an Error
+            if (error instanceof Error) {
+                throw error
+            }
+
+            // Generic error
+            throw new Error("LLM generation failed. Please try again.")
+        } finally {
+            clearTimeout(timer)
+        }
+    }
+}
+
+/**
+ * Create a new Anthropic client with configuration
+ * @param config LLM provider configuration
+ * @returns AnthropicMessagesClient instance
+ */
+export function createAnthropicMessagesClient(config: LLMConfig): AnthropicMessagesClient {
+    return new AnthropicMessagesClient(config)
+}
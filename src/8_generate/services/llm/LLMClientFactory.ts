@@ -0,0 +1,25 @@
+/**
+ * LLM Client Factory
+ *
+ * Selects the provider adapter for an LLM configuration
+ */
+
+import type { LLMConfig, LLMClient } from "../../types/GenerateTypes"
+import { OpenAICompatibleClient } from "./OpenAICompatibleClient"
+import { AnthropicMessagesClient } from "./AnthropicMessagesClient"
+import { OllamaChatClient } from "./OllamaChatClient"
+
+/**
+ * Create the LLM client matching config.apiFormat
+ * @param config LLM provider configuration
+ * @returns Client for the configured wire protocol (OpenAI-compatible by default)
+ */
+export function createLLMClient(config: LLMConfig): LLMClient {
+    if (config.apiFormat === "anthropic") {
+        return new AnthropicMessagesClient(config)
+    }
+    if (config.apiFormat === "ollama") {
+        return new OllamaChatClient(config)
+    }
+    return new OpenAICompatibleClient(config)
+}
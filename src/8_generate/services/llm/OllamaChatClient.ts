@@ -0,0 +1,204 @@
+/**
+ * Ollama Chat Client
+ *
+ * LLM client for the native Ollama API (/api/chat) with JSON mode, plus model discovery via /api/tags
+ */
+
+import * as loggerModule from "@/0_common/utils/logger"
+import type { LLMConfig, LLMClient, ChatMessage } from "../../types/GenerateTypes"
+import * as constants from "../../constants/GenerateConstants"
+import { LLMRequestError } from "../../types/LLMRequestError"
+
+const logger = loggerModule.createLogger("8_generate/OllamaChatClient")
+
+interface OllamaChatResponse {
+    message?: {
+        role?: string
+        content?: string
+    }
+    done_reason?: string
+}
+
+interface OllamaTagsResponse {
+    models?: Array<{ name?: string; model?: string }>
+}
+
+interface OllamaErrorResponse {
+    error?: string
+}
+
+/**
+ * Build an Ollama API URL from a server base URL with or without the /api suffix
+ * @param baseUrl Server URL (e.g., http://127.0.0.1:11434)
+ * @param path API path without the /api prefix (e.g., "chat", "tags")
+ * @returns Full endpoint URL
+ */
+export function buildOllamaEndpoint(baseUrl: string, path: string): string {
+    const trimmed = baseUrl
+        .trim()
+        .replace(/\/+$/, "")
+        .replace(/\/api$/, "")
+    return `${trimmed}/api/${path}`
+}
+
+async function readErrorMessage(response: Response): Promise<string> {
+    const body = (await response.json().catch(() => null)) as OllamaErrorResponse | null
+    return body?.error || response.statusText || `HTTP ${response.status}`
+}
+
+/**
+ * List models installed on an Ollama server
+ *
+ * @param baseUrl Ollama server URL
+ * @param timeout Request timeout in milliseconds (default: 10000)
+ * @returns Sorted model names (e.g., ["llama3.1:8b", "qwen2.5:7b"])
+ * @throws Error if the server is unreachable or responds with an error
+ */
+export async function listOllamaModels(baseUrl: string, timeout: number = constants.DEFAULT_TIMEOUT): Promise<string[]> {
+    const controller = new AbortController()
+    const timer = setTimeout(() => controller.abort(), timeout)
+
+    try {
+        const response = await fetch(buildOllamaEndpoint(baseUrl, "tags"), { method: "GET", signal: controller.signal })
+        if (!response.ok) {
+            throw new Error(`Ollama API error (${response.status}): ${await readErrorMessage(response)}`)
+        }
+
+        const data = (await response.json()) as OllamaTagsResponse
+        const names = (data.models ?? []).map((model) => model.name || model.model || "").filter((name) => name.length > 0)
+        return [...new Set(names)].sort((a, b) => a.localeCompare(b))
+    } catch (error) {
+        if (error instanceof Error && error.name === "AbortError") {
+            throw new Error("Request timeout. Please check that Ollama is running.")
+        }
+        if (error instanceof Error) {
+            throw error
+        }
+        throw new Error("Failed to list Ollama models.")
+    } finally {
+        clearTimeout(timer)
+    }
+}
+
+/**
+ * Ollama Chat Client
+ *
+ * Uses the native /api/chat endpoint with `format: "json"`, which constrains decoding to JSON
+ * even for models that ignore the OpenAI shim's response_format.
+ */
+export class OllamaChatClient implements LLMClient {
+    private endpoint: string
+    private model: string
+    private temperature: number
+    private maxTokens: number
+    private timeout: number
+
+    /**
+     * Create a new Ollama client instance
+     * @param config LLM provider configuration (apiKey is ignored; Ollama has no authentication)
+     */
+    constructor(config: LLMConfig) {
+        if (!config.baseUrl || !config.model) {
+            throw new Error("Missing required LLM configuration: baseUrl or model")
+        }
+
+        this.endpoint = buildOllamaEndpoint(config.baseUrl, "chat")
+        this.model = config.model
+        this.temperature = config.temperature ?? constants.DEFAULT_TEMPERATURE
+        this.maxTokens = config.maxTokens ?? constants.DEFAULT_MAX_TOKENS
+        this.timeout = config.timeout || constants.DEFAULT_TIMEOUT
+
+        logger.info(`Initialized OllamaChatClient with model: ${this.model}`)
+    }
+
+    /**
+     * Generate completion from Ollama
+     *
+     * @param messages Array of chat messages (system, user, assistant)
+     * @returns Generated content as string (JSON format)
+     * @throws Error for various failure scenarios (timeout, missing model, etc.)
+     */
+    async generate(messages: ChatMessage[]): Promise<string> {
+        const controller = new AbortController()
+        const timer = setTimeout(() => controller.abort(), this.timeout)
+
+        try {
+            logger.debug(`Sending request to Ollama (model: ${this.model}, messages: ${messages.length})`)
+
+            const response = await fetch(this.endpoint, {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({
+                    model: this.model,
+                    messages,
+                    format: "json",
+                    stream: false,
+                    options: {
+                        temperature: this.temperature,
+                        num_predict: this.maxTokens,
+                    },
+                }),
+                signal: controller.signal,
+            })
+
+            if (!response.ok) {
+                const errorMessage = await readErrorMessage(response)
+                // Ollama answers 503 when its request queue is full
+                if (response.status === 429 || response.status === 503) {
+                    throw new LLMRequestError("rateLimited", "Ollama is busy. Please try again later.")
+                }
+                if (response.status === 404) {
+                    throw new LLMRequestError(
+                        "providerError",
+                        `Model not found: ${this.model}. Pull it with "ollama pull ${this.model}" or pick an installed model.`
+                    )
+                }
+                // A malformed request fails the same way on every provider; anything else is Ollama's
+                if (response.status === 400) {
+                    throw new Error(`Ollama API error (${response.status}): ${errorMessage}`)
+                }
+                throw new LLMRequestError("providerError", `Ollama API error (${response.status}): ${errorMessage}`)
+            }
+
+            const data = (await response.json().catch(() => null)) as OllamaChatResponse | null
+            const content = data?.message?.content
+
+            if (!content || !content.trim()) {
+                throw new LLMRequestError("invalidResponse", "Invalid LLM response: empty content")
+            }
+
+            logger.debug(`Received response from Ollama (length: ${content.length}, done_reason: ${data.done_reason})`)
+            return content
+        } catch (error) {
+            logger.error("LLM generation error:", error)
+
+            if (error instanceof Error && error.name === "AbortError") {
+                throw new LLMRequestError("timeout", "Request timeout. The local model may still be loading; try again or increase the timeout.")
+            }
+
+            // fetch rejects with a TypeError when the server cannot be reached (e.g. Ollama is not running)
+            if (error instanceof TypeError) {
+                throw new LLMRequestError("network", `Could not reach Ollama at ${this.endpoint}. Make sure it is running.`)
+            }
+
+            // Re-throw if already an Error
+            if (error instanceof Error) {
+                throw error
+            }
+
+            // Generic error
+            throw new Error("LLM generation failed. Please try again.")
+        } finally {
+            clearTimeout(timer)
+        }
+    }
+}
+
+/**
+ * Create a new Ollama client with configuration
+ * @param config LLM provider configuration
+ * @returns OllamaChatClient instance
+ */
+export function createOllamaChatClient(config: LLMConfig): OllamaChatClient {
+    return new OllamaChatClient(config)
+}
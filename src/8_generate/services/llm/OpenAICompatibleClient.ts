@@ -1,27 +1,108 @@
 /**
  * OpenAI-Compatible LLM Client
  *
- * OpenAI-compatible client for calling LLM APIs with JSON response enforcement
+ * OpenAI-compatible client for calling LLM APIs with JSON response enforcement and optional SSE streaming.
+ * The JSON response is requested with a strict schema, a forced function call, JSON mode or plain text,
+ * depending on what the endpoint supports (see detectStructuredOutputMode). An endpoint that rejects the structured
+ * output parameters during a request is downgraded to plain text, and the downgrade is remembered.
  */
 
-import OpenAI, { APIConnectionTimeoutError, RateLimitError, BadRequestError } from "openai"
+import OpenAI, { APIConnectionError, APIConnectionTimeoutError, APIError, RateLimitError, BadRequestError } from "openai"
 import * as loggerModule from "@/0_common/utils/logger"
-import type { LLMConfig, ChatMessage } from "../../types/GenerateTypes"
+import type { LLMConfig, LLMClient, ChatMessage, GenerateOptions, ResponseSchema, StructuredOutputMode, TokenUsage } from "../../types/GenerateTypes"
 import * as constants from "../../constants/GenerateConstants"
+import { LLMRequestError } from "../../types/LLMRequestError"
+import * as endpointCapabilitiesModule from "../../utils/endpointCapabilities"
+import * as jsonResponseParserModule from "../../utils/jsonResponseParser"
 
 const logger = loggerModule.createLogger("8_generate/OpenAICompatibleClient")
 
+type StructuredOutputParams = Pick<OpenAI.Chat.Completions.ChatCompletionCreateParamsNonStreaming, "response_format" | "tools" | "tool_choice">
+
+/**
+ * Convert a response schema to a strict JSON schema (every property listed, optional ones nullable)
+ */
+function toJsonSchema(schema: ResponseSchema): Record<string, unknown> {
+    const properties: Record<string, unknown> = Object.fromEntries(
+        Object.entries(schema.properties).map(([name, description]) => [
+            name,
+            { type: schema.required.includes(name) ? "string" : ["string", "null"], description },
+        ])
+    )
+    for (const [name, { description, items }] of Object.entries(schema.arrayProperties ?? {})) {
+        const itemProperties = Object.fromEntries(
+            Object.entries(items).map(([field, fieldDescription]) => [field, { type: "string", description: fieldDescription }])
+        )
+        properties[name] = {
+            type: ["array", "null"],
+            description,
+            items: { type: "object", properties: itemProperties, required: Object.keys(items), additionalProperties: false },
+        }
+    }
+    return { type: "object", properties, required: Object.keys(properties), additionalProperties: false }
+}
+
+/**
+ * Build the request parameters for a structured output mode
+ * Schema-based modes fall back to JSON mode when the request has no schema.
+ */
+function buildStructuredOutputParams(mode: StructuredOutputMode, schema: ResponseSchema | undefined): StructuredOutputParams {
+    if (mode === "text") {
+        return {}
+    }
+    if (mode === "json_schema" && schema) {
+        return {
+            response_format: {
+                type: "json_schema",
+                json_schema: { name: schema.name, description: schema.description, schema: toJsonSchema(schema), strict: true },
+            },
+        }
+    }
+    if (mode === "tool_call" && schema) {
+        return {
+            tools: [{ type: "function", function: { name: schema.name, description: schema.description, parameters: toJsonSchema(schema) } }],
+            tool_choice: { type: "function", function: { name: schema.name } },
+        }
+    }
+    return { response_format: { type: "json_object" } }
+}
+
+/**
+ * Check whether the endpoint rejected the request parameters (HTTP 400/422)
+ */
+function isUnsupportedParameterError(error: unknown): boolean {
+    return error instanceof BadRequestError || (error instanceof APIError && error.status === 422)
+}
+
+/**
+ * Check whether the endpoint rejected the structured output parameters of a mode (HTTP 400/422 naming them)
+ */
+function isStructuredOutputRejection(error: unknown, mode: StructuredOutputMode): boolean {
+    if (mode === "text" || !isUnsupportedParameterError(error) || !(error instanceof Error)) {
+        return false
+    }
+    const parameterPattern = mode === "tool_call" ? /tool/i : /response_format|json_schema|json_object/i
+    return parameterPattern.test(error.message)
+}
+
 /**
  * OpenAI-Compatible LLM Client
  *
  * Provides a unified interface for calling OpenAI-compatible LLM APIs.
  * Supports providers like OpenAI, Qwen, Gemini, etc.
  */
-export class OpenAICompatibleClient {
+export class OpenAICompatibleClient implements LLMClient {
     private client: OpenAI
+    private baseUrl: string
     private model: string
     private temperature: number
     private maxTokens: number
+    private structuredOutput: StructuredOutputMode | undefined
+    /** Set once the endpoint rejected the structured output parameters in this session (also recorded in the endpoint capabilities) */
+    private structuredOutputRejected = false
+    /** Set once the endpoint rejected stream_options in this session (also recorded in the endpoint capabilities) */
+    private streamUsageRejected = false
+    private onUsage: ((usage: TokenUsage) => void) | undefined
 
     /**
      * Create a new LLM client instance
@@ -39,67 +120,294 @@ export class OpenAICompatibleClient {
             dangerouslyAllowBrowser: true, // Allow in browser extension context
         })
 
+        this.baseUrl = config.baseUrl
         this.model = config.model
         this.temperature = config.temperature ?? constants.DEFAULT_TEMPERATURE
         this.maxTokens = config.maxTokens ?? constants.DEFAULT_MAX_TOKENS
+        this.structuredOutput = config.structuredOutput
+        this.onUsage = config.onUsage
 
         logger.info(`Initialized OpenAICompatibleClient with model: ${this.model}`)
     }
 
+    /**
+     * Resolve the structured output mode: configured mode, else the mode detected for this endpoint, else JSON mode
+     * The detected mode is read per request, so validating the endpoint again takes effect immediately.
+     * Plain text is used once the endpoint rejected the structured output parameters.
+     */
+    private async resolveStructuredOutput(): Promise<StructuredOutputMode> {
+        if (this.structuredOutputRejected) {
+            return "text"
+        }
+        if (this.structuredOutput) {
+            return this.structuredOutput
+        }
+        const capabilities = await endpointCapabilitiesModule.getEndpointCapabilities(this.baseUrl, this.model)
+        return capabilities?.structuredOutput ?? constants.DEFAULT_STRUCTURED_OUTPUT_MODE
+    }
+
+    /**
+     * Remember that the endpoint rejects the structured output parameters, for this client and in the endpoint capabilities
+     */
+    private async rememberStructuredOutputRejected(): Promise<void> {
+        this.structuredOutputRejected = true
+        try {
+            await endpointCapabilitiesModule.updateEndpointCapabilities(this.baseUrl, this.model, { structuredOutput: "text" })
+        } catch (error) {
+            logger.warn("Failed to save endpoint capabilities:", error)
+        }
+    }
+
+    /**
+     * Whether streamed requests ask for token usage (stream_options), unless the endpoint rejected it before
+     */
+    private async resolveStreamUsage(): Promise<boolean> {
+        if (this.streamUsageRejected) {
+            return false
+        }
+        const capabilities = await endpointCapabilitiesModule.getEndpointCapabilities(this.baseUrl, this.model)
+        return capabilities?.streamUsage !== false
+    }
+
+    /**
+     * Remember that the endpoint rejects stream_options, for this client and in the endpoint capabilities
+     */
+    private async rememberStreamUsageRejected(): Promise<void> {
+        this.streamUsageRejected = true
+        try {
+            await endpointCapabilitiesModule.updateEndpointCapabilities(this.baseUrl, this.model, { streamUsage: false })
+        } catch (error) {
+            logger.warn("Failed to save endpoint capabilities:", error)
+        }
+    }
+
+    /**
+     * Report the token usage of a completion (endpoints that omit `usage` are not reported)
+     */
+    private reportUsage(usage: OpenAI.Completions.CompletionUsage | null | undefined): void {
+        if (!this.onUsage || !usage) {
+            return
+        }
+        try {
+            this.onUsage({ model: this.model, promptTokens: usage.prompt_tokens ?? 0, completionTokens: usage.completion_tokens ?? 0 })
+        } catch (error) {
+            logger.warn("Failed to report token usage:", error)
+        }
+    }
+
+    /**
+     * Send a non-streaming request without mapping errors
+     * @returns Message content, or the arguments of the forced function call
+     */
+    private async requestCompletion(messages: ChatMessage[], mode: StructuredOutputMode, schema: ResponseSchema | undefined): Promise<string> {
+        logger.debug(`Sending request to LLM (model: ${this.model}, messages: ${messages.length}, structured output: ${mode})`)
+
+        const completion = await this.client.chat.completions.create({
+            model: this.model,
+            messages: messages as OpenAI.Chat.Completions.ChatCompletionMessageParam[],
+            temperature: this.temperature,
+            max_tokens: this.maxTokens,
+            ...buildStructuredOutputParams(mode, schema),
+        })
+        this.reportUsage(completion.usage)
+
+        const message = completion.choices[0]?.message
+        const toolCall = message?.tool_calls?.[0]
+        const content = (toolCall?.type === "function" ? toolCall.function.arguments : undefined) || message?.content
+
+        if (!content) {
+            throw new LLMRequestError("invalidResponse", "Invalid LLM response: empty content")
+        }
+
+        logger.debug(`Received response from LLM (length: ${content.length})`)
+        return content
+    }
+
     /**
      * Generate completion from LLM
      *
      * @param messages Array of chat messages (system, user, assistant)
+     * @param options Optional response schema (used in json_schema and tool_call modes)
      * @returns Generated content as string (JSON format)
      * @throws Error for various failure scenarios (timeout, rate limit, etc.)
      */
-    async generate(messages: ChatMessage[]): Promise<string> {
+    async generate(messages: ChatMessage[], options?: GenerateOptions): Promise<string> {
+        try {
+            const mode = await this.resolveStructuredOutput()
+            try {
+                return await this.requestCompletion(messages, mode, options?.responseSchema)
+            } catch (error) {
+                if (!isStructuredOutputRejection(error, mode)) {
+                    throw error
+                }
+                // The endpoint changed or was never validated; the tolerant parser reads the plain text reply
+                logger.info(`Structured output mode rejected (${mode}), retrying as plain text`)
+                const content = await this.requestCompletion(messages, "text", options?.responseSchema)
+                await this.rememberStructuredOutputRejected()
+                return content
+            }
+        } catch (error) {
+            this.handleGenerationError(error)
+        }
+    }
+
+    /**
+     * Generate completion from LLM as a server-sent event stream
+     *
+     * @param messages Array of chat messages (system, user, assistant)
+     * @param onContent Called with all content received so far after each chunk
+     * @param options Optional response schema (used in json_schema and tool_call modes)
+     * @returns Complete generated content as string (JSON format)
+     * @throws Error for various failure scenarios (timeout, rate limit, etc.)
+     */
+    async generateStream(messages: ChatMessage[], onContent: (content: string) => void, options?: GenerateOptions): Promise<string> {
         try {
-            logger.debug(`Sending request to LLM (model: ${this.model}, messages: ${messages.length})`)
+            const mode = await this.resolveStructuredOutput()
+            const streamUsage = await this.resolveStreamUsage()
+            logger.debug(`Sending streaming request to LLM (model: ${this.model}, messages: ${messages.length}, structured output: ${mode})`)
 
-            const completion = await this.client.chat.completions.create({
-                model: this.model,
-                messages: messages as OpenAI.Chat.Completions.ChatCompletionMessageParam[],
-                temperature: this.temperature,
-                max_tokens: this.maxTokens,
-                response_format: { type: "json_object" },
-            })
+            const requestStream = (structuredOutput: StructuredOutputMode, includeUsage: boolean) =>
+                this.client.chat.completions.create({
+                    model: this.model,
+                    messages: messages as OpenAI.Chat.Completions.ChatCompletionMessageParam[],
+                    temperature: this.temperature,
+                    max_tokens: this.maxTokens,
+                    ...buildStructuredOutputParams(structuredOutput, options?.responseSchema),
+                    stream: true,
+                    // Token usage arrives in a final chunk without choices
+                    ...(includeUsage && { stream_options: { include_usage: true } }),
+                })
 
-            const content = completion.choices[0]?.message?.content
+            let stream: Awaited<ReturnType<typeof requestStream>>
+            try {
+                stream = await requestStream(mode, streamUsage)
+            } catch (error) {
+                if (isStructuredOutputRejection(error, mode)) {
+                    logger.info(`Structured output mode rejected (${mode}), retrying the stream as plain text`)
+                    stream = await requestStream("text", streamUsage)
+                    await this.rememberStructuredOutputRejected()
+                } else if (streamUsage && isUnsupportedParameterError(error)) {
+                    // Minimal servers reject stream_options; retry once without it. A request that fails again
+                    // was rejected for another reason, and its error is reported as usual.
+                    logger.info("Streaming request rejected, retrying without stream_options")
+                    stream = await requestStream(mode, false)
+                    await this.rememberStreamUsageRejected()
+                } else {
+                    throw error
+                }
+            }
+
+            let content = ""
+            for await (const chunk of stream) {
+                this.reportUsage(chunk.usage)
+                // Function call arguments stream like content
+                const delta = chunk.choices[0]?.delta?.tool_calls?.[0]?.function?.arguments || chunk.choices[0]?.delta?.content
+                if (delta) {
+                    content += delta
+                    onContent(content)
+                }
+            }
 
             if (!content) {
-                throw new Error("Invalid LLM response: empty content")
+                throw new LLMRequestError("invalidResponse", "Invalid LLM response: empty content")
             }
 
-            logger.debug(`Received response from LLM (length: ${content.length})`)
+            logger.debug(`Received streamed response from LLM (length: ${content.length})`)
             return content
         } catch (error) {
-            logger.error("LLM generation error:", error)
+            this.handleGenerationError(error)
+        }
+    }
 
-            if (error instanceof RateLimitError) {
-                throw new Error("Rate limit exceeded. Please try again later.")
+    /**
+     * Test whether the endpoint accepts a structured output mode and returns a usable response
+     *
+     * @param mode Structured output mode to test
+     * @returns False when the endpoint rejects the request parameters or returns no usable object
+     * @throws Error for failures unrelated to the mode (authentication, network, rate limit, etc.)
+     */
+    async supportsStructuredOutput(mode: StructuredOutputMode): Promise<boolean> {
+        const messages: ChatMessage[] = [{ role: "user", content: constants.STRUCTURED_OUTPUT_PROBE_PROMPT }]
+        try {
+            const content = await this.requestCompletion(messages, mode, constants.STRUCTURED_OUTPUT_PROBE_SCHEMA)
+            const parsed = jsonResponseParserModule.parseJsonResponse(content, { answer: [] })
+            return typeof parsed.answer === "string"
+        } catch (error) {
+            if (isUnsupportedParameterError(error)) {
+                logger.info(`Structured output mode not supported: ${mode}`)
+                return false
             }
-
-            if (error instanceof BadRequestError) {
-                if (error.code === "data_inspection_failed" || error.message.includes("inappropriate")) {
-                    throw new Error("Content moderation failed. The input may contain inappropriate content.")
-                }
-                throw new Error(`Bad request: ${error.message}`)
+            if (error instanceof Error && /Invalid LLM response|No JSON object/.test(error.message)) {
+                logger.info(`Structured output mode returned no usable object: ${mode}`)
+                return false
             }
+            this.handleGenerationError(error)
+        }
+    }
 
-            if (error instanceof APIConnectionTimeoutError) {
-                throw new Error("Request timeout. Please check your network connection and try again.")
-            }
+    /**
+     * Map SDK errors to user-facing errors
+     * @throws Always
+     */
+    private handleGenerationError(error: unknown): never {
+        logger.error("LLM generation error:", error)
+
+        if (error instanceof RateLimitError) {
+            throw new LLMRequestError("rateLimited", "Rate limit exceeded. Please try again later.")
+        }
 
-            // Re-throw if already an Error
-            if (error instanceof Error) {
-                throw error
+        if (error instanceof BadRequestError) {
+            if (error.code === "data_inspection_failed" || error.message.includes("inappropriate")) {
+                throw new Error("Content moderation failed. The input may contain inappropriate content.")
             }
+            throw new Error(`Bad request: ${error.message}`)
+        }
+
+        if (error instanceof APIConnectionTimeoutError) {
+            throw new LLMRequestError("timeout", "Request timeout. Please check your network connection and try again.")
+        }
 
-            // Generic error
-            throw new Error("LLM generation failed. Please try again.")
+        if (error instanceof APIConnectionError) {
+            throw new LLMRequestError("network", "Could not reach the LLM endpoint. Please check the URL and your network connection.")
+        }
+
+        // Server errors, authentication failures and unknown models are the provider's; 422 is a malformed request like 400
+        if (error instanceof APIError && error.status !== undefined && error.status !== 422) {
+            throw new LLMRequestError("providerError", error.message)
+        }
+
+        // Re-throw if already an Error
+        if (error instanceof Error) {
+            throw error
+        }
+
+        // Generic error
+        throw new Error("LLM generation failed. Please try again.")
+    }
+}
+
+/**
+ * Detect the best structured output mode an OpenAI-compatible endpoint supports
+ * Modes are tried in STRUCTURED_OUTPUT_PROBE_ORDER; "text" is returned when none is accepted.
+ *
+ * @param config LLM provider configuration
+ * @returns Detected structured output mode
+ * @throws Error when the endpoint cannot be reached or rejects the credentials
+ *
+ * @example
+ * ```typescript
+ * const mode = await detectStructuredOutputMode(config) // "json_schema" on OpenAI, "text" on minimal servers
+ * ```
+ */
+export async function detectStructuredOutputMode(config: LLMConfig): Promise<StructuredOutputMode> {
+    const client = new OpenAICompatibleClient(config)
+    for (const mode of constants.STRUCTURED_OUTPUT_PROBE_ORDER) {
+        if (await client.supportsStructuredOutput(mode)) {
+            logger.info(`Detected structured output mode: ${mode}`)
+            return mode
         }
     }
+    return "text"
 }
 
 /**
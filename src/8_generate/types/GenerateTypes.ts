@@ -15,11 +15,30 @@ export interface ChatMessage {
     content: string
 }
 
+/**
+ * LLM wire protocol
+ * - openai: OpenAI-compatible chat completions (default)
+ * - anthropic: Anthropic Messages API
+ * - ollama: Native Ollama chat API
+ */
+export type LLMApiFormat = "openai" | "anthropic" | "ollama"
+
+/**
+ * How an OpenAI-compatible endpoint is asked for structured output
+ * - json_schema: `response_format` with a strict JSON schema
+ * - json_object: `response_format: { type: "json_object" }` (default)
+ * - tool_call: A forced function call whose arguments are the response object
+ * - text: No constraint; the response is read with the tolerant JSON parser
+ */
+export type StructuredOutputMode = "json_schema" | "json_object" | "tool_call" | "text"
+
 /**
  * LLM provider configuration
  */
 export interface LLMConfig {
-    /** API key for authentication */
+    /** Wire protocol of the provider (default: openai) */
+    apiFormat?: LLMApiFormat
+    /** API key for authentication (may be empty for local Ollama servers) */
     apiKey: string
     /** Base URL for API endpoint */
     baseUrl: string
@@ -31,8 +50,98 @@ export interface LLMConfig {
     maxTokens?: number
     /** Request timeout in milliseconds (default: 10000) */
     timeout?: number
+    /** Structured output mode for OpenAI-compatible endpoints (default: detected capability, else json_object) */
+    structuredOutput?: StructuredOutputMode
+    /** Called with the token usage the endpoint reports for each completion (OpenAI-compatible endpoints only) */
+    onUsage?: (usage: TokenUsage) => void
+}
+
+/**
+ * Token usage reported for one completion
+ */
+export interface TokenUsage {
+    /** Model that produced the completion */
+    model: string
+    /** Tokens in the request messages */
+    promptTokens: number
+    /** Tokens in the generated response */
+    completionTokens: number
+}
+
+/**
+ * Expected response object, used for strict schemas and function calling
+ */
+export interface ResponseSchema {
+    /** Schema/function name (letters, digits and underscores) */
+    name: string
+    /** What the response contains */
+    description: string
+    /** String properties of the response object, with their descriptions */
+    properties: Record<string, string>
+    /** Optional array properties whose items are objects with string fields (field → description) */
+    arrayProperties?: Record<string, { description: string; items: Record<string, string> }>
+    /** Properties that must be non-empty; the others may be null */
+    required: string[]
+}
+
+/**
+ * Per-request generation options
+ */
+export interface GenerateOptions {
+    /** Expected response object (clients without schema support ignore it) */
+    responseSchema?: ResponseSchema
+}
+
+/**
+ * Capabilities detected for an endpoint and model
+ */
+export interface EndpointCapabilities {
+    /** Best structured output mode the endpoint accepted */
+    structuredOutput: StructuredOutputMode
+    /** False once the endpoint rejected `stream_options` (streams are then sent without usage reporting) */
+    streamUsage?: boolean
+    /** Detection time (ms since epoch) */
+    detectedAt: number
+}
+
+/**
+ * Common LLM client interface implemented by every provider adapter
+ */
+export interface LLMClient {
+    /**
+     * Generate a JSON completion for the given conversation
+     * @param messages Array of chat messages (system, user, assistant)
+     * @param options Optional response schema
+     * @returns Generated content as string (JSON format)
+     */
+    generate(messages: ChatMessage[], options?: GenerateOptions): Promise<string>
+
+    /**
+     * Generate a JSON completion, reporting the accumulated content as it streams in
+     * Optional: clients without streaming support only implement generate()
+     * @param messages Array of chat messages (system, user, assistant)
+     * @param onContent Called with all content received so far after each chunk
+     * @param options Optional response schema
+     * @returns Complete generated content (JSON format)
+     */
+    generateStream?(messages: ChatMessage[], onContent: (content: string) => void, options?: GenerateOptions): Promise<string>
+}
+
+/**
+ * Translation text decoded from an incomplete streamed response
+ */
+export interface PartialTranslation {
+    /** Translation of the target word or fragment received so far */
+    translation: string
+    /** Sentence translation received so far (empty until the model reaches it) */
+    sentenceTranslation?: string
 }
 
+/**
+ * Callback receiving partial translations while a response streams in
+ */
+export type PartialTranslationCallback = (partial: PartialTranslation) => void
+
 /**
  * Word translation request parameters
  */
@@ -47,6 +156,10 @@ export interface WordTranslationRequest {
     sourceLanguage?: string
     /** Target language code (e.g., 'zh', 'en', default: 'zh') */
     targetLanguage?: string
+    /** Glossary terms found in the text and its context, with their required translations */
+    glossary?: GlossaryTerm[]
+    /** Preferred register and tone of the translation (omitted: no preference) */
+    translationStyle?: TranslationStyle
     /** Optional context information */
     contextInfo?: {
         /** Sentences before the current sentence */
@@ -72,6 +185,49 @@ export interface WordTranslationResult {
     wordTranslation: string
     /** Translation of the text fragment/sentence containing the word */
     fragmentTranslation?: string
+    /** Dictionary information about the target word (only valid fields are kept) */
+    dictionary?: WordDictionaryFields
+    /** Other common senses of the word, for ambiguous words (at most WORD_MAX_ALTERNATIVE_SENSES) */
+    alternativeSenses?: WordSense[]
+}
+
+/**
+ * One sense of a word: its translation, a short gloss and an example
+ */
+export interface WordSense {
+    /** Translation of the word in this sense */
+    translation: string
+    /** Short gloss of the sense, in the target language */
+    gloss: string
+    /** Short example sentence using the word in this sense, in the source language */
+    example?: string
+}
+
+/**
+ * Dictionary information about the target word
+ */
+export interface WordDictionaryFields {
+    /** Dictionary form of the word (e.g., "run" for "running") */
+    lemma?: string
+    /** IPA pronunciation of the lemma, without slashes */
+    phonetic?: string
+    /** Part of speech abbreviation (e.g., "n.", "v.", see WORD_PARTS_OF_SPEECH) */
+    partOfSpeech?: string
+    /** Short definition of the word's meaning in context, in the target language */
+    definition?: string
+}
+
+/**
+ * Translation register and tone (see TRANSLATION_STYLE_INSTRUCTIONS)
+ */
+export type TranslationStyle = "literal" | "natural" | "concise" | "formal" | "casual" | "learner"
+
+/**
+ * Glossary term with its preferred translation
+ */
+export interface GlossaryTerm {
+    sourceTerm: string
+    translation: string
 }
 
 /**
@@ -88,6 +244,10 @@ export interface FragmentTranslationRequest {
     sourceLanguage?: string
     /** Target language code (e.g., 'zh', 'en', default: 'zh') */
     targetLanguage?: string
+    /** Glossary terms found in the text and its context, with their required translations */
+    glossary?: GlossaryTerm[]
+    /** Preferred register and tone of the translation (omitted: no preference) */
+    translationStyle?: TranslationStyle
     /** Optional context information */
     contextInfo?: {
         /** Sentences before the current sentence */
@@ -131,4 +291,181 @@ export interface LLMTranslationResponse {
     word_translation: string
     /** Translation of the text fragment */
     fragment_translation: string
+    /** Dictionary form of the word */
+    lemma?: string
+    /** IPA pronunciation of the lemma */
+    phonetic?: string
+    /** Part of speech abbreviation */
+    part_of_speech?: string
+    /** Short definition in the target language */
+    definition?: string
+    /** Other common senses of the word */
+    alternative_senses?: Array<{ translation?: unknown; gloss?: unknown; example?: unknown }>
+}
+
+/**
+ * Explanation request parameters
+ */
+export interface ExplanationRequest {
+    /** Word or fragment to explain */
+    text: string
+    /** Current translation of the text (the explanation accounts for this rendering) */
+    translation: string
+    /** Whether the text is a single word or a fragment (default: word) */
+    textType?: "word" | "fragment"
+    /** Text before the target inside the sentence */
+    leadingText?: string
+    /** Text after the target inside the sentence */
+    trailingText?: string
+    /** Source language code (e.g., 'en', 'zh') */
+    sourceLanguage?: string
+    /** Target language code; explanations are written in this language (default: 'zh') */
+    targetLanguage?: string
+}
+
+/**
+ * Example sentence using the target with its translation
+ */
+export interface ExplanationExample {
+    sentence: string
+    translation: string
+}
+
+/**
+ * Grammar and usage explanation of a word or fragment
+ */
+export interface ExplanationResult {
+    /** Part of speech (or phrase type for fragments) */
+    partOfSpeech?: string
+    /** Grammatical role of the target in the sentence */
+    grammaticalRole: string
+    /** Idioms and collocations the target belongs to or commonly forms */
+    collocations: string[]
+    /** Register and usage notes (formality, regional use, connotation) */
+    register?: string
+    /** 2-3 example sentences */
+    examples: ExplanationExample[]
+}
+
+/**
+ * Reading request parameters (pronunciation of Chinese, Japanese or Korean text)
+ */
+export interface ReadingRequest {
+    /** Text to annotate with its reading */
+    text: string
+    /** Text before the target inside the sentence (disambiguates readings such as 行 háng/xíng) */
+    leadingText?: string
+    /** Text after the target inside the sentence */
+    trailingText?: string
+    /** Source language code ('zh', 'ja' or 'ko') */
+    sourceLanguage?: string
+}
+
+/**
+ * Reading of one piece of the text
+ */
+export interface ReadingSegment {
+    /** Piece of the original text */
+    text: string
+    /** Pinyin with tone marks (zh), hiragana (ja) or romaja (ko); empty when the piece needs no reading */
+    reading: string
+}
+
+/**
+ * Reading of a text, split into segments that cover it in order
+ */
+export interface ReadingResult {
+    segments: ReadingSegment[]
+}
+
+/**
+ * Gloss request parameters (short translations of several words of one paragraph)
+ */
+export interface GlossRequest {
+    /** Words to gloss, as they appear in the paragraph */
+    words: string[]
+    /** Paragraph the words appear in (gives each word its sense) */
+    paragraph: string
+    /** Source language code (e.g., 'en') */
+    sourceLanguage?: string
+    /** Target language code (e.g., 'zh') */
+    targetLanguage: string
+    /** Preferred register and tone (omitted for no preference) */
+    translationStyle?: TranslationStyle
+}
+
+/**
+ * Gloss of one word
+ */
+export interface GlossEntry {
+    /** The word, as requested */
+    word: string
+    /** Short translation of the word in the paragraph */
+    translation: string
+}
+
+/**
+ * Glosses of the requested words that the model returned, in request order
+ */
+export interface GlossResult {
+    glosses: GlossEntry[]
+}
+
+/**
+ * One turn of a follow-up conversation
+ */
+export interface FollowUpTurn {
+    role: "user" | "assistant"
+    content: string
+}
+
+/**
+ * Follow-up chat request parameters
+ */
+export interface FollowUpChatRequest {
+    /** Word or fragment that was translated */
+    text: string
+    /** Translation shown to the user */
+    translation: string
+    /** Sentence translation shown to the user (optional) */
+    sentenceTranslation?: string
+    /** Whether the text is a single word or a fragment (default: word) */
+    textType?: "word" | "fragment"
+    /** Text before the target inside the sentence */
+    leadingText?: string
+    /** Text after the target inside the sentence */
+    trailingText?: string
+    /** Source language code (e.g., 'en', 'zh') */
+    sourceLanguage?: string
+    /** Target language code (default: 'zh') */
+    targetLanguage?: string
+    /** Earlier questions and answers, oldest first */
+    history: FollowUpTurn[]
+    /** The new question */
+    question: string
+}
+
+/**
+ * Raw explanation LLM response format (JSON structure)
+ */
+export interface LLMExplanationResponse {
+    part_of_speech?: string
+    grammatical_role: string
+    collocations?: string[]
+    register?: string
+    examples?: Array<{ sentence?: string; translation?: string }>
+}
+
+/**
+ * Raw reading LLM response format (JSON structure)
+ */
+export interface LLMReadingResponse {
+    segments: Array<{ text?: string; reading?: string }>
+}
+
+/**
+ * Raw gloss LLM response format (JSON structure)
+ */
+export interface LLMGlossResponse {
+    glosses: Array<{ word?: string; translation?: string }>
 }
@@ -0,0 +1,33 @@
+/**
+ * LLM Request Error
+ *
+ * Error thrown by LLM clients for transient failures that callers may retry elsewhere
+ */
+
+/**
+ * Transient failure kind
+ * - rateLimited: The provider rejected the request with a rate limit (HTTP 429)
+ * - timeout: The request did not complete within the configured timeout
+ * - providerError: The provider answered with an HTTP error other than a malformed request (HTTP 400), e.g. 5xx or 401
+ * - network: The provider could not be reached (connection refused, DNS failure, server not running)
+ * - invalidResponse: The provider answered, but the response could not be used (empty or unparsable output)
+ */
+export type LLMRequestErrorType = "rateLimited" | "timeout" | "providerError" | "network" | "invalidResponse"
+
+/**
+ * LLM request error with a machine-readable failure type
+ */
+export class LLMRequestError extends Error {
+    type: LLMRequestErrorType
+
+    /**
+     * Create an LLM request error
+     * @param type - Failure kind
+     * @param message - User-facing error message
+     */
+    constructor(type: LLMRequestErrorType, message: string) {
+        super(message)
+        this.name = "LLMRequestError"
+        this.type = type
+    }
+}
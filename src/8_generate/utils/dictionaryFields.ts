@@ -0,0 +1,141 @@
+/**
+ * Dictionary fields utility
+ *
+ * Validates the optional dictionary fields (lemma, IPA, part of speech, definition) and the
+ * alternative senses of a word translation response. Models sometimes return these in slightly
+ * different shapes ("noun" instead of "n.", IPA wrapped in slashes), so values are normalized first;
+ * values that are still invalid are dropped instead of failing the whole translation.
+ */
+
+import type { LLMTranslationResponse, WordDictionaryFields, WordSense } from "../types/GenerateTypes"
+import * as constants from "../constants/GenerateConstants"
+import * as jsonResponseParserModule from "./jsonResponseParser"
+
+/**
+ * Full part of speech names mapped to their abbreviation
+ */
+const PART_OF_SPEECH_ALIASES: Record<string, string> = {
+    noun: "n.",
+    verb: "v.",
+    adjective: "adj.",
+    adverb: "adv.",
+    pronoun: "pron.",
+    preposition: "prep.",
+    conjunction: "conj.",
+    interjection: "int.",
+    numeral: "num.",
+    number: "num.",
+    article: "art.",
+    phrase: "phr.",
+}
+
+/**
+ * IPA letters, diacritics, stress and length marks, syllable breaks and spaces
+ */
+const PHONETIC_PATTERN = /^[\p{L}\p{M}\p{Sk}ˈˌːˑ.‿'\- ]+$/u
+
+/**
+ * Read a single-line string field
+ * @param value Raw field value
+ * @param maxLength Maximum length after trimming
+ * @returns Trimmed value, or undefined when missing, multi-line or too long
+ */
+function readLine(value: unknown, maxLength: number): string | undefined {
+    if (typeof value !== "string") {
+        return undefined
+    }
+    const trimmed = value.trim()
+    if (!trimmed || trimmed.length > maxLength || /[\r\n]/.test(trimmed)) {
+        return undefined
+    }
+    return trimmed
+}
+
+function normalizePhonetic(value: unknown): string | undefined {
+    const line = readLine(value, constants.DICTIONARY_FIELD_MAX_LENGTH.phonetic)
+    const phonetic = line?.replace(/^[/[]+|[/\]]+$/g, "").trim()
+    return phonetic && PHONETIC_PATTERN.test(phonetic) ? phonetic : undefined
+}
+
+function normalizePartOfSpeech(value: unknown): string | undefined {
+    const line = readLine(value, 16)?.toLowerCase()
+    if (!line) {
+        return undefined
+    }
+    const abbreviation = PART_OF_SPEECH_ALIASES[line] ?? (line.endsWith(".") ? line : `${line}.`)
+    return constants.WORD_PARTS_OF_SPEECH.includes(abbreviation) ? abbreviation : undefined
+}
+
+/**
+ * Extract the valid dictionary fields from a word translation response
+ * @param parsed Parsed LLM response
+ * @returns Valid fields, or undefined when the response has none
+ *
+ * @example
+ * ```typescript
+ * parseDictionaryFields({ word_translation: "跑", fragment_translation: "", lemma: "run", phonetic: "/rʌn/", part_of_speech: "verb" })
+ * // { lemma: "run", phonetic: "rʌn", partOfSpeech: "v." }
+ * ```
+ */
+export function parseDictionaryFields(parsed: LLMTranslationResponse): WordDictionaryFields | undefined {
+    const fields: WordDictionaryFields = {
+        lemma: readLine(parsed.lemma, constants.DICTIONARY_FIELD_MAX_LENGTH.lemma),
+        phonetic: normalizePhonetic(parsed.phonetic),
+        partOfSpeech: normalizePartOfSpeech(parsed.part_of_speech),
+        definition: readLine(parsed.definition, constants.DICTIONARY_FIELD_MAX_LENGTH.definition),
+    }
+
+    const entries = Object.entries(fields).filter(([, value]) => value !== undefined)
+    return entries.length > 0 ? (Object.fromEntries(entries) as WordDictionaryFields) : undefined
+}
+
+function normalizeSense(value: unknown): WordSense | undefined {
+    if (!value || typeof value !== "object" || Array.isArray(value)) {
+        return undefined
+    }
+    const fields = jsonResponseParserModule.mapResponseKeys(value as Record<string, unknown>, constants.WORD_SENSE_KEY_ALIASES)
+    const translation = readLine(fields.translation, constants.WORD_SENSE_FIELD_MAX_LENGTH.translation)
+    const gloss = readLine(fields.gloss, constants.WORD_SENSE_FIELD_MAX_LENGTH.gloss)
+    if (!translation || !gloss) {
+        return undefined
+    }
+    const example = readLine(fields.example, constants.WORD_SENSE_FIELD_MAX_LENGTH.example)
+    return example ? { translation, gloss, example } : { translation, gloss }
+}
+
+/**
+ * Extract the valid alternative senses from a word translation response
+ * Senses without a translation or gloss, and senses repeating the contextual translation or an earlier sense, are dropped.
+ * @param parsed Parsed LLM response
+ * @param wordTranslation Contextual translation of the word
+ * @returns At most WORD_MAX_ALTERNATIVE_SENSES senses, or undefined when the response has none
+ *
+ * @example
+ * ```typescript
+ * parseAlternativeSenses(
+ *     { word_translation: "银行", fragment_translation: "", alternative_senses: [{ translation: "河岸", gloss: "河流两边的陆地", example: "We sat on the river bank." }] },
+ *     "银行"
+ * )
+ * // [{ translation: "河岸", gloss: "河流两边的陆地", example: "We sat on the river bank." }]
+ * ```
+ */
+export function parseAlternativeSenses(parsed: LLMTranslationResponse, wordTranslation: string): WordSense[] | undefined {
+    if (!Array.isArray(parsed.alternative_senses)) {
+        return undefined
+    }
+
+    const seen = new Set([wordTranslation.trim().toLowerCase()])
+    const senses: WordSense[] = []
+    for (const item of parsed.alternative_senses) {
+        const sense = normalizeSense(item)
+        if (!sense || seen.has(sense.translation.toLowerCase())) {
+            continue
+        }
+        seen.add(sense.translation.toLowerCase())
+        senses.push(sense)
+        if (senses.length === constants.WORD_MAX_ALTERNATIVE_SENSES) {
+            break
+        }
+    }
+    return senses.length > 0 ? senses : undefined
+}
@@ -0,0 +1,96 @@
+/**
+ * Endpoint capabilities utility
+ *
+ * Caches the structured output mode detected for an OpenAI-compatible endpoint in chrome.storage.local,
+ * keyed by base URL and model. Detection runs from the options page "Validate" button; the client reads
+ * the cached mode per request so a new detection takes effect immediately. Parameters an endpoint rejects
+ * during translation are recorded here too, so the next request (and the next session) leaves them out.
+ */
+
+import * as loggerModule from "@/0_common/utils/logger"
+import type { EndpointCapabilities, StructuredOutputMode } from "../types/GenerateTypes"
+import * as constants from "../constants/GenerateConstants"
+
+const logger = loggerModule.createLogger("8_generate/endpointCapabilities")
+
+type EndpointCapabilitiesStore = Record<string, EndpointCapabilities>
+
+const STRUCTURED_OUTPUT_MODES: readonly StructuredOutputMode[] = ["json_schema", "json_object", "tool_call", "text"]
+
+/**
+ * Build the store key for an endpoint (trailing slashes in the base URL are ignored)
+ * @param baseUrl API base URL
+ * @param model Model name
+ * @returns Store key
+ */
+export function getEndpointKey(baseUrl: string, model: string): string {
+    return `${baseUrl.trim().replace(/\/+$/, "")}|${model.trim()}`
+}
+
+async function readStore(): Promise<EndpointCapabilitiesStore> {
+    const result = await chrome.storage.local.get(constants.ENDPOINT_CAPABILITIES_STORAGE_KEY)
+    const stored = result[constants.ENDPOINT_CAPABILITIES_STORAGE_KEY] as EndpointCapabilitiesStore | undefined
+    return stored && typeof stored === "object" ? stored : {}
+}
+
+async function writeStore(store: EndpointCapabilitiesStore): Promise<void> {
+    await chrome.storage.local.set({
+        [constants.ENDPOINT_CAPABILITIES_STORAGE_KEY]: store,
+    })
+}
+
+/**
+ * Get the capabilities detected for an endpoint and model
+ *
+ * @param baseUrl API base URL
+ * @param model Model name
+ * @returns Cached capabilities, or undefined when the endpoint was never validated
+ */
+export async function getEndpointCapabilities(baseUrl: string, model: string): Promise<EndpointCapabilities | undefined> {
+    let store: EndpointCapabilitiesStore
+    try {
+        store = await readStore()
+    } catch (error) {
+        // Storage is unavailable outside the extension (e.g., tests); use the default mode
+        logger.debug("Endpoint capabilities unavailable:", error)
+        return undefined
+    }
+
+    const capabilities = store[getEndpointKey(baseUrl, model)]
+    return capabilities && STRUCTURED_OUTPUT_MODES.includes(capabilities.structuredOutput) ? capabilities : undefined
+}
+
+/**
+ * Save the capabilities detected for an endpoint and model
+ *
+ * @param baseUrl API base URL
+ * @param model Model name
+ * @param capabilities Detected capabilities
+ */
+export async function saveEndpointCapabilities(baseUrl: string, model: string, capabilities: EndpointCapabilities): Promise<void> {
+    const store = await readStore()
+    const key = getEndpointKey(baseUrl, model)
+    store[key] = capabilities
+    await writeStore(store)
+    logger.info(`Saved endpoint capabilities: ${key} -> ${capabilities.structuredOutput}`)
+}
+
+/**
+ * Record capabilities learned from a live request, keeping the rest of the endpoint's entry
+ * Endpoints that were never validated start from the default structured output mode.
+ *
+ * @param baseUrl API base URL
+ * @param model Model name
+ * @param changes Capabilities to change
+ */
+export async function updateEndpointCapabilities(
+    baseUrl: string,
+    model: string,
+    changes: Partial<Omit<EndpointCapabilities, "detectedAt">>
+): Promise<void> {
+    const store = await readStore()
+    const key = getEndpointKey(baseUrl, model)
+    store[key] = { structuredOutput: constants.DEFAULT_STRUCTURED_OUTPUT_MODE, ...store[key], ...changes, detectedAt: Date.now() }
+    await writeStore(store)
+    logger.info(`Updated endpoint capabilities: ${key}`, changes)
+}
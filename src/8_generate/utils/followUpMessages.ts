@@ -0,0 +1,47 @@
+/**
+ * Follow-up messages utility
+ *
+ * Builds the chat messages for a follow-up question about a translation. The translation context
+ * is preloaded so the model answers as the translator that produced it:
+ * 1. System: the chat instructions followed by the rendered context template
+ * 2. Few-shot examples from a prompt override (if any)
+ * 3. Assistant: the translation shown to the user
+ * 4. Earlier questions and answers, then the new question
+ *
+ * Assistant turns are sent in the JSON reply format the model is asked to use.
+ */
+
+import type { ChatMessage, FollowUpChatRequest, FollowUpTurn } from "../types/GenerateTypes"
+import * as constants from "../constants/GenerateConstants"
+import * as promptVariablesModule from "./promptVariables"
+import * as templateRendererModule from "./templateRenderer"
+
+function toMessage(turn: FollowUpTurn): ChatMessage {
+    return turn.role === "assistant"
+        ? { role: "assistant", content: JSON.stringify({ reply: turn.content }) }
+        : { role: "user", content: turn.content }
+}
+
+/**
+ * Build the messages for a follow-up question
+ *
+ * @param prompts System prompt, context template and few-shot examples
+ * @param request Follow-up chat request
+ * @returns Messages in request order
+ */
+export function buildFollowUpMessages(
+    prompts: { systemPrompt: string; userPromptTemplate: string; fewshot?: ChatMessage[] },
+    request: FollowUpChatRequest
+): ChatMessage[] {
+    const context = templateRendererModule.renderTemplate(prompts.userPromptTemplate, promptVariablesModule.buildFollowUpPromptVariables(request))
+    const shownTranslation = [request.translation, request.sentenceTranslation].filter((part) => part && part.trim()).join("\n")
+    const history = request.history.slice(-constants.FOLLOW_UP_MAX_HISTORY_TURNS * 2)
+
+    return [
+        { role: "system", content: [prompts.systemPrompt.trim(), context.trim()].filter(Boolean).join("\n\n") },
+        ...(prompts.fewshot ?? []),
+        toMessage({ role: "assistant", content: shownTranslation }),
+        ...history.map(toMessage),
+        { role: "user", content: request.question.trim() },
+    ]
+}
@@ -0,0 +1,387 @@
+/**
+ * JSON response parser utility
+ *
+ * Many OpenAI-compatible servers ignore `response_format: { type: "json_object" }` and return
+ * JSON wrapped in markdown fences or prose, or with small syntax errors. This parser:
+ * 1. Strips code fences and extracts the first balanced JSON object
+ * 2. Repairs common syntax errors (trailing/missing commas, comments, single quotes,
+ *    unquoted keys, Python literals, unescaped quotes, truncated output)
+ * 3. Maps alternative key names (camelCase, synonyms) to the keys the services expect
+ *
+ * When the response still cannot be parsed, parseWithCorrectiveRetry() asks the model once
+ * to re-emit valid JSON.
+ */
+
+import * as loggerModule from "@/0_common/utils/logger"
+import type { ChatMessage, GenerateOptions, LLMClient } from "../types/GenerateTypes"
+import * as constants from "../constants/GenerateConstants"
+
+const logger = loggerModule.createLogger("8_generate/jsonResponseParser")
+
+/**
+ * Maximum number of `{` positions tried as the start of the JSON object
+ */
+const MAX_OBJECT_CANDIDATES = 5
+
+const SIMPLE_ESCAPES: Record<string, string> = {
+    '"': '"',
+    "'": "'",
+    "\\": "\\",
+    "/": "/",
+    b: "\b",
+    f: "\f",
+    n: "\n",
+    r: "\r",
+    t: "\t",
+}
+
+const LITERALS: Record<string, string> = {
+    true: "true",
+    false: "false",
+    null: "null",
+    none: "null",
+    undefined: "null",
+    nan: "null",
+}
+
+/**
+ * Find the balanced object starting at `start`; returns the rest of the text when it never closes (truncated output)
+ */
+function sliceBalancedObject(text: string, start: number): string {
+    let depth = 0
+    let inString = false
+
+    for (let index = start; index < text.length; index++) {
+        const char = text[index]
+        if (inString) {
+            if (char === "\\") {
+                index++
+            } else if (char === '"') {
+                inString = false
+            }
+            continue
+        }
+
+        if (char === '"') {
+            inString = true
+        } else if (char === "{") {
+            depth++
+        } else if (char === "}") {
+            depth--
+            if (depth === 0) {
+                return text.slice(start, index + 1)
+            }
+        }
+    }
+
+    return text.slice(start)
+}
+
+/**
+ * Check whether a quote inside a string ends it: it must be followed by a structural character
+ * (or by the next key on a new line, when the comma is missing)
+ */
+function isClosingQuote(text: string, index: number): boolean {
+    const rest = /^(\s*)(\S)?/.exec(text.slice(index + 1)) as RegExpExecArray
+    const next = rest[2]
+    if (next === undefined || next === "," || next === "}" || next === "]" || next === ":") {
+        return true
+    }
+    return next === '"' && (rest[1] ?? "").includes("\n")
+}
+
+/**
+ * Read a single- or double-quoted string; unterminated strings run to the end of the text
+ */
+function readString(text: string, start: number, quote: string): { value: string; end: number } {
+    let value = ""
+    let index = start + 1
+
+    while (index < text.length) {
+        const char = text[index] as string
+        if (char === "\\") {
+            const escape = text[index + 1]
+            if (escape === undefined) {
+                break
+            }
+            const hex = text.slice(index + 2, index + 6)
+            if (escape === "u" && /^[0-9a-fA-F]{4}$/.test(hex)) {
+                value += String.fromCharCode(parseInt(hex, 16))
+                index += 6
+                continue
+            }
+            value += SIMPLE_ESCAPES[escape] ?? escape
+            index += 2
+            continue
+        }
+        if (char === quote && isClosingQuote(text, index)) {
+            return { value, end: index + 1 }
+        }
+        value += char
+        index++
+    }
+
+    return { value, end: text.length }
+}
+
+/**
+ * Replace typographic quotes used as JSON delimiters (around keys and whole values) with ASCII quotes
+ * Typographic quotes inside string values are left alone.
+ */
+function normalizeDelimiterQuotes(text: string): string {
+    return text.replace(/([{,]\s*)[“”]([^“”"\n]*)[“”](\s*:)/g, '$1"$2"$3').replace(/(:\s*)[“”]([^“”"\n]*)[“”](\s*[,}])/g, '$1"$2"$3')
+}
+
+/**
+ * Rewrite almost-JSON into valid JSON
+ *
+ * @param candidate Text of a single (possibly malformed or truncated) JSON object
+ * @returns Repaired JSON text (not guaranteed to parse)
+ *
+ * @example
+ * ```typescript
+ * repairJson("{'word_translation': '光', fragment_translation: \"自然光\",}")
+ * // '{"word_translation": "光", "fragment_translation": "自然光"}'
+ * ```
+ */
+export function repairJson(candidate: string): string {
+    const text = normalizeDelimiterQuotes(candidate)
+    const closers: string[] = []
+    let output = ""
+    let afterValue = false
+    let index = 0
+
+    // Insert the comma a model left out between two values or members
+    const beginValue = (): void => {
+        if (afterValue && closers.length > 0) {
+            output += ","
+        }
+    }
+
+    while (index < text.length) {
+        const char = text[index] as string
+
+        if (/\s/.test(char)) {
+            output += char
+            index++
+            continue
+        }
+
+        // Comments
+        if (char === "/" && text[index + 1] === "/") {
+            const newline = text.indexOf("\n", index)
+            index = newline === -1 ? text.length : newline
+            continue
+        }
+        if (char === "/" && text[index + 1] === "*") {
+            const close = text.indexOf("*/", index + 2)
+            index = close === -1 ? text.length : close + 2
+            continue
+        }
+
+        if (char === '"' || char === "'") {
+            beginValue()
+            const { value, end } = readString(text, index, char)
+            output += JSON.stringify(value)
+            afterValue = true
+            index = end
+            continue
+        }
+
+        if (char === "{" || char === "[") {
+            beginValue()
+            closers.push(char === "{" ? "}" : "]")
+            output += char
+            afterValue = false
+            index++
+            continue
+        }
+
+        if (char === "}" || char === "]") {
+            if (closers[closers.length - 1] === char) {
+                output = output.replace(/,\s*$/, "")
+                output += closers.pop()
+                afterValue = true
+            }
+            index++
+            continue
+        }
+
+        if (char === ",") {
+            // Drop leading and doubled commas
+            if (afterValue) {
+                output += char
+            }
+            afterValue = false
+            index++
+            continue
+        }
+
+        if (char === ":") {
+            output += char
+            afterValue = false
+            index++
+            continue
+        }
+
+        // Unquoted keys, literals, numbers and bare words
+        const token = /^[\p{L}\p{N}_$+\-.]+/u.exec(text.slice(index))?.[0]
+        if (!token) {
+            // Stray character (e.g. prose after a truncated object)
+            index++
+            continue
+        }
+
+        beginValue()
+        const isKey = /^\s*:/.test(text.slice(index + token.length))
+        if (isKey) {
+            output += JSON.stringify(token)
+        } else if (LITERALS[token.toLowerCase()]) {
+            output += LITERALS[token.toLowerCase()]
+        } else if (/^-?\d+(\.\d+)?([eE][+-]?\d+)?$/.test(token)) {
+            output += token
+        } else {
+            output += JSON.stringify(token)
+        }
+        afterValue = true
+        index += token.length
+    }
+
+    // Close whatever a truncated response left open
+    output = output.replace(/,\s*$/, "")
+    while (closers.length > 0) {
+        output += closers.pop()
+    }
+    return output
+}
+
+function normalizeKey(key: string): string {
+    return key
+        .trim()
+        .replace(/([a-z0-9])([A-Z])/g, "$1_$2")
+        .replace(/[\s-]+/g, "_")
+        .toLowerCase()
+}
+
+/**
+ * Normalize key names (camelCase, spaces, hyphens → snake_case) and map alternative names to the expected keys
+ *
+ * @param value Parsed JSON object
+ * @param keyAliases Expected key → alternative names (after normalization)
+ * @returns Object with expected keys filled from their aliases when missing
+ */
+export function mapResponseKeys(value: Record<string, unknown>, keyAliases: Readonly<Record<string, readonly string[]>>): Record<string, unknown> {
+    const normalized: Record<string, unknown> = {}
+    for (const [key, field] of Object.entries(value)) {
+        const name = normalizeKey(key)
+        if (!(name in normalized)) {
+            normalized[name] = field
+        }
+    }
+
+    // Unwrap a single nested object, e.g. {"result": {...}} or {"translation": {...}}
+    const expectedKeys = Object.keys(keyAliases)
+    const fields = Object.values(normalized)
+    const nested = fields[0]
+    if (fields.length === 1 && nested && typeof nested === "object" && !Array.isArray(nested)) {
+        return mapResponseKeys(nested as Record<string, unknown>, keyAliases)
+    }
+
+    const result = { ...normalized }
+    for (const key of expectedKeys) {
+        if (result[key] !== undefined) {
+            continue
+        }
+        const alias = (keyAliases[key] ?? []).find((name) => normalized[name] !== undefined && !expectedKeys.includes(name))
+        if (alias) {
+            result[key] = normalized[alias]
+        }
+    }
+    return result
+}
+
+function parseObject(text: string): Record<string, unknown> | undefined {
+    try {
+        const parsed: unknown = JSON.parse(text)
+        return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? (parsed as Record<string, unknown>) : undefined
+    } catch {
+        return undefined
+    }
+}
+
+/**
+ * Parse the JSON object in an LLM response, tolerating fences, prose and common syntax errors
+ *
+ * @param content Raw model output
+ * @param keyAliases Expected key → alternative names (see WORD_RESPONSE_KEY_ALIASES)
+ * @returns Parsed object with normalized key names
+ * @throws Error if no JSON object can be recovered
+ *
+ * @example
+ * ```typescript
+ * parseJsonResponse('Sure!\n```json\n{"wordTranslation": "光",}\n```', constants.WORD_RESPONSE_KEY_ALIASES)
+ * // { word_translation: "光" }
+ * ```
+ */
+export function parseJsonResponse(content: string, keyAliases: Readonly<Record<string, readonly string[]>>): Record<string, unknown> {
+    const text = content.replace(/^\uFEFF/, "").replace(/```[a-zA-Z]*/g, "")
+
+    let start = text.indexOf("{")
+    for (let attempt = 0; start !== -1 && attempt < MAX_OBJECT_CANDIDATES; attempt++) {
+        const candidate = sliceBalancedObject(text, start)
+        const parsed = parseObject(candidate) ?? parseObject(repairJson(candidate))
+        if (parsed) {
+            return mapResponseKeys(parsed, keyAliases)
+        }
+        start = text.indexOf("{", start + 1)
+    }
+
+    throw new Error("No JSON object found in LLM response")
+}
+
+/**
+ * Parse a response, asking the model once to re-emit valid JSON when parsing fails
+ *
+ * @param client LLM client used for the corrective request
+ * @param messages Messages of the original request
+ * @param content Raw model output of the original request
+ * @param expectedKeys Keys listed in the corrective instruction
+ * @param parse Parser that throws when the response is unusable
+ * @param options Generation options of the original request (response schema)
+ * @returns Parsed result of the original or the corrected response
+ * @throws The parser's error when the corrected response cannot be parsed either (or the original error when the retry request fails)
+ */
+export async function parseWithCorrectiveRetry<T>(
+    client: LLMClient,
+    messages: ChatMessage[],
+    content: string,
+    expectedKeys: readonly string[],
+    parse: (content: string) => T,
+    options?: GenerateOptions
+): Promise<T> {
+    let parseError: unknown
+    try {
+        return parse(content)
+    } catch (error) {
+        parseError = error
+        logger.warn("Could not parse LLM response, asking the model to re-emit valid JSON:", error)
+    }
+
+    const correction = constants.JSON_CORRECTION_PROMPT.replace("{keys}", expectedKeys.map((key) => `"${key}"`).join(", "))
+    const retryMessages: ChatMessage[] = [
+        ...messages,
+        // Some APIs reject empty assistant messages
+        ...(content.trim() ? [{ role: "assistant" as const, content }] : []),
+        { role: "user", content: correction },
+    ]
+
+    let correctedContent: string
+    try {
+        correctedContent = await client.generate(retryMessages, options)
+    } catch (error) {
+        // Report the original parse failure rather than the failure of the extra request
+        logger.warn("Corrective JSON request failed:", error)
+        throw parseError
+    }
+    return parse(correctedContent)
+}
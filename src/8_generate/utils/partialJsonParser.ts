@@ -0,0 +1,109 @@
+/**
+ * Partial JSON parser utility
+ *
+ * Reads string fields out of a JSON object that is still being streamed, so partial
+ * translations can be shown before the model has finished the whole response.
+ */
+
+import type { PartialTranslationCallback } from "../types/GenerateTypes"
+
+const SIMPLE_ESCAPES: Record<string, string> = {
+    '"': '"',
+    "\\": "\\",
+    "/": "/",
+    b: "\b",
+    f: "\f",
+    n: "\n",
+    r: "\r",
+    t: "\t",
+}
+
+/**
+ * Decode a JSON string body starting right after its opening quote
+ * Stops at the closing quote or at the end of the input; a trailing incomplete escape is dropped.
+ */
+function decodeStringPrefix(json: string, start: number): string {
+    let output = ""
+    let index = start
+
+    while (index < json.length) {
+        const char = json[index] as string
+        if (char === '"') {
+            return output
+        }
+        if (char !== "\\") {
+            output += char
+            index++
+            continue
+        }
+
+        const escape = json[index + 1]
+        if (escape === undefined) {
+            return output
+        }
+        if (escape === "u") {
+            const hex = json.slice(index + 2, index + 6)
+            if (!/^[0-9a-fA-F]{4}$/.test(hex)) {
+                return output
+            }
+            output += String.fromCharCode(parseInt(hex, 16))
+            index += 6
+            continue
+        }
+        output += SIMPLE_ESCAPES[escape] ?? escape
+        index += 2
+    }
+
+    return output
+}
+
+/**
+ * Extract the (possibly incomplete) value of a top-level string field from partial JSON
+ *
+ * @param json JSON text received so far (may be cut anywhere)
+ * @param key Field name (e.g., "word_translation")
+ * @returns Decoded value so far, or undefined if the field's value has not started yet
+ *
+ * @example
+ * ```typescript
+ * extractPartialJsonString('{"word_translation":"光', 'word_translation') // "光"
+ * extractPartialJsonString('{"word_tr', 'word_translation') // undefined
+ * ```
+ */
+export function extractPartialJsonString(json: string, key: string): string | undefined {
+    const match = new RegExp(`"${key}"\\s*:\\s*"`).exec(json)
+    if (!match) {
+        return undefined
+    }
+    return decodeStringPrefix(json, match.index + match[0].length)
+}
+
+/**
+ * Build a streaming content handler that reports partial translations
+ * Only calls onPartial when the decoded text changed and the translation has started.
+ *
+ * @param translationKey JSON field holding the word/fragment translation
+ * @param sentenceKey JSON field holding the sentence translation
+ * @param onPartial Callback receiving partial translations
+ * @returns Handler for LLMClient.generateStream()
+ */
+export function createPartialTranslationReader(
+    translationKey: string,
+    sentenceKey: string,
+    onPartial: PartialTranslationCallback
+): (content: string) => void {
+    let lastTranslation = ""
+    let lastSentenceTranslation = ""
+
+    return (content: string) => {
+        const translation = extractPartialJsonString(content, translationKey)?.trim() ?? ""
+        const sentenceTranslation = extractPartialJsonString(content, sentenceKey)?.trim() ?? ""
+
+        if (!translation || (translation === lastTranslation && sentenceTranslation === lastSentenceTranslation)) {
+            return
+        }
+        lastTranslation = translation
+        lastSentenceTranslation = sentenceTranslation
+        onPartial({ translation, sentenceTranslation: sentenceTranslation || undefined })
+    }
+}
@@ -0,0 +1,256 @@
+/**
+ * Prompt overrides utility
+ *
+ * Stores user-edited prompts in chrome.storage.local and resolves them for the translation services.
+ *
+ * Responsibilities:
+ * 1. Save and reset overrides per task and target language (or for all languages)
+ * 2. Resolve the override for a request: language-specific fields win over all-language fields
+ * 3. Validate templates (`${...Section}` variables) and few-shot examples before saving
+ * 4. Upgrade stored templates saved before a task gained a section (e.g., glossary, translation style)
+ */
+
+import * as loggerModule from "@/0_common/utils/logger"
+import type { ChatMessage } from "../types/GenerateTypes"
+import * as constants from "../constants/GenerateConstants"
+
+const logger = loggerModule.createLogger("8_generate/promptOverrides")
+
+/**
+ * User override for a task's prompts; omitted fields fall back to the bundled prompts
+ */
+export interface PromptOverride {
+    systemPrompt?: string
+    userPromptTemplate?: string
+    fewshot?: ChatMessage[]
+}
+
+/**
+ * Result of validating a prompt override
+ */
+export interface PromptValidationResult {
+    valid: boolean
+    /** Required variables the user template does not contain */
+    missingVariables: string[]
+    /** Variables in the user template that the task does not provide (sent to the model verbatim) */
+    unknownVariables: string[]
+    /** Few-shot examples are not alternating user/assistant messages */
+    invalidFewshot: boolean
+}
+
+type PromptOverrideStore = Record<string, PromptOverride>
+
+const TEMPLATE_VARIABLE_PATTERN = /\$\{(\w+)\}/g
+
+/**
+ * Normalize a target language to its override key part (zh-CN -> zh, empty -> all languages)
+ * @param language Target language code
+ * @returns Normalized language code or PROMPT_OVERRIDE_ALL_LANGUAGES
+ */
+export function normalizePromptLanguage(language?: string): string {
+    if (!language || language === constants.PROMPT_OVERRIDE_ALL_LANGUAGES) {
+        return constants.PROMPT_OVERRIDE_ALL_LANGUAGES
+    }
+    return (language.split("-")[0] ?? language).toLowerCase()
+}
+
+function getOverrideKey(taskName: string, language?: string): string {
+    return `${taskName}:${normalizePromptLanguage(language)}`
+}
+
+/**
+ * Drop empty fields so an override never replaces a bundled prompt with nothing
+ */
+function compactOverride(override: PromptOverride): PromptOverride {
+    const compacted: PromptOverride = {}
+    if (override.systemPrompt?.trim()) {
+        compacted.systemPrompt = override.systemPrompt
+    }
+    if (override.userPromptTemplate?.trim()) {
+        compacted.userPromptTemplate = override.userPromptTemplate
+    }
+    if (override.fewshot && override.fewshot.length > 0) {
+        compacted.fewshot = override.fewshot
+    }
+    return compacted
+}
+
+/**
+ * Append the sections a stored template lacks
+ * Templates are validated on save, so a missing variable is a section the task gained afterwards;
+ * without it the request would silently drop that section (e.g., the user's glossary).
+ */
+function addMissingSections(taskName: string, override: PromptOverride): PromptOverride {
+    if (!override.userPromptTemplate?.trim()) {
+        return override
+    }
+
+    const usedVariables = findTemplateVariables(override.userPromptTemplate)
+    const missingVariables = (constants.PROMPT_TEMPLATE_VARIABLES[taskName] ?? []).filter((name) => !usedVariables.includes(name))
+    if (missingVariables.length === 0) {
+        return override
+    }
+
+    logger.debug(`Adding sections missing from the ${taskName} override:`, missingVariables)
+    const addedSections = missingVariables.map((name) => `\${${name}}`).join("\n\n")
+    return { ...override, userPromptTemplate: `${override.userPromptTemplate.trimEnd()}\n\n${addedSections}\n` }
+}
+
+async function readStore(): Promise<PromptOverrideStore> {
+    const result = await chrome.storage.local.get(constants.PROMPT_OVERRIDES_STORAGE_KEY)
+    const stored = result[constants.PROMPT_OVERRIDES_STORAGE_KEY] as PromptOverrideStore | undefined
+    return stored && typeof stored === "object" ? stored : {}
+}
+
+async function writeStore(store: PromptOverrideStore): Promise<void> {
+    await chrome.storage.local.set({
+        [constants.PROMPT_OVERRIDES_STORAGE_KEY]: store,
+    })
+}
+
+/**
+ * Get the override saved for exactly this task and language (no fallback)
+ * Used by the options page editor.
+ *
+ * @param taskName Task name (e.g., 'word_translation')
+ * @param language Target language code, or PROMPT_OVERRIDE_ALL_LANGUAGES
+ * @returns Saved override (with any sections added since it was saved), or undefined if none
+ */
+export async function getStoredPromptOverride(taskName: string, language?: string): Promise<PromptOverride | undefined> {
+    const store = await readStore()
+    const override = store[getOverrideKey(taskName, language)]
+    return override && addMissingSections(taskName, override)
+}
+
+/**
+ * Resolve the override to apply to a translation request
+ * Fields saved for the target language take precedence over fields saved for all languages.
+ *
+ * @param taskName Task name (e.g., 'word_translation')
+ * @param targetLanguage Target language of the request
+ * @returns Merged override, or undefined if the bundled prompts should be used as-is
+ */
+export async function getPromptOverride(taskName: string, targetLanguage?: string): Promise<PromptOverride | undefined> {
+    let store: PromptOverrideStore
+    try {
+        store = await readStore()
+    } catch (error) {
+        // Storage is unavailable outside the extension (e.g., tests); use bundled prompts
+        logger.debug("Prompt overrides unavailable, using bundled prompts:", error)
+        return undefined
+    }
+
+    const allLanguages = store[getOverrideKey(taskName)]
+    const languageSpecific = targetLanguage ? store[getOverrideKey(taskName, targetLanguage)] : undefined
+    if (!allLanguages && !languageSpecific) {
+        return undefined
+    }
+
+    return addMissingSections(taskName, { ...allLanguages, ...languageSpecific })
+}
+
+/**
+ * Save an override for a task and language
+ * Empty fields are dropped; saving an override with no fields removes it.
+ *
+ * @param taskName Task name (e.g., 'word_translation')
+ * @param language Target language code, or PROMPT_OVERRIDE_ALL_LANGUAGES
+ * @param override Prompts to override
+ */
+export async function savePromptOverride(taskName: string, language: string | undefined, override: PromptOverride): Promise<void> {
+    const store = await readStore()
+    const key = getOverrideKey(taskName, language)
+    const compacted = compactOverride(override)
+
+    if (Object.keys(compacted).length === 0) {
+        delete store[key]
+    } else {
+        store[key] = compacted
+    }
+
+    await writeStore(store)
+    logger.info(`Saved prompt override: ${key}`)
+}
+
+/**
+ * Remove the override for a task and language, restoring the bundled prompts
+ *
+ * @param taskName Task name (e.g., 'word_translation')
+ * @param language Target language code, or PROMPT_OVERRIDE_ALL_LANGUAGES
+ */
+export async function resetPromptOverride(taskName: string, language?: string): Promise<void> {
+    const store = await readStore()
+    const key = getOverrideKey(taskName, language)
+    if (!(key in store)) {
+        return
+    }
+
+    delete store[key]
+    await writeStore(store)
+    logger.info(`Reset prompt override: ${key}`)
+}
+
+/**
+ * List the `${variable}` names used in a template, in order of first appearance
+ * @param template Template string
+ * @returns Unique variable names
+ */
+export function findTemplateVariables(template: string): string[] {
+    return [...new Set(Array.from(template.matchAll(TEMPLATE_VARIABLE_PATTERN), (match) => match[1] as string))]
+}
+
+/**
+ * Check that few-shot examples are alternating user/assistant messages starting with a user message
+ * @param fewshot Parsed few-shot examples
+ * @returns True if the examples can be sent between the system prompt and the request
+ */
+export function isValidFewshot(fewshot: unknown): fewshot is ChatMessage[] {
+    if (!Array.isArray(fewshot) || fewshot.length % 2 !== 0) {
+        return false
+    }
+
+    return fewshot.every((message, index) => {
+        const expectedRole = index % 2 === 0 ? "user" : "assistant"
+        return (
+            typeof message === "object" &&
+            message !== null &&
+            (message as ChatMessage).role === expectedRole &&
+            typeof (message as ChatMessage).content === "string" &&
+            (message as ChatMessage).content.trim().length > 0
+        )
+    })
+}
+
+/**
+ * Validate a prompt override for a task
+ *
+ * @param taskName Task name (e.g., 'word_translation')
+ * @param override Override to validate (omitted fields are not checked)
+ * @returns Validation result with missing/unknown template variables
+ *
+ * @example
+ * ```typescript
+ * validatePromptOverride('word_translation', { userPromptTemplate: '${targetWordSection}\n${sectionTypo}' })
+ * // { valid: false, missingVariables: ['sourceLanguageSection', ...], unknownVariables: ['sectionTypo'], invalidFewshot: false }
+ * ```
+ */
+export function validatePromptOverride(taskName: string, override: PromptOverride): PromptValidationResult {
+    const expectedVariables = constants.PROMPT_TEMPLATE_VARIABLES[taskName] ?? []
+    let missingVariables: string[] = []
+    let unknownVariables: string[] = []
+
+    if (override.userPromptTemplate?.trim()) {
+        const usedVariables = findTemplateVariables(override.userPromptTemplate)
+        missingVariables = expectedVariables.filter((name) => !usedVariables.includes(name))
+        unknownVariables = usedVariables.filter((name) => !expectedVariables.includes(name))
+    }
+
+    const invalidFewshot = override.fewshot !== undefined && !isValidFewshot(override.fewshot)
+
+    return {
+        valid: missingVariables.length === 0 && unknownVariables.length === 0 && !invalidFewshot,
+        missingVariables,
+        unknownVariables,
+        invalidFewshot,
+    }
+}
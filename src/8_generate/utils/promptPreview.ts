@@ -0,0 +1,151 @@
+/**
+ * Prompt preview utility
+ *
+ * Renders a task's prompts against sample context, producing the exact chat messages
+ * the translation services would send. Used by the options page prompt editor.
+ */
+
+import type {
+    ChatMessage,
+    ExplanationRequest,
+    FollowUpChatRequest,
+    FragmentTranslationRequest,
+    GlossRequest,
+    ReadingRequest,
+    WordTranslationRequest,
+} from "../types/GenerateTypes"
+import * as constants from "../constants/GenerateConstants"
+import * as followUpMessagesModule from "./followUpMessages"
+import * as promptVariablesModule from "./promptVariables"
+import * as templateRendererModule from "./templateRenderer"
+
+/**
+ * Complete prompts for one task (bundled prompts with any override applied)
+ */
+export interface PromptSet {
+    systemPrompt: string
+    userPromptTemplate: string
+    fewshot: ChatMessage[]
+}
+
+const SAMPLE_CONTEXT = {
+    previousSentences: ["The house stood at the end of a quiet street."],
+    nextSentences: ["Nobody had lived there for years."],
+    sourceType: "article",
+    sourceTitle: "A House by the Sea",
+}
+
+/**
+ * Sample word request used for previews
+ */
+export const SAMPLE_WORD_REQUEST: WordTranslationRequest = {
+    word: "light",
+    leadingText: "The room was filled with natural ",
+    trailingText: " from the large windows.",
+    sourceLanguage: "en",
+    contextInfo: SAMPLE_CONTEXT,
+}
+
+/**
+ * Sample fragment request used for previews
+ */
+export const SAMPLE_FRAGMENT_REQUEST: FragmentTranslationRequest = {
+    fragment: "natural light",
+    leadingText: "The room was filled with ",
+    trailingText: " from the large windows.",
+    sourceLanguage: "en",
+    contextInfo: SAMPLE_CONTEXT,
+}
+
+/**
+ * Sample explanation request used for previews
+ */
+export const SAMPLE_EXPLANATION_REQUEST: ExplanationRequest = {
+    text: "light",
+    translation: "光线",
+    textType: "word",
+    leadingText: "The room was filled with natural ",
+    trailingText: " from the large windows.",
+    sourceLanguage: "en",
+}
+
+/**
+ * Sample follow-up chat request used for previews
+ */
+export const SAMPLE_FOLLOW_UP_REQUEST: FollowUpChatRequest = {
+    text: "light",
+    translation: "光线",
+    sentenceTranslation: "房间里充满了来自大窗户的自然光线。",
+    textType: "word",
+    leadingText: "The room was filled with natural ",
+    trailingText: " from the large windows.",
+    sourceLanguage: "en",
+    history: [],
+    question: "Is this formal?",
+}
+
+/**
+ * Sample reading request used for previews
+ */
+export const SAMPLE_READING_REQUEST: ReadingRequest = {
+    text: "银行",
+    leadingText: "我明天去",
+    trailingText: "办事。",
+    sourceLanguage: "zh",
+}
+
+/**
+ * Sample gloss request used for previews
+ */
+export const SAMPLE_GLOSS_REQUEST: Omit<GlossRequest, "targetLanguage"> = {
+    words: ["curtains", "inviting"],
+    paragraph: "He opened the curtains. The room was filled with natural light from the large windows. It made the space feel warm and inviting.",
+    sourceLanguage: "en",
+}
+
+/**
+ * Build the sample template variables for a task
+ * @param taskName Task name (e.g., 'word_translation')
+ * @param targetLanguage Target language code for the sample request
+ * @returns Template variables
+ */
+export function buildSamplePromptVariables(taskName: string, targetLanguage: string): Record<string, string | undefined> {
+    switch (taskName) {
+        case constants.TASK_FRAGMENT_TRANSLATION:
+            return promptVariablesModule.buildFragmentPromptVariables({ ...SAMPLE_FRAGMENT_REQUEST, targetLanguage })
+        case constants.TASK_FRAGMENT_ONLY_TRANSLATION:
+            return promptVariablesModule.buildFragmentOnlyPromptVariables({
+                ...SAMPLE_FRAGMENT_REQUEST,
+                leadingText: undefined,
+                trailingText: undefined,
+                targetLanguage,
+            })
+        case constants.TASK_EXPLANATION:
+            return promptVariablesModule.buildExplanationPromptVariables({ ...SAMPLE_EXPLANATION_REQUEST, targetLanguage })
+        case constants.TASK_READING:
+            return promptVariablesModule.buildReadingPromptVariables(SAMPLE_READING_REQUEST)
+        case constants.TASK_GLOSS:
+            return promptVariablesModule.buildGlossPromptVariables({ ...SAMPLE_GLOSS_REQUEST, targetLanguage })
+        default:
+            return promptVariablesModule.buildWordPromptVariables({ ...SAMPLE_WORD_REQUEST, targetLanguage })
+    }
+}
+
+/**
+ * Render the chat messages a task would send for the sample request
+ *
+ * @param taskName Task name (e.g., 'word_translation')
+ * @param prompts Prompts to render
+ * @param targetLanguage Target language code for the sample request
+ * @returns Messages in request order: system, few-shot examples, user
+ */
+export function buildPromptPreview(taskName: string, prompts: PromptSet, targetLanguage: string): ChatMessage[] {
+    // The follow-up chat renders its template into the system message and preloads the translation
+    if (taskName === constants.TASK_FOLLOW_UP_CHAT) {
+        return followUpMessagesModule.buildFollowUpMessages(prompts, { ...SAMPLE_FOLLOW_UP_REQUEST, targetLanguage })
+    }
+
+    const userPrompt = templateRendererModule.renderTemplate(prompts.userPromptTemplate, buildSamplePromptVariables(taskName, targetLanguage))
+
+    return [{ role: "system", content: prompts.systemPrompt }, ...prompts.fewshot, { role: "user", content: userPrompt }]
+}
@@ -0,0 +1,298 @@
+/**
+ * Prompt variables utility
+ *
+ * Builds the `${...Section}` template variables for each prompt task from a translation request.
+ * Shared by the translation services and the options page prompt preview, so the preview
+ * renders exactly what would be sent to the model.
+ */
+
+import type {
+    ExplanationRequest,
+    FollowUpChatRequest,
+    FragmentTranslationRequest,
+    GlossaryTerm,
+    GlossRequest,
+    ReadingRequest,
+    TranslationStyle,
+    WordTranslationRequest,
+} from "../types/GenerateTypes"
+import * as constants from "../constants/GenerateConstants"
+import * as languageUtilsModule from "./languageUtils"
+
+/**
+ * Escape XML special characters
+ * @param text Text to escape
+ * @returns Escaped text
+ */
+function escapeXmlChars(text: string): string {
+    return text.replace(/</g, "&lt;").replace(/>/g, "&gt;")
+}
+
+/**
+ * Build optional section with title and value
+ * Returns formatted section if value exists, otherwise returns empty string
+ * @param title Section title
+ * @param value Section value
+ * @returns Formatted section (# Title\nvalue) or empty string
+ */
+function buildOptionalSection(title: string, value: string | undefined): string {
+    if (value && value.trim().length > 0) {
+        return `# ${title}\n${value.trim()}`
+    }
+    return ""
+}
+
+function buildContextText(params: { previousSentences?: string[]; highlightedText: string; nextSentences?: string[] }): string {
+    const cleanPrevious = (params.previousSentences ?? []).map((s) => s.replace(/\n/g, " ").trim()).filter(Boolean)
+    const cleanNext = (params.nextSentences ?? []).map((s) => s.replace(/\n/g, " ").trim()).filter(Boolean)
+
+    const previousText = cleanPrevious.join(" ")
+    const nextText = cleanNext.join(" ")
+
+    return [previousText, params.highlightedText, nextText].filter((part) => part.trim().length > 0).join(" ")
+}
+
+/**
+ * Build the glossary section listing required term translations
+ * @param glossary Glossary terms matched in the request
+ * @returns Formatted section, or empty string when there are no terms
+ */
+function buildGlossarySection(glossary: GlossaryTerm[] | undefined): string {
+    const lines = (glossary ?? []).map(({ sourceTerm, translation }) => `- ${sourceTerm} → ${translation}`)
+    return buildOptionalSection("Glossary", lines.join("\n"))
+}
+
+/**
+ * Build the translation style section describing the preferred register and tone
+ * @param style Translation style of the request
+ * @returns Formatted section, or empty string when there is no preference
+ */
+function buildTranslationStyleSection(style: TranslationStyle | undefined): string {
+    return buildOptionalSection("Translation Style", style ? constants.TRANSLATION_STYLE_INSTRUCTIONS[style] : undefined)
+}
+
+/**
+ * Build template variables for the word translation task
+ * @param request Word translation request
+ * @returns Variables for word_translation/user_prompt_template.txt
+ */
+export function buildWordPromptVariables(request: WordTranslationRequest): Record<string, string | undefined> {
+    const { word, leadingText, trailingText, sourceLanguage, targetLanguage, contextInfo } = request
+
+    // Get language names
+    const { sourceName, targetName } = languageUtilsModule.getLanguageNames(sourceLanguage, targetLanguage)
+
+    // Clean input text: replace newlines with spaces and trim
+    const cleanWord = word.replace(/\n/g, " ").trim()
+
+    let contextText = ""
+    let sentenceValue = ""
+
+    if (!leadingText && !trailingText) {
+        // No context provided
+        contextText = ""
+        sentenceValue = ""
+    } else {
+        // Context provided: construct sentence and context
+        const cleanLeadingText = (leadingText ?? "").replace(/\n/g, " ")
+        const cleanTrailingText = (trailingText ?? "").replace(/\n/g, " ")
+        const cleanTarget = cleanWord
+
+        // Construct full sentence
+        const fullSentence = cleanLeadingText + cleanTarget + cleanTrailingText
+        const cleanSentence = fullSentence.trim()
+
+        // Build contextText with <fragment> and <target> tags
+        const escapedTarget = escapeXmlChars(cleanTarget)
+        const highlightedSentenceInContext = `<fragment>${cleanLeadingText}<target>${escapedTarget}</target>${cleanTrailingText}</fragment>`
+
+        // Include previous and next sentences if available
+        const cleanPreviousSentences = (contextInfo?.previousSentences ?? []).map((s) => s.replace(/\n/g, " ").trim())
+        const cleanNextSentences = (contextInfo?.nextSentences ?? []).map((s) => s.replace(/\n/g, " ").trim())
+
+        contextText = [cleanPreviousSentences.join(" "), highlightedSentenceInContext, cleanNextSentences.join(" ")]
+            .filter((part) => part && part.trim().length > 0)
+            .join(" ")
+
+        sentenceValue = cleanSentence
+    }
+
+    // Build all sections with titles using buildOptionalSection
+    return {
+        sourceLanguageSection: buildOptionalSection("Source Language", sourceName),
+        targetLanguageSection: buildOptionalSection("Target Language", targetName),
+        targetWordSection: buildOptionalSection("Target Word", cleanWord),
+        dictionaryDefinitionSection: buildOptionalSection("Dictionary Definition", contextInfo?.dictionaryDefinition),
+        textFragmentSection: buildOptionalSection("Text Fragment", sentenceValue),
+        paragraphContextSection: buildOptionalSection("Paragraph Context", contextText),
+        sourceTypeSection: buildOptionalSection("Source Type", contextInfo?.sourceType),
+        sourceTitleSection: buildOptionalSection("Source Title", contextInfo?.sourceTitle),
+        sourceAuthorSection: buildOptionalSection("Source Author", contextInfo?.sourceAuthor),
+        glossarySection: buildGlossarySection(request.glossary),
+        translationStyleSection: buildTranslationStyleSection(request.translationStyle),
+    }
+}
+
+/**
+ * Build template variables for the fragment translation task (fragment inside a sentence)
+ * @param request Fragment translation request
+ * @returns Variables for fragment_translation/user_prompt_template.txt
+ */
+export function buildFragmentPromptVariables(request: FragmentTranslationRequest): Record<string, string | undefined> {
+    const { fragment, leadingText, trailingText, sourceLanguage, targetLanguage, contextInfo } = request
+    const { sourceName, targetName } = languageUtilsModule.getLanguageNames(sourceLanguage, targetLanguage)
+
+    const cleanFragmentText = fragment.replace(/\n/g, " ").trim()
+    const cleanLeadingText = (leadingText ?? "").replace(/\n/g, " ")
+    const cleanTrailingText = (trailingText ?? "").replace(/\n/g, " ")
+    const cleanSentenceText = `${cleanLeadingText}${cleanFragmentText}${cleanTrailingText}`.trim()
+
+    const escapedFragment = escapeXmlChars(cleanFragmentText)
+    const escapedLeading = escapeXmlChars(cleanLeadingText)
+    const escapedTrailing = escapeXmlChars(cleanTrailingText)
+
+    const highlightedSentence = `<sentence>${escapedLeading}<fragment>${escapedFragment}</fragment>${escapedTrailing}</sentence>`
+    const contextText = buildContextText({
+        previousSentences: contextInfo?.previousSentences,
+        highlightedText: highlightedSentence,
+        nextSentences: contextInfo?.nextSentences,
+    })
+
+    return {
+        sourceLanguageSection: buildOptionalSection("Source Language", sourceName),
+        targetLanguageSection: buildOptionalSection("Target Language", targetName),
+        targetFragmentSection: buildOptionalSection("Target Fragment", cleanFragmentText),
+        targetSentenceSection: buildOptionalSection("Target Sentence", cleanSentenceText),
+        contextSection: buildOptionalSection("Context", contextText),
+        sourceTypeSection: buildOptionalSection("Source Type", contextInfo?.sourceType),
+        sourceTitleSection: buildOptionalSection("Source Title", contextInfo?.sourceTitle),
+        sourceAuthorSection: buildOptionalSection("Source Author", contextInfo?.sourceAuthor),
+        glossarySection: buildGlossarySection(request.glossary),
+        translationStyleSection: buildTranslationStyleSection(request.translationStyle),
+    }
+}
+
+/**
+ * Build template variables for the fragment-only translation task (no surrounding sentence)
+ * @param request Fragment translation request
+ * @returns Variables for fragment_translation_only/user_prompt_template.txt
+ */
+export function buildFragmentOnlyPromptVariables(request: FragmentTranslationRequest): Record<string, string | undefined> {
+    const { fragment, sourceLanguage, targetLanguage, contextInfo } = request
+    const { sourceName, targetName } = languageUtilsModule.getLanguageNames(sourceLanguage, targetLanguage)
+
+    const cleanFragmentText = fragment.replace(/\n/g, " ").trim()
+    const escapedFragment = escapeXmlChars(cleanFragmentText)
+
+    const highlightedFragment = `<fragment>${escapedFragment}</fragment>`
+    const contextText = buildContextText({
+        previousSentences: contextInfo?.previousSentences,
+        highlightedText: highlightedFragment,
+        nextSentences: contextInfo?.nextSentences,
+    })
+
+    return {
+        sourceLanguageSection: buildOptionalSection("Source Language", sourceName),
+        targetLanguageSection: buildOptionalSection("Target Language", targetName),
+        targetFragmentSection: buildOptionalSection("Target Fragment", cleanFragmentText),
+        contextSection: buildOptionalSection("Context", contextText),
+        sourceTypeSection: buildOptionalSection("Source Type", contextInfo?.sourceType),
+        sourceTitleSection: buildOptionalSection("Source Title", contextInfo?.sourceTitle),
+        sourceAuthorSection: buildOptionalSection("Source Author", contextInfo?.sourceAuthor),
+        glossarySection: buildGlossarySection(request.glossary),
+        translationStyleSection: buildTranslationStyleSection(request.translationStyle),
+    }
+}
+
+/**
+ * Build the sentence with the target marked by `<target>` tags
+ * @returns Marked sentence, or empty string when there is no surrounding text
+ */
+function buildTargetSentence(cleanText: string, leadingText: string | undefined, trailingText: string | undefined): string {
+    const cleanLeadingText = (leadingText ?? "").replace(/\n/g, " ")
+    const cleanTrailingText = (trailingText ?? "").replace(/\n/g, " ")
+    if (!cleanLeadingText.trim() && !cleanTrailingText.trim()) {
+        return ""
+    }
+    return `${escapeXmlChars(cleanLeadingText)}<target>${escapeXmlChars(cleanText)}</target>${escapeXmlChars(cleanTrailingText)}`.trim()
+}
+
+/**
+ * Build template variables for the explanation task
+ * @param request Explanation request
+ * @returns Variables for explanation/user_prompt_template.txt
+ */
+export function buildExplanationPromptVariables(request: ExplanationRequest): Record<string, string | undefined> {
+    const { text, translation, leadingText, trailingText, sourceLanguage, targetLanguage } = request
+    const { sourceName, targetName } = languageUtilsModule.getLanguageNames(sourceLanguage, targetLanguage)
+
+    const cleanText = text.replace(/\n/g, " ").trim()
+    const highlightedSentence = buildTargetSentence(cleanText, leadingText, trailingText)
+
+    return {
+        sourceLanguageSection: buildOptionalSection("Source Language", sourceName),
+        targetLanguageSection: buildOptionalSection("Target Language", targetName),
+        targetTextSection: buildOptionalSection(request.textType === "fragment" ? "Target Fragment" : "Target Word", cleanText),
+        translationSection: buildOptionalSection("Current Translation", translation),
+        sentenceSection: buildOptionalSection("Sentence", highlightedSentence),
+    }
+}
+
+/**
+ * Build template variables for the follow-up chat context
+ * @param request Follow-up chat request
+ * @returns Variables for follow_up_chat/user_prompt_template.txt
+ */
+export function buildFollowUpPromptVariables(request: FollowUpChatRequest): Record<string, string | undefined> {
+    const { text, translation, sentenceTranslation, leadingText, trailingText, sourceLanguage, targetLanguage } = request
+    const { sourceName, targetName } = languageUtilsModule.getLanguageNames(sourceLanguage, targetLanguage)
+
+    const cleanText = text.replace(/\n/g, " ").trim()
+
+    return {
+        sourceLanguageSection: buildOptionalSection("Source Language", sourceName),
+        targetLanguageSection: buildOptionalSection("Target Language", targetName),
+        targetTextSection: buildOptionalSection(request.textType === "fragment" ? "Target Fragment" : "Target Word", cleanText),
+        translationSection: buildOptionalSection("Translation", translation),
+        sentenceSection: buildOptionalSection("Sentence", buildTargetSentence(cleanText, leadingText, trailingText)),
+        sentenceTranslationSection: buildOptionalSection("Sentence Translation", sentenceTranslation),
+    }
+}
+
+/**
+ * Build template variables for the reading task
+ * @param request Reading request
+ * @returns Variables for reading/user_prompt_template.txt
+ */
+export function buildReadingPromptVariables(request: ReadingRequest): Record<string, string | undefined> {
+    const { text, leadingText, trailingText, sourceLanguage } = request
+    const { sourceName } = languageUtilsModule.getLanguageNames(sourceLanguage)
+
+    const cleanText = text.replace(/\n/g, " ").trim()
+
+    return {
+        sourceLanguageSection: buildOptionalSection("Source Language", sourceName),
+        targetTextSection: buildOptionalSection("Target Text", cleanText),
+        sentenceSection: buildOptionalSection("Sentence", buildTargetSentence(cleanText, leadingText, trailingText)),
+    }
+}
+
+/**
+ * Build template variables for the gloss task
+ * @param request Gloss request
+ * @returns Variables for gloss/user_prompt_template.txt
+ */
+export function buildGlossPromptVariables(request: GlossRequest): Record<string, string | undefined> {
+    const { words, paragraph, sourceLanguage, targetLanguage } = request
+    const { sourceName, targetName } = languageUtilsModule.getLanguageNames(sourceLanguage, targetLanguage)
+
+    const wordLines = words.map((word) => `- ${word.replace(/\n/g, " ").trim()}`)
+
+    return {
+        sourceLanguageSection: buildOptionalSection("Source Language", sourceName),
+        targetLanguageSection: buildOptionalSection("Target Language", targetName),
+        wordsSection: buildOptionalSection("Word List", wordLines.join("\n")),
+        paragraphSection: buildOptionalSection("Paragraph", paragraph.replace(/\n/g, " ")),
+        translationStyleSection: buildTranslationStyleSection(request.translationStyle),
+    }
+}
@@ -28,6 +28,12 @@ declare module "*.css?raw" {
     export default content
 }
 
+// Vite raw import for text resources (e.g. word lists)
+declare module "*.txt?raw" {
+    const content: string
+    export default content
+}
+
 // Regular HTML import
 declare module "*.html" {
     const content: string
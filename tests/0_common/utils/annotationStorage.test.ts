@@ -0,0 +1,85 @@
+/**
+ * Annotation Storage Tests
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { PersistedAnnotation } from '@/0_common/types';
+import {
+    ANNOTATIONS_STORAGE_KEY,
+    buildAnnotationId,
+    getPageAnnotations,
+    MAX_ANNOTATED_PAGES,
+    normalizePageUrl,
+    removeAnnotation,
+    saveAnnotation,
+} from '@/0_common/utils/annotationStorage';
+
+let storageData: Record<string, unknown> = {};
+
+vi.stubGlobal('chrome', {
+    storage: {
+        local: {
+            get: vi.fn(async (key: string) => ({ [key]: storageData[key] })),
+            set: vi.fn(async (payload: Record<string, unknown>) => {
+                storageData = { ...storageData, ...JSON.parse(JSON.stringify(payload)) };
+            }),
+        },
+    },
+});
+
+const PAGE_URL = 'https://example.com/story';
+
+function makeAnnotation(exact: string, updatedAt = 1): PersistedAnnotation {
+    const selector = { exact, prefix: 'natural ', suffix: '.' };
+    return {
+        id: buildAnnotationId('word', selector),
+        translationType: 'word',
+        selector,
+        result: { translation: `${exact}-zh`, targetLanguage: 'zh' },
+        sourceLanguage: 'en',
+        updatedAt,
+    };
+}
+
+describe('annotationStorage', () => {
+    beforeEach(() => {
+        storageData = {};
+        vi.clearAllMocks();
+    });
+
+    it('should ignore the URL fragment', () => {
+        expect(normalizePageUrl('https://example.com/story#chapter-2')).toBe(PAGE_URL);
+    });
+
+    it('should save, overwrite and list annotations per page', async () => {
+        await Promise.all([
+            saveAnnotation(makeAnnotation('light', 1), PAGE_URL),
+            saveAnnotation(makeAnnotation('window', 2), `${PAGE_URL}#top`),
+            saveAnnotation({ ...makeAnnotation('light', 3), result: { translation: '光线' } }, PAGE_URL),
+        ]);
+
+        const annotations = await getPageAnnotations(PAGE_URL);
+        expect(annotations.map((a) => a.selector.exact)).toEqual(['window', 'light']);
+        expect(annotations[1]?.result.translation).toBe('光线');
+        expect(await getPageAnnotations('https://example.com/other')).toEqual([]);
+    });
+
+    it('should remove annotations and drop empty pages', async () => {
+        const annotation = makeAnnotation('light');
+        await saveAnnotation(annotation, PAGE_URL);
+        await removeAnnotation(annotation.id, PAGE_URL);
+
+        expect(await getPageAnnotations(PAGE_URL)).toEqual([]);
+        expect(storageData[ANNOTATIONS_STORAGE_KEY]).toEqual({});
+    });
+
+    it('should evict the least recently updated pages beyond the limit', async () => {
+        for (let i = 0; i <= MAX_ANNOTATED_PAGES; i++) {
+            await saveAnnotation(makeAnnotation('light', i), `https://example.com/page-${i}`);
+        }
+
+        const store = storageData[ANNOTATIONS_STORAGE_KEY] as Record<string, unknown>;
+        expect(Object.keys(store)).toHaveLength(MAX_ANNOTATED_PAGES);
+        expect(store['https://example.com/page-0']).toBeUndefined();
+    });
+});
@@ -0,0 +1,78 @@
+/**
+ * Glossary Export Tests
+ */
+
+import { describe, expect, it } from 'vitest';
+import type { GlossaryEntry } from '@/0_common/types';
+import { exportGlossary, parseGlossaryCsv, parseGlossaryFile, parseGlossaryTbx } from '@/0_common/utils/glossaryExport';
+
+const NOW = new Date(2026, 0, 15, 10, 0, 0).getTime();
+
+function makeEntry(sourceTerm: string, translation: string, targetLanguage: string, domain?: string): GlossaryEntry {
+    return {
+        id: `${targetLanguage}:${domain ?? ''}:${sourceTerm.toLowerCase()}`,
+        sourceTerm,
+        translation,
+        targetLanguage,
+        domain,
+        createdAt: NOW,
+        updatedAt: NOW,
+    };
+}
+
+const entries = [
+    makeEntry('consideration', '对价', 'zh', 'legal'),
+    makeEntry('consideration', 'contrepartie', 'fr', 'legal'),
+    makeEntry('R&D, "labs"', '研发', 'zh'),
+];
+
+describe('glossaryExport', () => {
+    it('should export CSV with a header, quoting and a BOM', () => {
+        const file = exportGlossary(entries, 'csv', undefined, NOW);
+
+        expect(file.fileName).toBe('tapword-glossary-2026-01-15.csv');
+        expect(file.content.startsWith('\uFEFFSource Term,Translation,Target Language,Domain\r\n')).toBe(true);
+        expect(file.content).toContain('"R&D, ""labs""",研发,zh,\r\n');
+    });
+
+    it('should round-trip entries through CSV', () => {
+        const parsed = parseGlossaryCsv(exportGlossary(entries, 'csv').content);
+
+        expect(parsed).toEqual(
+            entries.map(({ sourceTerm, translation, targetLanguage, domain }) => ({ sourceTerm, translation, targetLanguage, domain }))
+        );
+    });
+
+    it('should read CSV columns by header name, or in export order without a header', () => {
+        expect(parseGlossaryCsv('domain,target,source,language\nit,接口,API,zh\n')).toEqual([
+            { sourceTerm: 'API', translation: '接口', targetLanguage: 'zh', domain: 'it' },
+        ]);
+        expect(parseGlossaryCsv('API,接口,zh')).toEqual([{ sourceTerm: 'API', translation: '接口', targetLanguage: 'zh', domain: undefined }]);
+    });
+
+    it('should group TBX concepts by term and domain and round-trip them', () => {
+        const file = exportGlossary(entries, 'tbx', 'en', NOW);
+
+        expect(file.fileName).toBe('tapword-glossary-2026-01-15.tbx');
+        expect(file.content.match(/<conceptEntry /g)).toHaveLength(2);
+        expect(file.content).toContain('<descrip type="subjectField">legal</descrip>');
+        expect(file.content).toContain('<term>R&amp;D, &quot;labs&quot;</term>');
+        expect(parseGlossaryFile('team.tbx', file.content)).toEqual(
+            entries.map(({ sourceTerm, translation, targetLanguage, domain }) => ({ sourceTerm, translation, targetLanguage, domain }))
+        );
+    });
+
+    it('should parse TBX v2 termEntry files from other tools', () => {
+        const tbx = `<?xml version="1.0"?>
+<martif type="TBX" xml:lang="en-US">
+  <text><body>
+    <termEntry id="t1">
+      <langSet xml:lang="de-DE"><tig><term>Schnittstelle</term></tig></langSet>
+      <langSet xml:lang="en-US"><tig><term>interface</term></tig></langSet>
+    </termEntry>
+  </body></text>
+</martif>`;
+
+        expect(parseGlossaryTbx(tbx)).toEqual([{ sourceTerm: 'interface', translation: 'Schnittstelle', targetLanguage: 'de', domain: undefined }]);
+    });
+});
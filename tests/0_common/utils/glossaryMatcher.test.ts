@@ -0,0 +1,60 @@
+/**
+ * Glossary Matcher Tests
+ */
+
+import { describe, expect, it } from 'vitest';
+import type { GlossaryEntry } from '@/0_common/types';
+import { applyGlossarySubstitutions, findExactGlossaryEntry, findGlossaryMatches } from '@/0_common/utils/glossaryMatcher';
+
+function makeEntry(sourceTerm: string, translation: string, overrides: Partial<GlossaryEntry> = {}): GlossaryEntry {
+    return {
+        id: `zh::${sourceTerm.toLowerCase()}`,
+        sourceTerm,
+        translation,
+        targetLanguage: 'zh',
+        createdAt: 0,
+        updatedAt: 0,
+        ...overrides,
+    };
+}
+
+describe('glossaryMatcher', () => {
+    it('should match whole words case-insensitively, longest terms first', () => {
+        const entries = [makeEntry('art', '艺术'), makeEntry('API', '接口'), makeEntry('API gateway', 'API 网关')];
+
+        const matches = findGlossaryMatches(entries, 'The party configured an api gateway.', 'zh-CN', '');
+
+        expect(matches.map((entry) => entry.sourceTerm)).toEqual(['API gateway', 'API']);
+    });
+
+    it('should match terms in scripts without spaces anywhere in the text', () => {
+        const entries = [makeEntry('機械学習', 'machine learning', { targetLanguage: 'en' })];
+
+        expect(findGlossaryMatches(entries, 'これは機械学習の本です。', 'en', '')).toHaveLength(1);
+    });
+
+    it('should apply domain-scoped entries only in the active domain and prefer them', () => {
+        const entries = [makeEntry('consideration', '考虑'), makeEntry('consideration', '对价', { id: 'zh:legal:consideration', domain: 'Legal' })];
+
+        expect(findGlossaryMatches(entries, 'No consideration was paid.', 'zh', '')[0]?.translation).toBe('考虑');
+        expect(findGlossaryMatches(entries, 'No consideration was paid.', 'zh', 'legal')[0]?.translation).toBe('对价');
+        expect(findGlossaryMatches(entries, 'No consideration was paid.', 'ja', 'legal')).toEqual([]);
+    });
+
+    it('should find the entry matching the whole selection', () => {
+        const matches = [makeEntry('TapWord', 'TapWord')];
+
+        expect(findExactGlossaryEntry(matches, ' tapword ')?.sourceTerm).toBe('TapWord');
+        expect(findExactGlossaryEntry(matches, 'TapWord app')).toBeUndefined();
+    });
+
+    it('should substitute machine renderings and untranslated terms', () => {
+        const text = applyGlossarySubstitutions('Open the Dashboard and check the 仪表板 totals.', [
+            { from: '仪表板', to: '看板' },
+            { from: 'Dashboard', to: '看板' },
+            { from: 'board', to: '董事会' },
+        ]);
+
+        expect(text).toBe('Open the 看板 and check the 看板 totals.');
+    });
+});
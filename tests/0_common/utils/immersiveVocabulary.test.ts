@@ -0,0 +1,70 @@
+/**
+ * Immersive Vocabulary Tests
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+    findImmersiveVocabularySite,
+    getKnownWords,
+    KNOWN_WORDS_STORAGE_KEY,
+    markWordsAsKnown,
+    normalizeImmersiveVocabularySites,
+    normalizeKnownRank,
+    normalizeMaxGlossesPerViewport,
+    toggleImmersiveVocabularySite,
+} from '@/0_common/utils/immersiveVocabulary';
+
+let storageData: Record<string, unknown> = {};
+
+beforeEach(() => {
+    storageData = {};
+    vi.stubGlobal('chrome', {
+        storage: {
+            local: {
+                get: vi.fn(async (key: string) => ({ [key]: storageData[key] })),
+                set: vi.fn(async (items: Record<string, unknown>) => {
+                    storageData = { ...storageData, ...structuredClone(items) };
+                }),
+            },
+        },
+    });
+});
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+});
+
+describe('immersiveVocabulary', () => {
+    it('should normalize the site list and drop invalid or duplicate entries', () => {
+        expect(normalizeImmersiveVocabularySites(['https://www.Example.com/news', 'example.com', 'not a host', 42, 'blog.example.org'])).toEqual([
+            'example.com',
+            'blog.example.org',
+        ]);
+        expect(normalizeImmersiveVocabularySites({ 'example.com': true })).toEqual([]);
+    });
+
+    it('should resolve and toggle the site covering a page', () => {
+        expect(findImmersiveVocabularySite(['example.com'], 'news.example.com')).toBe('example.com');
+        expect(findImmersiveVocabularySite(['news.example.com'], 'example.com')).toBeNull();
+
+        expect(toggleImmersiveVocabularySite([], 'www.example.com')).toEqual(['example.com']);
+        expect(toggleImmersiveVocabularySite(['example.com', 'other.org'], 'news.example.com')).toEqual(['other.org']);
+        expect(toggleImmersiveVocabularySite(['example.com'], '')).toEqual(['example.com']);
+    });
+
+    it('should clamp the rank and per-viewport settings', () => {
+        expect(normalizeKnownRank(-5, 2000)).toBe(0);
+        expect(normalizeKnownRank(1e9, 2000)).toBe(10000);
+        expect(normalizeKnownRank('abc', 2000)).toBe(2000);
+        expect(normalizeMaxGlossesPerViewport(0, 8)).toBe(1);
+        expect(normalizeMaxGlossesPerViewport(12.4, 8)).toBe(12);
+        expect(normalizeMaxGlossesPerViewport(undefined, 8)).toBe(8);
+    });
+
+    it('should store concurrently marked words in lowercase', async () => {
+        await Promise.all([markWordsAsKnown(['Ubiquitous', 'ubiquity'], 1), markWordsAsKnown([' Ephemeral ', ''], 2)]);
+
+        expect(await getKnownWords()).toEqual(new Set(['ubiquitous', 'ubiquity', 'ephemeral']));
+        expect(storageData[KNOWN_WORDS_STORAGE_KEY]).toEqual({ ubiquitous: 1, ubiquity: 1, ephemeral: 2 });
+    });
+});
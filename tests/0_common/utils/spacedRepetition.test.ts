@@ -0,0 +1,86 @@
+/**
+ * Spaced Repetition (SM-2) Tests
+ */
+
+import { describe, expect, it } from 'vitest';
+import type { VocabularyEntry } from '@/0_common/types';
+import { applyReviewGrade, getDueEntries, isDueToday, MIN_EASE_FACTOR } from '@/0_common/utils/spacedRepetition';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = new Date(2026, 0, 15, 10, 0, 0).getTime();
+
+function makeEntry(id: string, overrides: Partial<VocabularyEntry> = {}): VocabularyEntry {
+    return {
+        id,
+        word: id,
+        lemma: null,
+        translation: id,
+        targetLanguage: 'zh',
+        lookupCount: 1,
+        createdAt: NOW,
+        lastLookedUpAt: NOW,
+        ...overrides,
+    };
+}
+
+describe('spacedRepetition', () => {
+    describe('applyReviewGrade', () => {
+        it('should schedule 1 day, 6 days, then interval × ease factor for successful reviews', () => {
+            const first = applyReviewGrade(undefined, 4, NOW);
+            expect(first.intervalDays).toBe(1);
+            expect(first.repetitions).toBe(1);
+            expect(first.dueAt).toBe(NOW + DAY_MS);
+
+            const second = applyReviewGrade(first, 4, NOW);
+            expect(second.intervalDays).toBe(6);
+
+            const third = applyReviewGrade(second, 4, NOW);
+            expect(third.intervalDays).toBe(Math.round(6 * second.easeFactor));
+            expect(third.repetitions).toBe(3);
+        });
+
+        it('should reset repetitions and interval on failed recall', () => {
+            const learned = applyReviewGrade(applyReviewGrade(undefined, 5, NOW), 5, NOW);
+            const failed = applyReviewGrade(learned, 1, NOW);
+
+            expect(failed.repetitions).toBe(0);
+            expect(failed.intervalDays).toBe(1);
+            expect(failed.lastGrade).toBe(1);
+        });
+
+        it('should adjust the ease factor by grade and clamp it at the minimum', () => {
+            expect(applyReviewGrade(undefined, 5, NOW).easeFactor).toBeCloseTo(2.6);
+            expect(applyReviewGrade(undefined, 4, NOW).easeFactor).toBeCloseTo(2.5);
+            expect(applyReviewGrade(undefined, 3, NOW).easeFactor).toBeCloseTo(2.36);
+
+            let state = applyReviewGrade(undefined, 0, NOW);
+            for (let i = 0; i < 10; i++) {
+                state = applyReviewGrade(state, 0, NOW);
+            }
+            expect(state.easeFactor).toBe(MIN_EASE_FACTOR);
+        });
+    });
+
+    describe('isDueToday / getDueEntries', () => {
+        it('should treat never-reviewed entries as due', () => {
+            expect(isDueToday(makeEntry('new'), NOW)).toBe(true);
+        });
+
+        it('should count entries due any time today, but not tomorrow', () => {
+            const laterToday = makeEntry('later', { review: { ...applyReviewGrade(undefined, 4, NOW - DAY_MS), dueAt: NOW + 60 * 60 * 1000 } });
+            const tomorrow = makeEntry('tomorrow', { review: applyReviewGrade(undefined, 4, NOW) });
+
+            expect(isDueToday(laterToday, NOW)).toBe(true);
+            expect(isDueToday(tomorrow, NOW)).toBe(false);
+        });
+
+        it('should order overdue cards first and new cards last', () => {
+            const overdue = makeEntry('overdue', { review: { ...applyReviewGrade(undefined, 4, NOW), dueAt: NOW - 2 * DAY_MS } });
+            const dueNow = makeEntry('dueNow', { review: { ...applyReviewGrade(undefined, 4, NOW), dueAt: NOW } });
+            const fresh = makeEntry('fresh');
+            const notDue = makeEntry('notDue', { review: applyReviewGrade(undefined, 5, NOW) });
+
+            expect(getDueEntries([fresh, notDue, dueNow, overdue], NOW).map((e) => e.id)).toEqual(['overdue', 'dueNow', 'fresh']);
+        });
+    });
+});
@@ -0,0 +1,40 @@
+/**
+ * Translation Style Tests
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+    normalizeSiteHostname,
+    normalizeSiteTranslationStyles,
+    resolveSiteTranslationStyle,
+} from '@/0_common/utils/translationStyle';
+
+describe('translationStyle', () => {
+    it('should reduce hostnames and URLs to a bare hostname', () => {
+        expect(normalizeSiteHostname('https://www.Example.com/news?id=1')).toBe('example.com');
+        expect(normalizeSiteHostname(' docs.example.com ')).toBe('docs.example.com');
+        expect(normalizeSiteHostname('localhost:8080')).toBe('localhost');
+        expect(normalizeSiteHostname('   ')).toBeNull();
+        expect(normalizeSiteHostname('not a host')).toBeNull();
+    });
+
+    it('should drop invalid overrides when normalizing', () => {
+        expect(
+            normalizeSiteTranslationStyles({ 'WWW.Example.com': 'formal', 'news.example.org': 'poetic', '': 'casual' })
+        ).toEqual({ 'example.com': 'formal' });
+        expect(normalizeSiteTranslationStyles(['formal'])).toEqual({});
+    });
+
+    it('should prefer the most specific site override over the global style', () => {
+        const settings = {
+            translationStyle: 'natural' as const,
+            siteTranslationStyles: { 'example.com': 'formal' as const, 'chat.example.com': 'casual' as const },
+        };
+
+        expect(resolveSiteTranslationStyle(settings, 'www.example.com')).toBe('formal');
+        expect(resolveSiteTranslationStyle(settings, 'docs.example.com')).toBe('formal');
+        expect(resolveSiteTranslationStyle(settings, 'chat.example.com')).toBe('casual');
+        expect(resolveSiteTranslationStyle(settings, 'example.org')).toBe('natural');
+        expect(resolveSiteTranslationStyle(settings, '')).toBe('natural');
+    });
+});
@@ -0,0 +1,73 @@
+/**
+ * Token Usage Storage Tests
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+    estimateTokenCost,
+    getMonthStartDay,
+    getTokenUsage,
+    recordTokenUsage,
+    summarizeTokenUsage,
+    USAGE_STORAGE_KEY,
+} from '@/0_common/utils/usageStorage';
+
+let storageData: Record<string, unknown> = {};
+
+beforeEach(() => {
+    storageData = {};
+    vi.stubGlobal('chrome', {
+        storage: {
+            local: {
+                get: vi.fn(async (key: string) => ({ [key]: storageData[key] })),
+                set: vi.fn(async (items: Record<string, unknown>) => {
+                    storageData = { ...storageData, ...structuredClone(items) };
+                }),
+                remove: vi.fn(async (key: string) => {
+                    delete storageData[key];
+                }),
+            },
+        },
+    });
+});
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+});
+
+describe('usageStorage', () => {
+    it('should estimate cost from per-million-token prices', () => {
+        expect(estimateTokenCost(1000, 500, { inputPricePerMillion: 0.15, outputPricePerMillion: 0.6 })).toBeCloseTo(0.00045);
+        expect(estimateTokenCost(1000, 500, { inputPricePerMillion: 0, outputPricePerMillion: 0 })).toBe(0);
+    });
+
+    it('should aggregate concurrent records per day, model and request type', async () => {
+        const day = new Date(2026, 9, 19, 12);
+        await Promise.all([
+            recordTokenUsage({ model: 'gpt-test', requestType: 'word', promptTokens: 100, completionTokens: 20, cost: 0.01 }, day),
+            recordTokenUsage({ model: 'gpt-test', requestType: 'word', promptTokens: 50, completionTokens: 10, cost: 0.005 }, day),
+            recordTokenUsage({ model: 'gpt-other', requestType: 'explanation', promptTokens: 300, completionTokens: 200, cost: 0.1 }, day),
+        ]);
+
+        const store = await getTokenUsage();
+        expect(store['2026-10-19']?.['gpt-test']?.word).toEqual({ requests: 2, promptTokens: 150, completionTokens: 30, cost: 0.015 });
+        expect(store['2026-10-19']?.['gpt-other']?.explanation?.requests).toBe(1);
+    });
+
+    it('should summarize usage since the start of the month and drop expired days', async () => {
+        await recordTokenUsage({ model: 'gpt-test', requestType: 'word', promptTokens: 10, completionTokens: 5, cost: 1 }, new Date(2025, 0, 5));
+        await recordTokenUsage({ model: 'gpt-test', requestType: 'fragment', promptTokens: 10, completionTokens: 5, cost: 2 }, new Date(2026, 8, 30));
+        await recordTokenUsage({ model: 'gpt-test', requestType: 'followUp', promptTokens: 10, completionTokens: 5, cost: 3 }, new Date(2026, 9, 1));
+
+        const store = storageData[USAGE_STORAGE_KEY] as Record<string, unknown>;
+        expect(Object.keys(store).sort()).toEqual(['2026-09-30', '2026-10-01']);
+
+        const month = summarizeTokenUsage(await getTokenUsage(), getMonthStartDay(new Date(2026, 9, 19)));
+        expect(month.total).toEqual({ requests: 1, promptTokens: 10, completionTokens: 5, cost: 3 });
+        expect(Object.keys(month.byRequestType)).toEqual(['followUp']);
+
+        const all = summarizeTokenUsage(await getTokenUsage());
+        expect(all.byModel['gpt-test']?.cost).toBe(5);
+        expect(Object.keys(all.byDay).sort()).toEqual(['2026-09-30', '2026-10-01']);
+    });
+});
@@ -0,0 +1,87 @@
+/**
+ * Vocabulary Export Tests
+ */
+
+import { describe, expect, it } from 'vitest';
+import type { VocabularyEntry } from '@/0_common/types';
+import { exportVocabulary, filterEntriesForExport } from '@/0_common/utils/vocabularyExport';
+
+const NOW = new Date(2026, 0, 15, 10, 0, 0).getTime();
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function makeEntry(word: string, overrides: Partial<VocabularyEntry> = {}): VocabularyEntry {
+    return {
+        id: `zh:${word}`,
+        word,
+        lemma: null,
+        translation: word,
+        targetLanguage: 'zh',
+        lookupCount: 1,
+        createdAt: NOW,
+        lastLookedUpAt: NOW,
+        ...overrides,
+    };
+}
+
+const ran = makeEntry('ran', {
+    lemma: 'run',
+    phonetic: '/ræn/',
+    lemmaPhonetic: '/rʌn/',
+    translation: '跑',
+    sentenceTranslation: '她跑回家。',
+    originalSentence: 'She ran home, "fast" & <quietly>.',
+    pageUrl: 'https://example.com/story',
+});
+
+describe('vocabularyExport', () => {
+    it('should filter by lookup date range and language, oldest first', () => {
+        const entries = [
+            makeEntry('new', { lastLookedUpAt: NOW }),
+            makeEntry('old', { lastLookedUpAt: NOW - 3 * DAY_MS }),
+            makeEntry('mid', { lastLookedUpAt: NOW - DAY_MS }),
+            makeEntry('lumière', { targetLanguage: 'fr', lastLookedUpAt: NOW - DAY_MS }),
+        ];
+
+        expect(filterEntriesForExport(entries, {}).map((e) => e.word)).toEqual(['old', 'mid', 'lumière', 'new']);
+        expect(filterEntriesForExport(entries, { from: NOW - 2 * DAY_MS, to: NOW - 1, targetLanguage: 'zh' }).map((e) => e.word)).toEqual(['mid']);
+    });
+
+    it('should export Anki TSV with headers, HTML escaping and a bold word', () => {
+        const file = exportVocabulary([ran], 'anki', {}, NOW);
+        const lines = file.content.trimEnd().split('\n');
+
+        expect(file.fileName).toBe('tapword-vocabulary-2026-01-15.tsv');
+        expect(lines[0]).toBe('#separator:tab');
+        expect(lines[1]).toBe('#html:true');
+        expect(lines[2]).toContain('#columns:Word\tLemma');
+
+        const fields = lines[3]?.split('\t') ?? [];
+        expect(fields).toHaveLength(8);
+        expect(fields[0]).toBe('ran');
+        expect(fields[6]).toBe('She <b>ran</b> home, "fast" &amp; &lt;quietly&gt;.');
+        expect(fields[7]).toBe('https://example.com/story');
+    });
+
+    it('should export CSV with BOM, RFC 4180 quoting and a bracketed word', () => {
+        const file = exportVocabulary([ran], 'csv', {}, NOW);
+
+        expect(file.content.startsWith('\uFEFFWord,Lemma,')).toBe(true);
+        expect(file.content).toContain('\r\n');
+        expect(file.content).toContain('"She [ran] home, ""fast"" & <quietly>."');
+        expect(file.fileName.endsWith('.csv')).toBe(true);
+    });
+
+    it('should export a Markdown table with escaped pipes', () => {
+        const entry = makeEntry('pipe', { originalSentence: 'a | pipe\nsplit' });
+        const lines = exportVocabulary([entry], 'markdown', {}, NOW).content.trimEnd().split('\n');
+
+        expect(lines).toHaveLength(3);
+        expect(lines[1]).toBe('| --- | --- | --- | --- | --- | --- | --- | --- |');
+        expect(lines[2]).toContain('a \\| **pipe** split');
+    });
+
+    it('should export the sentence unmarked when the word is not found', () => {
+        const entry = makeEntry('went', { originalSentence: 'She goes home.' });
+        expect(exportVocabulary([entry], 'markdown', {}, NOW).content).toContain('| She goes home. |');
+    });
+});
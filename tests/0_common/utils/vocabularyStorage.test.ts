@@ -0,0 +1,183 @@
+/**
+ * Vocabulary Storage Tests
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+    buildVocabularyEntryId,
+    deleteVocabularyEntry,
+    filterVocabularyEntries,
+    getVocabularyEntries,
+    gradeVocabularyEntry,
+    locateWordInSentence,
+    recordSenseSelection,
+    recordVocabularyLookup,
+    updateVocabularyEntry,
+    VOCABULARY_STORAGE_KEY,
+} from '@/0_common/utils/vocabularyStorage';
+
+let storageData: Record<string, unknown> = {};
+
+vi.stubGlobal('chrome', {
+    storage: {
+        local: {
+            get: vi.fn(async (key: string) => ({ [key]: storageData[key] })),
+            set: vi.fn(async (payload: Record<string, unknown>) => {
+                storageData = { ...storageData, ...JSON.parse(JSON.stringify(payload)) };
+            }),
+        },
+    },
+});
+
+describe('vocabularyStorage', () => {
+    beforeEach(() => {
+        storageData = {};
+        vi.clearAllMocks();
+    });
+
+    it('should build normalized entry IDs', () => {
+        expect(buildVocabularyEntryId('zh', ' Running ')).toBe('zh:running');
+    });
+
+    it('should record a new lookup with context', async () => {
+        const entry = await recordVocabularyLookup({
+            word: 'ran',
+            lemma: 'run',
+            translation: '跑',
+            originalSentence: 'She ran home.',
+            pageUrl: 'https://example.com/story',
+            pageTitle: 'Story',
+            targetLanguage: 'zh',
+        });
+
+        expect(entry.id).toBe('zh:run');
+        expect(entry.lookupCount).toBe(1);
+        expect(entry.pageUrl).toBe('https://example.com/story');
+
+        const entries = await getVocabularyEntries();
+        expect(entries).toHaveLength(1);
+        expect(entries[0]?.originalSentence).toBe('She ran home.');
+    });
+
+    it('should merge repeated lookups of the same lemma and increment the count', async () => {
+        await recordVocabularyLookup({ word: 'ran', lemma: 'run', translation: '跑', targetLanguage: 'zh' });
+        const second = await recordVocabularyLookup({ word: 'running', lemma: 'run', translation: '跑步', targetLanguage: 'zh' });
+
+        expect(second.lookupCount).toBe(2);
+        expect(second.word).toBe('running');
+        expect(second.translation).toBe('跑步');
+        expect(await getVocabularyEntries()).toHaveLength(1);
+    });
+
+    it('should keep entries for different target languages separate', async () => {
+        await recordVocabularyLookup({ word: 'light', translation: '光', targetLanguage: 'zh' });
+        await recordVocabularyLookup({ word: 'light', translation: 'lumière', targetLanguage: 'fr' });
+
+        expect(await getVocabularyEntries()).toHaveLength(2);
+    });
+
+    it('should not lose lookups recorded concurrently', async () => {
+        await Promise.all([
+            recordVocabularyLookup({ word: 'alpha', translation: 'a', targetLanguage: 'zh' }),
+            recordVocabularyLookup({ word: 'beta', translation: 'b', targetLanguage: 'zh' }),
+            recordVocabularyLookup({ word: 'alpha', translation: 'a', targetLanguage: 'zh' }),
+        ]);
+
+        const store = storageData[VOCABULARY_STORAGE_KEY] as Record<string, { lookupCount: number }>;
+        expect(Object.keys(store)).toHaveLength(2);
+        expect(store['zh:alpha']?.lookupCount).toBe(2);
+    });
+
+    it('should update and delete entries', async () => {
+        await recordVocabularyLookup({ word: 'light', translation: '光', targetLanguage: 'zh' });
+
+        const updated = await updateVocabularyEntry('zh:light', { translation: '光线' });
+        expect(updated?.translation).toBe('光线');
+        expect(updated?.lookupCount).toBe(1);
+
+        expect(await updateVocabularyEntry('zh:missing', { translation: 'x' })).toBeNull();
+
+        await deleteVocabularyEntry('zh:light');
+        expect(await getVocabularyEntries()).toHaveLength(0);
+    });
+
+    it('should keep fields the user edited when the word is looked up again', async () => {
+        await recordVocabularyLookup({
+            word: 'light',
+            translation: '光',
+            originalSentence: 'Natural light.',
+            sentenceTranslation: '自然光。',
+            targetLanguage: 'zh',
+        });
+        const edited = await updateVocabularyEntry('zh:light', { word: 'light', translation: '光线（自然的）', originalSentence: 'Soft light.' });
+        expect(edited?.editedFields).toEqual(['translation', 'originalSentence']);
+
+        const relookup = await recordVocabularyLookup({
+            word: 'lights',
+            lemma: 'light',
+            translation: '灯',
+            originalSentence: 'Turn off the lights.',
+            sentenceTranslation: '关灯。',
+            targetLanguage: 'zh',
+        });
+
+        expect(relookup.word).toBe('lights');
+        expect(relookup.translation).toBe('光线（自然的）');
+        expect(relookup.originalSentence).toBe('Soft light.');
+        expect(relookup.sentenceTranslation).toBe('自然光。');
+        expect(relookup.lookupCount).toBe(2);
+        expect(relookup.editedFields).toEqual(['translation', 'originalSentence']);
+    });
+
+    it('should filter entries by query and target language', async () => {
+        await recordVocabularyLookup({ word: 'light', translation: '光', originalSentence: 'Natural light.', targetLanguage: 'zh' });
+        await recordVocabularyLookup({ word: 'window', translation: 'fenêtre', targetLanguage: 'fr' });
+        const entries = await getVocabularyEntries();
+
+        expect(filterVocabularyEntries(entries, { query: 'NATURAL' }).map((e) => e.word)).toEqual(['light']);
+        expect(filterVocabularyEntries(entries, { targetLanguage: 'fr' }).map((e) => e.word)).toEqual(['window']);
+        expect(filterVocabularyEntries(entries, {})).toHaveLength(2);
+    });
+
+    it('should persist review grades and keep them across new lookups', async () => {
+        await recordVocabularyLookup({ word: 'light', translation: '光', targetLanguage: 'zh' });
+
+        const graded = await gradeVocabularyEntry('zh:light', 4);
+        expect(graded?.review?.repetitions).toBe(1);
+        expect(graded?.review?.lastGrade).toBe(4);
+
+        const relookup = await recordVocabularyLookup({ word: 'light', translation: '光线', targetLanguage: 'zh' });
+        expect(relookup.review).toEqual(graded?.review);
+        expect(await gradeVocabularyEntry('zh:missing', 4)).toBeNull();
+    });
+
+    it('should record the picked sense and clear it when the contextual sense is picked again', async () => {
+        await recordVocabularyLookup({ word: 'banks', lemma: 'bank', translation: '银行', targetLanguage: 'zh' });
+        const contextualSense = { translation: '银行', gloss: '金融机构' };
+
+        const picked = await recordSenseSelection({
+            word: 'banks',
+            lemma: 'bank',
+            targetLanguage: 'zh',
+            sense: { translation: '河岸', gloss: '河流两边的陆地' },
+            contextualSense,
+        });
+        expect(picked?.translation).toBe('河岸');
+        expect(picked?.selectedSense).toMatchObject({ translation: '河岸', gloss: '河流两边的陆地', contextualTranslation: '银行' });
+        expect(picked?.lookupCount).toBe(1);
+
+        const reverted = await recordSenseSelection({ word: 'banks', lemma: 'bank', targetLanguage: 'zh', sense: contextualSense, contextualSense });
+        expect(reverted?.translation).toBe('银行');
+        expect(reverted?.selectedSense).toBeUndefined();
+
+        expect(
+            await recordSenseSelection({ word: 'run', targetLanguage: 'zh', sense: { translation: '经营' }, contextualSense: { translation: '跑' } })
+        ).toBeNull();
+    });
+
+    it('should locate the word inside its sentence case-insensitively', () => {
+        expect(locateWordInSentence('Light filled the room.', 'light')).toEqual({ before: '', match: 'Light', after: ' filled the room.' });
+        expect(locateWordInSentence('Light filled the room.', 'window')).toBeNull();
+        expect(locateWordInSentence('', 'light')).toBeNull();
+    });
+});
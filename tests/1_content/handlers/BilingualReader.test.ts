@@ -0,0 +1,180 @@
+/**
+ * Bilingual Reader Tests
+ *
+ * @vitest-environment jsdom
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import * as reader from '@/1_content/handlers/BilingualReader';
+import { cleanupDOM, createTestDOM } from '../utils/test-helpers';
+
+const { requestFragmentTranslation } = vi.hoisted(() => ({ requestFragmentTranslation: vi.fn() }));
+
+vi.mock('@/1_content/index', () => ({
+    getCachedUserSettings: () => ({ targetLanguage: 'zh', autoAdjustHeight: true, translationStyle: 'standard', siteTranslationStyles: {} }),
+}));
+vi.mock('@/1_content/services/translationRequest', () => ({ requestFragmentTranslation }));
+vi.mock('@/1_content/utils/languageDetector', () => ({
+    detectSourceLanguageAsync: vi.fn(async (text: string) => (/[一-鿿]/.test(text) ? 'zh' : 'en')),
+    resolveTargetLanguage: (_source: string, target: string) => target,
+}));
+vi.mock('@/1_content/ui/toastNotification', () => ({ showToast: vi.fn() }));
+
+class FakeIntersectionObserver {
+    static latest: FakeIntersectionObserver | null = null;
+    observed = new Set<Element>();
+
+    constructor(private readonly callback: IntersectionObserverCallback) {
+        FakeIntersectionObserver.latest = this;
+    }
+
+    observe(element: Element) {
+        this.observed.add(element);
+    }
+
+    disconnect() {
+        this.observed.clear();
+    }
+
+    /** Report elements entering (with their viewport top) or leaving the viewport */
+    trigger(entries: Array<{ target: Element; isIntersecting: boolean; top?: number }>) {
+        this.callback(
+            entries.map(({ target, isIntersecting, top = 0 }) => ({
+                target,
+                isIntersecting,
+                boundingClientRect: { top },
+            })) as unknown as IntersectionObserverEntry[],
+            this as unknown as IntersectionObserver
+        );
+    }
+}
+
+vi.stubGlobal('IntersectionObserver', FakeIntersectionObserver);
+
+async function flush() {
+    for (let i = 0; i < 10; i++) {
+        await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+}
+
+function respondWith(translate: (fragment: string) => string) {
+    requestFragmentTranslation.mockImplementation(async ({ fragment }: { fragment: string }) => ({
+        type: 'FRAGMENT_TRANSLATE_RESPONSE',
+        success: true,
+        data: { translation: translate(fragment) },
+    }));
+}
+
+describe('BilingualReader', () => {
+    beforeEach(() => {
+        cleanupDOM();
+        requestFragmentTranslation.mockReset();
+        respondWith((fragment) => `[${fragment}]`);
+    });
+
+    afterEach(() => {
+        reader.disableBilingualMode();
+    });
+
+    it('should collect leaf blocks with readable text only', () => {
+        const container = createTestDOM(`
+            <article>
+                <h1>Title</h1>
+                <div><p>First paragraph.</p><p>   </p></div>
+                <ul><li>List item</li></ul>
+                <pre>const code = 1</pre>
+                <p>12345</p>
+            </article>
+        `);
+
+        const texts = reader.collectParagraphs(container).map((element) => element.textContent?.trim());
+
+        expect(texts).toEqual(['Title', 'First paragraph.', 'List item']);
+    });
+
+    it('should translate visible paragraphs in viewport order and skip off-screen ones', async () => {
+        const container = createTestDOM('<p>Lower paragraph.</p><p>Upper paragraph.</p><p>Gone paragraph.</p><p>已经是中文</p>');
+        const [lower, upper, gone, chinese] = Array.from(container.querySelectorAll('p'));
+        reader.enableBilingualMode();
+        const observer = FakeIntersectionObserver.latest!;
+        expect(observer.observed.size).toBe(4);
+
+        observer.trigger([
+            { target: lower, isIntersecting: true, top: 500 },
+            { target: upper, isIntersecting: true, top: 10 },
+            { target: gone, isIntersecting: true, top: 900 },
+            { target: chinese, isIntersecting: true, top: 600 },
+        ]);
+        // Scrolled past while waiting behind the concurrency limit
+        observer.trigger([{ target: gone, isIntersecting: false }]);
+        await flush();
+
+        const fragments = requestFragmentTranslation.mock.calls.map(([payload]) => payload.fragment);
+        expect(fragments).toEqual(['Upper paragraph.', 'Lower paragraph.']);
+        expect(upper.lastElementChild?.className).toBe('ai-translator-bilingual');
+        expect(upper.lastElementChild?.textContent).toBe('[Upper paragraph.]');
+        expect(gone.querySelector('.ai-translator-bilingual')).toBeNull();
+        expect(chinese.querySelector('.ai-translator-bilingual')).toBeNull();
+
+        // Back in view: translated now
+        observer.trigger([{ target: gone, isIntersecting: true, top: 100 }]);
+        await flush();
+        expect(gone.lastElementChild?.textContent).toBe('[Gone paragraph.]');
+    });
+
+    it('should leave no residue when turned off, including late responses', async () => {
+        const html = '<p style="height: 20px; overflow-y: hidden;">Clipped paragraph.</p><p>Slow paragraph.</p>';
+        const container = createTestDOM(html);
+        const [clipped, slow] = Array.from(container.querySelectorAll('p'));
+        Object.defineProperty(clipped, 'scrollHeight', { configurable: true, value: 60 });
+        Object.defineProperty(clipped, 'clientHeight', { configurable: true, value: 20 });
+
+        let releaseSlow: () => void = () => undefined;
+        requestFragmentTranslation.mockImplementation(async ({ fragment }: { fragment: string }) => {
+            if (fragment === 'Slow paragraph.') {
+                await new Promise<void>((resolve) => {
+                    releaseSlow = resolve;
+                });
+            }
+            return { type: 'FRAGMENT_TRANSLATE_RESPONSE', success: true, data: { translation: `[${fragment}]` } };
+        });
+
+        expect(reader.toggleBilingualMode()).toBe(true);
+        FakeIntersectionObserver.latest!.trigger([
+            { target: clipped, isIntersecting: true, top: 0 },
+            { target: slow, isIntersecting: true, top: 40 },
+        ]);
+        await flush();
+
+        expect(clipped.querySelector('.ai-translator-bilingual')).not.toBeNull();
+        expect(clipped.style.height).toBe('auto');
+
+        expect(reader.toggleBilingualMode()).toBe(false);
+        releaseSlow();
+        await flush();
+
+        expect(container.innerHTML).toBe(html);
+        expect(reader.isBilingualModeActive()).toBe(false);
+    });
+
+    it('should restore the style attribute exactly as it was written', async () => {
+        const html = '<p style="">Empty style.</p><p style="color:red">Compact style.</p>';
+        const container = createTestDOM(html);
+        const paragraphs = Array.from(container.querySelectorAll('p'));
+        for (const paragraph of paragraphs) {
+            Object.defineProperty(paragraph, 'scrollHeight', { configurable: true, value: 60 });
+            Object.defineProperty(paragraph, 'clientHeight', { configurable: true, value: 20 });
+        }
+        vi.spyOn(window, 'getComputedStyle').mockReturnValue({ overflowY: 'hidden' } as CSSStyleDeclaration);
+
+        reader.enableBilingualMode();
+        FakeIntersectionObserver.latest!.trigger(paragraphs.map((target, index) => ({ target, isIntersecting: true, top: index * 40 })));
+        await flush();
+        expect(paragraphs.every((paragraph) => paragraph.style.maxHeight === 'none')).toBe(true);
+
+        reader.disableBilingualMode();
+        vi.restoreAllMocks();
+
+        expect(container.innerHTML).toBe(html);
+    });
+});
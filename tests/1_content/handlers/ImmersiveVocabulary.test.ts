@@ -0,0 +1,154 @@
+/**
+ * Immersive Vocabulary Tests
+ *
+ * @vitest-environment jsdom
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_USER_SETTINGS, type UserSettings } from '@/0_common/types';
+import * as immersiveVocabulary from '@/1_content/handlers/ImmersiveVocabulary';
+import { cleanupDOM, createTestDOM } from '../utils/test-helpers';
+
+const { translateGlosses, removeGlossTranslations, settings } = vi.hoisted(() => ({
+    translateGlosses: vi.fn(),
+    removeGlossTranslations: vi.fn(() => 0),
+    settings: { current: null as UserSettings | null },
+}));
+
+vi.mock('@/1_content/index', () => ({ getCachedUserSettings: () => settings.current }));
+vi.mock('@/1_content/handlers/TranslationPipeline', () => ({ translateGlosses }));
+vi.mock('@/1_content/services/translationRequest', () => ({ requestFragmentTranslation: vi.fn() }));
+vi.mock('@/1_content/ui/translationDisplay', () => ({ removeGlossTranslations }));
+vi.mock('@/1_content/ui/toastNotification', () => ({ showToast: vi.fn() }));
+vi.mock('@/1_content/utils/languageDetector', () => ({
+    detectSourceLanguageAsync: vi.fn(async (text: string) => (/[一-鿿]/.test(text) ? 'zh' : 'en')),
+}));
+
+class FakeIntersectionObserver {
+    static latest: FakeIntersectionObserver | null = null;
+    observed = new Set<Element>();
+
+    constructor(private readonly callback: IntersectionObserverCallback) {
+        FakeIntersectionObserver.latest = this;
+    }
+
+    observe(element: Element) {
+        this.observed.add(element);
+    }
+
+    disconnect() {
+        this.observed.clear();
+    }
+
+    /** Report every observed element as visible */
+    showAll() {
+        const entries = Array.from(this.observed, (target) => ({ target, isIntersecting: true }));
+        this.callback(entries as unknown as IntersectionObserverEntry[], this as unknown as IntersectionObserver);
+    }
+}
+
+let storageListener: ((changes: Record<string, chrome.storage.StorageChange>, areaName: string) => void) | null = null;
+
+function enableFor(overrides: Partial<UserSettings>) {
+    settings.current = { ...DEFAULT_USER_SETTINGS, immersiveVocabularySites: [location.hostname], ...overrides };
+    immersiveVocabulary.syncImmersiveVocabulary(settings.current);
+}
+
+async function showAllAndScan() {
+    await vi.advanceTimersByTimeAsync(0);
+    FakeIntersectionObserver.latest!.showAll();
+    await vi.advanceTimersByTimeAsync(1000);
+}
+
+function glossedWords(): string[] {
+    return translateGlosses.mock.calls.flatMap(([targets]: [Array<{ range: Range; word: string }>]) =>
+        targets.map(({ range, word }) => {
+            expect(range.toString()).toBe(word);
+            return word;
+        })
+    );
+}
+
+describe('ImmersiveVocabulary', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+        cleanupDOM();
+        translateGlosses.mockReset();
+        translateGlosses.mockResolvedValue(undefined);
+        removeGlossTranslations.mockClear();
+        vi.stubGlobal('IntersectionObserver', FakeIntersectionObserver);
+        vi.stubGlobal('chrome', {
+            storage: {
+                local: { get: vi.fn(async () => ({ knownWords: { ephemeral: 1 } })) },
+                onChanged: {
+                    addListener: vi.fn((listener) => {
+                        storageListener = listener;
+                    }),
+                    removeListener: vi.fn(() => {
+                        storageListener = null;
+                    }),
+                },
+            },
+        });
+    });
+
+    afterEach(() => {
+        immersiveVocabulary.disableImmersiveVocabulary();
+        vi.useRealTimers();
+        vi.unstubAllGlobals();
+    });
+
+    it('should stay off on sites that are not listed', () => {
+        enableFor({ immersiveVocabularySites: ['other.example'] });
+        expect(immersiveVocabulary.isImmersiveVocabularyActive()).toBe(false);
+
+        enableFor({ enableTapWord: false });
+        expect(immersiveVocabulary.isImmersiveVocabularyActive()).toBe(false);
+    });
+
+    it('should gloss the rarest unknown words first, up to the cap', async () => {
+        createTestDOM(`
+            <p>The happy studies were ubiquitous, the ephemeral Zanzibar was meticulous.</p>
+            <p>Meticulous serendipity and ubiquitous ox.</p>
+            <p>这是中文 serendipitous</p>
+        `);
+        enableFor({ immersiveVocabularyKnownRank: 500, immersiveVocabularyMaxPerViewport: 3 });
+        await showAllAndScan();
+
+        // "happy" is listed but beyond rank 500; unlisted words go first, in reading order
+        expect(glossedWords()).toEqual(['ubiquitous', 'meticulous', 'serendipity']);
+
+        // One request per paragraph, with the paragraph as context
+        expect(translateGlosses).toHaveBeenCalledTimes(2);
+        expect(translateGlosses.mock.calls[0][1]).toContain('The happy studies');
+        expect(translateGlosses.mock.calls[0][2]).toBe('en');
+    });
+
+    it('should gloss each word once and skip words inside existing translations', async () => {
+        createTestDOM('<p><span class="ai-translator-anchor">ubiquitous</span> and later ubiquitous again, then ubiquitous.</p>');
+        enableFor({ immersiveVocabularyMaxPerViewport: 8 });
+        await showAllAndScan();
+
+        expect(glossedWords()).toEqual(['ubiquitous']);
+        const [[{ range }]] = translateGlosses.mock.calls[0];
+        expect((range as Range).startOffset).toBe(' and later '.length);
+
+        window.dispatchEvent(new Event('scroll'));
+        await vi.advanceTimersByTimeAsync(1000);
+        expect(translateGlosses).toHaveBeenCalledTimes(1);
+    });
+
+    it('should drop glosses of words marked as known and all glosses when turned off', async () => {
+        createTestDOM('<p>Ubiquity is ubiquitous.</p>');
+        enableFor({});
+        await showAllAndScan();
+
+        storageListener!({ knownWords: { newValue: { ephemeral: 1, ubiquitous: 2 } } }, 'local');
+        expect(removeGlossTranslations).toHaveBeenCalledWith(new Set(['ubiquitous']));
+
+        enableFor({ immersiveVocabularySites: [] });
+        expect(immersiveVocabulary.isImmersiveVocabularyActive()).toBe(false);
+        expect(removeGlossTranslations).toHaveBeenLastCalledWith();
+        expect(storageListener).toBeNull();
+    });
+});
@@ -0,0 +1,97 @@
+/**
+ * Translation Request Stream Tests
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { requestTranslationStream } from '@/1_content/services/translationRequest';
+
+type Listener = (message: any) => void;
+
+/** Fake stream port driven by each test through `script` */
+function createPort(script: (port: { emit: Listener; disconnect: () => void }) => void) {
+    const messageListeners: Listener[] = [];
+    const disconnectListeners: Array<() => void> = [];
+    const controls = {
+        emit: (message: any) => messageListeners.forEach((listener) => listener(message)),
+        disconnect: () => disconnectListeners.forEach((listener) => listener()),
+    };
+    return {
+        onMessage: { addListener: (listener: Listener) => messageListeners.push(listener) },
+        onDisconnect: { addListener: (listener: () => void) => disconnectListeners.push(listener) },
+        postMessage: vi.fn(() => script(controls)),
+    };
+}
+
+const context = { word: 'light', sourceLanguage: 'en', targetLanguage: 'zh' };
+const fallbackResponse = { type: 'TRANSLATE_RESPONSE', success: true, data: { wordTranslation: '光' } };
+
+describe('requestTranslationStream', () => {
+    let sendMessage: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+        sendMessage = vi.fn((_message: unknown, callback: (response: unknown) => void) => callback(fallbackResponse));
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    function stubPort(port: ReturnType<typeof createPort> | (() => never)) {
+        vi.stubGlobal('chrome', {
+            runtime: { connect: typeof port === 'function' ? port : () => port, sendMessage, lastError: undefined },
+        });
+    }
+
+    it('should pass partials and return the final response', async () => {
+        const onPartial = vi.fn();
+        stubPort(
+            createPort(({ emit }) => {
+                emit({ type: 'TRANSLATION_ACK' });
+                emit({ type: 'TRANSLATION_PARTIAL', data: { translation: '光' } });
+                emit({ type: 'TRANSLATE_RESPONSE', success: true, data: { wordTranslation: '光线' } });
+            })
+        );
+
+        const response = await requestTranslationStream(context, onPartial);
+
+        expect(response).toEqual({ type: 'TRANSLATE_RESPONSE', success: true, data: { wordTranslation: '光线' } });
+        expect(onPartial).toHaveBeenCalledWith({ translation: '光' });
+        expect(sendMessage).not.toHaveBeenCalled();
+    });
+
+    it('should fall back to sendMessage when the port closes before the ack', async () => {
+        stubPort(createPort(({ disconnect }) => disconnect()));
+
+        await expect(requestTranslationStream(context, vi.fn())).resolves.toEqual(fallbackResponse);
+        expect(sendMessage).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fall back to sendMessage when the port cannot be opened or posted to', async () => {
+        stubPort(() => {
+            throw new Error('Extension context invalidated');
+        });
+        await expect(requestTranslationStream(context, vi.fn())).resolves.toEqual(fallbackResponse);
+
+        const port = createPort(() => {});
+        port.postMessage.mockImplementation(() => {
+            throw new Error('Attempting to use a disconnected port object');
+        });
+        stubPort(port);
+        await expect(requestTranslationStream(context, vi.fn())).resolves.toEqual(fallbackResponse);
+        expect(sendMessage).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not translate again when the port closes after the ack', async () => {
+        stubPort(
+            createPort(({ emit, disconnect }) => {
+                emit({ type: 'TRANSLATION_ACK' });
+                disconnect();
+            })
+        );
+
+        const response = await requestTranslationStream(context, vi.fn());
+
+        expect(response).toMatchObject({ type: 'TRANSLATE_RESPONSE', success: false, errorType: 'GenericError' });
+        expect(sendMessage).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,83 @@
+/**
+ * Ruby Annotator Tests
+ *
+ * @vitest-environment jsdom
+ */
+
+import { afterEach, describe, expect, it } from 'vitest';
+import { applyRubyReading, removeRubyReading } from '@/1_content/ui/rubyAnnotator';
+import { getCleanTextFromRange } from '@/1_content/utils/domSanitizer';
+import { cleanupDOM, createTestDOM } from '../utils/test-helpers';
+
+function createAnchor(html: string): HTMLElement {
+    const container = createTestDOM(`<p>我明天去<span id="anchor" class="ai-translator-anchor">${html}</span>办事。</p>`);
+    return container.querySelector('#anchor') as HTMLElement;
+}
+
+function readings(anchor: HTMLElement): string[] {
+    return Array.from(anchor.querySelectorAll('ruby')).map((ruby) => ruby.textContent ?? '');
+}
+
+describe('rubyAnnotator', () => {
+    afterEach(() => {
+        cleanupDOM();
+    });
+
+    it('should place one reading over each character', () => {
+        const anchor = createAnchor('银行');
+
+        const placed = applyRubyReading(anchor, [
+            { text: '银', reading: 'yín' },
+            { text: '行', reading: 'háng' },
+        ]);
+
+        expect(placed).toBe(2);
+        expect(anchor.innerHTML).toBe(
+            '<ruby class="ai-translator-ruby">银<rt class="ai-translator-ruby-text">yín</rt></ruby>' +
+                '<ruby class="ai-translator-ruby">行<rt class="ai-translator-ruby-text">háng</rt></ruby>'
+        );
+    });
+
+    it('should align repeated text in order and leave kana without a reading', () => {
+        const anchor = createAnchor('日本の日');
+
+        applyRubyReading(anchor, [
+            { text: '日本', reading: 'にほん' },
+            { text: 'の', reading: '' },
+            { text: '日', reading: 'ひ' },
+        ]);
+
+        expect(readings(anchor)).toEqual(['日本にほん', '日ひ']);
+        expect(anchor.childNodes[1]?.textContent).toBe('の');
+    });
+
+    it('should skip segments that are missing or span an element boundary', () => {
+        const anchor = createAnchor('<b>银</b>行业');
+
+        const placed = applyRubyReading(anchor, [
+            { text: '银行', reading: 'yínháng' },
+            { text: '业', reading: 'yè' },
+            { text: '务', reading: 'wù' },
+        ]);
+
+        expect(placed).toBe(1);
+        expect(readings(anchor)).toEqual(['业yè']);
+    });
+
+    it('should restore the original text and keep readings out of the selected text', () => {
+        const anchor = createAnchor('银行');
+        applyRubyReading(anchor, [
+            { text: '银', reading: 'yín' },
+            { text: '行', reading: 'háng' },
+        ]);
+
+        const range = document.createRange();
+        range.selectNodeContents(anchor);
+        expect(getCleanTextFromRange(range)).toBe('银行');
+
+        expect(removeRubyReading(anchor)).toBe(true);
+        expect(anchor.innerHTML).toBe('银行');
+        expect(anchor.childNodes).toHaveLength(1);
+        expect(removeRubyReading(anchor)).toBe(false);
+    });
+});
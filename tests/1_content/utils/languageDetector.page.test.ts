@@ -0,0 +1,26 @@
+/**
+ * Page Language Detection Tests
+ *
+ * @vitest-environment jsdom
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import { detectPageLanguageAsync, getPageLanguage } from '@/1_content/utils/languageDetector';
+
+describe('getPageLanguage', () => {
+    it('should answer from the document lang until detection finishes, then from the detected language', async () => {
+        const detectLanguage = vi.fn((_text: string, callback: (result: chrome.i18n.LanguageDetectionResult) => void) =>
+            callback({ isReliable: true, languages: [{ language: 'ru', percentage: 95 }] })
+        );
+        vi.stubGlobal('chrome', { i18n: { detectLanguage } });
+        document.documentElement.lang = 'en-US';
+        document.body.textContent = 'Привет, как дела? Это длинный русский текст для определения языка.';
+
+        expect(getPageLanguage()).toBe('en');
+        expect(await detectPageLanguageAsync()).toBe('ru');
+        expect(getPageLanguage()).toBe('ru');
+        expect(detectLanguage).toHaveBeenCalledTimes(1);
+
+        vi.unstubAllGlobals();
+    });
+});
@@ -6,7 +6,7 @@
  */
 
 import { beforeEach, describe, expect, it } from 'vitest';
-import { trimBoundaryWhitespace, expandToWordBoundaries, adjustSelectionRange, type TrimResult } from '@/1_content/utils/rangeAdjuster';
+import { trimBoundaryWhitespace, expandToWordBoundaries, adjustSelectionRange, type TrimResult } from '@/1_content/handlers/utils/rangeAdjuster';
 import { createRangeFromText, createTestDOM, cleanupDOM } from './test-helpers';
 
 /**
@@ -496,6 +496,36 @@ describe('rangeAdjuster', () => {
                 expect(result.range.toString()).toBe('A brain dump');
             });
         });
+
+        describe('Unicode Scripts', () => {
+            it.each([
+                ['accented Latin', 'fr', '<p>Un café déjà célèbre.</p>', 'célèbre', 2, 'célèbre'],
+                ['Cyrillic', 'ru', '<p>Привет, прекрасный мир!</p>', 'прекрасный', 3, 'прекрасный'],
+                ['Greek', 'el', '<p>Καλημέρα όμορφε κόσμε.</p>', 'όμορφε', 2, 'όμορφε'],
+                ['Arabic', 'ar', '<p>مرحبا بالعالم الجميل</p>', 'بالعالم', 2, 'بالعالم'],
+                ['Hebrew', 'he', '<p>שלום עולם יפה</p>', 'עולם', 1, 'עולם'],
+                ['French elision', 'fr', "<p>C'est l'homme du jour.</p>", "l'homme", 3, "l'homme"],
+                ['English contraction', 'en', "<p>You can't stop.</p>", "can't", 1, "can't"],
+            ])('should expand a cut %s word', (_script, language, html, word, skip, expected) => {
+                const container = createTestDOM(html);
+                const range = createRangeFromText(container, word, skip, 0)!;
+                const result = expandToWordBoundaries(range, language);
+
+                expect(result.adjusted).toBe(true);
+                expect(result.range.toString()).toBe(expected);
+            });
+
+            it('should expand an accented word split across inline elements', () => {
+                const container = createTestDOM('<p>Der <b>Grö</b>ßenwahn beginnt</p>');
+                const b = container.querySelector('b')!;
+                const range = document.createRange();
+                range.setStart(b.firstChild!, 1);
+                range.setEnd(b.firstChild!, 3);
+                const result = expandToWordBoundaries(range, 'de');
+
+                expect(result.range.toString()).toBe('Größenwahn');
+            });
+        });
     });
 
     describe('adjustSelectionRange', () => {
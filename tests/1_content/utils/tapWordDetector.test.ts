@@ -0,0 +1,69 @@
+/**
+ * Tap Word Detector Tests
+ *
+ * @vitest-environment jsdom
+ */
+
+import { afterEach, describe, expect, it } from 'vitest';
+import * as tapWordDetector from '@/1_content/handlers/utils/tapWordDetector';
+import { cleanupDOM, createTestDOM } from './test-helpers';
+
+function caretAt(node: Node, offset: number): Range {
+    const range = document.createRange();
+    range.setStart(node, offset);
+    range.setEnd(node, offset);
+    return range;
+}
+
+/** Point the caret at a text offset and report every range as a 100x20 box at the origin */
+function stubHitTest(node: Node, offset: number) {
+    const documentWithCaret = document as Document & { caretRangeFromPoint?: (x: number, y: number) => Range | null };
+    documentWithCaret.caretRangeFromPoint = () => caretAt(node, offset);
+    // jsdom has no layout, so ranges have no client rects of their own
+    Object.defineProperty(Range.prototype, 'getClientRects', {
+        configurable: true,
+        value: () => [{ left: 0, right: 100, top: 0, bottom: 20 }],
+    });
+}
+
+describe('tapWordDetector', () => {
+    afterEach(() => {
+        cleanupDOM();
+        delete (document as Document & { caretRangeFromPoint?: unknown }).caretRangeFromPoint;
+        delete (Range.prototype as Partial<Range>).getClientRects;
+    });
+
+    it.each([
+        ['accented Latin', 'es', 'La canción española', 5, 'canción'],
+        ['Cyrillic', 'ru', 'Это очень хорошо.', 6, 'очень'],
+        ['Greek', 'el', 'Η γλώσσα μας', 4, 'γλώσσα'],
+        ['Arabic', 'ar', 'أحب اللغة العربية', 6, 'اللغة'],
+        ['Hebrew', 'he', 'אני אוהב ספרים', 6, 'אוהב'],
+        ['French elision', 'fr', "Voici l'homme.", 8, "l'homme"],
+        ['English contraction', 'en', "We can't wait", 5, "can't"],
+        ['hyphenated compound', 'en', 'A well-known author', 9, 'well-known'],
+        ['Chinese', 'zh', '我喜欢安静的图书馆', 2, '喜欢'],
+        ['Japanese', 'ja', '私は本を読みます', 5, '読み'],
+        ['Thai', 'th', 'ฉันชอบอ่านหนังสือ', 12, 'หนังสือ'],
+    ])('should expand a caret to the whole %s word', (_script, language, text, offset, expected) => {
+        const container = createTestDOM(`<p>${text}</p>`);
+        const word = tapWordDetector.expandRangeToWord(caretAt(container.querySelector('p')!.firstChild!, offset), language);
+
+        expect(word?.toString()).toBe(expected);
+    });
+
+    it('should not pick punctuation or whitespace', () => {
+        const container = createTestDOM('<p>Привет , мир</p>');
+        const text = container.querySelector('p')!.firstChild!;
+
+        expect(tapWordDetector.expandRangeToWord(caretAt(text, 8), 'ru')).toBeNull();
+    });
+
+    it('should resolve the word under a point and reject points outside it', () => {
+        const container = createTestDOM('<p lang="de">Die Straße ist lang</p>');
+        stubHitTest(container.querySelector('p')!.firstChild!, 6);
+
+        expect(tapWordDetector.getWordRangeFromPoint(10, 10)?.toString()).toBe('Straße');
+        expect(tapWordDetector.getWordRangeFromPoint(300, 10)).toBeNull();
+    });
+});
@@ -0,0 +1,81 @@
+/**
+ * Text Quote Anchor Tests
+ *
+ * @vitest-environment jsdom
+ */
+
+import { afterEach, describe, expect, it } from 'vitest';
+import { findTextQuoteRange, findTextQuoteRanges } from '@/1_content/utils/textQuoteAnchor';
+import { createTestDOM } from './test-helpers';
+
+describe('findTextQuoteRange', () => {
+    afterEach(() => {
+        document.body.innerHTML = '';
+    });
+
+    it('should pick the occurrence whose prefix and suffix match', () => {
+        const container = createTestDOM('<p>The light was dim.</p><p>The room was filled with natural light from the windows.</p>');
+        const range = findTextQuoteRange({ exact: 'light', prefix: 'filled with natural ', suffix: ' from the windows.' }, container);
+
+        expect(range?.toString()).toBe('light');
+        expect(range?.startContainer.parentElement).toBe(container.querySelectorAll('p')[1]);
+    });
+
+    it('should match across element boundaries and reflowed whitespace', () => {
+        const container = createTestDOM('<p>Additional donors include <em>co-founders\n   of</em> cryptocurrency exchange Gemini.</p>');
+        const range = findTextQuoteRange(
+            { exact: 'co-founders of cryptocurrency', prefix: 'Additional donors include ', suffix: ' exchange Gemini.' },
+            container
+        );
+
+        expect(range?.toString()).toBe('co-founders\n   of cryptocurrency');
+    });
+
+    it('should still anchor when only one side of the context matches', () => {
+        const container = createTestDOM('<p>The room was filled with natural light today.</p>');
+        const range = findTextQuoteRange({ exact: 'light', prefix: 'with natural ', suffix: ' from the windows.' }, container);
+
+        expect(range?.toString()).toBe('light');
+    });
+
+    it('should return null (orphan) when the text or its context is gone', () => {
+        const container = createTestDOM('<p>A completely different article about light.</p>');
+
+        expect(findTextQuoteRange({ exact: 'window', prefix: '', suffix: '' }, container)).toBeNull();
+        expect(findTextQuoteRange({ exact: 'light', prefix: 'filled with natural ', suffix: ' from the windows.' }, container)).toBeNull();
+    });
+
+    it('should ignore extension tooltips when matching', () => {
+        const container = createTestDOM('<p>Natural light.</p><div class="ai-translator-tooltip">light</div>');
+        const range = findTextQuoteRange({ exact: 'light', prefix: '', suffix: '' }, container);
+
+        expect(range?.startContainer.parentElement?.tagName).toBe('P');
+    });
+});
+
+describe('findTextQuoteRanges', () => {
+    afterEach(() => {
+        document.body.innerHTML = '';
+    });
+
+    it('should keep later ranges in place while earlier ones are wrapped', () => {
+        const container = createTestDOM('<p>The room was filled with natural light from the large windows.</p>');
+        const [light, windows, missing] = findTextQuoteRanges(
+            [
+                { exact: 'light', prefix: 'natural ', suffix: ' from' },
+                { exact: 'windows', prefix: 'large ', suffix: '.' },
+                { exact: 'door', prefix: '', suffix: '' },
+            ],
+            container
+        );
+
+        // Wrap the first range the way translationDisplay does
+        const anchor = document.createElement('span');
+        anchor.appendChild(light!.extractContents());
+        light!.insertNode(anchor);
+
+        expect(anchor.textContent).toBe('light');
+        expect(windows?.toString()).toBe('windows');
+        expect(missing).toBeNull();
+    });
+});
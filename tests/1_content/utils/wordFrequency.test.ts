@@ -0,0 +1,30 @@
+/**
+ * Word Frequency Tests
+ */
+
+import { describe, expect, it } from 'vitest';
+import { getWordFrequencyRank } from '@/1_content/utils/wordFrequency';
+
+describe('wordFrequency', () => {
+    it('should rank listed words from the most frequent', () => {
+        expect(getWordFrequencyRank('the')).toBe(1);
+        expect(getWordFrequencyRank('The')).toBe(1);
+        expect(getWordFrequencyRank('serendipity')).toBeNull();
+    });
+
+    it('should give inflected forms the rank of their base form', () => {
+        const study = getWordFrequencyRank('study');
+        const run = getWordFrequencyRank('run');
+        const stop = getWordFrequencyRank('stop');
+        const happy = getWordFrequencyRank('happy');
+
+        expect(study).not.toBeNull();
+        expect(getWordFrequencyRank('studies')).toBe(study);
+        expect(getWordFrequencyRank('studied')).toBe(study);
+        expect(getWordFrequencyRank('running')).toBe(run);
+        expect(getWordFrequencyRank('stopped')).toBe(stop);
+        expect(getWordFrequencyRank('happily')).toBe(happy);
+        expect(getWordFrequencyRank('were')).toBe(getWordFrequencyRank('be'));
+        expect(getWordFrequencyRank('brought')).toBe(getWordFrequencyRank('bring'));
+    });
+});
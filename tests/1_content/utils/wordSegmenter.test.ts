@@ -0,0 +1,71 @@
+/**
+ * Word Segmenter Tests
+ *
+ * @vitest-environment jsdom
+ */
+
+import { afterEach, describe, expect, it } from 'vitest';
+import * as wordSegmenter from '@/1_content/utils/wordSegmenter';
+import { cleanupDOM, createTestDOM } from './test-helpers';
+
+function wordsOf(text: string, language?: string): string[] {
+    return wordSegmenter.getWordSegments(text, language).map(({ start, end }) => text.slice(start, end));
+}
+
+describe('wordSegmenter', () => {
+    afterEach(() => {
+        cleanupDOM();
+        document.documentElement.removeAttribute('lang');
+    });
+
+    it.each([
+        ['accented Latin', 'fr', 'Un café très naïf', ['Un', 'café', 'très', 'naïf']],
+        ['Cyrillic', 'ru', 'Привет, мир!', ['Привет', 'мир']],
+        ['Greek', 'el', 'Καλημέρα κόσμε.', ['Καλημέρα', 'κόσμε']],
+        ['Arabic', 'ar', 'مرحبا بالعالم', ['مرحبا', 'بالعالم']],
+        ['Hebrew', 'he', 'שלום עולם', ['שלום', 'עולם']],
+    ])('should split %s text into words', (_script, language, text, expected) => {
+        expect(wordsOf(text, language)).toEqual(expected);
+    });
+
+    it('should keep apostrophe forms and hyphenated compounds whole', () => {
+        expect(wordsOf("l'homme et l’enfant", 'fr')).toEqual(["l'homme", 'et', 'l’enfant']);
+        expect(wordsOf("I can't - a well-known fact", 'en')).toEqual(['I', "can't", 'a', 'well-known', 'fact']);
+    });
+
+    it.each([
+        ['Chinese', 'zh', '我喜欢安静', ['我', '喜欢', '安静']],
+        ['Japanese', 'ja', '私は本を読みます', ['私', 'は', '本', 'を', '読み', 'ます']],
+        ['Thai', 'th', 'ฉันชอบอ่านหนังสือ', ['ฉัน', 'ชอบ', 'อ่าน', 'หนังสือ']],
+    ])('should split %s text into dictionary words', (_script, language, text, expected) => {
+        expect(wordsOf(text, language)).toEqual(expected);
+    });
+
+    it('should tell one-word selections and segmented languages apart', () => {
+        expect(wordSegmenter.isSingleWord('安静', 'zh')).toBe(true);
+        expect(wordSegmenter.isSingleWord('喜欢安静', 'zh')).toBe(false);
+        expect(wordSegmenter.isSingleWord('หนังสือ', 'th')).toBe(true);
+        expect(wordSegmenter.isSegmentedWordLanguage('zh-TW')).toBe(true);
+        expect(wordSegmenter.isSegmentedWordLanguage('th')).toBe(true);
+        expect(wordSegmenter.isSegmentedWordLanguage('en')).toBe(false);
+        expect(wordSegmenter.containsSegmentedScript('カタカナ')).toBe(true);
+        expect(wordSegmenter.containsSegmentedScript('Καλημέρα')).toBe(false);
+    });
+
+    it('should find the word at a caret offset, including right after it', () => {
+        const text = 'Добрый вечер, друзья';
+        expect(wordSegmenter.findWordAt(text, 9, 'ru')).toEqual({ start: 7, end: 12 });
+        expect(wordSegmenter.findWordAt(text, 12, 'ru')).toEqual({ start: 7, end: 12 });
+        expect(wordSegmenter.findWordAt(text, 13, 'ru')).toBeNull();
+    });
+
+    it('should prefer the detected language over declared lang attributes', () => {
+        document.documentElement.lang = 'en';
+        const container = createTestDOM('<p lang="fr-CA">Bonjour</p><p>Hello</p>');
+        const [french, english] = Array.from(container.querySelectorAll('p'));
+
+        expect(wordSegmenter.resolveSegmentationLanguage(french.firstChild)).toBe('fr-CA');
+        expect(wordSegmenter.resolveSegmentationLanguage(english.firstChild)).toBe('en');
+        expect(wordSegmenter.resolveSegmentationLanguage(english.firstChild, 'de')).toBe('de');
+    });
+});
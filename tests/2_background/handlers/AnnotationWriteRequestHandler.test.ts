@@ -0,0 +1,67 @@
+/**
+ * Annotation Write Request Handler Tests
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { AnnotationWriteRequestData, PersistedAnnotation } from '@/0_common/types';
+import { buildAnnotationId, getPageAnnotations } from '@/0_common/utils/annotationStorage';
+import { handleAnnotationWriteRequest } from '@/2_background/handlers/AnnotationWriteRequestHandler';
+
+let storageData: Record<string, unknown> = {};
+
+vi.stubGlobal('chrome', {
+    storage: {
+        local: {
+            get: vi.fn(async (key: string) => ({ [key]: storageData[key] })),
+            set: vi.fn(async (payload: Record<string, unknown>) => {
+                storageData = { ...storageData, ...JSON.parse(JSON.stringify(payload)) };
+            }),
+        },
+    },
+});
+
+function makeAnnotation(exact: string): PersistedAnnotation {
+    const selector = { exact, prefix: '', suffix: '.' };
+    return { id: buildAnnotationId('word', selector), translationType: 'word', selector, result: { translation: `${exact}-zh` }, updatedAt: 1 };
+}
+
+async function send(data: AnnotationWriteRequestData) {
+    const sendResponse = vi.fn();
+    await handleAnnotationWriteRequest({ type: 'ANNOTATION_WRITE_REQUEST', data }, sendResponse);
+    return sendResponse.mock.calls[0]?.[0];
+}
+
+describe('handleAnnotationWriteRequest', () => {
+    beforeEach(() => {
+        storageData = {};
+    });
+
+    it('should keep annotations saved by different tabs at the same time', async () => {
+        const light = makeAnnotation('light');
+
+        const responses = await Promise.all([
+            send({ operation: 'save', pageUrl: 'https://example.com/a', annotation: light }),
+            send({ operation: 'save', pageUrl: 'https://example.com/b', annotation: makeAnnotation('window') }),
+        ]);
+
+        expect(responses).toEqual([
+            { type: 'ANNOTATION_WRITE_RESPONSE', success: true },
+            { type: 'ANNOTATION_WRITE_RESPONSE', success: true },
+        ]);
+        expect(await getPageAnnotations('https://example.com/a')).toHaveLength(1);
+        expect(await getPageAnnotations('https://example.com/b')).toHaveLength(1);
+
+        await send({ operation: 'remove', pageUrl: 'https://example.com/a#top', annotationId: light.id });
+        expect(await getPageAnnotations('https://example.com/a')).toEqual([]);
+    });
+
+    it('should report storage failures', async () => {
+        vi.mocked(chrome.storage.local.get).mockRejectedValueOnce(new Error('QUOTA_BYTES quota exceeded'));
+
+        expect(await send({ operation: 'remove', pageUrl: 'https://example.com/a', annotationId: 'x' })).toEqual({
+            type: 'ANNOTATION_WRITE_RESPONSE',
+            success: false,
+            error: 'QUOTA_BYTES quota exceeded',
+        });
+    });
+});
@@ -0,0 +1,69 @@
+/**
+ * Explanation Request Handler Tests
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ExplainRequestMessage } from '@/0_common/types';
+import * as translateModule from '@/6_translate';
+import { handleExplanationRequest } from '@/2_background/handlers/ExplanationRequestHandler';
+
+const quotaManager = {
+    checkTranslationQuota: vi.fn(async () => undefined),
+    incrementTranslationCount: vi.fn(async () => undefined),
+};
+
+vi.mock('@/5_backend', () => ({
+    getQuotaManager: () => quotaManager,
+}));
+
+vi.mock('@/6_translate', () => ({
+    explainTranslation: vi.fn(),
+}));
+
+vi.mock('@/2_background/handlers/BackgroundErrorHandler', () => ({
+    handleExplanationRequestError: vi.fn((_error: unknown, sendResponse: (response: unknown) => void) =>
+        sendResponse({ type: 'EXPLAIN_RESPONSE', success: false })
+    ),
+}));
+
+const message: ExplainRequestMessage = {
+    type: 'EXPLAIN_REQUEST',
+    data: { text: 'light', translation: '光线', textType: 'word', leadingText: 'Natural ', trailingText: '.', targetLanguage: 'zh' },
+};
+
+const explanation = { grammaticalRole: '名词，作宾语', collocations: ['natural light'], examples: [] };
+
+describe('handleExplanationRequest', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it('should check the quota and count a generated explanation', async () => {
+        vi.mocked(translateModule.explainTranslation).mockResolvedValue(explanation);
+        const sendResponse = vi.fn();
+
+        await handleExplanationRequest(message, sendResponse);
+
+        expect(quotaManager.checkTranslationQuota).toHaveBeenCalledTimes(1);
+        expect(quotaManager.incrementTranslationCount).toHaveBeenCalledTimes(1);
+        expect(sendResponse).toHaveBeenCalledWith(expect.objectContaining({ type: 'EXPLAIN_RESPONSE', success: true }));
+    });
+
+    it('should not count a cached explanation', async () => {
+        vi.mocked(translateModule.explainTranslation).mockResolvedValue({ ...explanation, fromCache: true });
+
+        await handleExplanationRequest(message, vi.fn());
+
+        expect(quotaManager.incrementTranslationCount).not.toHaveBeenCalled();
+    });
+
+    it('should not explain when the quota is exceeded', async () => {
+        quotaManager.checkTranslationQuota.mockRejectedValueOnce(new Error('Quota exceeded'));
+        const sendResponse = vi.fn();
+
+        await handleExplanationRequest(message, sendResponse);
+
+        expect(translateModule.explainTranslation).not.toHaveBeenCalled();
+        expect(sendResponse).toHaveBeenCalledWith({ type: 'EXPLAIN_RESPONSE', success: false });
+    });
+});
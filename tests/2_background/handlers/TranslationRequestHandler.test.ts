@@ -0,0 +1,140 @@
+/**
+ * Translation Request Handler Tests
+ *
+ * Simulates racing messages to verify in-flight deduplication
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { FragmentTranslateRequestMessage, TranslateRequestMessage } from '@/0_common/types';
+import * as translateModule from '@/6_translate';
+import { handleFragmentTranslationRequest } from '@/2_background/handlers/FragmentTranslationRequestHandler';
+import { handleTranslationRequest } from '@/2_background/handlers/TranslationRequestHandler';
+
+const quotaManager = {
+    checkTranslationQuota: vi.fn(async () => undefined),
+    incrementTranslationCount: vi.fn(async () => undefined),
+};
+
+vi.mock('@/5_backend', () => ({
+    getQuotaManager: () => quotaManager,
+}));
+
+vi.mock('@/6_translate', () => ({
+    translateWord: vi.fn(),
+    translateFragment: vi.fn(),
+}));
+
+vi.mock('@/0_common/utils/vocabularyStorage', () => ({
+    recordVocabularyLookup: vi.fn(async () => undefined),
+}));
+
+vi.mock('@/2_background/handlers/BackgroundErrorHandler', () => ({
+    handleTranslationRequestError: vi.fn((_error: unknown, sendResponse: (response: unknown) => void) =>
+        sendResponse({ type: 'TRANSLATE_RESPONSE', success: false })
+    ),
+    handleFragmentTranslationRequestError: vi.fn((_error: unknown, sendResponse: (response: unknown) => void) =>
+        sendResponse({ type: 'FRAGMENT_TRANSLATE_RESPONSE', success: false })
+    ),
+}));
+
+function deferred<T>() {
+    let resolve!: (value: T) => void;
+    let reject!: (error: unknown) => void;
+    const promise = new Promise<T>((res, rej) => {
+        resolve = res;
+        reject = rej;
+    });
+    return { promise, resolve, reject };
+}
+
+function wordMessage(word: string, trailingText = '.'): TranslateRequestMessage {
+    return {
+        type: 'TRANSLATE_REQUEST',
+        data: { word, leadingText: 'Natural ', trailingText, targetLanguage: 'zh' },
+    } as TranslateRequestMessage;
+}
+
+function fragmentMessage(fragment: string): FragmentTranslateRequestMessage {
+    return {
+        type: 'FRAGMENT_TRANSLATE_REQUEST',
+        data: { fragment, leadingText: 'The ', trailingText: '.', targetLanguage: 'zh' },
+    } as FragmentTranslateRequestMessage;
+}
+
+describe('in-flight request deduplication', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it('should share one word translation and quota charge between racing identical messages', async () => {
+        const pending = deferred<translateModule.TranslationResult>();
+        vi.mocked(translateModule.translateWord).mockReturnValue(pending.promise);
+        const first = vi.fn();
+        const second = vi.fn();
+
+        const racing = Promise.all([
+            handleTranslationRequest(wordMessage('light'), first),
+            handleTranslationRequest(wordMessage('light'), second),
+        ]);
+        pending.resolve({ wordTranslation: '光' });
+        await racing;
+
+        expect(translateModule.translateWord).toHaveBeenCalledTimes(1);
+        expect(quotaManager.incrementTranslationCount).toHaveBeenCalledTimes(1);
+        expect(first).toHaveBeenCalledWith(expect.objectContaining({ success: true, data: expect.objectContaining({ wordTranslation: '光' }) }));
+        expect(second.mock.calls[0]?.[0]).toEqual(first.mock.calls[0]?.[0]);
+    });
+
+    it('should not share requests with different keys', async () => {
+        vi.mocked(translateModule.translateWord).mockResolvedValue({ wordTranslation: '光' });
+
+        await Promise.all([
+            handleTranslationRequest(wordMessage('light', '.'), vi.fn()),
+            handleTranslationRequest(wordMessage('light', ' today.'), vi.fn()),
+        ]);
+
+        expect(translateModule.translateWord).toHaveBeenCalledTimes(2);
+        expect(quotaManager.incrementTranslationCount).toHaveBeenCalledTimes(2);
+    });
+
+    it('should share failures and start fresh once the request settles', async () => {
+        const pending = deferred<translateModule.TranslationResult>();
+        vi.mocked(translateModule.translateWord).mockReturnValueOnce(pending.promise);
+        const first = vi.fn();
+        const second = vi.fn();
+
+        const racing = Promise.all([
+            handleTranslationRequest(wordMessage('window'), first),
+            handleTranslationRequest(wordMessage('window'), second),
+        ]);
+        pending.reject(new Error('network'));
+        await racing;
+
+        expect(first).toHaveBeenCalledWith(expect.objectContaining({ success: false }));
+        expect(second).toHaveBeenCalledWith(expect.objectContaining({ success: false }));
+        expect(quotaManager.incrementTranslationCount).not.toHaveBeenCalled();
+
+        vi.mocked(translateModule.translateWord).mockResolvedValueOnce({ wordTranslation: '窗户' });
+        await handleTranslationRequest(wordMessage('window'), vi.fn());
+        expect(translateModule.translateWord).toHaveBeenCalledTimes(2);
+    });
+
+    it('should share one fragment translation between racing identical messages', async () => {
+        const pending = deferred<translateModule.FragmentTranslationResult>();
+        vi.mocked(translateModule.translateFragment).mockReturnValue(pending.promise);
+        const first = vi.fn();
+        const second = vi.fn();
+
+        const racing = Promise.all([
+            handleFragmentTranslationRequest(fragmentMessage('large windows'), first),
+            handleFragmentTranslationRequest(fragmentMessage('large windows'), second),
+        ]);
+        pending.resolve({ translation: '大窗户' });
+        await racing;
+
+        expect(translateModule.translateFragment).toHaveBeenCalledTimes(1);
+        expect(quotaManager.incrementTranslationCount).toHaveBeenCalledTimes(1);
+        expect(first).toHaveBeenCalledWith(expect.objectContaining({ success: true, data: expect.objectContaining({ translation: '大窗户' }) }));
+        expect(second.mock.calls[0]?.[0]).toEqual(first.mock.calls[0]?.[0]);
+    });
+});
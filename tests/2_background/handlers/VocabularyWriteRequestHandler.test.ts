@@ -0,0 +1,62 @@
+/**
+ * Vocabulary Write Request Handler Tests
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { VocabularyWriteRequestData } from '@/0_common/types';
+import { getVocabularyEntries, recordVocabularyLookup } from '@/0_common/utils/vocabularyStorage';
+import { handleVocabularyWriteRequest } from '@/2_background/handlers/VocabularyWriteRequestHandler';
+
+let storageData: Record<string, unknown> = {};
+
+vi.stubGlobal('chrome', {
+    storage: {
+        local: {
+            get: vi.fn(async (key: string) => ({ [key]: storageData[key] })),
+            set: vi.fn(async (payload: Record<string, unknown>) => {
+                storageData = { ...storageData, ...JSON.parse(JSON.stringify(payload)) };
+            }),
+        },
+    },
+});
+
+async function send(data: VocabularyWriteRequestData) {
+    const sendResponse = vi.fn();
+    await handleVocabularyWriteRequest({ type: 'VOCABULARY_WRITE_REQUEST', data }, sendResponse);
+    return sendResponse.mock.calls[0]?.[0];
+}
+
+describe('handleVocabularyWriteRequest', () => {
+    beforeEach(() => {
+        storageData = {};
+    });
+
+    it('should apply writes in the same queue as lookups recorded in the background', async () => {
+        await recordVocabularyLookup({ word: 'light', translation: '光', targetLanguage: 'zh' });
+
+        const [edit, lookup] = await Promise.all([
+            send({ operation: 'update', id: 'zh:light', patch: { translation: '光线' } }),
+            recordVocabularyLookup({ word: 'light', translation: '灯光', targetLanguage: 'zh' }),
+        ]);
+
+        expect(edit).toMatchObject({ type: 'VOCABULARY_WRITE_RESPONSE', success: true, data: { entry: { translation: '光线' } } });
+        expect(lookup.translation).toBe('光线');
+        expect(lookup.lookupCount).toBe(2);
+
+        const graded = await send({ operation: 'grade', id: 'zh:light', grade: 5 });
+        expect(graded.data.entry.review.lastGrade).toBe(5);
+
+        expect(await send({ operation: 'delete', id: 'zh:light' })).toEqual({ type: 'VOCABULARY_WRITE_RESPONSE', success: true, data: { entry: null } });
+        expect(await getVocabularyEntries()).toHaveLength(0);
+    });
+
+    it('should report storage failures', async () => {
+        vi.mocked(chrome.storage.local.get).mockRejectedValueOnce(new Error('QUOTA_BYTES quota exceeded'));
+
+        expect(await send({ operation: 'delete', id: 'zh:light' })).toEqual({
+            type: 'VOCABULARY_WRITE_RESPONSE',
+            success: false,
+            error: 'QUOTA_BYTES quota exceeded',
+        });
+    });
+});
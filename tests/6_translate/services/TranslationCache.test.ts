@@ -0,0 +1,120 @@
+/**
+ * Translation Cache Tests
+ */
+
+import { CACHE_EXPIRY_MS } from '@/0_common/constants';
+import {
+    TRANSLATION_CACHE_MAX_ENTRIES,
+    TRANSLATION_CACHE_RECENCY_PERSIST_DELAY_MS,
+    TRANSLATION_CACHE_STORAGE_KEY,
+} from '@/6_translate/constants/TranslationConstants';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+let storageData: Record<string, unknown> = {};
+
+vi.stubGlobal('chrome', {
+    storage: {
+        local: {
+            get: vi.fn(async (key: string) => ({ [key]: storageData[key] })),
+            set: vi.fn(async (payload: Record<string, unknown>) => {
+                storageData = { ...storageData, ...JSON.parse(JSON.stringify(payload)) };
+            }),
+        },
+    },
+});
+
+const NOW = new Date(2026, 0, 15, 10, 0, 0).getTime();
+
+async function loadCacheModule() {
+    // The cache keeps an in-memory mirror, so each test gets a fresh module instance
+    vi.resetModules();
+    return import('@/6_translate/services/TranslationCache');
+}
+
+describe('TranslationCache', () => {
+    beforeEach(() => {
+        storageData = {};
+        vi.clearAllMocks();
+    });
+
+    it('should build keys that differ by context, language and provider', async () => {
+        const { buildTranslationCacheKey } = await loadCacheModule();
+        const base = { kind: 'word' as const, text: 'light', leadingText: 'natural ', trailingText: '.', targetLanguage: 'zh', provider: 'cloud' };
+
+        const key = buildTranslationCacheKey(base);
+        expect(buildTranslationCacheKey({ ...base })).toBe(key);
+        expect(buildTranslationCacheKey({ ...base, trailingText: ' today.' })).not.toBe(key);
+        expect(buildTranslationCacheKey({ ...base, targetLanguage: 'fr' })).not.toBe(key);
+        expect(buildTranslationCacheKey({ ...base, provider: 'customApi|https://api.example.com|gpt-4o-mini' })).not.toBe(key);
+        expect(buildTranslationCacheKey({ ...base, kind: 'fragment' })).not.toBe(key);
+        expect(buildTranslationCacheKey({ ...base, glossary: 'light→光线' })).not.toBe(key);
+        expect(buildTranslationCacheKey({ ...base, glossary: undefined })).toBe(key);
+        expect(buildTranslationCacheKey({ ...base, style: 'formal' })).not.toBe(key);
+    });
+
+    it('should persist entries and reload them after a restart', async () => {
+        const first = await loadCacheModule();
+        await first.setCachedTranslation('k', { wordTranslation: '光' }, NOW);
+        expect(storageData[TRANSLATION_CACHE_STORAGE_KEY]).toBeDefined();
+
+        const second = await loadCacheModule();
+        expect(await second.getCachedTranslation('k', NOW + 1000)).toEqual({ wordTranslation: '光' });
+    });
+
+    it('should expire entries after CACHE_EXPIRY_MS', async () => {
+        const { getCachedTranslation, setCachedTranslation } = await loadCacheModule();
+        await setCachedTranslation('k', { wordTranslation: '光' }, NOW);
+
+        expect(await getCachedTranslation('k', NOW + CACHE_EXPIRY_MS)).not.toBeNull();
+        expect(await getCachedTranslation('k', NOW + CACHE_EXPIRY_MS + 1)).toBeNull();
+    });
+
+    it('should evict the least recently used entry beyond the size limit', async () => {
+        const { getCachedTranslation, setCachedTranslation } = await loadCacheModule();
+        for (let i = 0; i < TRANSLATION_CACHE_MAX_ENTRIES; i++) {
+            await setCachedTranslation(`k${i}`, i, NOW + i);
+        }
+
+        // Touch the oldest entry so k1 becomes the least recently used
+        expect(await getCachedTranslation('k0', NOW + TRANSLATION_CACHE_MAX_ENTRIES)).toBe(0);
+        await setCachedTranslation('new', 'new', NOW + TRANSLATION_CACHE_MAX_ENTRIES + 1);
+
+        expect(await getCachedTranslation('k0', NOW + TRANSLATION_CACHE_MAX_ENTRIES + 2)).toBe(0);
+        expect(await getCachedTranslation('k1', NOW + TRANSLATION_CACHE_MAX_ENTRIES + 2)).toBeNull();
+        expect(Object.keys(storageData[TRANSLATION_CACHE_STORAGE_KEY] as object)).toHaveLength(TRANSLATION_CACHE_MAX_ENTRIES);
+    });
+
+    it('should write cache hits back once, after the recency delay', async () => {
+        vi.useFakeTimers();
+        try {
+            const { getCachedTranslation, setCachedTranslation } = await loadCacheModule();
+            await setCachedTranslation('a', 'a', NOW);
+            await setCachedTranslation('b', 'b', NOW + 1);
+            const set = vi.mocked(chrome.storage.local.set);
+            set.mockClear();
+
+            for (let i = 0; i < 5; i++) {
+                await getCachedTranslation('a', NOW + 10 + i);
+            }
+            expect(set).not.toHaveBeenCalled();
+
+            await vi.advanceTimersByTimeAsync(TRANSLATION_CACHE_RECENCY_PERSIST_DELAY_MS);
+            expect(set).toHaveBeenCalledTimes(1);
+            const stored = storageData[TRANSLATION_CACHE_STORAGE_KEY] as Record<string, { lastAccessedAt: number }>;
+            expect(Object.keys(stored)).toEqual(['b', 'a']);
+            expect(stored.a.lastAccessedAt).toBe(NOW + 14);
+        } finally {
+            vi.useRealTimers();
+        }
+    });
+
+    it('should clear all entries from memory and storage', async () => {
+        const { clearTranslationCache, getCachedTranslation, setCachedTranslation } = await loadCacheModule();
+        await setCachedTranslation('k', { wordTranslation: '光' }, NOW);
+
+        await clearTranslationCache();
+
+        expect(await getCachedTranslation('k', NOW + 1000)).toBeNull();
+        expect(storageData[TRANSLATION_CACHE_STORAGE_KEY]).toEqual({});
+    });
+});
@@ -3,18 +3,56 @@
  */
 
 import * as backend from '@/5_backend';
-import { translateWord } from '@/6_translate/services/TranslationService';
+import { askFollowUp, explainTranslation, translateWord } from '@/6_translate/services/TranslationService';
+import { LlmProviderUnavailableError, TranslationError } from '@/6_translate/types/TranslationError';
+import { createExplanationService } from '@/8_generate/services/ExplanationService';
+import { LLMRequestError } from '@/8_generate/types/LLMRequestError';
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 
 // Mock the backend post function
 vi.mock('@/5_backend', () => ({
     post: vi.fn(),
+    APIError: class APIError extends Error {},
+}));
+
+const explain = vi.hoisted(() => vi.fn());
+const translateWithLlm = vi.hoisted(() => vi.fn());
+
+vi.mock('@/8_generate/services/ExplanationService', () => ({
+    createExplanationService: vi.fn(async () => ({ explain })),
+}));
+
+vi.mock('@/8_generate/services/WordTranslationService', () => ({
+    createWordTranslationService: vi.fn(async () => ({ translateWord: translateWithLlm })),
+}));
+
+vi.mock('@/0_common/utils/i18n', () => ({
+    translate: (key: string) => key,
+}));
+
+// Settings are cached by the service, so tests mutate this one object
+const mockSettings = vi.hoisted(() => ({
+    translationProvider: 'official',
+    fallbackProviders: [] as string[],
+    mtranserver: { url: '' },
+    customApi: { apiKey: '', baseUrl: '', model: '' },
+    anthropic: { apiKey: '', baseUrl: '', model: '' },
+    ollama: { baseUrl: '', model: '', timeoutSeconds: 30 },
+    customApiMonthlyBudget: 0,
+}));
+
+vi.mock('@/0_common/utils/storageManager', () => ({
+    getUserSettings: vi.fn(async () => mockSettings),
 }));
 
 describe('TranslationService', () => {
     beforeEach(() => {
         // Clear all mocks before each test
         vi.clearAllMocks();
+        mockSettings.translationProvider = 'official';
+        mockSettings.fallbackProviders = [];
+        mockSettings.customApi = { apiKey: '', baseUrl: '', model: '' };
+        mockSettings.ollama = { baseUrl: '', model: '', timeoutSeconds: 30 };
     });
 
     describe('translateWord', () => {
@@ -45,6 +83,8 @@ describe('TranslationService', () => {
             expect(result).toEqual({
                 wordTranslation: '光线',
                 sentenceTranslation: '房间里充满了从大窗户射入的自然光线。',
+                provider: 'official',
+                fallbackHops: 0,
             });
 
             // Verify API call
@@ -121,6 +161,142 @@ describe('TranslationService', () => {
         });
     });
 
+    describe('translation cache', () => {
+        it('should serve repeated requests from the cache without calling the API', async () => {
+            vi.mocked(backend.post).mockResolvedValue({ wordTranslation: '窗户' });
+            const params = { word: 'window', leadingText: 'Open the ', trailingText: '.', targetLanguage: 'zh' };
+
+            const first = await translateWord(params);
+            const second = await translateWord(params);
+
+            expect(backend.post).toHaveBeenCalledTimes(1);
+            expect(first.fromCache).toBeUndefined();
+            expect(second).toEqual({ wordTranslation: '窗户', fromCache: true, provider: 'official', fallbackHops: 0 });
+        });
+
+        it('should bypass the cache for upgradeModel requests', async () => {
+            vi.mocked(backend.post).mockResolvedValue({ wordTranslation: '门' });
+            const params = { word: 'door', leadingText: 'Close the ', trailingText: '.', targetLanguage: 'zh' };
+
+            await translateWord(params);
+            const refreshed = await translateWord({ ...params, upgradeModel: true });
+
+            expect(backend.post).toHaveBeenCalledTimes(2);
+            expect(refreshed.fromCache).toBeUndefined();
+        });
+    });
+
+    describe('provider fallback', () => {
+        it('should fall back to the next provider when the primary fails', async () => {
+            // MTranServer without a URL fails with a TranslationError
+            mockSettings.translationProvider = 'mtranserver';
+            mockSettings.fallbackProviders = ['official'];
+            vi.mocked(backend.post).mockResolvedValue({ wordTranslation: '钥匙' });
+
+            const result = await translateWord({ word: 'key', leadingText: 'Turn the ', trailingText: '.', targetLanguage: 'zh' });
+
+            expect(result).toEqual({ wordTranslation: '钥匙', provider: 'official', fallbackHops: 1 });
+            expect(backend.post).toHaveBeenCalledTimes(1);
+        });
+
+        it('should rethrow the last error when every provider fails', async () => {
+            mockSettings.translationProvider = 'mtranserver';
+            mockSettings.fallbackProviders = ['mtranserver'];
+
+            await expect(translateWord({ word: 'lock', leadingText: '', trailingText: '', targetLanguage: 'zh' })).rejects.toBeInstanceOf(
+                TranslationError
+            );
+            expect(backend.post).not.toHaveBeenCalled();
+        });
+
+        it('should not fall back on errors that are not provider failures', async () => {
+            mockSettings.fallbackProviders = ['mtranserver'];
+            const mockError = { type: 'requestError', httpStatusCode: 400, message: 'Bad request' };
+            vi.mocked(backend.post).mockRejectedValue(mockError);
+
+            await expect(translateWord({ word: 'gate', leadingText: '', trailingText: '', targetLanguage: 'zh' })).rejects.toBeInstanceOf(
+                TranslationError
+            );
+            expect(backend.post).toHaveBeenCalledTimes(1);
+        });
+
+        it('should fall back to the next provider when the custom API answers with a server error', async () => {
+            mockSettings.translationProvider = 'customApi';
+            mockSettings.fallbackProviders = ['official'];
+            mockSettings.customApi = { apiKey: 'sk-test', baseUrl: 'https://api.example.com/v1', model: 'gpt-test' };
+            translateWithLlm.mockRejectedValue(new LLMRequestError('providerError', '503 Service Unavailable'));
+            vi.mocked(backend.post).mockResolvedValue({ wordTranslation: '桌子' });
+
+            const result = await translateWord({ word: 'table', leadingText: 'The ', trailingText: '.', targetLanguage: 'zh' });
+
+            expect(result).toEqual({ wordTranslation: '桌子', provider: 'official', fallbackHops: 1 });
+            expect(translateWithLlm).toHaveBeenCalledTimes(1);
+        });
+
+        it('should fall back to the next provider when the custom API cannot be reached', async () => {
+            mockSettings.translationProvider = 'customApi';
+            mockSettings.fallbackProviders = ['official'];
+            mockSettings.customApi = { apiKey: 'sk-test', baseUrl: 'http://localhost:1234/v1', model: 'gpt-test' };
+            translateWithLlm.mockRejectedValue(new LLMRequestError('network', 'Could not reach the LLM endpoint.'));
+            vi.mocked(backend.post).mockResolvedValue({ wordTranslation: '椅子' });
+
+            const result = await translateWord({ word: 'chair', leadingText: 'The ', trailingText: '.', targetLanguage: 'zh' });
+
+            expect(result).toEqual({ wordTranslation: '椅子', provider: 'official', fallbackHops: 1 });
+        });
+
+        it('should fall back to the next provider when the cloud service is busy', async () => {
+            mockSettings.fallbackProviders = ['customApi'];
+            mockSettings.customApi = { apiKey: 'sk-test', baseUrl: 'https://api.example.com/v1', model: 'gpt-test' };
+            vi.mocked(backend.post).mockRejectedValue(Object.assign(new backend.APIError(), { type: 'businessError', code: 20504 }));
+            translateWithLlm.mockResolvedValue({ wordTranslation: '灯' });
+
+            const result = await translateWord({ word: 'lamp', leadingText: 'The ', trailingText: '.', targetLanguage: 'zh' });
+
+            expect(result).toMatchObject({ wordTranslation: '灯', provider: 'customApi', fallbackHops: 1 });
+        });
+    });
+
+    describe('LLM features', () => {
+        const explanation = { grammaticalRole: '名词', collocations: [], examples: [] };
+        const explainParams = { translation: '光线', textType: 'word' as const, leadingText: 'Natural ', trailingText: '.', targetLanguage: 'zh' };
+
+        it('should explain with the first configured LLM provider, skipping providers that cannot explain', async () => {
+            // The cloud API cannot explain and Anthropic is listed but not set up
+            mockSettings.fallbackProviders = ['anthropic', 'ollama'];
+            mockSettings.ollama = { baseUrl: 'http://localhost:11434', model: 'qwen3', timeoutSeconds: 30 };
+            explain.mockResolvedValue(explanation);
+
+            const result = await explainTranslation({ text: 'light', ...explainParams });
+
+            expect(result).toMatchObject({ ...explanation, provider: 'ollama', fallbackHops: 0 });
+            expect(createExplanationService).toHaveBeenCalledWith(expect.objectContaining({ apiFormat: 'ollama', model: 'qwen3' }));
+        });
+
+        it('should fall back to the next LLM provider when explaining fails', async () => {
+            mockSettings.translationProvider = 'customApi';
+            mockSettings.fallbackProviders = ['ollama'];
+            mockSettings.customApi = { apiKey: 'sk-test', baseUrl: 'https://api.example.com/v1', model: 'gpt-test' };
+            mockSettings.ollama = { baseUrl: 'http://localhost:11434', model: 'qwen3', timeoutSeconds: 30 };
+            explain.mockRejectedValueOnce(new LLMRequestError('timeout', 'Request timeout')).mockResolvedValueOnce(explanation);
+
+            const result = await explainTranslation({ text: 'window', ...explainParams });
+
+            expect(result).toMatchObject({ provider: 'ollama', fallbackHops: 1 });
+            expect(explain).toHaveBeenCalledTimes(2);
+        });
+
+        it('should report a missing LLM provider when none is configured', async () => {
+            mockSettings.fallbackProviders = ['anthropic'];
+
+            await expect(explainTranslation({ text: 'door', ...explainParams })).rejects.toBeInstanceOf(LlmProviderUnavailableError);
+            await expect(askFollowUp({ text: 'door', ...explainParams, history: [], question: 'Formal?' })).rejects.toBeInstanceOf(
+                LlmProviderUnavailableError
+            );
+            expect(createExplanationService).not.toHaveBeenCalled();
+        });
+    });
+
     describe('error handling', () => {
         it('should propagate API errors', async () => {
             const mockError = {
@@ -0,0 +1,168 @@
+/**
+ * Anthropic Messages API Client Tests
+ *
+ * Runs the client (and WordTranslationService on top of it) against a local stub HTTP server.
+ */
+
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import { AnthropicMessagesClient, buildMessagesEndpoint } from '@/8_generate/services/llm/AnthropicMessagesClient';
+import { createLLMClient } from '@/8_generate/services/llm/LLMClientFactory';
+import { OpenAICompatibleClient } from '@/8_generate/services/llm/OpenAICompatibleClient';
+import { WordTranslationService } from '@/8_generate/services/WordTranslationService';
+import { parseJsonResponse } from '@/8_generate/utils/jsonResponseParser';
+import * as promptLoaderModule from '@/8_generate/utils/promptLoader';
+import type { LLMConfig } from '@/8_generate/types/GenerateTypes';
+
+interface RecordedRequest {
+    method?: string;
+    url?: string;
+    headers: http.IncomingHttpHeaders;
+    body: any;
+}
+
+interface StubResponse {
+    status: number;
+    body: unknown;
+    delayMs?: number;
+}
+
+let server: http.Server;
+let baseUrl = '';
+let requests: RecordedRequest[] = [];
+let nextResponse: StubResponse = { status: 200, body: {} };
+
+function textResponse(text: string): StubResponse {
+    return {
+        status: 200,
+        body: { type: 'message', role: 'assistant', content: [{ type: 'text', text }], stop_reason: 'end_turn' },
+    };
+}
+
+function buildConfig(overrides: Partial<LLMConfig> = {}): LLMConfig {
+    return { apiFormat: 'anthropic', apiKey: 'sk-ant-test', baseUrl, model: 'claude-test', ...overrides };
+}
+
+beforeAll(async () => {
+    server = http.createServer((req, res) => {
+        let raw = '';
+        req.on('data', (chunk) => (raw += chunk));
+        req.on('end', () => {
+            requests.push({ method: req.method, url: req.url, headers: req.headers, body: raw ? JSON.parse(raw) : null });
+            const { status, body, delayMs = 0 } = nextResponse;
+            setTimeout(() => {
+                res.writeHead(status, { 'Content-Type': 'application/json' });
+                res.end(JSON.stringify(body));
+            }, delayMs);
+        });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+afterEach(() => {
+    requests = [];
+    nextResponse = { status: 200, body: {} };
+    vi.restoreAllMocks();
+});
+
+describe('AnthropicMessagesClient', () => {
+    it('should resolve the messages endpoint with or without /v1', () => {
+        expect(buildMessagesEndpoint('https://api.anthropic.com')).toBe('https://api.anthropic.com/v1/messages');
+        expect(buildMessagesEndpoint('https://proxy.example.com/v1/')).toBe('https://proxy.example.com/v1/messages');
+        expect(buildMessagesEndpoint('https://proxy.example.com/v1/messages')).toBe('https://proxy.example.com/v1/messages');
+    });
+
+    it('should post to /v1/messages with x-api-key and a top-level system prompt', async () => {
+        nextResponse = textResponse('{"word_translation":"你好"}');
+        const client = new AnthropicMessagesClient(buildConfig({ temperature: 0.2, maxTokens: 256 }));
+
+        const content = await client.generate([
+            { role: 'system', content: 'You are a translator.' },
+            { role: 'user', content: 'hello' },
+        ]);
+
+        expect(content).toBe('{"word_translation":"你好"}');
+        expect(requests).toHaveLength(1);
+
+        const [request] = requests;
+        expect(request?.method).toBe('POST');
+        expect(request?.url).toBe('/v1/messages');
+        expect(request?.headers['x-api-key']).toBe('sk-ant-test');
+        expect(request?.headers['anthropic-version']).toBe('2023-06-01');
+        expect(request?.headers.authorization).toBeUndefined();
+        expect(request?.body.model).toBe('claude-test');
+        expect(request?.body.max_tokens).toBe(256);
+        expect(request?.body.temperature).toBe(0.2);
+        expect(request?.body.system).toContain('You are a translator.');
+        expect(request?.body.messages).toEqual([{ role: 'user', content: 'hello' }]);
+        expect(request?.body.response_format).toBeUndefined();
+    });
+
+    it('should leave fenced or chatty replies to the shared JSON parser', async () => {
+        nextResponse = textResponse('Here you go:\n```json\n{"translation":"lumière"}\n```');
+        const client = new AnthropicMessagesClient(buildConfig());
+
+        expect(parseJsonResponse(await client.generate([{ role: 'user', content: 'light' }]), {})).toEqual({ translation: 'lumière' });
+    });
+
+    it('should map rate limit and bad request errors', async () => {
+        const client = new AnthropicMessagesClient(buildConfig());
+
+        nextResponse = { status: 429, body: { type: 'error', error: { type: 'rate_limit_error', message: 'slow down' } } };
+        await expect(client.generate([{ role: 'user', content: 'x' }])).rejects.toThrow('Rate limit exceeded');
+
+        nextResponse = { status: 400, body: { type: 'error', error: { type: 'invalid_request_error', message: 'model not found' } } };
+        await expect(client.generate([{ role: 'user', content: 'x' }])).rejects.toThrow('Bad request: model not found');
+
+        nextResponse = { status: 401, body: { type: 'error', error: { type: 'authentication_error', message: 'invalid x-api-key' } } };
+        await expect(client.generate([{ role: 'user', content: 'x' }])).rejects.toThrow('Anthropic API error (401): invalid x-api-key');
+    });
+
+    it('should report overloaded servers and unreachable endpoints as provider failures', async () => {
+        nextResponse = { status: 529, body: { type: 'error', error: { type: 'overloaded_error', message: 'Overloaded' } } };
+        await expect(new AnthropicMessagesClient(buildConfig()).generate([{ role: 'user', content: 'x' }])).rejects.toMatchObject({
+            name: 'LLMRequestError',
+            type: 'providerError',
+        });
+
+        const unreachable = new AnthropicMessagesClient(buildConfig({ baseUrl: 'http://127.0.0.1:9' }));
+        await expect(unreachable.generate([{ role: 'user', content: 'x' }])).rejects.toMatchObject({ name: 'LLMRequestError', type: 'network' });
+    });
+
+    it('should reject empty content and time out slow responses', async () => {
+        nextResponse = { status: 200, body: { content: [] } };
+        await expect(new AnthropicMessagesClient(buildConfig()).generate([{ role: 'user', content: 'x' }])).rejects.toThrow('empty content');
+
+        nextResponse = { ...textResponse('{}'), delayMs: 500 };
+        await expect(new AnthropicMessagesClient(buildConfig({ timeout: 50 })).generate([{ role: 'user', content: 'x' }])).rejects.toThrow(
+            'Request timeout'
+        );
+    });
+
+    it('should be selected by createLLMClient for the anthropic api format only', () => {
+        expect(createLLMClient(buildConfig())).toBeInstanceOf(AnthropicMessagesClient);
+        expect(createLLMClient(buildConfig({ apiFormat: undefined }))).toBeInstanceOf(OpenAICompatibleClient);
+    });
+
+    it('should drive WordTranslationService unchanged', async () => {
+        vi.spyOn(promptLoaderModule, 'loadSystemPrompt').mockResolvedValue('Translate the target word.');
+        vi.spyOn(promptLoaderModule, 'loadUserPromptTemplate').mockResolvedValue('${targetWordSection}');
+        vi.spyOn(promptLoaderModule, 'loadFewshot').mockResolvedValue([]);
+        nextResponse = textResponse('{"word_translation":"光线","fragment_translation":"自然光线"}');
+
+        const service = new WordTranslationService(buildConfig());
+        await service.initialize();
+        const result = await service.translateWord({ word: 'light', sourceLanguage: 'en', targetLanguage: 'zh' });
+
+        expect(result.wordTranslation).toBe('光线');
+        expect(requests[0]?.body.system).toContain('Translate the target word.');
+        expect(requests[0]?.body.messages.at(-1)).toEqual({ role: 'user', content: expect.stringContaining('light') });
+    });
+});
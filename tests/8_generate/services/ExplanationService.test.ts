@@ -0,0 +1,90 @@
+/**
+ * Explanation Service Tests
+ */
+
+import { describe, expect, it } from 'vitest';
+import { parseExplanationResponse } from '@/8_generate/services/ExplanationService';
+import { buildExplanationPromptVariables } from '@/8_generate/utils/promptVariables';
+
+describe('parseExplanationResponse', () => {
+    it('should parse a complete explanation', () => {
+        const content = JSON.stringify({
+            part_of_speech: '名词',
+            grammatical_role: '作介词 with 的宾语',
+            collocations: ['natural light — 自然光', 'in the light of — 鉴于'],
+            register: '中性, 通用',
+            examples: [
+                { sentence: 'The light was too dim to read.', translation: '光线太暗, 无法阅读。' },
+                { sentence: 'She opened the curtains to let the light in.', translation: '她拉开窗帘让光线进来。' },
+            ],
+        });
+
+        expect(parseExplanationResponse(content)).toEqual({
+            partOfSpeech: '名词',
+            grammaticalRole: '作介词 with 的宾语',
+            collocations: ['natural light — 自然光', 'in the light of — 鉴于'],
+            register: '中性, 通用',
+            examples: [
+                { sentence: 'The light was too dim to read.', translation: '光线太暗, 无法阅读。' },
+                { sentence: 'She opened the curtains to let the light in.', translation: '她拉开窗帘让光线进来。' },
+            ],
+        });
+    });
+
+    it('should accept alternative keys and loose shapes', () => {
+        const content =
+            '```json\n{"pos": "noun", "grammaticalRole": "object", "idioms": "see the light; bring to light", ' +
+            '"usage_notes": "", "example_sentences": ["Turn on the light.", {"sentence": "A light rain.", "translation": "小雨"}, 3]}\n```';
+
+        expect(parseExplanationResponse(content)).toEqual({
+            partOfSpeech: 'noun',
+            grammaticalRole: 'object',
+            collocations: ['see the light', 'bring to light'],
+            register: undefined,
+            examples: [
+                { sentence: 'Turn on the light.', translation: '' },
+                { sentence: 'A light rain.', translation: '小雨' },
+            ],
+        });
+    });
+
+    it('should limit collocations and examples', () => {
+        const content = JSON.stringify({
+            grammatical_role: 'subject',
+            collocations: ['a', 'b', 'c', 'd', 'e', 'f', 'g'],
+            examples: ['1', '2', '3', '4'].map((sentence) => ({ sentence, translation: sentence })),
+        });
+
+        const result = parseExplanationResponse(content);
+        expect(result.collocations).toHaveLength(5);
+        expect(result.examples).toHaveLength(3);
+    });
+
+    it('should reject responses without a grammatical role', () => {
+        expect(() => parseExplanationResponse('{"part_of_speech": "noun", "examples": []}')).toThrow('grammatical_role');
+    });
+});
+
+describe('buildExplanationPromptVariables', () => {
+    it('should mark the target in the sentence and include the current translation', () => {
+        const variables = buildExplanationPromptVariables({
+            text: 'light',
+            translation: '光线',
+            leadingText: 'The room was filled with natural ',
+            trailingText: ' from the large windows.',
+            sourceLanguage: 'en',
+            targetLanguage: 'zh',
+        });
+
+        expect(variables.targetTextSection).toBe('# Target Word\nlight');
+        expect(variables.translationSection).toBe('# Current Translation\n光线');
+        expect(variables.sentenceSection).toBe('# Sentence\nThe room was filled with natural <target>light</target> from the large windows.');
+    });
+
+    it('should omit the sentence when there is no context', () => {
+        const variables = buildExplanationPromptVariables({ text: 'take off', translation: '起飞', textType: 'fragment' });
+
+        expect(variables.targetTextSection).toBe('# Target Fragment\ntake off');
+        expect(variables.sentenceSection).toBe('');
+    });
+});
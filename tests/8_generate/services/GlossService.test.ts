@@ -0,0 +1,65 @@
+/**
+ * Gloss Service Tests
+ */
+
+import { describe, expect, it } from 'vitest';
+import { parseGlossResponse } from '@/8_generate/services/GlossService';
+import { findTemplateVariables } from '@/8_generate/utils/promptOverrides';
+import { buildGlossPromptVariables } from '@/8_generate/utils/promptVariables';
+import { PROMPT_TEMPLATE_VARIABLES, TASK_GLOSS } from '@/8_generate/constants/GenerateConstants';
+import * as fs from 'fs';
+import * as path from 'path';
+
+describe('parseGlossResponse', () => {
+    it('should return the glosses in request order', () => {
+        const content = JSON.stringify({
+            glosses: [
+                { word: 'inviting', translation: '诱人的' },
+                { word: 'curtains', translation: ' 窗帘 ' },
+            ],
+        });
+
+        expect(parseGlossResponse(content, ['curtains', 'inviting'])).toEqual({
+            glosses: [
+                { word: 'curtains', translation: '窗帘' },
+                { word: 'inviting', translation: '诱人的' },
+            ],
+        });
+    });
+
+    it('should accept alternative keys, [word, translation] pairs and word maps', () => {
+        const aliased = '```json\n{"translations": [{"term": "Curtains", "gloss": "窗帘"}, ["inviting", "诱人的"]]}\n```';
+        expect(parseGlossResponse(aliased, ['curtains', 'inviting']).glosses).toEqual([
+            { word: 'curtains', translation: '窗帘' },
+            { word: 'inviting', translation: '诱人的' },
+        ]);
+
+        expect(parseGlossResponse('{"curtains": "窗帘"}', ['curtains', 'inviting']).glosses).toEqual([{ word: 'curtains', translation: '窗帘' }]);
+    });
+
+    it('should drop words that were not requested and reject responses without any requested word', () => {
+        const content = JSON.stringify({ glosses: [{ word: 'window', translation: '窗户' }] });
+
+        expect(() => parseGlossResponse(content, ['curtains'])).toThrow('No requested word');
+        expect(() => parseGlossResponse('{"glosses": "窗帘"}', ['curtains'])).toThrow('Missing glosses');
+    });
+});
+
+describe('buildGlossPromptVariables', () => {
+    it('should list the words and the paragraph', () => {
+        const variables = buildGlossPromptVariables({
+            words: ['curtains', 'inviting'],
+            paragraph: 'He opened the curtains.\nIt felt inviting.',
+            targetLanguage: 'zh',
+        });
+
+        expect(variables.wordsSection).toBe('# Word List\n- curtains\n- inviting');
+        expect(variables.paragraphSection).toBe('# Paragraph\nHe opened the curtains. It felt inviting.');
+    });
+
+    it('should match the variables used by the bundled template', () => {
+        const template = fs.readFileSync(path.resolve(__dirname, '../../../resources/8_generate', TASK_GLOSS, 'user_prompt_template.txt'), 'utf-8');
+
+        expect(findTemplateVariables(template)).toEqual(PROMPT_TEMPLATE_VARIABLES[TASK_GLOSS]);
+    });
+});
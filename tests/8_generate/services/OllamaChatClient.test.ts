@@ -0,0 +1,150 @@
+/**
+ * Ollama Chat Client Tests
+ *
+ * Runs the client and model discovery against a local stub HTTP server.
+ */
+
+import { afterAll, afterEach, beforeAll, describe, expect, it } from 'vitest';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import { buildOllamaEndpoint, listOllamaModels, OllamaChatClient } from '@/8_generate/services/llm/OllamaChatClient';
+import { createLLMClient } from '@/8_generate/services/llm/LLMClientFactory';
+import type { LLMConfig } from '@/8_generate/types/GenerateTypes';
+
+interface RecordedRequest {
+    method?: string;
+    url?: string;
+    body: any;
+}
+
+interface StubResponse {
+    status: number;
+    body: unknown;
+    delayMs?: number;
+}
+
+let server: http.Server;
+let baseUrl = '';
+let requests: RecordedRequest[] = [];
+let nextResponse: StubResponse = { status: 200, body: {} };
+
+function chatResponse(content: string): StubResponse {
+    return { status: 200, body: { model: 'llama3.1:8b', message: { role: 'assistant', content }, done: true, done_reason: 'stop' } };
+}
+
+function buildConfig(overrides: Partial<LLMConfig> = {}): LLMConfig {
+    return { apiFormat: 'ollama', apiKey: '', baseUrl, model: 'llama3.1:8b', ...overrides };
+}
+
+beforeAll(async () => {
+    server = http.createServer((req, res) => {
+        let raw = '';
+        req.on('data', (chunk) => (raw += chunk));
+        req.on('end', () => {
+            requests.push({ method: req.method, url: req.url, body: raw ? JSON.parse(raw) : null });
+            const { status, body, delayMs = 0 } = nextResponse;
+            setTimeout(() => {
+                res.writeHead(status, { 'Content-Type': 'application/json' });
+                res.end(JSON.stringify(body));
+            }, delayMs);
+        });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+afterEach(() => {
+    requests = [];
+    nextResponse = { status: 200, body: {} };
+});
+
+describe('OllamaChatClient', () => {
+    it('should build endpoints with or without the /api suffix', () => {
+        expect(buildOllamaEndpoint('http://127.0.0.1:11434', 'chat')).toBe('http://127.0.0.1:11434/api/chat');
+        expect(buildOllamaEndpoint('http://127.0.0.1:11434/api/', 'tags')).toBe('http://127.0.0.1:11434/api/tags');
+    });
+
+    it('should call /api/chat in JSON mode without streaming', async () => {
+        nextResponse = chatResponse('{"word_translation":"你好"}');
+        const client = new OllamaChatClient(buildConfig({ temperature: 0.2, maxTokens: 300 }));
+
+        const content = await client.generate([
+            { role: 'system', content: 'You are a translator.' },
+            { role: 'user', content: 'hello' },
+        ]);
+
+        expect(content).toBe('{"word_translation":"你好"}');
+        expect(requests[0]?.method).toBe('POST');
+        expect(requests[0]?.url).toBe('/api/chat');
+        expect(requests[0]?.body).toEqual({
+            model: 'llama3.1:8b',
+            messages: [
+                { role: 'system', content: 'You are a translator.' },
+                { role: 'user', content: 'hello' },
+            ],
+            format: 'json',
+            stream: false,
+            options: { temperature: 0.2, num_predict: 300 },
+        });
+    });
+
+    it('should not require an API key', () => {
+        expect(createLLMClient(buildConfig())).toBeInstanceOf(OllamaChatClient);
+        expect(() => new OllamaChatClient(buildConfig({ model: '' }))).toThrow('Missing required LLM configuration');
+    });
+
+    it('should explain missing models and surface server errors', async () => {
+        const client = new OllamaChatClient(buildConfig());
+
+        nextResponse = { status: 404, body: { error: "model 'llama3.1:8b' not found" } };
+        await expect(client.generate([{ role: 'user', content: 'x' }])).rejects.toThrow('ollama pull llama3.1:8b');
+
+        nextResponse = { status: 500, body: { error: 'out of memory' } };
+        await expect(client.generate([{ role: 'user', content: 'x' }])).rejects.toThrow('Ollama API error (500): out of memory');
+        await expect(client.generate([{ role: 'user', content: 'x' }])).rejects.toMatchObject({ name: 'LLMRequestError', type: 'providerError' });
+
+        nextResponse = { status: 400, body: { error: 'invalid options' } };
+        await expect(client.generate([{ role: 'user', content: 'x' }])).rejects.not.toMatchObject({ name: 'LLMRequestError' });
+    });
+
+    it('should report an unreachable server as a network failure', async () => {
+        const client = new OllamaChatClient(buildConfig({ baseUrl: 'http://127.0.0.1:9' }));
+
+        await expect(client.generate([{ role: 'user', content: 'x' }])).rejects.toMatchObject({ name: 'LLMRequestError', type: 'network' });
+    });
+
+    it('should honour the configured timeout', async () => {
+        nextResponse = { ...chatResponse('{}'), delayMs: 200 };
+
+        await expect(new OllamaChatClient(buildConfig({ timeout: 50 })).generate([{ role: 'user', content: 'x' }])).rejects.toThrow(
+            'Request timeout'
+        );
+        expect(await new OllamaChatClient(buildConfig({ timeout: 2000 })).generate([{ role: 'user', content: 'x' }])).toBe('{}');
+    });
+});
+
+describe('listOllamaModels', () => {
+    it('should list installed models from /api/tags, sorted and deduplicated', async () => {
+        nextResponse = {
+            status: 200,
+            body: { models: [{ name: 'qwen2.5:7b', model: 'qwen2.5:7b' }, { name: 'llama3.1:8b' }, { name: 'qwen2.5:7b' }] },
+        };
+
+        expect(await listOllamaModels(baseUrl)).toEqual(['llama3.1:8b', 'qwen2.5:7b']);
+        expect(requests[0]?.method).toBe('GET');
+        expect(requests[0]?.url).toBe('/api/tags');
+    });
+
+    it('should return an empty list when nothing is installed and throw on server errors', async () => {
+        nextResponse = { status: 200, body: { models: [] } };
+        expect(await listOllamaModels(baseUrl)).toEqual([]);
+
+        nextResponse = { status: 503, body: { error: 'starting' } };
+        await expect(listOllamaModels(baseUrl)).rejects.toThrow('Ollama API error (503): starting');
+    });
+});
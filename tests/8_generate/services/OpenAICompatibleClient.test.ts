@@ -0,0 +1,339 @@
+/**
+ * OpenAI-Compatible Client Streaming Tests
+ *
+ * Streams server-sent events from a local stub HTTP server through the client and WordTranslationService,
+ * and checks how structured output is requested and detected and how token usage is reported.
+ */
+
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import { OpenAICompatibleClient, detectStructuredOutputMode } from '@/8_generate/services/llm/OpenAICompatibleClient';
+import { WordTranslationService } from '@/8_generate/services/WordTranslationService';
+import * as promptLoaderModule from '@/8_generate/utils/promptLoader';
+import { ENDPOINT_CAPABILITIES_STORAGE_KEY, WORD_RESPONSE_SCHEMA } from '@/8_generate/constants/GenerateConstants';
+import { getEndpointKey } from '@/8_generate/utils/endpointCapabilities';
+import type { LLMConfig } from '@/8_generate/types/GenerateTypes';
+
+let server: http.Server;
+let baseUrl = '';
+let requestBodies: any[] = [];
+let nextChunks: string[] = [];
+// Sent as a final chunk without choices when set (stream_options.include_usage)
+let nextUsage: Record<string, number> | null = null;
+// Answers non-streaming requests when set
+let respond: ((body: any) => { status: number; json: unknown; headers?: Record<string, string> }) | null = null;
+// Answers streaming requests with an error when it returns one
+let rejectStream: ((body: any) => { status: number; json: unknown } | null) | null = null;
+
+function sseEvent(content: string): string {
+    const chunk = {
+        id: 'chatcmpl-test',
+        object: 'chat.completion.chunk',
+        created: 0,
+        model: 'gpt-test',
+        choices: [{ index: 0, delta: { content }, finish_reason: null }],
+    };
+    return `data: ${JSON.stringify(chunk)}\n\n`;
+}
+
+function completion(message: Record<string, unknown>): unknown {
+    return {
+        id: 'chatcmpl-test',
+        object: 'chat.completion',
+        created: 0,
+        model: 'gpt-test',
+        choices: [{ index: 0, message: { role: 'assistant', content: null, ...message }, finish_reason: 'stop' }],
+    };
+}
+
+function badRequest(message: string): { status: number; json: unknown } {
+    return { status: 400, json: { error: { message, type: 'invalid_request_error' } } };
+}
+
+function buildConfig(overrides: Partial<LLMConfig> = {}): LLMConfig {
+    return { apiKey: 'sk-test', baseUrl, model: 'gpt-test', ...overrides };
+}
+
+beforeAll(async () => {
+    server = http.createServer((req, res) => {
+        let raw = '';
+        req.on('data', (chunk) => (raw += chunk));
+        req.on('end', () => {
+            const body = raw ? JSON.parse(raw) : null;
+            requestBodies.push(body);
+            if (respond && !body?.stream) {
+                const { status, json, headers } = respond(body);
+                res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+                res.end(JSON.stringify(json));
+                return;
+            }
+            const rejection = body?.stream ? rejectStream?.(body) : null;
+            if (rejection) {
+                res.writeHead(rejection.status, { 'Content-Type': 'application/json' });
+                res.end(JSON.stringify(rejection.json));
+                return;
+            }
+            res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+            for (const content of nextChunks) {
+                res.write(sseEvent(content));
+            }
+            if (nextUsage) {
+                const chunk = { id: 'chatcmpl-test', object: 'chat.completion.chunk', created: 0, model: 'gpt-test', choices: [], usage: nextUsage };
+                res.write(`data: ${JSON.stringify(chunk)}\n\n`);
+            }
+            res.end('data: [DONE]\n\n');
+        });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+});
+
+afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+afterEach(() => {
+    requestBodies = [];
+    nextChunks = [];
+    nextUsage = null;
+    respond = null;
+    rejectStream = null;
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+});
+
+describe('OpenAICompatibleClient.generateStream', () => {
+    it('should request a JSON stream and report accumulated content per chunk', async () => {
+        nextChunks = ['{"word_', 'translation":"光', '线"}'];
+        const onContent = vi.fn();
+
+        const content = await new OpenAICompatibleClient(buildConfig()).generateStream([{ role: 'user', content: 'light' }], onContent);
+
+        expect(content).toBe('{"word_translation":"光线"}');
+        expect(onContent.mock.calls.map(([text]) => text)).toEqual(['{"word_', '{"word_translation":"光', '{"word_translation":"光线"}']);
+        expect(requestBodies[0]?.stream).toBe(true);
+        expect(requestBodies[0]?.response_format).toEqual({ type: 'json_object' });
+    });
+
+    it('should reject an empty stream', async () => {
+        await expect(new OpenAICompatibleClient(buildConfig()).generateStream([{ role: 'user', content: 'x' }], () => {})).rejects.toThrow(
+            'empty content'
+        );
+    });
+});
+
+describe('WordTranslationService streaming', () => {
+    it('should push partial translations and still validate the final response', async () => {
+        vi.spyOn(promptLoaderModule, 'loadSystemPrompt').mockResolvedValue('Translate the target word.');
+        vi.spyOn(promptLoaderModule, 'loadUserPromptTemplate').mockResolvedValue('${targetWordSection}');
+        vi.spyOn(promptLoaderModule, 'loadFewshot').mockResolvedValue([]);
+        const service = new WordTranslationService(buildConfig());
+        await service.initialize();
+
+        nextChunks = ['{"word_translation":"光', '线","fragment_translation":"自然', '光线"}'];
+        const onPartial = vi.fn();
+        const result = await service.translateWord({ word: 'light', targetLanguage: 'zh' }, onPartial);
+
+        expect(result).toEqual({ wordTranslation: '光线', fragmentTranslation: '自然光线' });
+        expect(onPartial).toHaveBeenCalledWith({ translation: '光', sentenceTranslation: undefined });
+        expect(onPartial).toHaveBeenLastCalledWith({ translation: '光线', sentenceTranslation: '自然光线' });
+
+        // Partial text never replaces validation of the complete response
+        nextChunks = ['{"fragment_translation":"自然光线"}'];
+        await expect(service.translateWord({ word: 'light', targetLanguage: 'zh' }, vi.fn())).rejects.toThrow('Could not parse');
+    });
+});
+
+describe('structured output', () => {
+    const messages = [{ role: 'user' as const, content: 'light' }];
+
+    it('should send a strict schema with nullable optional fields', async () => {
+        respond = () => ({ status: 200, json: completion({ content: '{"word_translation":"光"}' }) });
+
+        await new OpenAICompatibleClient(buildConfig({ structuredOutput: 'json_schema' })).generate(messages, { responseSchema: WORD_RESPONSE_SCHEMA });
+
+        const format = requestBodies[0]?.response_format;
+        expect(format?.type).toBe('json_schema');
+        expect(format?.json_schema.strict).toBe(true);
+        expect(format?.json_schema.schema.required).toEqual([...Object.keys(WORD_RESPONSE_SCHEMA.properties), 'alternative_senses']);
+        expect(format?.json_schema.schema.properties.word_translation.type).toBe('string');
+        expect(format?.json_schema.schema.properties.lemma.type).toEqual(['string', 'null']);
+    });
+
+    it('should send array properties as nullable arrays of strict objects', async () => {
+        respond = () => ({ status: 200, json: completion({ content: '{"word_translation":"光"}' }) });
+
+        await new OpenAICompatibleClient(buildConfig({ structuredOutput: 'json_schema' })).generate(messages, { responseSchema: WORD_RESPONSE_SCHEMA });
+
+        const senses = requestBodies[0]?.response_format?.json_schema.schema.properties.alternative_senses;
+        expect(senses.type).toEqual(['array', 'null']);
+        expect(senses.items.required).toEqual(['translation', 'gloss', 'example']);
+        expect(senses.items.additionalProperties).toBe(false);
+        expect(senses.items.properties.gloss.type).toBe('string');
+    });
+
+    it('should read the arguments of a forced function call', async () => {
+        respond = () => ({
+            status: 200,
+            json: completion({
+                tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'word_translation', arguments: '{"word_translation":"光"}' } }],
+            }),
+        });
+
+        const content = await new OpenAICompatibleClient(buildConfig({ structuredOutput: 'tool_call' })).generate(messages, {
+            responseSchema: WORD_RESPONSE_SCHEMA,
+        });
+
+        expect(content).toBe('{"word_translation":"光"}');
+        expect(requestBodies[0]?.tool_choice).toEqual({ type: 'function', function: { name: 'word_translation' } });
+        expect(requestBodies[0]?.response_format).toBeUndefined();
+    });
+
+    it('should use the mode cached for the endpoint and model', async () => {
+        const storageData = { [ENDPOINT_CAPABILITIES_STORAGE_KEY]: { [getEndpointKey(`${baseUrl}/`, 'gpt-test')]: { structuredOutput: 'text', detectedAt: 0 } } };
+        vi.stubGlobal('chrome', { storage: { local: { get: vi.fn(async (key: string) => ({ [key]: (storageData as any)[key] })) } } });
+        respond = () => ({ status: 200, json: completion({ content: 'Sure: {"word_translation":"光"}' }) });
+
+        await new OpenAICompatibleClient(buildConfig()).generate(messages, { responseSchema: WORD_RESPONSE_SCHEMA });
+
+        expect(requestBodies[0]).not.toHaveProperty('response_format');
+        expect(requestBodies[0]).not.toHaveProperty('tools');
+    });
+
+    it('should retry as plain text when the endpoint rejects response_format, and remember that', async () => {
+        respond = (body) =>
+            body.response_format
+                ? badRequest("'response_format.type' : value is not one of the allowed values")
+                : { status: 200, json: completion({ content: 'Sure: {"word_translation":"光"}' }) };
+        const set = vi.fn(async () => {});
+        vi.stubGlobal('chrome', { storage: { local: { get: vi.fn(async () => ({})), set } } });
+        const client = new OpenAICompatibleClient(buildConfig());
+
+        await expect(client.generate(messages)).resolves.toBe('Sure: {"word_translation":"光"}');
+        await expect(client.generate(messages)).resolves.toBe('Sure: {"word_translation":"光"}');
+
+        expect(requestBodies.map((body) => 'response_format' in body)).toEqual([true, false, false]);
+        const store = (set.mock.calls[0] as unknown as [Record<string, any>])[0][ENDPOINT_CAPABILITIES_STORAGE_KEY];
+        expect(store[getEndpointKey(baseUrl, 'gpt-test')]).toMatchObject({ structuredOutput: 'text' });
+    });
+
+    it('should retry a stream as plain text when the endpoint rejects response_format', async () => {
+        nextChunks = ['{"word_translation":"光"}'];
+        rejectStream = (body) => (body.response_format ? badRequest('response_format is not supported by this model') : null);
+        vi.stubGlobal('chrome', { storage: { local: { get: vi.fn(async () => ({})), set: vi.fn(async () => {}) } } });
+
+        await expect(new OpenAICompatibleClient(buildConfig()).generateStream(messages, () => {})).resolves.toBe('{"word_translation":"光"}');
+        expect(requestBodies.map((body) => 'response_format' in body)).toEqual([true, false]);
+        expect(requestBodies[1]?.stream_options).toEqual({ include_usage: true });
+    });
+
+    it('should not downgrade on bad requests unrelated to the structured output parameters', async () => {
+        respond = () => badRequest('Invalid model');
+
+        await expect(new OpenAICompatibleClient(buildConfig()).generate(messages)).rejects.toThrow('Invalid model');
+        expect(requestBodies).toHaveLength(1);
+    });
+
+    it('should report server errors as provider failures', async () => {
+        // The SDK would otherwise retry the request itself
+        respond = () => ({ status: 503, json: { error: { message: 'Service Unavailable' } }, headers: { 'x-should-retry': 'false' } });
+
+        await expect(new OpenAICompatibleClient(buildConfig()).generate(messages)).rejects.toMatchObject({
+            name: 'LLMRequestError',
+            type: 'providerError',
+        });
+    });
+
+    it('should report an unreachable endpoint as a network failure', async () => {
+        const client = new OpenAICompatibleClient(buildConfig({ baseUrl: 'http://127.0.0.1:9/v1', structuredOutput: 'json_object' }));
+
+        await expect(client.generate(messages)).rejects.toMatchObject({ name: 'LLMRequestError', type: 'network' });
+    });
+
+    it('should detect the first mode the endpoint accepts', async () => {
+        respond = (body) =>
+            body.response_format?.type === 'json_schema'
+                ? badRequest("Unsupported parameter: 'response_format'")
+                : {
+                      status: 200,
+                      json: completion({ tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'capability_probe', arguments: '{"answer":"yes"}' } }] }),
+                  };
+
+        await expect(detectStructuredOutputMode(buildConfig())).resolves.toBe('tool_call');
+        expect(requestBodies).toHaveLength(2);
+    });
+
+    it('should fall back to plain text when every mode is rejected', async () => {
+        respond = (body) => (body.response_format || body.tools ? badRequest('Bad request') : { status: 200, json: completion({ content: 'yes' }) });
+
+        await expect(detectStructuredOutputMode(buildConfig())).resolves.toBe('text');
+        expect(requestBodies).toHaveLength(3);
+    });
+
+    it('should fail detection on errors unrelated to the mode', async () => {
+        respond = () => ({ status: 401, json: { error: { message: 'Invalid API key', type: 'invalid_request_error' } } });
+
+        await expect(detectStructuredOutputMode(buildConfig())).rejects.toThrow('Invalid API key');
+        expect(requestBodies).toHaveLength(1);
+    });
+});
+
+describe('token usage', () => {
+    const messages = [{ role: 'user' as const, content: 'light' }];
+    const usage = { prompt_tokens: 120, completion_tokens: 30, total_tokens: 150 };
+
+    it('should report the usage of a completion', async () => {
+        respond = () => ({ status: 200, json: { ...(completion({ content: '{"word_translation":"光"}' }) as object), usage } });
+        const onUsage = vi.fn();
+
+        await new OpenAICompatibleClient(buildConfig({ structuredOutput: 'json_object', onUsage })).generate(messages);
+
+        expect(onUsage).toHaveBeenCalledWith({ model: 'gpt-test', promptTokens: 120, completionTokens: 30 });
+    });
+
+    it('should request and report the usage of a stream', async () => {
+        nextChunks = ['{"word_translation":"光"}'];
+        nextUsage = usage;
+        const onUsage = vi.fn();
+
+        await new OpenAICompatibleClient(buildConfig({ onUsage })).generateStream(messages, () => {});
+
+        expect(requestBodies[0]?.stream_options).toEqual({ include_usage: true });
+        expect(onUsage).toHaveBeenCalledTimes(1);
+        expect(onUsage).toHaveBeenCalledWith({ model: 'gpt-test', promptTokens: 120, completionTokens: 30 });
+    });
+
+    it('should retry a stream without stream_options when the endpoint rejects it, and remember that', async () => {
+        nextChunks = ['{"word_translation":"光"}'];
+        rejectStream = (body) => (body.stream_options ? badRequest("Unrecognized request argument supplied: stream_options") : null);
+        const set = vi.fn(async () => {});
+        vi.stubGlobal('chrome', { storage: { local: { get: vi.fn(async () => ({})), set } } });
+        const client = new OpenAICompatibleClient(buildConfig({ onUsage: vi.fn() }));
+
+        await expect(client.generateStream(messages, () => {})).resolves.toBe('{"word_translation":"光"}');
+        await expect(client.generateStream(messages, () => {})).resolves.toBe('{"word_translation":"光"}');
+
+        expect(requestBodies.map((body) => 'stream_options' in body)).toEqual([true, false, false]);
+        const store = (set.mock.calls[0] as unknown as [Record<string, any>])[0][ENDPOINT_CAPABILITIES_STORAGE_KEY];
+        expect(store[getEndpointKey(baseUrl, 'gpt-test')]).toMatchObject({ structuredOutput: 'json_object', streamUsage: false });
+    });
+
+    it('should report the error when the stream is rejected without stream_options too', async () => {
+        rejectStream = () => badRequest('Invalid model');
+
+        await expect(new OpenAICompatibleClient(buildConfig()).generateStream(messages, () => {})).rejects.toThrow('Invalid model');
+        expect(requestBodies).toHaveLength(2);
+        expect('stream_options' in requestBodies[1]).toBe(false);
+    });
+
+    it('should not fail the request when the usage listener throws', async () => {
+        respond = () => ({ status: 200, json: { ...(completion({ content: 'yes' }) as object), usage } });
+        const onUsage = vi.fn(() => {
+            throw new Error('storage unavailable');
+        });
+
+        await expect(new OpenAICompatibleClient(buildConfig({ structuredOutput: 'text', onUsage })).generate(messages)).resolves.toBe('yes');
+    });
+});
@@ -0,0 +1,69 @@
+/**
+ * Reading Service Tests
+ */
+
+import { describe, expect, it } from 'vitest';
+import { parseReadingResponse } from '@/8_generate/services/ReadingService';
+import { findTemplateVariables } from '@/8_generate/utils/promptOverrides';
+import { buildReadingPromptVariables } from '@/8_generate/utils/promptVariables';
+import { PROMPT_TEMPLATE_VARIABLES, TASK_READING } from '@/8_generate/constants/GenerateConstants';
+import * as fs from 'fs';
+import * as path from 'path';
+
+describe('parseReadingResponse', () => {
+    it('should parse pinyin segments', () => {
+        const content = JSON.stringify({
+            segments: [
+                { text: '银', reading: 'yín' },
+                { text: '行', reading: 'háng' },
+                { text: '。', reading: '' },
+            ],
+        });
+
+        expect(parseReadingResponse(content, '银行。')).toEqual({
+            segments: [
+                { text: '银', reading: 'yín' },
+                { text: '行', reading: 'háng' },
+                { text: '。', reading: '' },
+            ],
+        });
+    });
+
+    it('should accept alternative keys and [text, reading] pairs', () => {
+        const content = '```json\n{"readings": [{"word": "今日", "kana": " きょう "}, ["は", null], {"surface": "晴れ", "furigana": "はれ"}]}\n```';
+
+        expect(parseReadingResponse(content, '今日は晴れ').segments).toEqual([
+            { text: '今日', reading: 'きょう' },
+            { text: 'は', reading: '' },
+            { text: '晴れ', reading: 'はれ' },
+        ]);
+    });
+
+    it('should ignore whitespace the model dropped between segments', () => {
+        const content = JSON.stringify({ segments: [{ text: '한국어', reading: 'hangugeo' }, { text: '공부', reading: 'gongbu' }] });
+
+        expect(parseReadingResponse(content, '한국어 공부').segments).toHaveLength(2);
+    });
+
+    it('should reject segments that do not reproduce the text', () => {
+        const content = JSON.stringify({ segments: [{ text: '银', reading: 'yín' }] });
+
+        expect(() => parseReadingResponse(content, '银行')).toThrow('do not match');
+        expect(() => parseReadingResponse('{"reading": "yínháng"}', '银行')).toThrow('segments');
+    });
+});
+
+describe('buildReadingPromptVariables', () => {
+    it('should mark the target in the sentence', () => {
+        const variables = buildReadingPromptVariables({ text: '银行', leadingText: '我明天去', trailingText: '办事。', sourceLanguage: 'zh' });
+
+        expect(variables.targetTextSection).toBe('# Target Text\n银行');
+        expect(variables.sentenceSection).toBe('# Sentence\n我明天去<target>银行</target>办事。');
+    });
+
+    it('should match the variables used by the bundled template', () => {
+        const template = fs.readFileSync(path.resolve(__dirname, '../../../resources/8_generate', TASK_READING, 'user_prompt_template.txt'), 'utf-8');
+
+        expect(findTemplateVariables(template)).toEqual(PROMPT_TEMPLATE_VARIABLES[TASK_READING]);
+    });
+});
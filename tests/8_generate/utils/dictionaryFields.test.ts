@@ -0,0 +1,87 @@
+/**
+ * Dictionary Fields Tests
+ */
+
+import { describe, expect, it } from 'vitest';
+import { WORD_MAX_ALTERNATIVE_SENSES } from '@/8_generate/constants/GenerateConstants';
+import { parseAlternativeSenses, parseDictionaryFields } from '@/8_generate/utils/dictionaryFields';
+
+const base = { word_translation: '跑', fragment_translation: '她跑回家' };
+
+describe('parseDictionaryFields', () => {
+    it('should keep valid fields', () => {
+        expect(
+            parseDictionaryFields({ ...base, lemma: 'run', phonetic: 'rʌn', part_of_speech: 'v.', definition: '用腿快速移动' })
+        ).toEqual({ lemma: 'run', phonetic: 'rʌn', partOfSpeech: 'v.', definition: '用腿快速移动' });
+    });
+
+    it('should normalize IPA delimiters and full part of speech names', () => {
+        expect(parseDictionaryFields({ ...base, phonetic: '/ˈlaʊ̯fn̩/', part_of_speech: 'Verb' })).toEqual({
+            phonetic: 'ˈlaʊ̯fn̩',
+            partOfSpeech: 'v.',
+        });
+        expect(parseDictionaryFields({ ...base, phonetic: '[ɡlɪmps]', part_of_speech: 'adj' })).toEqual({
+            phonetic: 'ɡlɪmps',
+            partOfSpeech: 'adj.',
+        });
+    });
+
+    it('should drop invalid fields without failing', () => {
+        const fields = parseDictionaryFields({
+            ...base,
+            lemma: 'run\nrunning',
+            phonetic: 'rʌn (US)',
+            part_of_speech: 'gerund',
+            definition: 'x'.repeat(201),
+        });
+
+        expect(fields).toBeUndefined();
+        expect(parseDictionaryFields({ ...base, lemma: 42 as never, definition: '  ' })).toBeUndefined();
+    });
+});
+
+describe('parseAlternativeSenses', () => {
+    it('should keep valid senses and map alternative key names', () => {
+        const senses = parseAlternativeSenses(
+            {
+                ...base,
+                alternative_senses: [
+                    { translation: '经营', gloss: '管理或运营', example: 'She runs a small bakery.' },
+                    { meaning: '运行', definition: '机器或程序工作', exampleSentence: 'The engine runs smoothly.' },
+                ],
+            },
+            '跑'
+        );
+
+        expect(senses).toEqual([
+            { translation: '经营', gloss: '管理或运营', example: 'She runs a small bakery.' },
+            { translation: '运行', gloss: '机器或程序工作', example: 'The engine runs smoothly.' },
+        ]);
+    });
+
+    it('should drop invalid and repeated senses and keep at most the maximum', () => {
+        const valid = Array.from({ length: WORD_MAX_ALTERNATIVE_SENSES + 2 }, (_, index) => ({ translation: `义项${index}`, gloss: `释义${index}` }));
+        const senses = parseAlternativeSenses(
+            {
+                ...base,
+                alternative_senses: [
+                    { translation: '跑', gloss: '用腿快速移动' },
+                    { translation: '流动' },
+                    'run' as never,
+                    ...valid,
+                    { translation: '义项0', gloss: '重复' },
+                ],
+            },
+            '跑'
+        );
+
+        expect(senses).toHaveLength(WORD_MAX_ALTERNATIVE_SENSES);
+        expect(senses?.[0]).toEqual({ translation: '义项0', gloss: '释义0' });
+    });
+
+    it('should return undefined without senses', () => {
+        expect(parseAlternativeSenses(base, '跑')).toBeUndefined();
+        expect(parseAlternativeSenses({ ...base, alternative_senses: [] }, '跑')).toBeUndefined();
+        expect(parseAlternativeSenses({ ...base, alternative_senses: 'none' as never }, '跑')).toBeUndefined();
+    });
+});
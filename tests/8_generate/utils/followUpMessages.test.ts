@@ -0,0 +1,81 @@
+/**
+ * Follow-up Messages Tests
+ */
+
+import { describe, expect, it } from 'vitest';
+import { FOLLOW_UP_MAX_HISTORY_TURNS } from '@/8_generate/constants/GenerateConstants';
+import type { FollowUpChatRequest, FollowUpTurn } from '@/8_generate/types/GenerateTypes';
+import { buildFollowUpMessages } from '@/8_generate/utils/followUpMessages';
+
+const prompts = {
+    systemPrompt: 'Answer questions about the translation.\n\n# Translation Context\n',
+    userPromptTemplate: '${targetTextSection}\n\n${translationSection}\n\n${sentenceSection}',
+};
+
+function createRequest(overrides: Partial<FollowUpChatRequest> = {}): FollowUpChatRequest {
+    return {
+        text: 'light',
+        translation: '光线',
+        textType: 'word',
+        leadingText: 'The room was filled with natural ',
+        trailingText: ' from the large windows.',
+        targetLanguage: 'zh',
+        history: [],
+        question: '  Is this formal?  ',
+        ...overrides,
+    };
+}
+
+describe('buildFollowUpMessages', () => {
+    it('should preload the context as system and assistant messages', () => {
+        const messages = buildFollowUpMessages(prompts, createRequest({ sentenceTranslation: '房间里充满了自然光。' }));
+
+        expect(messages).toHaveLength(3);
+        expect(messages[0]?.role).toBe('system');
+        expect(messages[0]?.content).toContain('# Translation Context');
+        expect(messages[0]?.content).toContain('# Translation\n光线');
+        expect(messages[0]?.content).toContain('The room was filled with natural <target>light</target> from the large windows.');
+        expect(messages[1]).toEqual({ role: 'assistant', content: JSON.stringify({ reply: '光线\n房间里充满了自然光。' }) });
+        expect(messages[2]).toEqual({ role: 'user', content: 'Is this formal?' });
+    });
+
+    it('should send earlier answers in the JSON reply format', () => {
+        const history: FollowUpTurn[] = [
+            { role: 'user', content: 'Can it be plural?' },
+            { role: 'assistant', content: '可以, 例如 "the lights"。' },
+        ];
+
+        const messages = buildFollowUpMessages(prompts, createRequest({ history }));
+
+        expect(messages.slice(2, 4)).toEqual([
+            { role: 'user', content: 'Can it be plural?' },
+            { role: 'assistant', content: JSON.stringify({ reply: '可以, 例如 "the lights"。' }) },
+        ]);
+        expect(messages[messages.length - 1]).toEqual({ role: 'user', content: 'Is this formal?' });
+    });
+
+    it('should keep only the most recent turns', () => {
+        const history: FollowUpTurn[] = [];
+        for (let index = 0; index < FOLLOW_UP_MAX_HISTORY_TURNS + 2; index++) {
+            history.push({ role: 'user', content: `question ${index}` }, { role: 'assistant', content: `answer ${index}` });
+        }
+
+        const messages = buildFollowUpMessages(prompts, createRequest({ history }));
+
+        // System, shown translation, kept history and the new question
+        expect(messages).toHaveLength(2 + FOLLOW_UP_MAX_HISTORY_TURNS * 2 + 1);
+        expect(messages[2]).toEqual({ role: 'user', content: 'question 2' });
+    });
+
+    it('should place few-shot examples before the translation', () => {
+        const fewshot = [
+            { role: 'user' as const, content: 'Why?' },
+            { role: 'assistant' as const, content: '{"reply": "Because."}' },
+        ];
+
+        const messages = buildFollowUpMessages({ ...prompts, fewshot }, createRequest());
+
+        expect(messages.slice(1, 3)).toEqual(fewshot);
+        expect(messages[3]?.role).toBe('assistant');
+    });
+});
@@ -0,0 +1,121 @@
+/**
+ * JSON Response Parser Tests
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import { parseJsonResponse, parseWithCorrectiveRetry, repairJson } from '@/8_generate/utils/jsonResponseParser';
+import { FRAGMENT_RESPONSE_KEY_ALIASES, WORD_RESPONSE_KEY_ALIASES } from '@/8_generate/constants/GenerateConstants';
+import type { ChatMessage, LLMClient } from '@/8_generate/types/GenerateTypes';
+
+/**
+ * Malformed outputs collected from OpenAI-compatible servers that ignore response_format
+ */
+const WORD_CORPUS: Array<[string, string, Record<string, unknown>]> = [
+    ['code fence', '```json\n{"word_translation": "光", "fragment_translation": "自然光"}\n```', { word_translation: '光', fragment_translation: '自然光' }],
+    [
+        'prose around the object',
+        'Sure! Here is the translation:\n{"word_translation": "跑", "fragment_translation": "她跑回家"}\nLet me know if you need anything else.',
+        { word_translation: '跑', fragment_translation: '她跑回家' },
+    ],
+    ['trailing comma', '{"word_translation": "银行", "fragment_translation": "河岸",}', { word_translation: '银行', fragment_translation: '河岸' }],
+    ['single quotes', "{'word_translation': 'bank', 'fragment_translation': 'the river\\'s bank'}", { word_translation: 'bank', fragment_translation: "the river's bank" }],
+    ['unquoted keys', '{word_translation: "书", fragment_translation: "一本书"}', { word_translation: '书', fragment_translation: '一本书' }],
+    [
+        'comments',
+        '{\n  // the word\n  "word_translation": "猫", /* sentence */ "fragment_translation": "黑猫"\n}',
+        { word_translation: '猫', fragment_translation: '黑猫' },
+    ],
+    ['camelCase keys', '{"wordTranslation": "狗", "fragmentTranslation": "小狗", "partOfSpeech": "n."}', { word_translation: '狗', fragment_translation: '小狗', part_of_speech: 'n.' }],
+    ['alias keys', '{"translation": "水", "sentence_translation": "一杯水", "ipa": "ˈwɔːtər"}', { word_translation: '水', fragment_translation: '一杯水', phonetic: 'ˈwɔːtər' }],
+    ['nested result object', '{"result": {"word_translation": "鱼", "fragment_translation": "吃鱼"}}', { word_translation: '鱼', fragment_translation: '吃鱼' }],
+    ['truncated output', '{"word_translation": "树", "fragment_translation": "一棵高大的', { word_translation: '树', fragment_translation: '一棵高大的' }],
+    [
+        'unescaped inner quotes',
+        '{"word_translation": "你好", "fragment_translation": "他说"你好"然后离开了"}',
+        { word_translation: '你好', fragment_translation: '他说"你好"然后离开了' },
+    ],
+    ['missing comma between lines', '{\n"word_translation": "花"\n"fragment_translation": "红花"\n}', { word_translation: '花', fragment_translation: '红花' }],
+    ['typographic delimiter quotes', '{“word_translation”: “雨”, “fragment_translation”: “下雨了”}', { word_translation: '雨', fragment_translation: '下雨了' }],
+    ['Python literals', "{'word_translation': 'yes', 'fragment_translation': None, 'is_phrase': True}", { word_translation: 'yes', fragment_translation: null, is_phrase: true }],
+    ['braces in prose before the object', 'Use the {format} below.\n{"word_translation": "月"}', { word_translation: '月' }],
+];
+
+describe('parseJsonResponse', () => {
+    it.each(WORD_CORPUS)('should recover word responses: %s', (_, content, expected) => {
+        expect(parseJsonResponse(content, WORD_RESPONSE_KEY_ALIASES)).toMatchObject(expected);
+    });
+
+    it('should map fragment aliases without overwriting expected keys', () => {
+        expect(parseJsonResponse('{"translatedText": "你好世界", "sentence": "我说你好世界"}', FRAGMENT_RESPONSE_KEY_ALIASES)).toMatchObject({
+            translation: '你好世界',
+            sentence_translation: '我说你好世界',
+        });
+        expect(parseJsonResponse('{"translation": "甲", "result": "乙"}', FRAGMENT_RESPONSE_KEY_ALIASES)).toMatchObject({ translation: '甲' });
+    });
+
+    it('should throw when there is no JSON object', () => {
+        expect(() => parseJsonResponse('I cannot translate this word.', WORD_RESPONSE_KEY_ALIASES)).toThrow('No JSON object found');
+    });
+});
+
+describe('repairJson', () => {
+    it('should drop leading and doubled commas and keep numbers', () => {
+        expect(JSON.parse(repairJson('{, "a": 1,, "b": -2.5e3, "c": [1, 2,],}'))).toEqual({ a: 1, b: -2500, c: [1, 2] });
+    });
+});
+
+describe('parseWithCorrectiveRetry', () => {
+    const messages: ChatMessage[] = [
+        { role: 'system', content: 'system' },
+        { role: 'user', content: 'translate' },
+    ];
+    const parse = (content: string) => {
+        const parsed = parseJsonResponse(content, WORD_RESPONSE_KEY_ALIASES);
+        if (typeof parsed.word_translation !== 'string') {
+            throw new Error('Missing word_translation in response');
+        }
+        return parsed.word_translation;
+    };
+    const createClient = (responses: string[]) => {
+        const generate = vi.fn(async () => responses.shift() ?? '');
+        return { client: { generate, generateStream: vi.fn() } as unknown as LLMClient, generate };
+    };
+
+    it('should not call the model again when the response parses', async () => {
+        const { client, generate } = createClient([]);
+
+        await expect(parseWithCorrectiveRetry(client, messages, '{"word_translation": "光"}', ['word_translation'], parse)).resolves.toBe('光');
+        expect(generate).not.toHaveBeenCalled();
+    });
+
+    it('should ask once for valid JSON and parse the corrected response', async () => {
+        const { client, generate } = createClient(['{"word_translation": "光"}']);
+
+        await expect(parseWithCorrectiveRetry(client, messages, 'The translation is 光.', ['word_translation'], parse)).resolves.toBe('光');
+
+        expect(generate).toHaveBeenCalledTimes(1);
+        const retryMessages = generate.mock.calls[0]?.[0] as unknown as ChatMessage[];
+        expect(retryMessages.slice(0, 2)).toEqual(messages);
+        expect(retryMessages[2]).toEqual({ role: 'assistant', content: 'The translation is 光.' });
+        expect(retryMessages[3]?.role).toBe('user');
+        expect(retryMessages[3]?.content).toContain('"word_translation"');
+    });
+
+    it('should skip the empty assistant message and throw when the retry fails too', async () => {
+        const { client, generate } = createClient(['Still no JSON']);
+
+        await expect(parseWithCorrectiveRetry(client, messages, '  ', ['word_translation'], parse)).rejects.toThrow('No JSON object found');
+
+        const retryMessages = generate.mock.calls[0]?.[0] as unknown as ChatMessage[];
+        expect(retryMessages).toHaveLength(3);
+        expect(generate).toHaveBeenCalledTimes(1);
+    });
+
+    it('should report the original parse error when the retry request fails', async () => {
+        const client = { generate: vi.fn().mockRejectedValue(new Error('HTTP 500')), generateStream: vi.fn() } as unknown as LLMClient;
+
+        await expect(parseWithCorrectiveRetry(client, messages, '{"meaning": "光"}', ['word_translation'], parse)).rejects.toThrow(
+            'Missing word_translation'
+        );
+    });
+});
@@ -0,0 +1,46 @@
+/**
+ * Partial JSON Parser Tests
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import { createPartialTranslationReader, extractPartialJsonString } from '@/8_generate/utils/partialJsonParser';
+
+describe('extractPartialJsonString', () => {
+    it('should return undefined until the value has started', () => {
+        expect(extractPartialJsonString('', 'word_translation')).toBeUndefined();
+        expect(extractPartialJsonString('{"word_tr', 'word_translation')).toBeUndefined();
+        expect(extractPartialJsonString('{"word_translation": ', 'word_translation')).toBeUndefined();
+    });
+
+    it('should decode incomplete and complete string values', () => {
+        expect(extractPartialJsonString('{"word_translation": "光', 'word_translation')).toBe('光');
+        expect(extractPartialJsonString('{"word_translation":"光线","fragment_translation":"自然', 'fragment_translation')).toBe('自然');
+        expect(extractPartialJsonString('{"word_translation":"光线"}', 'word_translation')).toBe('光线');
+    });
+
+    it('should decode escapes and drop a trailing incomplete escape', () => {
+        expect(extractPartialJsonString('{"translation":"say \\"hi\\"\\n', 'translation')).toBe('say "hi"\n');
+        expect(extractPartialJsonString('{"translation":"caf\\u00e9', 'translation')).toBe('café');
+        expect(extractPartialJsonString('{"translation":"caf\\u00', 'translation')).toBe('caf');
+        expect(extractPartialJsonString('{"translation":"end\\', 'translation')).toBe('end');
+    });
+});
+
+describe('createPartialTranslationReader', () => {
+    it('should report each change once the translation has started', () => {
+        const onPartial = vi.fn();
+        const read = createPartialTranslationReader('word_translation', 'fragment_translation', onPartial);
+
+        read('{"word_');
+        read('{"word_translation":"光');
+        read('{"word_translation":"光线');
+        read('{"word_translation":"光线",');
+        read('{"word_translation":"光线","fragment_translation":"自然光');
+
+        expect(onPartial.mock.calls).toEqual([
+            [{ translation: '光', sentenceTranslation: undefined }],
+            [{ translation: '光线', sentenceTranslation: undefined }],
+            [{ translation: '光线', sentenceTranslation: '自然光' }],
+        ]);
+    });
+});
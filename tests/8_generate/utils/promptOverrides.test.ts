@@ -0,0 +1,147 @@
+/**
+ * Prompt Overrides Tests
+ *
+ * Covers override storage/resolution, template validation and the sample preview.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+    findTemplateVariables,
+    getPromptOverride,
+    getStoredPromptOverride,
+    resetPromptOverride,
+    savePromptOverride,
+    validatePromptOverride,
+} from '@/8_generate/utils/promptOverrides';
+import { buildPromptPreview } from '@/8_generate/utils/promptPreview';
+import {
+    PROMPT_OVERRIDES_STORAGE_KEY,
+    PROMPT_OVERRIDE_ALL_LANGUAGES,
+    PROMPT_TEMPLATE_VARIABLES,
+    TASK_FRAGMENT_ONLY_TRANSLATION,
+    TASK_FRAGMENT_TRANSLATION,
+    TASK_WORD_TRANSLATION,
+} from '@/8_generate/constants/GenerateConstants';
+
+let storageData: Record<string, unknown> = {};
+
+vi.stubGlobal('chrome', {
+    storage: {
+        local: {
+            get: vi.fn(async (key: string) => ({ [key]: storageData[key] })),
+            set: vi.fn(async (payload: Record<string, unknown>) => {
+                storageData = { ...storageData, ...JSON.parse(JSON.stringify(payload)) };
+            }),
+        },
+    },
+});
+
+function readBundledTemplate(task: string): string {
+    return fs.readFileSync(path.resolve(__dirname, '../../../resources/8_generate', task, 'user_prompt_template.txt'), 'utf-8');
+}
+
+const fewshot = [
+    { role: 'user' as const, content: 'example request' },
+    { role: 'assistant' as const, content: '{"word_translation":"example"}' },
+];
+
+describe('promptOverrides', () => {
+    beforeEach(() => {
+        storageData = {};
+        vi.clearAllMocks();
+    });
+
+    it('should match the variables used by the bundled templates', () => {
+        for (const task of [TASK_WORD_TRANSLATION, TASK_FRAGMENT_TRANSLATION, TASK_FRAGMENT_ONLY_TRANSLATION]) {
+            expect(findTemplateVariables(readBundledTemplate(task))).toEqual(PROMPT_TEMPLATE_VARIABLES[task]);
+        }
+    });
+
+    it('should report missing and unknown template variables', () => {
+        const template = readBundledTemplate(TASK_WORD_TRANSLATION).replace('${sourceAuthorSection}', '${authorSection}');
+
+        expect(validatePromptOverride(TASK_WORD_TRANSLATION, { userPromptTemplate: template })).toEqual({
+            valid: false,
+            missingVariables: ['sourceAuthorSection'],
+            unknownVariables: ['authorSection'],
+            invalidFewshot: false,
+        });
+        expect(validatePromptOverride(TASK_WORD_TRANSLATION, { userPromptTemplate: readBundledTemplate(TASK_WORD_TRANSLATION) }).valid).toBe(
+            true
+        );
+    });
+
+    it('should reject few-shot examples that are not user/assistant pairs', () => {
+        expect(validatePromptOverride(TASK_WORD_TRANSLATION, { fewshot }).valid).toBe(true);
+        expect(validatePromptOverride(TASK_WORD_TRANSLATION, { fewshot: fewshot.slice(0, 1) }).invalidFewshot).toBe(true);
+        expect(validatePromptOverride(TASK_WORD_TRANSLATION, { fewshot: [...fewshot].reverse() }).invalidFewshot).toBe(true);
+        expect(validatePromptOverride(TASK_WORD_TRANSLATION, { fewshot: 'not json' as never }).invalidFewshot).toBe(true);
+    });
+
+    it('should prefer language-specific fields over all-language fields', async () => {
+        await savePromptOverride(TASK_WORD_TRANSLATION, PROMPT_OVERRIDE_ALL_LANGUAGES, { systemPrompt: 'legal', fewshot });
+        await savePromptOverride(TASK_WORD_TRANSLATION, 'zh', { systemPrompt: 'legal (zh)' });
+
+        expect(await getPromptOverride(TASK_WORD_TRANSLATION, 'zh-CN')).toEqual({ systemPrompt: 'legal (zh)', fewshot });
+        expect(await getPromptOverride(TASK_WORD_TRANSLATION, 'ja')).toEqual({ systemPrompt: 'legal', fewshot });
+        expect(await getPromptOverride(TASK_FRAGMENT_TRANSLATION, 'zh')).toBeUndefined();
+    });
+
+    it('should drop empty fields and reset to bundled prompts', async () => {
+        const template = readBundledTemplate(TASK_WORD_TRANSLATION);
+        await savePromptOverride(TASK_WORD_TRANSLATION, 'de', { systemPrompt: '  ', userPromptTemplate: template, fewshot: [] });
+        expect(await getStoredPromptOverride(TASK_WORD_TRANSLATION, 'de')).toEqual({ userPromptTemplate: template });
+
+        await resetPromptOverride(TASK_WORD_TRANSLATION, 'de');
+        expect(await getStoredPromptOverride(TASK_WORD_TRANSLATION, 'de')).toBeUndefined();
+        expect(storageData[PROMPT_OVERRIDES_STORAGE_KEY]).toEqual({});
+    });
+
+    it('should add the sections a template saved before they existed lacks', async () => {
+        const legacyTemplate = readBundledTemplate(TASK_FRAGMENT_TRANSLATION).replace(/\s*\$\{(glossarySection|translationStyleSection)\}/g, '');
+        storageData[PROMPT_OVERRIDES_STORAGE_KEY] = { [`${TASK_FRAGMENT_TRANSLATION}:zh`]: { userPromptTemplate: legacyTemplate } };
+
+        const resolved = await getPromptOverride(TASK_FRAGMENT_TRANSLATION, 'zh');
+        expect(resolved?.userPromptTemplate).toBe(`${legacyTemplate.trimEnd()}\n\n\${glossarySection}\n\n\${translationStyleSection}\n`);
+        expect(validatePromptOverride(TASK_FRAGMENT_TRANSLATION, resolved ?? {}).valid).toBe(true);
+
+        const stored = await getStoredPromptOverride(TASK_FRAGMENT_TRANSLATION, 'zh');
+        expect(stored?.userPromptTemplate).toBe(resolved?.userPromptTemplate);
+    });
+
+    it('should resolve no override when storage is unavailable', async () => {
+        vi.mocked(chrome.storage.local.get).mockRejectedValueOnce(new Error('no storage'));
+
+        expect(await getPromptOverride(TASK_WORD_TRANSLATION, 'zh')).toBeUndefined();
+    });
+});
+
+describe('buildPromptPreview', () => {
+    it('should render the sample request into system, few-shot and user messages', () => {
+        const messages = buildPromptPreview(
+            TASK_WORD_TRANSLATION,
+            { systemPrompt: 'You are a legal translator.', userPromptTemplate: readBundledTemplate(TASK_WORD_TRANSLATION), fewshot },
+            'zh'
+        );
+
+        expect(messages.map((message) => message.role)).toEqual(['system', 'user', 'assistant', 'user']);
+        expect(messages[0]?.content).toBe('You are a legal translator.');
+        expect(messages[3]?.content).toContain('# Target Word\nlight');
+        expect(messages[3]?.content).toContain('<fragment>The room was filled with natural <target>light</target> from the large windows.</fragment>');
+        expect(messages[3]?.content).not.toContain('${');
+    });
+
+    it('should render fragment-only previews without a sentence', () => {
+        const messages = buildPromptPreview(
+            TASK_FRAGMENT_ONLY_TRANSLATION,
+            { systemPrompt: 'system', userPromptTemplate: readBundledTemplate(TASK_FRAGMENT_ONLY_TRANSLATION), fewshot: [] },
+            'ja'
+        );
+
+        expect(messages).toHaveLength(2);
+        expect(messages[1]?.content).toContain('<fragment>natural light</fragment>');
+        expect(messages[1]?.content).not.toContain('<sentence>');
+    });
+});